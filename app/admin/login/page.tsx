@@ -0,0 +1,20 @@
+import { LoginForm } from '@/components/login-form';
+import { OIDCClient, safeNextPath } from '@/lib/oidc';
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 flex items-center justify-center p-6">
+      <LoginForm
+        next={safeNextPath(next)}
+        oidcEnabled={OIDCClient.isConfigured()}
+        error={error}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Activity } from 'lucide-react';
+
+export default function LogoutPage() {
+  const router = useRouter();
+
+  useEffect(() => {
+    fetch('/api/auth/logout', { method: 'POST' })
+      .catch((error) => console.error('Sign-out failed:', error))
+      .finally(() => router.replace('/admin/login'));
+  }, [router]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 flex items-center justify-center">
+      <div className="text-center space-y-4">
+        <Activity className="w-16 h-16 text-blue-400 animate-spin mx-auto" />
+        <h2 className="text-2xl font-bold text-white">Signing out...</h2>
+      </div>
+    </div>
+  );
+}
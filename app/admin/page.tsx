@@ -1,8 +1,25 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { DashboardFilterBar } from '@/components/dashboard-filter-bar';
+import { EventsPanel } from '@/components/events-panel';
+import { ExportButton } from '@/components/export-button';
+import { SiteSwitcher } from '@/components/site-switcher';
+import { VisitorMap } from '@/components/visitor-map';
+import {
+  BreakdownChart,
+  ChangeIndicator,
+  DailyKpiStrip,
+  RepeatVisitorsChart,
+  TimeSeriesChart,
+} from '@/components/dashboard-charts';
+import { toSearchParams, type DashboardFilters, type DimensionFilter } from '@/lib/dashboard-filters';
+import type { DashboardStats, DashboardVisitor } from '@/lib/dashboard-types';
+import type { Granularity } from '@/lib/time-buckets';
+import type { CompareMode } from '@/lib/comparison';
 import { 
   Users, 
   Globe, 
@@ -13,56 +30,64 @@ import {
   Clock,
   TrendingUp,
   Eye,
-  AlertTriangle
+  AlertTriangle,
+  Wifi,
+  Layers,
+  LogOut,
+  Timer,
+  UserCircle
 } from 'lucide-react';
 
-interface Visitor {
-  id: string;
-  ip: string;
-  country: string;
-  region: string;
-  city: string;
-  latitude: number;
-  longitude: number;
-  timezone: string;
-  browser: string;
-  os: string;
-  device: string;
-  userAgent: string;
-  visitedAt: string;
+interface AdminUser {
+  username: string;
+  name: string | null;
+  role: 'viewer' | 'analyst' | 'admin';
 }
 
-interface DashboardStats {
-  totalVisitors: number;
-  uniqueCountries: number;
-  uniqueDevices: number;
-  recentVisitors: Visitor[];
-  topCountries: Array<{ country: string; count: number }>;
-  topBrowsers: Array<{ browser: string; count: number }>;
-  topDevices: Array<{ device: string; count: number }>;
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${remainder}s` : `${remainder}s`;
 }
 
 export default function AdminDashboard() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<DashboardFilters>({});
+  const [granularity, setGranularity] = useState<Granularity>('hour');
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [live, setLive] = useState(false);
 
   useEffect(() => {
-    fetchDashboardData();
-    
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(fetchDashboardData, 30000);
-    return () => clearInterval(interval);
+    fetch('/api/auth/me')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setUser(data?.user ?? null))
+      .catch((err) => console.error('Failed to load user:', err));
   }, []);
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = useCallback(async () => {
     try {
-      const response = await fetch('/api/admin/dashboard');
+      // Days and time buckets follow the analyst's own time zone
+      const params = toSearchParams(filters);
+      params.set('tz', Intl.DateTimeFormat().resolvedOptions().timeZone);
+      params.set('granularity', granularity);
+      // A comparison period needs a range to shift
+      if (compare && filters.from) params.set('compare', compare);
+
+      const response = await fetch(`/api/admin/dashboard?${params}`);
+      if (response.status === 401) {
+        // Session expired or was revoked
+        window.location.href = `/admin/login?next=${encodeURIComponent(window.location.pathname)}`;
+        return;
+      }
+
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Failed to fetch dashboard data');
+        throw new Error(data.message || 'Failed to fetch dashboard data');
       }
       
-      const data = await response.json();
       setStats(data);
       setError(null);
     } catch (err) {
@@ -70,6 +95,52 @@ export default function AdminDashboard() {
     } finally {
       setLoading(false);
     }
+  }, [filters, granularity, compare]);
+
+  useEffect(() => {
+    fetchDashboardData();
+    
+    // Aggregates are refreshed every 5 minutes; recent visitors and Active Now arrive live
+    const interval = setInterval(fetchDashboardData, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchDashboardData]);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/admin/live?${toSearchParams(filters)}`);
+    // Counters cover the whole selected site, so they only replace the figure of an unfiltered view
+    const unfiltered = Object.entries(filters).every(([key, value]) => key === 'site' || !value);
+
+    source.onopen = () => setLive(true);
+    source.onerror = () => setLive(false);
+
+    source.addEventListener('visitor', (event) => {
+      const visitor: DashboardVisitor = JSON.parse(event.data);
+      setStats((current) => {
+        if (!current || current.recentVisitors.some((recent) => recent.id === visitor.id)) return current;
+        return {
+          ...current,
+          totalVisitors: current.totalVisitors + 1,
+          recentVisitors: [visitor, ...current.recentVisitors].slice(0, 20),
+        };
+      });
+    });
+
+    source.addEventListener('counters', (event) => {
+      if (!unfiltered) return;
+      const counters: { activeSessions: number } = JSON.parse(event.data);
+      setStats((current) => current && {
+        ...current,
+        sessionStats: { ...current.sessionStats, activeSessions: counters.activeSessions },
+      });
+    });
+
+    return () => source.close();
+  }, [filters]);
+
+  const totals = stats?.comparison?.totals;
+
+  const addFilter = (key: DimensionFilter, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
   };
 
   if (loading) {
@@ -114,23 +185,59 @@ export default function AdminDashboard() {
                 <p className="text-slate-300">Real-time visitor tracking & analytics</p>
               </div>
             </div>
-            <Badge variant="destructive" className="text-lg px-4 py-2">
-              <Activity className="w-4 h-4 mr-2" />
-              LIVE MONITORING
-            </Badge>
+            <div className="flex items-center space-x-4">
+              {user && (
+                <div className="flex items-center space-x-2 text-sm text-slate-300">
+                  <UserCircle className="w-5 h-5 text-blue-400" />
+                  <span>{user.name || user.username}</span>
+                  <Badge variant="secondary" className="text-xs">{user.role}</Badge>
+                  {user.role !== 'viewer' && (
+                    <Link href="/admin/visitors" className="text-slate-400 hover:text-white">
+                      Explorer
+                    </Link>
+                  )}
+                  <a href="/admin/logout" className="text-slate-400 hover:text-white">
+                    Sign out
+                  </a>
+                </div>
+              )}
+              <Badge variant="destructive" className="text-lg px-4 py-2">
+                <Activity className="w-4 h-4 mr-2" />
+                LIVE MONITORING
+              </Badge>
+            </div>
           </div>
         </div>
       </div>
 
       {/* Stats Overview */}
       <div className="container mx-auto px-6 py-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <SiteSwitcher
+            value={filters.site}
+            onChange={(site) => setFilters((current) => ({ ...current, site }))}
+          />
+          <DashboardFilterBar
+            filters={filters}
+            onChange={setFilters}
+            rollupsIncluded={stats?.rollupsIncluded ?? true}
+            compare={filters.from ? compare : null}
+            onCompareChange={setCompare}
+          />
+          {user && user.role !== 'viewer' && <ExportButton filters={filters} />}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card className="bg-slate-800/50 border-blue-700 backdrop-blur-sm">
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-slate-400">Total Visitors</p>
-                  <p className="text-3xl font-bold text-blue-400">{stats?.totalVisitors || 0}</p>
+                  <p className="text-sm text-slate-400">Unique Visitors</p>
+                  <p className="text-3xl font-bold text-blue-400">{stats?.uniqueVisitors || 0}</p>
+                  <ChangeIndicator change={totals?.uniqueVisitors} />
+                  <p className="text-xs text-slate-500">
+                    {stats?.totalVisitors || 0} pageviews <ChangeIndicator change={totals?.totalVisitors} />
+                  </p>
                 </div>
                 <Users className="w-12 h-12 text-blue-400 opacity-80" />
               </div>
@@ -143,6 +250,7 @@ export default function AdminDashboard() {
                 <div>
                   <p className="text-sm text-slate-400">Countries</p>
                   <p className="text-3xl font-bold text-green-400">{stats?.uniqueCountries || 0}</p>
+                  <ChangeIndicator change={totals?.uniqueCountries} />
                 </div>
                 <Globe className="w-12 h-12 text-green-400 opacity-80" />
               </div>
@@ -155,6 +263,7 @@ export default function AdminDashboard() {
                 <div>
                   <p className="text-sm text-slate-400">Device Types</p>
                   <p className="text-3xl font-bold text-purple-400">{stats?.uniqueDevices || 0}</p>
+                  <ChangeIndicator change={totals?.uniqueDevices} />
                 </div>
                 <Monitor className="w-12 h-12 text-purple-400 opacity-80" />
               </div>
@@ -166,7 +275,7 @@ export default function AdminDashboard() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-slate-400">Active Now</p>
-                  <p className="text-3xl font-bold text-orange-400">{stats?.recentVisitors.length || 0}</p>
+                  <p className="text-3xl font-bold text-orange-400">{stats?.sessionStats.activeSessions || 0}</p>
                 </div>
                 <TrendingUp className="w-12 h-12 text-orange-400 opacity-80" />
               </div>
@@ -174,6 +283,118 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
+        {/* Session Overview */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <Card className="bg-slate-800/50 border-cyan-700 backdrop-blur-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Sessions</p>
+                  <p className="text-3xl font-bold text-cyan-400">{stats?.sessionStats.totalSessions || 0}</p>
+                  <ChangeIndicator change={totals?.totalSessions} />
+                  <p className="text-xs text-slate-500">
+                    {stats?.sessionStats.totalPageViews || 0} page views <ChangeIndicator change={totals?.totalPageViews} />
+                  </p>
+                </div>
+                <Activity className="w-12 h-12 text-cyan-400 opacity-80" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800/50 border-teal-700 backdrop-blur-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Pages / Session</p>
+                  <p className="text-3xl font-bold text-teal-400">{stats?.sessionStats.pagesPerSession || 0}</p>
+                  <ChangeIndicator change={totals?.pagesPerSession} />
+                </div>
+                <Layers className="w-12 h-12 text-teal-400 opacity-80" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800/50 border-pink-700 backdrop-blur-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Bounce Rate</p>
+                  <p className="text-3xl font-bold text-pink-400">{stats?.sessionStats.bounceRate || 0}%</p>
+                  <ChangeIndicator change={totals?.bounceRate} inverted />
+                </div>
+                <LogOut className="w-12 h-12 text-pink-400 opacity-80" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800/50 border-yellow-700 backdrop-blur-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Avg. Session</p>
+                  <p className="text-3xl font-bold text-yellow-400">
+                    {formatDuration(stats?.sessionStats.averageSessionDuration || 0)}
+                  </p>
+                  <ChangeIndicator change={totals?.averageSessionDuration} />
+                </div>
+                <Timer className="w-12 h-12 text-yellow-400 opacity-80" />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {stats && <DailyKpiStrip dailyStats={stats.dailyStats} />}
+
+        {/* Traffic & Breakdowns */}
+        {stats && (
+          <div className="space-y-8 mb-8">
+            <TimeSeriesChart
+              series={stats.timeSeries}
+              previous={stats.comparison?.timeSeries}
+              onGranularityChange={setGranularity}
+            />
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <BreakdownChart
+                title="Operating Systems"
+                icon={<Layers className="w-5 h-5" />}
+                rows={stats.topOS.map((row) => ({ label: row.os, count: row.count, visitors: row.visitors, change: row.change }))}
+                titleClassName="text-purple-300"
+                barClassName="bg-purple-400"
+                onSelect={(value) => addFilter('os', value)}
+              />
+              <BreakdownChart
+                title="Devices"
+                icon={<Monitor className="w-5 h-5" />}
+                rows={stats.topDevices.map((row) => ({ label: row.device, count: row.count, visitors: row.visitors, change: row.change }))}
+                titleClassName="text-teal-300"
+                barClassName="bg-teal-400"
+                onSelect={(value) => addFilter('device', value)}
+              />
+              <RepeatVisitorsChart
+                visitors={stats.repeatVisitors}
+                restricted={user?.role === 'viewer'}
+              />
+            </div>
+          </div>
+        )}
+
+        {stats && (
+          <EventsPanel
+            filters={filters}
+            granularity={granularity}
+            onGranularityChange={setGranularity}
+          />
+        )}
+
+        {stats && (
+          <VisitorMap
+            locations={stats.visitorLocations}
+            countries={stats.countryVisits}
+            onSelectCountry={(country) => addFilter('country', country)}
+            onSelectCity={(city) => addFilter('city', city)}
+          />
+        )}
+
         {/* Analytics Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           {/* Top Countries */}
@@ -192,7 +413,9 @@ export default function AdminDashboard() {
                       <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-sm font-bold">
                         {index + 1}
                       </div>
-                      <span className="text-white">{country.country}</span>
+                      <button onClick={() => addFilter('country', country.country)} className="text-white hover:underline">
+                        {country.country}
+                      </button>
                     </div>
                     <div className="flex items-center space-x-2">
                       <div className="w-20 h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -203,7 +426,9 @@ export default function AdminDashboard() {
                           }}
                         />
                       </div>
+                      <ChangeIndicator change={country.change} />
                       <span className="text-blue-300 font-mono text-sm w-8">{country.count}</span>
+                      <span className="text-slate-500 text-xs whitespace-nowrap">{country.visitors ?? 0} unique</span>
                     </div>
                   </div>
                 ))}
@@ -227,7 +452,9 @@ export default function AdminDashboard() {
                       <div className="w-8 h-8 bg-green-600 rounded-full flex items-center justify-center text-sm font-bold">
                         {index + 1}
                       </div>
-                      <span className="text-white truncate max-w-32">{browser.browser}</span>
+                      <button onClick={() => addFilter('browser', browser.browser)} className="text-white truncate max-w-32 hover:underline">
+                        {browser.browser}
+                      </button>
                     </div>
                     <div className="flex items-center space-x-2">
                       <div className="w-20 h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -238,7 +465,9 @@ export default function AdminDashboard() {
                           }}
                         />
                       </div>
+                      <ChangeIndicator change={browser.change} />
                       <span className="text-green-300 font-mono text-sm w-8">{browser.count}</span>
+                      <span className="text-slate-500 text-xs whitespace-nowrap">{browser.visitors ?? 0} unique</span>
                     </div>
                   </div>
                 ))}
@@ -247,14 +476,141 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
+        {/* Network & Security Grid */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          {/* Top ISPs */}
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-cyan-300">
+                <Wifi className="w-5 h-5" />
+                <span>Top Networks</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {stats?.topISPs.map((isp, index) => (
+                  <div key={isp.isp} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-cyan-600 rounded-full flex items-center justify-center text-sm font-bold">
+                        {index + 1}
+                      </div>
+                      <span className="text-white truncate max-w-48">{isp.isp}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <div className="w-20 h-2 bg-slate-700 rounded-full overflow-hidden">
+                        <div 
+                          className="h-full bg-cyan-400 rounded-full" 
+                          style={{ 
+                            width: `${(isp.count / (stats?.totalVisitors || 1)) * 100}%` 
+                          }}
+                        />
+                      </div>
+                      <ChangeIndicator change={isp.change} />
+                      <span className="text-cyan-300 font-mono text-sm w-8">{isp.count}</span>
+                      <span className="text-slate-500 text-xs whitespace-nowrap">{isp.visitors ?? 0} unique</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-6">
+                {stats?.topConnections.map((connection) => (
+                  <Badge key={connection.connection} variant="secondary" className="text-xs">
+                    {connection.connection}: {connection.count}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Security */}
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-red-300">
+                <Shield className="w-5 h-5" />
+                <span>Security</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div>
+                  <p className="text-sm text-slate-400">VPN</p>
+                  <p className="text-2xl font-bold text-red-400">{stats?.securityStats.vpn || 0}</p>
+                  <ChangeIndicator change={totals?.vpn} inverted />
+                </div>
+                <div>
+                  <p className="text-sm text-slate-400">Proxy</p>
+                  <p className="text-2xl font-bold text-orange-400">{stats?.securityStats.proxy || 0}</p>
+                  <ChangeIndicator change={totals?.proxy} inverted />
+                </div>
+                <div>
+                  <p className="text-sm text-slate-400">Hosting</p>
+                  <p className="text-2xl font-bold text-yellow-400">{stats?.securityStats.hosting || 0}</p>
+                  <ChangeIndicator change={totals?.hosting} inverted />
+                </div>
+              </div>
+              <div className="space-y-2">
+                {stats?.securityStats.threatLevels.map((level) => (
+                  <div key={level.threat} className="flex items-center justify-between">
+                    <Badge variant={level.threat === 'low' ? 'secondary' : 'destructive'} className="text-xs">
+                      {level.threat.toUpperCase()}
+                    </Badge>
+                    <span className="text-red-300 font-mono text-sm">{level.count}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Client Environment */}
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-purple-300">
+                <Monitor className="w-5 h-5" />
+                <span>Client Environment</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+                <div className="space-y-2">
+                  <p className="text-slate-400">Languages</p>
+                  {stats?.topLanguages.map((language) => (
+                    <div key={language.language} className="flex justify-between">
+                      <span className="text-white">{language.language}</span>
+                      <span className="text-purple-300 font-mono">{language.count}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-slate-400">Screen Resolutions</p>
+                  {stats?.topScreenResolutions.map((screen) => (
+                    <div key={screen.resolution} className="flex justify-between">
+                      <span className="text-white font-mono">{screen.resolution}</span>
+                      <span className="text-purple-300 font-mono">{screen.count}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-slate-400">Referrers</p>
+                  {stats?.topReferrers.map((referrer) => (
+                    <div key={referrer.referrer} className="flex justify-between space-x-2">
+                      <span className="text-white truncate">{referrer.referrer}</span>
+                      <span className="text-purple-300 font-mono">{referrer.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
         {/* Recent Visitors */}
         <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
           <CardHeader>
             <CardTitle className="flex items-center space-x-2 text-red-300">
               <Clock className="w-5 h-5" />
               <span>Recent Visitors</span>
-              <Badge variant="destructive" className="ml-auto">
-                LIVE
+              <Badge variant={live ? 'destructive' : 'secondary'} className="ml-auto">
+                {live ? 'LIVE' : 'RECONNECTING'}
               </Badge>
             </CardTitle>
           </CardHeader>
@@ -264,8 +620,11 @@ export default function AdminDashboard() {
                 <thead>
                   <tr className="border-b border-slate-700 text-slate-400">
                     <th className="text-left py-3 px-2">Time</th>
-                    <th className="text-left py-3 px-2">IP Address</th>
+                    <th className="text-left py-3 px-2">
+                      {stats?.ipStorageMode === 'hashed' ? 'Visitor ID' : 'IP Address'}
+                    </th>
                     <th className="text-left py-3 px-2">Location</th>
+                    <th className="text-left py-3 px-2">Network</th>
                     <th className="text-left py-3 px-2">Device</th>
                     <th className="text-left py-3 px-2">Browser</th>
                     <th className="text-left py-3 px-2">OS</th>
@@ -278,26 +637,57 @@ export default function AdminDashboard() {
                         {new Date(visitor.visitedAt).toLocaleTimeString()}
                       </td>
                       <td className="py-3 px-2">
-                        <span className="font-mono text-red-300">{visitor.ip}</span>
+                        {user && user.role !== 'viewer' ? (
+                          <Link
+                            href={`/admin/visitors/${visitor.id}`}
+                            className="font-mono text-red-300 truncate max-w-32 inline-block align-bottom hover:underline"
+                          >
+                            {visitor.ip}
+                          </Link>
+                        ) : (
+                          <span className="font-mono text-red-300 truncate max-w-32 inline-block align-bottom">{visitor.ip}</span>
+                        )}
                       </td>
                       <td className="py-3 px-2">
                         <div className="flex items-center space-x-1">
                           <MapPin className="w-3 h-3 text-blue-400" />
                           <span className="text-white text-xs">
-                            {visitor.city}, {visitor.country}
+                            <button onClick={() => addFilter('city', visitor.city)} className="hover:underline">
+                              {visitor.city}
+                            </button>
+                            {', '}
+                            <button onClick={() => addFilter('country', visitor.country)} className="hover:underline">
+                              {visitor.country}
+                            </button>
                           </span>
                         </div>
                       </td>
                       <td className="py-3 px-2">
-                        <Badge variant="secondary" className="text-xs">
-                          {visitor.device}
-                        </Badge>
+                        <div className="flex items-center space-x-1">
+                          <span className="text-white text-xs max-w-32 truncate">{visitor.isp}</span>
+                          {(visitor.vpn || visitor.proxy) && (
+                            <Badge variant="destructive" className="text-xs">
+                              {visitor.vpn ? 'VPN' : 'PROXY'}
+                            </Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-3 px-2">
+                        <button onClick={() => addFilter('device', visitor.device)}>
+                          <Badge variant="secondary" className="text-xs">
+                            {visitor.device}
+                          </Badge>
+                        </button>
                       </td>
                       <td className="py-3 px-2 text-white text-xs max-w-32 truncate">
-                        {visitor.browser}
+                        <button onClick={() => addFilter('browser', visitor.browser)} className="hover:underline">
+                          {visitor.browser}
+                        </button>
                       </td>
                       <td className="py-3 px-2 text-white text-xs max-w-32 truncate">
-                        {visitor.os}
+                        <button onClick={() => addFilter('os', visitor.os)} className="hover:underline">
+                          {visitor.os}
+                        </button>
                       </td>
                     </tr>
                   ))}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Activity, AlertTriangle, Fingerprint, Layers, Monitor, ShieldCheck, User } from 'lucide-react';
+
+type Identifier = 'ip' | 'fingerprint' | 'session' | 'consent';
+
+interface RelatedVisit {
+  id: string;
+  ip: string;
+  country: string;
+  city: string;
+  device: string;
+  browser: string;
+  os: string;
+  url: string | null;
+  visitedAt: string;
+  matchedOn: Identifier[];
+}
+
+interface VisitorDetail {
+  visitor: Record<string, unknown> & { id: string; ip: string; visitedAt: string };
+  userAgent: {
+    ua: string;
+    browser: { name?: string; version?: string; major?: string };
+    engine: { name?: string; version?: string };
+    os: { name?: string; version?: string };
+    device: { vendor?: string; model?: string; type?: string };
+    cpu: { architecture?: string };
+  };
+  session: {
+    id: string;
+    startedAt: string;
+    lastSeenAt: string;
+    endedAt: string | null;
+    duration: number;
+    pageCount: number;
+    entryPath: string;
+    exitPath: string;
+    pageViews: Array<{ id: string; path: string; referrer: string | null; viewedAt: string }>;
+  } | null;
+  consent: {
+    id: string;
+    analytics: boolean;
+    fingerprinting: boolean;
+    doNotTrack: boolean;
+    globalPrivacyControl: boolean;
+    createdAt: string;
+    updatedAt: string;
+  } | null;
+  relatedVisits: RelatedVisit[];
+  relatedLimit: number;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function Fields({ entries }: { entries: Array<[string, unknown]> }) {
+  return (
+    <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+      {entries.map(([key, value]) => (
+        <div key={key} className="flex justify-between gap-4 border-b border-slate-800 py-1">
+          <dt className="text-slate-400">{key}</dt>
+          <dd className="text-white font-mono text-xs text-right break-all">{formatValue(value)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default function VisitorDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [detail, setDetail] = useState<VisitorDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/visitors/${encodeURIComponent(id)}`)
+      .then(async (response) => {
+        if (response.status === 401) {
+          window.location.href = `/admin/login?next=${encodeURIComponent(window.location.pathname)}`;
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || 'Failed to fetch visitor');
+        setDetail(data);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'));
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-red-900 to-slate-800 flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <AlertTriangle className="w-16 h-16 text-red-400 mx-auto" />
+          <h2 className="text-2xl font-bold text-white">Error Loading Visitor</h2>
+          <p className="text-red-300">{error}</p>
+          <Link href="/admin/visitors" className="text-slate-300 hover:text-white">
+            Back to explorer
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 flex items-center justify-center">
+        <Activity className="w-16 h-16 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  const { visitor, userAgent, session, consent, relatedVisits, relatedLimit } = detail;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 text-white">
+      <div className="border-b border-slate-700 bg-slate-900/50 backdrop-blur-sm">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <User className="w-8 h-8 text-blue-400" />
+            <div>
+              <h1 className="text-2xl font-bold text-white font-mono">{visitor.ip}</h1>
+              <p className="text-slate-300">{new Date(visitor.visitedAt).toLocaleString()}</p>
+            </div>
+          </div>
+          <Link href="/admin/visitors" className="text-sm text-slate-400 hover:text-white">
+            Back to explorer
+          </Link>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-6 py-8 space-y-6">
+        <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-blue-300">
+              <Fingerprint className="w-5 h-5" />
+              <span>Stored Record</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Fields entries={Object.entries(visitor)} />
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-purple-300">
+              <Monitor className="w-5 h-5" />
+              <span>Parsed User Agent</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Fields entries={[
+              ['Browser', [userAgent.browser.name, userAgent.browser.version].filter(Boolean).join(' ')],
+              ['Engine', [userAgent.engine.name, userAgent.engine.version].filter(Boolean).join(' ')],
+              ['OS', [userAgent.os.name, userAgent.os.version].filter(Boolean).join(' ')],
+              ['Device type', userAgent.device.type ?? 'desktop'],
+              ['Device vendor', userAgent.device.vendor],
+              ['Device model', userAgent.device.model],
+              ['CPU', userAgent.cpu.architecture],
+            ]} />
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-cyan-300">
+                <Layers className="w-5 h-5" />
+                <span>Session</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {session ? (
+                <>
+                  <Fields entries={[
+                    ['id', session.id],
+                    ['startedAt', session.startedAt],
+                    ['lastSeenAt', session.lastSeenAt],
+                    ['endedAt', session.endedAt],
+                    ['duration', `${session.duration}s`],
+                    ['pageCount', session.pageCount],
+                    ['entryPath', session.entryPath],
+                    ['exitPath', session.exitPath],
+                  ]} />
+                  <ol className="space-y-1 text-xs">
+                    {session.pageViews.map((view) => (
+                      <li key={view.id} className="flex justify-between gap-4">
+                        <span className="font-mono text-white truncate">{view.path}</span>
+                        <span className="text-slate-400 whitespace-nowrap">
+                          {new Date(view.viewedAt).toLocaleTimeString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </>
+              ) : (
+                <p className="text-sm text-slate-400">No session recorded for this visit.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-green-300">
+                <ShieldCheck className="w-5 h-5" />
+                <span>Consent</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {consent ? (
+                <Fields entries={Object.entries(consent)} />
+              ) : (
+                <p className="text-sm text-slate-400">No consent record linked to this visit.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-red-300">
+              <span>Other Visits With the Same Identifier</span>
+              <Badge variant="secondary" className="ml-auto">
+                {relatedVisits.length >= relatedLimit ? `${relatedLimit}+` : relatedVisits.length}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {relatedVisits.length === 0 ? (
+              <p className="text-sm text-slate-400">No other visits share an identifier with this one.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700 text-slate-400">
+                      <th className="text-left py-3 px-2">Time</th>
+                      <th className="text-left py-3 px-2">Matched On</th>
+                      <th className="text-left py-3 px-2">IP Address</th>
+                      <th className="text-left py-3 px-2">Location</th>
+                      <th className="text-left py-3 px-2">Device</th>
+                      <th className="text-left py-3 px-2">URL</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {relatedVisits.map((other) => (
+                      <tr key={other.id} className="border-b border-slate-800 hover:bg-slate-700/30 transition-colors">
+                        <td className="py-3 px-2 text-slate-300 font-mono text-xs whitespace-nowrap">
+                          <Link href={`/admin/visitors/${other.id}`} className="hover:underline">
+                            {new Date(other.visitedAt).toLocaleString()}
+                          </Link>
+                        </td>
+                        <td className="py-3 px-2 space-x-1">
+                          {other.matchedOn.map((identifier) => (
+                            <Badge key={identifier} variant="secondary" className="text-xs">{identifier}</Badge>
+                          ))}
+                        </td>
+                        <td className="py-3 px-2 font-mono text-red-300 text-xs">{other.ip}</td>
+                        <td className="py-3 px-2 text-white text-xs">{other.city}, {other.country}</td>
+                        <td className="py-3 px-2 text-white text-xs">{other.device} · {other.browser} · {other.os}</td>
+                        <td className="py-3 px-2 text-white text-xs max-w-48 truncate">{other.url}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { SiteSwitcher } from '@/components/site-switcher';
+import { Activity, AlertTriangle, ArrowDown, ArrowUp, Search } from 'lucide-react';
+
+interface VisitorRow {
+  id: string;
+  ip: string;
+  country: string;
+  city: string;
+  isp: string;
+  device: string;
+  browser: string;
+  os: string;
+  threat: string;
+  vpn: boolean;
+  proxy: boolean;
+  visitedAt: string;
+}
+
+interface SearchResult {
+  visitors: VisitorRow[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+type SortField = 'visitedAt' | 'country' | 'city' | 'isp' | 'device' | 'browser' | 'os' | 'threat';
+
+const COLUMNS: Array<{ field: SortField | null; label: string }> = [
+  { field: 'visitedAt', label: 'Time' },
+  { field: null, label: 'IP Address' },
+  { field: 'city', label: 'City' },
+  { field: 'country', label: 'Country' },
+  { field: 'isp', label: 'Network' },
+  { field: 'device', label: 'Device' },
+  { field: 'browser', label: 'Browser' },
+  { field: 'os', label: 'OS' },
+  { field: 'threat', label: 'Threat' },
+];
+
+// Exact-match fields offered next to the free-text box
+const FIELD_FILTERS = ['from', 'to', 'country', 'city', 'device', 'browser', 'os', 'isp', 'threat'] as const;
+
+type FieldFilter = typeof FIELD_FILTERS[number];
+
+export default function VisitorExplorer() {
+  const [site, setSite] = useState<string | undefined>();
+  const [query, setQuery] = useState('');
+  const [fields, setFields] = useState<Partial<Record<FieldFilter, string>>>({});
+  const [flags, setFlags] = useState<{ vpn?: string; proxy?: string }>({});
+  const [sort, setSort] = useState<SortField>('visitedAt');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ sort, order, page: String(page) });
+      if (site) params.set('site', site);
+      if (query.trim()) params.set('q', query.trim());
+      for (const [key, value] of Object.entries({ ...fields, ...flags })) {
+        if (value) params.set(key, value);
+      }
+
+      const response = await fetch(`/api/admin/visitors?${params}`);
+      if (response.status === 401) {
+        window.location.href = `/admin/login?next=${encodeURIComponent(window.location.pathname)}`;
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to search visitors');
+      }
+
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [site, query, fields, flags, sort, order, page]);
+
+  // Debounced so typing does not fire a request per key
+  useEffect(() => {
+    const timeout = setTimeout(search, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const toggleSort = (field: SortField) => {
+    if (field === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setOrder(field === 'visitedAt' ? 'desc' : 'asc');
+    }
+    setPage(1);
+  };
+
+  const setField = (key: FieldFilter, value: string) => {
+    setFields((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 text-white">
+      <div className="border-b border-slate-700 bg-slate-900/50 backdrop-blur-sm">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Search className="w-8 h-8 text-blue-400" />
+            <div>
+              <h1 className="text-3xl font-bold text-white">Visitor Explorer</h1>
+              <p className="text-slate-300">Search every stored visit</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <SiteSwitcher
+              value={site}
+              onChange={(value) => {
+                setSite(value);
+                setPage(1);
+              }}
+            />
+            <Link href="/admin" className="text-sm text-slate-400 hover:text-white">
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-6 py-8 space-y-6">
+        <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+          <CardContent className="p-6 space-y-4">
+            <input
+              type="search"
+              value={query}
+              onChange={(event) => {
+                setQuery(event.target.value);
+                setPage(1);
+              }}
+              placeholder="Search IP, city, ISP or user agent"
+              className="w-full rounded-lg border border-slate-600 bg-slate-900/60 px-4 py-2 text-white placeholder:text-slate-500"
+            />
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 text-sm">
+              {FIELD_FILTERS.map((key) => (
+                <label key={key} className="flex flex-col gap-1 text-slate-400">
+                  <span className="capitalize">{key}</span>
+                  <input
+                    type={key === 'from' || key === 'to' ? 'date' : 'text'}
+                    value={fields[key] ?? ''}
+                    onChange={(event) => setField(key, event.target.value)}
+                    className="rounded border border-slate-600 bg-slate-900/60 px-2 py-1 text-white"
+                  />
+                </label>
+              ))}
+              {(['vpn', 'proxy'] as const).map((key) => (
+                <label key={key} className="flex flex-col gap-1 text-slate-400">
+                  <span className="uppercase">{key}</span>
+                  <select
+                    value={flags[key] ?? ''}
+                    onChange={(event) => {
+                      setFlags((current) => ({ ...current, [key]: event.target.value }));
+                      setPage(1);
+                    }}
+                    className="rounded border border-slate-600 bg-slate-900/60 px-2 py-1 text-white"
+                  >
+                    <option value="">Any</option>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-blue-300">
+              <span>{result ? `${result.total} visits` : 'Visits'}</span>
+              {loading && <Activity className="w-4 h-4 animate-spin" />}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="flex items-center space-x-2 text-red-300">
+                <AlertTriangle className="w-5 h-5" />
+                <span>{error}</span>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700 text-slate-400">
+                      {COLUMNS.map(({ field, label }) => (
+                        <th key={label} className="text-left py-3 px-2">
+                          {field ? (
+                            <button onClick={() => toggleSort(field)} className="flex items-center space-x-1 hover:text-white">
+                              <span>{label}</span>
+                              {sort === field && (order === 'asc'
+                                ? <ArrowUp className="w-3 h-3" />
+                                : <ArrowDown className="w-3 h-3" />)}
+                            </button>
+                          ) : label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result?.visitors.map((visitor) => (
+                      <tr key={visitor.id} className="border-b border-slate-800 hover:bg-slate-700/30 transition-colors">
+                        <td className="py-3 px-2 text-slate-300 font-mono text-xs whitespace-nowrap">
+                          {new Date(visitor.visitedAt).toLocaleString()}
+                        </td>
+                        <td className="py-3 px-2">
+                          <Link
+                            href={`/admin/visitors/${visitor.id}`}
+                            className="font-mono text-red-300 truncate max-w-32 inline-block align-bottom hover:underline"
+                          >
+                            {visitor.ip}
+                          </Link>
+                        </td>
+                        <td className="py-3 px-2 text-white text-xs">{visitor.city}</td>
+                        <td className="py-3 px-2 text-white text-xs">{visitor.country}</td>
+                        <td className="py-3 px-2">
+                          <div className="flex items-center space-x-1">
+                            <span className="text-white text-xs max-w-32 truncate">{visitor.isp}</span>
+                            {(visitor.vpn || visitor.proxy) && (
+                              <Badge variant="destructive" className="text-xs">
+                                {visitor.vpn ? 'VPN' : 'PROXY'}
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-3 px-2">
+                          <Badge variant="secondary" className="text-xs">{visitor.device}</Badge>
+                        </td>
+                        <td className="py-3 px-2 text-white text-xs max-w-32 truncate">{visitor.browser}</td>
+                        <td className="py-3 px-2 text-white text-xs max-w-32 truncate">{visitor.os}</td>
+                        <td className="py-3 px-2 text-white text-xs">{visitor.threat}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {result && result.totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4 text-sm text-slate-400">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 rounded border border-slate-600 hover:text-white disabled:opacity-40"
+                >
+                  Previous
+                </button>
+                <span>Page {result.page} of {result.totalPages}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= result.totalPages}
+                  className="px-3 py-1 rounded border border-slate-600 hover:text-white disabled:opacity-40"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
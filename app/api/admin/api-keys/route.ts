@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prismadb } from '@/lib/db';
+import { AdminAuth } from '@/lib/auth';
+import { ApiKeyStore, parseScopes } from '@/lib/api-keys';
+import { API_SCOPES, isApiScope } from '@/lib/roles';
+
+const KEY_FIELDS = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  rateLimit: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: {
+    select: {
+      username: true,
+    },
+  },
+} as const;
+
+function badRequest(message: string) {
+  return NextResponse.json(
+    {
+      error: 'Invalid request',
+      message,
+      timestamp: new Date().toISOString()
+    },
+    { status: 400 }
+  );
+}
+
+function handleError(action: string, error: unknown) {
+  console.error(`API key ${action} error:`, error);
+
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} API key`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    },
+    { status: 500 }
+  );
+}
+
+// All keys, including revoked and expired ones; never the keys themselves
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const keys = await prismadb.apiKey.findMany({
+      select: KEY_FIELDS,
+      orderBy: { createdAt: 'desc' },
+    });
+    return NextResponse.json({ keys });
+
+  } catch (error) {
+    return handleError('list', error);
+  }
+}
+
+// Creates a key: { name, scopes, rateLimit?, expiresAt? }. The response holds
+// the key in plain text; it can't be retrieved again.
+export async function POST(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return badRequest('`name` is required');
+    }
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isApiScope)) {
+      return badRequest(`\`scopes\` must be a non-empty list of ${API_SCOPES.join(', ')}`);
+    }
+    if (body.rateLimit !== undefined && (!Number.isInteger(body.rateLimit) || body.rateLimit < 1)) {
+      return badRequest('`rateLimit` must be a positive number of requests per minute');
+    }
+
+    let expiresAt: Date | null = null;
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+      expiresAt = new Date(body.expiresAt);
+      if (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        return badRequest('`expiresAt` must be a timestamp in the future');
+      }
+    }
+
+    const { key, record } = await ApiKeyStore.create({
+      name: body.name.trim(),
+      scopes: parseScopes(body.scopes),
+      rateLimit: body.rateLimit,
+      expiresAt,
+      createdById: auth.kind === 'user' ? auth.id : null,
+    });
+
+    return NextResponse.json({
+      key,
+      apiKey: {
+        id: record.id,
+        name: record.name,
+        prefix: record.prefix,
+        scopes: record.scopes,
+        rateLimit: record.rateLimit,
+        expiresAt: record.expiresAt,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleError('create', error);
+  }
+}
+
+// Revokes the key given as ?id=. Revoked keys stay listed for auditing.
+export async function DELETE(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return badRequest('`id` is required');
+    }
+
+    const revoked = await prismadb.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return NextResponse.json({ success: revoked.count > 0 });
+
+  } catch (error) {
+    return handleError('revoke', error);
+  }
+}
@@ -1,36 +1,24 @@
 import { prismadb } from '@/lib/db';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth, permits } from '@/lib/auth';
+import { redactVisitor } from '@/lib/redaction';
+import { SESSION_TIMEOUT_MS } from '@/lib/sessions';
+import { IPAnonymizer } from '@/lib/ip-anonymizer';
+import type { CountRow } from '@/lib/retention';
+import {
+  InvalidFilterError,
+  readDashboardFilters,
+  resolveFilters,
+  sessionWhere,
+  visitorWhere,
+} from '@/lib/dashboard-filters';
+import { readSeriesOptions } from '@/lib/time-series';
+import { bucketStart, nextBucket } from '@/lib/time-buckets';
+import { getPeriodMetrics, rollupScopeFor, type PeriodMetrics } from '@/lib/dashboard-metrics';
+import { compareCounts, comparisonFilters, readCompareMode, type Change } from '@/lib/comparison';
+import type { ComparableTotal, DashboardResponse } from '@/lib/dashboard-types';
 
 
-// Type definitions for the API response
-interface CountryGroup {
-  country: string;
-  _count: {
-    country: number;
-  };
-}
-
-interface DeviceGroup {
-  device: string;
-  _count: {
-    device: number;
-  };
-}
-
-interface BrowserGroup {
-  browser: string;
-  _count: {
-    browser: number;
-  };
-}
-
-interface OSGroup {
-  os: string;
-  _count: {
-    os: number;
-  };
-}
-
 interface VisitorFrequencyGroup {
   ip: string;
   _count: {
@@ -38,33 +26,48 @@ interface VisitorFrequencyGroup {
   };
 }
 
-export async function GET() {
-  try {
-    // Get total visitors
-    const totalVisitors = await prismadb.visitor.count();
-
-    // Get unique countries with proper typing
-    const uniqueCountries = await prismadb.visitor.groupBy({
-      by: ['country'],
-      _count: {
-        country: true,
-      },
-    });
+// Attaches each row's change against the same value in the comparison period
+function withChanges(rows: CountRow[], previous: CountRow[] | undefined): Array<CountRow & { change?: Change }> {
+  if (!previous) return rows;
+  const previousCounts = new Map(previous.map((row) => [row.value, row.count]));
+  return rows.map((row) => ({ ...row, change: compareCounts(row.count, previousCounts.get(row.value) ?? 0) }));
+}
 
-    // Get unique devices with proper typing  
-    const uniqueDevices = await prismadb.visitor.groupBy({
-      by: ['device'],
-      _count: {
-        device: true,
-      },
-    });
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
 
-    // Get recent visitors (last 24 hours)
+  try {
+    // Every metric below is restricted to the same date range and dimensions
+    const filters = resolveFilters(readDashboardFilters(request.nextUrl.searchParams));
+    const where = visitorWhere(filters);
+    const hasRange = Boolean(filters.from || filters.to);
+    const seriesOptions = readSeriesOptions(request.nextUrl.searchParams);
+    const compareMode = readCompareMode(request.nextUrl.searchParams);
+    const previousFilters = compareMode ? comparisonFilters(filters, compareMode) : null;
+
+    const current = await getPeriodMetrics(filters, seriesOptions);
+    const previous = previousFilters ? await getPeriodMetrics(previousFilters, seriesOptions) : null;
+
+    // Rows compared with the same values in the comparison period, if any
+    const compared = (pick: (metrics: PeriodMetrics) => CountRow[], limit?: number) =>
+      withChanges(pick(current).slice(0, limit), previous ? pick(previous) : undefined);
+
+    const countryVisits = compared((metrics) => metrics.countries).map(({ value, count, visitors, change }) => ({
+      country: value,
+      countryCode: current.countryCodes.get(value) ?? null,
+      count,
+      visitors,
+      change,
+    }));
+
+    // Get recent visitors (last 24 hours unless a date range is selected)
     const twentyFourHoursAgo = new Date();
     twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
     
     const recentVisitors = await prismadb.visitor.findMany({
-      where: {
+      where: hasRange ? where : {
+        ...where,
         visitedAt: {
           gte: twentyFourHoursAgo,
         },
@@ -75,67 +78,10 @@ export async function GET() {
       take: 20,
     });
 
-    // Get top countries
-    const topCountries = uniqueCountries
-      .sort((a: CountryGroup, b: CountryGroup) => b._count.country - a._count.country)
-      .slice(0, 10)
-      .map((item: CountryGroup) => ({
-        country: item.country,
-        count: item._count.country,
-      }));
-
-    // Get top browsers
-    const browserStats = await prismadb.visitor.groupBy({
-      by: ['browser'],
-      _count: {
-        browser: true,
-      },
-    });
-
-    const topBrowsers = browserStats
-      .sort((a: BrowserGroup, b: BrowserGroup) => b._count.browser - a._count.browser)
-      .slice(0, 10)
-      .map((item: BrowserGroup) => ({
-        browser: item.browser,
-        count: item._count.browser,
-      }));
-
-    // Get top devices
-    const topDevices = uniqueDevices
-      .sort((a: DeviceGroup, b: DeviceGroup) => b._count.device - a._count.device)
-      .slice(0, 10)
-      .map((item: DeviceGroup) => ({
-        device: item.device,
-        count: item._count.device,
-      }));
-
-    // Get hourly visitor data for the last 24 hours
-    const hourlyData = [];
-    for (let i = 23; i >= 0; i--) {
-      const hour = new Date();
-      hour.setHours(hour.getHours() - i, 0, 0, 0);
-      const nextHour = new Date(hour);
-      nextHour.setHours(nextHour.getHours() + 1);
-
-      const count = await prismadb.visitor.count({
-        where: {
-          visitedAt: {
-            gte: hour,
-            lt: nextHour,
-          },
-        },
-      });
-
-      hourlyData.push({
-        hour: hour.getHours(),
-        count,
-        timestamp: hour.toISOString(),
-      });
-    }
-
     // Get visitor locations for mapping
     const visitorLocations = await prismadb.visitor.findMany({
       where: {
+        ...where,
         latitude: {
           not: 0,
         },
@@ -156,45 +102,11 @@ export async function GET() {
       take: 100,
     });
 
-    // Get OS statistics
-    const osStats = await prismadb.visitor.groupBy({
-      by: ['os'],
-      _count: {
-        os: true,
-      },
-    });
-
-    const topOS = osStats
-      .sort((a: OSGroup, b: OSGroup) => b._count.os - a._count.os)
-      .slice(0, 10)
-      .map((item: OSGroup) => ({
-        os: item.os,
-        count: item._count.os,
-      }));
-
-    // Get ISP statistics
-    const ispData = await prismadb.visitor.findMany({
-      select: {
-        ip: true,
-        visitedAt: true,
-      },
-      orderBy: {
-        visitedAt: 'desc',
-      },
-      take: 50,
-    });
-
-    if (ispData.length === 0) {
-      return NextResponse.json({
-        error: 'No ISP data available',
-        timestamp: new Date().toISOString(),
-      }, { status: 404 });
-    }
-    
-
-    // Calculate visitor frequency - Get all visitors first, then filter
+    // Calculate visitor frequency - Get all visitors first, then filter.
+    // Under truncated or hashed IP storage this groups by the stored value.
     const allVisitorsByIP = await prismadb.visitor.groupBy({
       by: ['ip'],
+      where,
       _count: {
         ip: true,
       },
@@ -214,14 +126,15 @@ export async function GET() {
         visits: item._count.ip,
       }));
 
-    // Calculate daily statistics
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    // Calculate daily statistics for the last day of the selected range, in the analyst's time zone
+    const rangeEnd = filters.to ? new Date(Math.min(filters.to.getTime() - 1, Date.now())) : new Date();
+    const today = bucketStart(rangeEnd, 'day', seriesOptions.timeZone);
+    const tomorrow = nextBucket(today, 'day', seriesOptions.timeZone);
 
     const todayVisitors = await prismadb.visitor.count({
       where: {
+        siteId: filters.siteId,
+        ...filters.dimensions,
         visitedAt: {
           gte: today,
           lt: tomorrow,
@@ -229,11 +142,12 @@ export async function GET() {
       },
     });
 
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterday = bucketStart(new Date(today.getTime() - 1), 'day', seriesOptions.timeZone);
 
     const yesterdayVisitors = await prismadb.visitor.count({
       where: {
+        siteId: filters.siteId,
+        ...filters.dimensions,
         visitedAt: {
           gte: yesterday,
           lt: today,
@@ -241,33 +155,125 @@ export async function GET() {
       },
     });
 
+    const activeSessions = await prismadb.session.count({
+      where: {
+        ...sessionWhere(filters),
+        endedAt: null,
+        lastSeenAt: {
+          gte: new Date(Date.now() - SESSION_TIMEOUT_MS),
+        },
+      },
+    });
+
     const growthRate = yesterdayVisitors > 0 
       ? ((todayVisitors - yesterdayVisitors) / yesterdayVisitors * 100).toFixed(1)
       : '0';
 
-    const response = {
-      totalVisitors,
-      uniqueCountries: uniqueCountries.length,
-      uniqueDevices: uniqueDevices.length,
-      recentVisitors,
-      topCountries,
-      topBrowsers,
-      topDevices,
-      topOS,
-      hourlyData,
+    const canSeeVisitors = permits(auth, 'analyst', 'visitors:read');
+
+    const totals = (metrics: PeriodMetrics): Record<ComparableTotal, number> => ({
+      totalVisitors: metrics.totalVisitors,
+      uniqueVisitors: metrics.uniqueVisitors,
+      uniqueCountries: metrics.countries.length,
+      uniqueDevices: metrics.devices.length,
+      ...metrics.sessions,
+      ...metrics.security,
+    });
+
+    let comparison: DashboardResponse['comparison'] = null;
+    if (compareMode && previousFilters && previous) {
+      const previousTotals = totals(previous);
+      comparison = {
+        mode: compareMode,
+        from: previousFilters.from.toISOString(),
+        to: previousFilters.to.toISOString(),
+        totals: Object.fromEntries(Object.entries(totals(current)).map(([key, value]) => [
+          key,
+          compareCounts(value, previousTotals[key as ComparableTotal]),
+        ])) as Record<ComparableTotal, Change>,
+        timeSeries: previous.timeSeries,
+      };
+    }
+
+    // Buckets of the two periods are aligned by position
+    const previousBuckets = previous?.timeSeries.buckets;
+
+    const response: DashboardResponse = {
+      totalVisitors: current.totalVisitors,
+      uniqueVisitors: current.uniqueVisitors,
+      sessionStats: {
+        ...current.sessions,
+        activeSessions,
+      },
+      uniqueCountries: current.countries.length,
+      uniqueDevices: current.devices.length,
+      recentVisitors: canSeeVisitors ? recentVisitors : recentVisitors.map(redactVisitor),
+      topCountries: compared((metrics) => metrics.countries, 10)
+        .map(({ value, count, visitors, change }) => ({ country: value, count, visitors, change })),
+      countryVisits,
+      topBrowsers: compared((metrics) => metrics.browsers, 10)
+        .map(({ value, count, visitors, change }) => ({ browser: value, count, visitors, change })),
+      topDevices: compared((metrics) => metrics.devices, 10)
+        .map(({ value, count, visitors, change }) => ({ device: value, count, visitors, change })),
+      topOS: compared((metrics) => metrics.os, 10)
+        .map(({ value, count, visitors, change }) => ({ os: value, count, visitors, change })),
+      topISPs: compared((metrics) => metrics.isps, 10)
+        .map(({ value, count, visitors, change }) => ({ isp: value, count, visitors, change })),
+      topConnections: compared((metrics) => metrics.connections)
+        .map(({ value, count, visitors, change }) => ({ connection: value, count, visitors, change })),
+      topLanguages: compared((metrics) => metrics.languages, 10)
+        .map(({ value, count, visitors, change }) => ({ language: value, count, visitors, change })),
+      topReferrers: compared((metrics) => metrics.referrers, 10)
+        .map(({ value, count, visitors, change }) => ({ referrer: value, count, visitors, change })),
+      topScreenResolutions: compared((metrics) => metrics.screens, 10)
+        .map(({ value, count, visitors, change }) => ({ resolution: value, count, visitors, change })),
+      securityStats: {
+        ...current.security,
+        threatLevels: compared((metrics) => metrics.threats)
+          .map(({ value, count, visitors, change }) => ({ threat: value, count, visitors, change })),
+      },
+      timeSeries: {
+        ...current.timeSeries,
+        buckets: current.timeSeries.buckets.map((bucket, index) => ({
+          ...bucket,
+          ...(previousBuckets && { change: compareCounts(bucket.count, previousBuckets[index]?.count ?? 0) }),
+        })),
+      },
       visitorLocations,
-      repeatVisitors,
+      repeatVisitors: canSeeVisitors ? repeatVisitors : [],
       dailyStats: {
         today: todayVisitors,
         yesterday: yesterdayVisitors,
         growthRate: `${growthRate}%`,
+        change: compareCounts(todayVisitors, yesterdayVisitors),
       },
+      comparison,
+      ipStorageMode: IPAnonymizer.getMode(),
+      filters: {
+        site: filters.siteId,
+        from: filters.from?.toISOString() ?? null,
+        to: filters.to?.toISOString() ?? null,
+        ...filters.dimensions,
+      },
+      // False when dimension filters exclude history that only survives as rollups
+      rollupsIncluded: rollupScopeFor(filters) !== null,
       lastUpdated: new Date().toISOString(),
     };
 
     return NextResponse.json(response);
 
   } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filter',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
     console.error('Dashboard API error:', error);
     
     return NextResponse.json(
@@ -283,39 +289,3 @@ export async function GET() {
     // await prismadb.$disconnect();
   }
 }
-
-// Optional: Add a POST endpoint for real-time updates
-export async function POST() {
-  try {
-    // This could be used for real-time notifications
-    // or to trigger specific tracking actions
-    
-    const recentCount = await prismadb.visitor.count({
-      where: {
-        visitedAt: {
-          gte: new Date(Date.now() - 60000), // Last minute
-        },
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      recentActivity: recentCount,
-      timestamp: new Date().toISOString(),
-    });
-
-  } catch (error) {
-    console.error('Dashboard POST error:', error);
-    
-    return NextResponse.json(
-      { 
-        error: 'Failed to process request',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
-  } finally {
-    // No need to disconnect when using singleton pattern
-    // await prismadb.$disconnect();
-  }
-}
\ No newline at end of file
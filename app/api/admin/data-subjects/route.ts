@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { DataSubjectService, isEmptyQuery, parseSubjectQuery } from '@/lib/data-subject';
+
+function missingIdentifier() {
+  return NextResponse.json(
+    {
+      error: 'Missing identifier',
+      message: 'Provide at least one of ip, fingerprint, visitorId, sessionId or consentId',
+      timestamp: new Date().toISOString()
+    },
+    { status: 400 }
+  );
+}
+
+// Everything stored about a data subject, as a JSON export.
+// ?download=1 returns it as a file attachment.
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const query = parseSubjectQuery(request.nextUrl.searchParams);
+    if (isEmptyQuery(query)) return missingIdentifier();
+
+    const records = await DataSubjectService.find(query);
+    const exported = { ...records, exportedAt: new Date().toISOString() };
+
+    if (request.nextUrl.searchParams.get('download') === '1') {
+      return new NextResponse(JSON.stringify(exported, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="data-subject-${Date.now()}.json"`,
+        },
+      });
+    }
+
+    return NextResponse.json(exported);
+
+  } catch (error) {
+    console.error('Data subject export error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to export data subject records',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Hard-deletes every matching record, with its sessions, page views and consent records
+export async function DELETE(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const query = parseSubjectQuery(request.nextUrl.searchParams);
+    if (isEmptyQuery(query)) return missingIdentifier();
+
+    const deleted = await DataSubjectService.erase(query);
+    console.log('Data subject erased:', deleted);
+
+    return NextResponse.json({
+      success: true,
+      deleted,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Data subject erasure error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to erase data subject records',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
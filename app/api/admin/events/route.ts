@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { InvalidFilterError, readDashboardFilters, resolveFilters } from '@/lib/dashboard-filters';
+import { readSeriesOptions } from '@/lib/time-series';
+import { getEventMetrics } from '@/lib/event-metrics';
+import { isEventName } from '@/lib/events';
+import type { EventsResponse } from '@/lib/dashboard-types';
+
+// Custom events for the dashboard filters: counts per event name, a series
+// over time and, with ?event=, counts per property value
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = resolveFilters(readDashboardFilters(params));
+    const seriesOptions = readSeriesOptions(params);
+
+    const event = params.get('event') || null;
+    if (event !== null && !isEventName(event)) {
+      throw new InvalidFilterError('`event` must be an event name');
+    }
+
+    const metrics = await getEventMetrics(filters, seriesOptions, event);
+
+    const response: EventsResponse = {
+      ...metrics,
+      event,
+      filters: {
+        site: filters.siteId,
+        from: filters.from?.toISOString() ?? null,
+        to: filters.to?.toISOString() ?? null,
+        ...filters.dimensions,
+      },
+      lastUpdated: new Date().toISOString(),
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filter',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Events API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch events',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth, permits } from '@/lib/auth';
+import {
+  InvalidFilterError,
+  readDashboardFilters,
+  resolveFilters,
+  visitorWhere,
+} from '@/lib/dashboard-filters';
+import {
+  createVisitorExportStream,
+  exportContentType,
+  exportFileName,
+  readExportOptions,
+} from '@/lib/export';
+
+// Streams visitor rows matching the dashboard filters.
+// ?format=csv|ndjson|columnar&columns=id,visitedAt,...
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = resolveFilters(readDashboardFilters(params));
+    const { format, columns } = readExportOptions(params, permits(auth, 'analyst', 'visitors:read'));
+
+    const stream = createVisitorExportStream(visitorWhere(filters), format, columns, request.signal);
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': exportContentType(format),
+        'Content-Disposition': `attachment; filename="${exportFileName(format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid export request',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Export error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to export visitors',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
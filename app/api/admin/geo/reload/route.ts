@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { getMmdbProvider } from '@/lib/geolocation';
+
+// Re-reads the MMDB files from disk, e.g. after a new database was dropped in place
+export async function POST(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const provider = getMmdbProvider();
+
+  if (!provider) {
+    return NextResponse.json(
+      {
+        error: 'No local geolocation database configured',
+        message: 'Set GEO_MMDB_CITY_PATH to enable the mmdb provider',
+        timestamp: new Date().toISOString()
+      },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const status = await provider.reload();
+
+    return NextResponse.json({
+      success: true,
+      mmdb: status,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Geolocation database reload failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to reload geolocation database',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        mmdb: provider.getStatus(),
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { prismadb } from '@/lib/db';
+import { geoRegistry, getMmdbProvider } from '@/lib/geolocation';
+import { geoCache } from '@/lib/geo-cache';
+
+// Per-provider health, latency and circuit breaker state plus cache hit rates for this process
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const persistentEntries = await prismadb.geoCache.count({
+      where: {
+        expiresAt: {
+          gt: new Date(),
+        },
+      },
+    });
+
+    return NextResponse.json({
+      providers: geoRegistry.getStats(),
+      mmdb: getMmdbProvider()?.getStatus() ?? null,
+      cache: {
+        ...geoCache.getStats(),
+        persistentEntries,
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Geolocation stats API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch geolocation provider stats',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
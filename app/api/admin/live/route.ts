@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth, permits } from '@/lib/auth';
+import {
+  hasDimensionFilters,
+  InvalidFilterError,
+  matchesFilters,
+  readDashboardFilters,
+  resolveFilters,
+} from '@/lib/dashboard-filters';
+import { liveFeed, LiveFeed, type LiveEvent } from '@/lib/live';
+import { redactVisitor } from '@/lib/redaction';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_MS = 15000;
+
+// Server-Sent Events: `visitor` for each newly stored visit matching the
+// dashboard filters, and `counters` with the selected site's rolling counters
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  let filters;
+  try {
+    filters = resolveFilters(readDashboardFilters(request.nextUrl.searchParams));
+  } catch (error) {
+    if (!(error instanceof InvalidFilterError)) throw error;
+
+    return NextResponse.json(
+      {
+        error: 'Invalid filter',
+        message: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 400 }
+    );
+  }
+
+  const canSeeVisitors = permits(auth, 'analyst', 'visitors:read');
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const handleEvent = (event: LiveEvent) => {
+        try {
+          if (event.type === 'visitor') {
+            if (!matchesFilters(event.visitor, filters)) return;
+            send('visitor', canSeeVisitors ? event.visitor : redactVisitor(event.visitor));
+          } else if (event.counters.siteId === filters.siteId) {
+            send('counters', event.counters);
+          }
+        } catch (error) {
+          // The client went away between the event and the write
+          console.warn('Live feed write failed:', error);
+          cleanup();
+        }
+      };
+
+      const unsubscribe = liveFeed.subscribe(handleEvent);
+      const heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      send('ready', { filtered: hasDimensionFilters(filters) || Boolean(filters.from || filters.to) });
+      LiveFeed.computeCounters(filters.siteId)
+        .then((counters) => send('counters', counters))
+        .catch((error) => console.error('Initial live counters failed:', error));
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { prismadb } from '@/lib/db';
+import { getRetentionPolicy, RetentionManager } from '@/lib/retention';
+
+// Current retention policy, the oldest raw data still stored and the last run
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const [oldestVisitor, oldestAggregate] = await Promise.all([
+      prismadb.visitor.findFirst({
+        orderBy: { visitedAt: 'asc' },
+        select: { visitedAt: true },
+      }),
+      prismadb.dailyStat.findFirst({
+        orderBy: { date: 'asc' },
+        select: { date: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      policy: getRetentionPolicy(),
+      oldestRawVisit: oldestVisitor?.visitedAt ?? null,
+      oldestAggregate: oldestAggregate?.date ?? null,
+      lastRun: RetentionManager.getLastRun(),
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Retention API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch retention status',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Rolls up and purges everything past the retention policy now
+export async function POST(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const result = await RetentionManager.run();
+
+    return NextResponse.json({
+      success: true,
+      result,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Retention run error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Retention run failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { SiteStore } from '@/lib/site-store';
+import { normalizeOrigin } from '@/lib/sites';
+
+function badRequest(message: string) {
+  return NextResponse.json(
+    {
+      error: 'Invalid request',
+      message,
+      timestamp: new Date().toISOString()
+    },
+    { status: 400 }
+  );
+}
+
+function handleError(action: string, error: unknown) {
+  console.error(`Site ${action} error:`, error);
+
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} site`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    },
+    { status: 500 }
+  );
+}
+
+// Normalized origins, or null when the value isn't a list of http(s) origins
+function readOrigins(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const origins = value.map((origin) => (typeof origin === 'string' ? normalizeOrigin(origin.trim()) : null));
+  if (origins.some((origin) => origin === null)) return null;
+  return Array.from(new Set(origins as string[]));
+}
+
+// Every site, for the dashboard's site switcher
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json({ sites: await SiteStore.list() });
+
+  } catch (error) {
+    return handleError('list', error);
+  }
+}
+
+// Registers a site: { name, allowedOrigins }. The returned id goes in the
+// snippet's `data-site` attribute.
+export async function POST(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return badRequest('`name` is required');
+    }
+    const allowedOrigins = readOrigins(body.allowedOrigins);
+    if (!allowedOrigins || allowedOrigins.length === 0) {
+      return badRequest('`allowedOrigins` must be a non-empty list of origins, e.g. https://example.com');
+    }
+
+    const site = await SiteStore.create({ name: body.name.trim(), allowedOrigins });
+    return NextResponse.json({ site }, { status: 201 });
+
+  } catch (error) {
+    return handleError('create', error);
+  }
+}
+
+// Renames a site or replaces its origins: { id, name?, allowedOrigins? }
+export async function PATCH(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.id !== 'string' || !body.id) {
+      return badRequest('`id` is required');
+    }
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return badRequest('`name` must be a non-empty string');
+    }
+    const allowedOrigins = body.allowedOrigins === undefined ? undefined : readOrigins(body.allowedOrigins);
+    if (allowedOrigins === null) {
+      return badRequest('`allowedOrigins` must be a list of origins, e.g. https://example.com');
+    }
+
+    const site = await SiteStore.update(body.id, {
+      name: body.name?.trim(),
+      allowedOrigins,
+    });
+    if (!site) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: `No site with id "${body.id}"`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ site });
+
+  } catch (error) {
+    return handleError('update', error);
+  }
+}
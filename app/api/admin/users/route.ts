@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prismadb } from '@/lib/db';
+import { AdminAuth } from '@/lib/auth';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/passwords';
+import { isRole, ROLES } from '@/lib/roles';
+
+const USER_FIELDS = {
+  id: true,
+  username: true,
+  name: true,
+  role: true,
+  oidcSubject: true,
+  lastLoginAt: true,
+  createdAt: true,
+} as const;
+
+function badRequest(message: string) {
+  return NextResponse.json(
+    {
+      error: 'Invalid request',
+      message,
+      timestamp: new Date().toISOString()
+    },
+    { status: 400 }
+  );
+}
+
+function handleError(action: string, error: unknown) {
+  console.error(`User ${action} error:`, error);
+
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} user`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const users = await prismadb.user.findMany({
+      select: USER_FIELDS,
+      orderBy: { username: 'asc' },
+    });
+    return NextResponse.json({ users });
+
+  } catch (error) {
+    return handleError('list', error);
+  }
+}
+
+// Creates a local user: { username, password, role, name? }
+export async function POST(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.username !== 'string' || !body.username.trim()) {
+      return badRequest('`username` is required');
+    }
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      return badRequest(`\`password\` must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (!isRole(body.role)) {
+      return badRequest(`\`role\` must be one of ${ROLES.join(', ')}`);
+    }
+
+    const username = body.username.trim();
+    if (await prismadb.user.findUnique({ where: { username } })) {
+      return badRequest(`User "${username}" already exists`);
+    }
+
+    const user = await prismadb.user.create({
+      data: {
+        username,
+        name: typeof body.name === 'string' ? body.name : null,
+        passwordHash: await hashPassword(body.password),
+        role: body.role,
+      },
+      select: USER_FIELDS,
+    });
+
+    return NextResponse.json({ user }, { status: 201 });
+
+  } catch (error) {
+    return handleError('create', error);
+  }
+}
+
+// Changes role, name or password: { id, role?, name?, password? }.
+// A password change or demotion signs the user out everywhere.
+export async function PATCH(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.id !== 'string') {
+      return badRequest('`id` is required');
+    }
+    if (body.role !== undefined && !isRole(body.role)) {
+      return badRequest(`\`role\` must be one of ${ROLES.join(', ')}`);
+    }
+    if (body.password !== undefined && (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH)) {
+      return badRequest(`\`password\` must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (auth.kind === 'user' && body.id === auth.id && body.role !== undefined && body.role !== auth.role) {
+      return badRequest('You cannot change your own role');
+    }
+
+    const user = await prismadb.user.update({
+      where: { id: body.id },
+      data: {
+        ...(body.role !== undefined && { role: body.role }),
+        ...(typeof body.name === 'string' && { name: body.name }),
+        ...(body.password !== undefined && { passwordHash: await hashPassword(body.password) }),
+      },
+      select: USER_FIELDS,
+    });
+
+    if (body.role !== undefined || body.password !== undefined) {
+      await prismadb.adminSession.deleteMany({ where: { userId: user.id } });
+    }
+
+    return NextResponse.json({ user });
+
+  } catch (error) {
+    return handleError('update', error);
+  }
+}
+
+// Deletes the user given as ?id= together with its sessions
+export async function DELETE(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return badRequest('`id` is required');
+    }
+    if (id === auth.id) {
+      return badRequest('You cannot delete your own account');
+    }
+
+    const deleted = await prismadb.user.deleteMany({ where: { id } });
+    return NextResponse.json({ success: deleted.count > 0, deleted: deleted.count });
+
+  } catch (error) {
+    return handleError('delete', error);
+  }
+}
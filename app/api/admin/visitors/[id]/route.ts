@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { UAParser } from 'ua-parser-js';
+import { prismadb } from '@/lib/db';
+import { AdminAuth } from '@/lib/auth';
+
+const RELATED_LIMIT = 200;
+
+type Identifier = 'ip' | 'fingerprint' | 'session' | 'consent';
+
+// Everything stored for one visit, its session, and every other visit
+// sharing its IP, fingerprint, session or consent record
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const visitor = await prismadb.visitor.findUnique({
+      where: { id },
+      include: {
+        session: {
+          include: {
+            pageViews: {
+              orderBy: { viewedAt: 'asc' },
+            },
+          },
+        },
+        consent: true,
+      },
+    });
+
+    if (!visitor) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: `No visitor with id ${id}`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
+
+    // Fingerprints are empty without fingerprinting consent, which must not match
+    const identifiers: Array<[Identifier, Prisma.VisitorWhereInput | null]> = [
+      ['ip', { ip: visitor.ip }],
+      ['fingerprint', visitor.deviceFingerprint ? { deviceFingerprint: visitor.deviceFingerprint } : null],
+      ['session', visitor.sessionId ? { sessionId: visitor.sessionId } : null],
+      ['consent', visitor.consentId ? { consentId: visitor.consentId } : null],
+    ];
+    const active = identifiers.filter((entry): entry is [Identifier, Prisma.VisitorWhereInput] => entry[1] !== null);
+
+    const related = await prismadb.visitor.findMany({
+      where: {
+        id: { not: visitor.id },
+        siteId: visitor.siteId,
+        OR: active.map(([, where]) => where),
+      },
+      orderBy: { visitedAt: 'desc' },
+      take: RELATED_LIMIT,
+      select: {
+        id: true,
+        ip: true,
+        deviceFingerprint: true,
+        sessionId: true,
+        consentId: true,
+        country: true,
+        city: true,
+        device: true,
+        browser: true,
+        os: true,
+        url: true,
+        visitedAt: true,
+      },
+    });
+
+    const relatedVisits = related.map((other) => ({
+      ...other,
+      matchedOn: [
+        other.ip === visitor.ip && 'ip',
+        visitor.deviceFingerprint && other.deviceFingerprint === visitor.deviceFingerprint && 'fingerprint',
+        visitor.sessionId && other.sessionId === visitor.sessionId && 'session',
+        visitor.consentId && other.consentId === visitor.consentId && 'consent',
+      ].filter(Boolean) as Identifier[],
+    }));
+
+    const { session, consent, ...record } = visitor;
+
+    return NextResponse.json({
+      visitor: record,
+      userAgent: new UAParser(visitor.userAgent).getResult(),
+      session,
+      consent,
+      relatedVisits,
+      relatedLimit: RELATED_LIMIT,
+    });
+
+  } catch (error) {
+    console.error('Visitor detail error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch visitor',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
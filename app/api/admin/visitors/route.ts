@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prismadb } from '@/lib/db';
+import { AdminAuth } from '@/lib/auth';
+import { InvalidFilterError } from '@/lib/dashboard-filters';
+import { readVisitorSearch } from '@/lib/visitor-search';
+
+// Paginated, sortable visitor search for the explorer.
+// ?q=&page=&pageSize=&sort=&order= plus the dashboard filters and isp, connection, threat, vpn, proxy, hosting
+export async function GET(request: NextRequest) {
+  const auth = await AdminAuth.authorize(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { where, orderBy, page, pageSize } = readVisitorSearch(request.nextUrl.searchParams);
+
+    const [total, visitors] = await Promise.all([
+      prismadb.visitor.count({ where }),
+      prismadb.visitor.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        select: {
+          id: true,
+          ip: true,
+          country: true,
+          city: true,
+          isp: true,
+          device: true,
+          browser: true,
+          os: true,
+          threat: true,
+          vpn: true,
+          proxy: true,
+          visitedAt: true,
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      visitors,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Visitor search error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to search visitors',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+
+// Username/password sign-in for the admin area
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          message: '`username` and `password` are required',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await AdminAuth.verifyCredentials(body.username, body.password);
+    if (!user) {
+      console.warn(`Failed admin sign-in for "${body.username}"`);
+      return NextResponse.json(
+        {
+          error: 'Invalid credentials',
+          message: 'Unknown username or wrong password',
+          timestamp: new Date().toISOString()
+        },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await AdminAuth.startSession(user, request);
+    const response = NextResponse.json({
+      success: true,
+      user,
+      expiresAt: expiresAt.toISOString(),
+    });
+    AdminAuth.setSessionCookie(response, token, expiresAt);
+
+    return response;
+
+  } catch (error) {
+    console.error('Login error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Sign-in failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
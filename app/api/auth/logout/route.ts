@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { AUTH_COOKIE } from '@/lib/auth-token';
+
+export async function POST(request: NextRequest) {
+  try {
+    await AdminAuth.endSession(request);
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(AUTH_COOKIE);
+    return response;
+
+  } catch (error) {
+    console.error('Logout error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Sign-out failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+
+// The signed-in admin user, or 401
+export async function GET(request: NextRequest) {
+  try {
+    const user = await AdminAuth.getUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          error: 'Unauthorized',
+          message: 'Not signed in',
+          timestamp: new Date().toISOString()
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ user });
+
+  } catch (error) {
+    console.error('Session lookup error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to read session',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
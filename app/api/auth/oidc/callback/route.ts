@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminAuth } from '@/lib/auth';
+import { OIDCClient, OIDCError, OIDC_STATE_COOKIE } from '@/lib/oidc';
+
+// Redirect target of the OIDC provider
+export async function GET(request: NextRequest) {
+  try {
+    const { user, next } = await OIDCClient.completeSignIn(request);
+    const { token, expiresAt } = await AdminAuth.startSession(user, request);
+
+    const response = NextResponse.redirect(new URL(next, request.url));
+    AdminAuth.setSessionCookie(response, token, expiresAt);
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' });
+    return response;
+
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+
+    const loginUrl = new URL('/admin/login', request.url);
+    loginUrl.searchParams.set('error', error instanceof OIDCError ? error.message : 'Sign-in failed');
+    return NextResponse.redirect(loginUrl);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OIDCClient, OIDC_STATE_COOKIE, OIDC_STATE_MAX_AGE } from '@/lib/oidc';
+
+// Starts OIDC sign-in by redirecting to the provider
+export async function GET(request: NextRequest) {
+  if (!OIDCClient.isConfigured()) {
+    return NextResponse.json(
+      {
+        error: 'Not found',
+        message: 'OIDC sign-in is not configured',
+        timestamp: new Date().toISOString()
+      },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const { url, stateCookie } = await OIDCClient.beginSignIn(request);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, stateCookie, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oidc',
+      maxAge: OIDC_STATE_MAX_AGE,
+    });
+    return response;
+
+  } catch (error) {
+    console.error('OIDC sign-in error:', error);
+
+    const loginUrl = new URL('/admin/login', request.url);
+    loginUrl.searchParams.set('error', 'The identity provider is unavailable');
+    return NextResponse.redirect(loginUrl);
+  }
+}
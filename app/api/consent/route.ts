@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConsentManager, CONSENT_COOKIE, CONSENT_COOKIE_MAX_AGE } from '@/lib/consent';
+import { ConsentStore } from '@/lib/consent-store';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { status } = await ConsentStore.resolve(request);
+    return NextResponse.json(status);
+
+  } catch (error) {
+    console.error('Consent lookup error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to read consent',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Records the visitor's banner choice and refreshes the consent cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.analytics !== 'boolean' || typeof body.fingerprinting !== 'boolean') {
+      return NextResponse.json(
+        {
+          error: 'Invalid consent',
+          message: '`analytics` and `fingerprinting` must be booleans',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { recordId } = await ConsentStore.resolve(request);
+    const choice = { analytics: body.analytics, fingerprinting: body.fingerprinting };
+    const savedId = await ConsentStore.save(request, recordId, choice);
+
+    const signals = ConsentManager.readSignals(request.headers);
+    const honorsOptOutSignals = ConsentManager.honorsOptOutSignals();
+    const fullChoice = { necessary: true as const, ...choice };
+
+    const response = NextResponse.json({
+      decided: true,
+      choice: fullChoice,
+      effective: ConsentManager.applySignals(fullChoice, signals, honorsOptOutSignals),
+      signals,
+      honorsOptOutSignals,
+    });
+
+    response.cookies.set(CONSENT_COOKIE, ConsentManager.encodeCookie(savedId, fullChoice), {
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: CONSENT_COOKIE_MAX_AGE,
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Consent save error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save consent',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataSubjectService, ErasureToken } from '@/lib/data-subject';
+import { CONSENT_COOKIE } from '@/lib/consent';
+import { SESSION_COOKIE } from '@/lib/sessions';
+
+// Visitor-facing erasure. The token from the /api/track response proves
+// which session and consent record belong to the requester.
+export async function POST(request: NextRequest) {
+  try {
+    const body: unknown = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          message: 'The body must be a JSON object with a `token`',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    const token = (body as { token?: unknown }).token;
+    const payload = typeof token === 'string' ? ErasureToken.verify(token) : null;
+
+    if (!payload) {
+      return NextResponse.json(
+        {
+          error: 'Invalid token',
+          message: 'The erasure token is missing or could not be verified',
+          timestamp: new Date().toISOString()
+        },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await DataSubjectService.erase({
+      sessionId: payload.sid,
+      consentId: payload.cid ?? undefined,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      deleted,
+      timestamp: new Date().toISOString(),
+    });
+
+    // The cookies point at records that no longer exist
+    response.cookies.delete(SESSION_COOKIE);
+    response.cookies.delete(CONSENT_COOKIE);
+
+    return response;
+
+  } catch (error) {
+    console.error('Visitor erasure error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to erase visitor data',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionTracker } from '@/lib/sessions';
+import { InvalidEventError } from '@/lib/events';
+import { HitLedger } from '@/lib/hit-ledger';
+import { recordEvent, recordVisit } from '@/lib/track-hits';
+import {
+  InvalidBatchError,
+  MAX_HIT_AGE_MS,
+  readBatch,
+  type BatchHitResult,
+  type BatchResponse,
+  type QueuedHit,
+} from '@/lib/track-batch';
+import { corsHeaders, SiteAccessError, SiteStore, withCors } from '@/lib/site-store';
+import { DEFAULT_SITE_ID, type SiteSummary } from '@/lib/sites';
+
+// CORS preflight from sites embedding /t.js, as for /api/track
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  if (!origin || !(await SiteStore.isAllowedOrigin(origin))) {
+    return new NextResponse(null, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204, headers: corsHeaders(origin) });
+}
+
+// The visitor's current session, and the one hits older than it went to
+interface BatchSessions {
+  current: string | undefined;
+  earlier: string | undefined;
+}
+
+// The sessions after a stored hit: it either joined or replaced the current
+// one, or went to a session of its own for hits older than it
+function carrySessions(sessions: BatchSessions, sessionId: string | null, earlier: boolean): BatchSessions {
+  if (!sessionId) return sessions;
+  return earlier ? { ...sessions, earlier: sessionId } : { ...sessions, current: sessionId };
+}
+
+// Stores one hit of a batch; the sessions it ends up with carry over to the next
+async function processHit(
+  request: NextRequest,
+  site: SiteSummary,
+  hit: QueuedHit,
+  sessions: BatchSessions,
+  occurredAt: Date
+): Promise<{ result: BatchHitResult; sessions: BatchSessions }> {
+  if (!(await HitLedger.claim(site.id, hit.id))) {
+    return { result: { id: hit.id, status: 'duplicate' }, sessions };
+  }
+
+  try {
+    if (hit.type === 'event') {
+      const outcome = await recordEvent(request, site, hit.payload, sessions.current, occurredAt, sessions.earlier);
+      return {
+        result: { id: hit.id, status: outcome.stored ? 'stored' : 'skipped' },
+        sessions: carrySessions(sessions, outcome.sessionId, outcome.earlier),
+      };
+    }
+
+    const outcome = await recordVisit(request, site, hit.payload, sessions.current, occurredAt, sessions.earlier);
+    if (outcome.analytics && !outcome.stored) {
+      // The database write failed; the client sends the hit again later
+      await HitLedger.release(site.id, hit.id);
+      return { result: { id: hit.id, status: 'failed' }, sessions };
+    }
+    return {
+      result: { id: hit.id, status: outcome.stored ? 'stored' : 'skipped' },
+      sessions: carrySessions(sessions, outcome.sessionId, outcome.earlier),
+    };
+
+  } catch (error) {
+    if (error instanceof InvalidEventError) {
+      return { result: { id: hit.id, status: 'rejected', message: error.message }, sessions };
+    }
+
+    console.error('Batch hit error:', error);
+    await HitLedger.release(site.id, hit.id);
+    return {
+      result: { id: hit.id, status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      sessions,
+    };
+  }
+}
+
+// Page views and custom events queued by the client tracker, in the order they
+// happened: { siteId?, sessionId?, sentAt, hits: [{ id, type, queuedAt, payload }] }.
+// Each hit's `id` is an idempotency key, so a batch can be retried safely.
+// Answers with a status per hit; only `failed` hits should be sent again.
+export async function POST(request: NextRequest) {
+  try {
+    const batch = readBatch(await request.json());
+    const site = await SiteStore.authorize(request, batch.siteId || DEFAULT_SITE_ID);
+
+    const now = Date.now();
+    let sessions: BatchSessions = {
+      current: SessionTracker.readSessionId(request, site.id, batch.sessionId),
+      earlier: undefined,
+    };
+    const results: BatchHitResult[] = [];
+
+    // One at a time, so each hit joins the session the one before opened.
+    // Hits restored from an earlier page load can predate the current session;
+    // they get their own, and the client keeps the current one.
+    for (const hit of batch.hits) {
+      const age = Math.max(0, batch.sentAt - hit.queuedAt);
+      if (age > MAX_HIT_AGE_MS) {
+        results.push({ id: hit.id, status: 'rejected', message: 'The hit is too old' });
+        continue;
+      }
+
+      const processed = await processHit(request, site, hit, sessions, new Date(now - age));
+      results.push(processed.result);
+      sessions = processed.sessions;
+    }
+    const sessionId = sessions.current;
+
+    const body: BatchResponse = { success: true, sessionId: sessionId ?? null, results };
+    const response = NextResponse.json(body);
+    if (site.id === DEFAULT_SITE_ID && sessionId) {
+      SessionTracker.setCookie(response, sessionId);
+    }
+    return withCors(response, request);
+
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      // Readable by the embedding page, so its tracker can tell a rejection from an outage
+      return withCors(NextResponse.json(
+        {
+          success: false,
+          error: error.title,
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: error.status }
+      ), request);
+    }
+    if (error instanceof InvalidBatchError || error instanceof SyntaxError) {
+      return withCors(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid batch',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      ), request);
+    }
+
+    console.error('Batch tracking error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Batch tracking failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
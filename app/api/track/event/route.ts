@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionTracker } from '@/lib/sessions';
+import { InvalidEventError, type EventPayload } from '@/lib/events';
+import { recordEvent } from '@/lib/track-hits';
+import { corsHeaders, SiteAccessError, SiteStore, withCors } from '@/lib/site-store';
+import { DEFAULT_SITE_ID } from '@/lib/sites';
+
+// CORS preflight from sites embedding /t.js, as for /api/track
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  if (!origin || !(await SiteStore.isAllowedOrigin(origin))) {
+    return new NextResponse(null, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204, headers: corsHeaders(origin) });
+}
+
+// Records a custom event: { name, properties?, url? }, plus siteId, sessionId
+// and consent from embedded sites. Stored only with analytics consent.
+export async function POST(request: NextRequest) {
+  try {
+    const body: EventPayload = await request.json();
+    const site = await SiteStore.authorize(request, body.siteId || DEFAULT_SITE_ID);
+    const { stored, eventId, sessionId } = await recordEvent(
+      request,
+      site,
+      body,
+      SessionTracker.readSessionId(request, site.id, body.sessionId)
+    );
+    if (!stored) {
+      return withCors(NextResponse.json({ success: true, stored: false, sessionId: null }), request);
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      stored: true,
+      eventId,
+      sessionId,
+    });
+    if (site.id === DEFAULT_SITE_ID && sessionId) {
+      SessionTracker.setCookie(response, sessionId);
+    }
+    return withCors(response, request);
+
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      // Readable by the embedding page, so its tracker can tell a rejection from an outage
+      return withCors(NextResponse.json(
+        {
+          success: false,
+          error: error.title,
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: error.status }
+      ), request);
+    }
+    if (error instanceof InvalidEventError) {
+      return withCors(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid event',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      ), request);
+    }
+
+    console.error('Event tracking error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Event tracking failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { PageViewTracker } from "@/components/page-view-tracker";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -27,7 +28,9 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <PageViewTracker ignorePaths={["/admin"]}>
+          {children}
+        </PageViewTracker>
       </body>
     </html>
   );
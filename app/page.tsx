@@ -3,6 +3,9 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { ConsentBanner } from '@/components/consent-banner';
+import { usePageView } from '@/components/page-view-tracker';
+import type { ConsentStatus } from '@/lib/consent';
 import { 
   MapPin, 
   Monitor, 
@@ -35,60 +38,25 @@ interface VisitorData {
 
 export default function HomePage() {
   const [isTracking, setIsTracking] = useState(true);
-  const [visitorData, setVisitorData] = useState<VisitorData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  // Page views, including client-side route changes, are sent by the
+  // PageViewTracker in the root layout
+  const { lastHit, pending, resend } = usePageView();
+  const visitorData: VisitorData | null = lastHit?.visitorInfo ?? null;
 
   useEffect(() => {
-    const trackVisitor = async () => {
-      try {
-        // Collect client-side data
-        const clientData = {
-          userAgent: navigator.userAgent,
-          language: navigator.language,
-          platform: navigator.platform,
-          cookieEnabled: navigator.cookieEnabled,
-          onLine: navigator.onLine,
-          screen: {
-            width: screen.width,
-            height: screen.height,
-            colorDepth: screen.colorDepth,
-            pixelDepth: screen.pixelDepth
-          },
-          viewport: {
-            width: window.innerWidth,
-            height: window.innerHeight
-          },
-          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          timestamp: new Date().toISOString(),
-          referrer: document.referrer,
-          url: window.location.href
-        };
+    if (pending) return;
+    const timer = setTimeout(() => setIsTracking(false), 2000);
+    return () => clearTimeout(timer);
+  }, [pending]);
 
-        // Send to API
-        const response = await fetch('/api/track', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(clientData),
-        });
+  // Send the visit again once the visitor allows it to be stored
+  const handleConsentChange = (status: ConsentStatus) => {
+    if (status.effective.analytics) {
+      resend(status.effective);
+    }
+  };
 
-        if (response.ok) {
-          const data = await response.json();
-          setVisitorData(data.visitorInfo);
-        }
-      } catch (error) {
-        console.error('Tracking failed:', error);
-      } finally {
-        setIsLoading(false);
-        setTimeout(() => setIsTracking(false), 2000);
-      }
-    };
-
-    trackVisitor();
-  }, []);
-
-  if (isLoading || isTracking) {
+  if (isTracking) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-red-900 via-black to-red-800 flex items-center justify-center">
         <div className="text-center space-y-8">
@@ -282,6 +250,8 @@ export default function HomePage() {
           </div>
         </div>
       )}
+
+      <ConsentBanner onChange={handleConsentChange} />
     </div>
   );
 }
\ No newline at end of file
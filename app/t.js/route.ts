@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { TRACKING_SNIPPET } from '@/lib/tracking-snippet';
+
+// The embeddable tracking script. Which site it reports to is set by the
+// embedding page's `data-site` attribute, so one cached copy serves every site.
+export function GET() {
+  return new NextResponse(TRACKING_SNIPPET, {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Shield } from 'lucide-react';
+import { ConsentManager, type ConsentStatus } from '@/lib/consent';
+
+interface ConsentBannerProps {
+  onChange?: (status: ConsentStatus) => void;
+}
+
+export function ConsentBanner({ onChange }: ConsentBannerProps) {
+  const [status, setStatus] = useState<ConsentStatus | null>(null);
+  const [customizing, setCustomizing] = useState(false);
+  const [analytics, setAnalytics] = useState(false);
+  const [fingerprinting, setFingerprinting] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    ConsentManager.fetchStatus()
+      .then((current) => {
+        setStatus(current);
+        setAnalytics(current.choice.analytics);
+        setFingerprinting(current.choice.fingerprinting);
+      })
+      .catch((error) => console.error('Failed to load consent:', error));
+  }, []);
+
+  const save = async (choice: { analytics: boolean; fingerprinting: boolean }) => {
+    setSaving(true);
+    try {
+      const updated = await ConsentManager.saveChoice(choice);
+      setStatus(updated);
+      onChange?.(updated);
+    } catch (error) {
+      console.error('Failed to save consent:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!status || status.decided) {
+    return null;
+  }
+
+  const optedOut = status.honorsOptOutSignals
+    && (status.signals.doNotTrack || status.signals.globalPrivacyControl);
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 p-4">
+      <Card className="container mx-auto bg-slate-900/95 border-red-800 text-white backdrop-blur-sm">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center space-x-3">
+            <Shield className="w-6 h-6 text-red-400" />
+            <h3 className="text-lg font-bold text-red-300">Privacy choices</h3>
+            {optedOut && (
+              <Badge variant="secondary" className="text-xs">
+                Browser opt-out respected
+              </Badge>
+            )}
+          </div>
+
+          <p className="text-sm text-slate-300">
+            Strictly necessary processing is always on and stores nothing. With your consent we
+            store your visit for analytics, and run browser fingerprinting probes (canvas, WebGL,
+            fonts, plugins).
+            {optedOut && ' Your browser sends a Do Not Track or Global Privacy Control signal, so neither is used whatever you choose here.'}
+          </p>
+
+          {customizing && (
+            <div className="space-y-2 text-sm">
+              <label className="flex items-center space-x-2 text-slate-400">
+                <input type="checkbox" checked disabled />
+                <span>Strictly necessary</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={analytics}
+                  onChange={(event) => setAnalytics(event.target.checked)}
+                />
+                <span>Analytics</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={fingerprinting}
+                  onChange={(event) => setFingerprinting(event.target.checked)}
+                />
+                <span>Fingerprinting</span>
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              disabled={saving}
+              onClick={() => save({ analytics: true, fingerprinting: true })}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Accept all
+            </button>
+            <button
+              disabled={saving}
+              onClick={() => save({ analytics: false, fingerprinting: false })}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50"
+            >
+              Necessary only
+            </button>
+            {customizing ? (
+              <button
+                disabled={saving}
+                onClick={() => save({ analytics, fingerprinting })}
+                className="px-4 py-2 border border-slate-600 text-white rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                Save choices
+              </button>
+            ) : (
+              <button
+                onClick={() => setCustomizing(true)}
+                className="px-4 py-2 border border-slate-600 text-white rounded-lg hover:bg-slate-800 transition-colors"
+              >
+                Customize
+              </button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDownRight, ArrowUpRight, BarChart3, CalendarDays, Repeat, TrendingDown, TrendingUp } from 'lucide-react';
+import { GRANULARITIES, type Granularity } from '@/lib/time-buckets';
+import { compareCounts, type Change } from '@/lib/comparison';
+import type { DashboardStats } from '@/lib/dashboard-types';
+
+// Dashboard charts, drawn with plain SVG and divs inside the Card primitives
+
+interface ChangeIndicatorProps {
+  change?: Change;
+  // For metrics where lower is better, e.g. bounce rate
+  inverted?: boolean;
+}
+
+// Up/down arrow with the change against the comparison period
+export function ChangeIndicator({ change, inverted = false }: ChangeIndicatorProps) {
+  if (!change) return null;
+
+  const title = `Previous: ${change.previous}`;
+  if (change.delta === 0) {
+    return <span className="text-xs text-slate-500" title={title}>±0</span>;
+  }
+
+  const up = change.delta > 0;
+  const good = up !== inverted;
+  const Arrow = up ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`inline-flex items-center text-xs font-mono ${good ? 'text-green-400' : 'text-red-400'}`} title={title}>
+      <Arrow className="w-3 h-3" />
+      {change.percent !== null ? `${Math.abs(change.percent)}%` : `${up ? '+' : ''}${change.delta}`}
+    </span>
+  );
+}
+
+const LABEL_FORMATS: Record<Granularity, Intl.DateTimeFormatOptions> = {
+  minute: { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' },
+  hour: { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' },
+  day: { month: 'short', day: 'numeric' },
+  week: { month: 'short', day: 'numeric' },
+  month: { month: 'short', year: 'numeric' },
+};
+
+// About this many axis labels, whatever the number of buckets
+const AXIS_LABELS = 6;
+
+interface TimeSeriesChartProps {
+  series: DashboardStats['timeSeries'];
+  // Comparison period, drawn as a line over the bars
+  previous?: NonNullable<DashboardStats['comparison']>['timeSeries'];
+  onGranularityChange: (granularity: Granularity) => void;
+  title?: string;
+  // What is counted, plural
+  unit?: string;
+}
+
+export function TimeSeriesChart({
+  series,
+  previous,
+  onGranularityChange,
+  title = 'Traffic',
+  unit = 'visits',
+}: TimeSeriesChartProps) {
+  const { buckets } = series;
+  const previousCounts = previous?.buckets.slice(0, buckets.length).map((bucket) => bucket.count) ?? [];
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count), ...previousCounts);
+  const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  const previousTotal = previousCounts.reduce((sum, count) => sum + count, 0);
+  const format = new Intl.DateTimeFormat(undefined, { ...LABEL_FORMATS[series.granularity], timeZone: series.timeZone });
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / AXIS_LABELS));
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-blue-300">
+          <BarChart3 className="w-5 h-5" />
+          <span>{title}</span>
+          <Badge variant="secondary" className="text-xs">{total} {unit}</Badge>
+          {previous && <ChangeIndicator change={compareCounts(total, previousTotal)} />}
+          <select
+            value={series.granularity}
+            onChange={(event) => onGranularityChange(event.target.value as Granularity)}
+            className="ml-auto bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-sm text-white font-normal"
+          >
+            {GRANULARITIES.map((granularity) => (
+              <option key={granularity} value={granularity}>
+                {granularity.charAt(0).toUpperCase() + granularity.slice(1)}
+              </option>
+            ))}
+          </select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <svg
+          viewBox={`0 0 ${buckets.length} 100`}
+          preserveAspectRatio="none"
+          className="w-full h-48"
+          role="img"
+          aria-label={`${title} over time`}
+        >
+          {buckets.map((bucket, index) => {
+            const height = (bucket.count / max) * 100;
+            return (
+              <rect
+                key={bucket.start}
+                x={index + 0.1}
+                y={100 - height}
+                width={0.8}
+                height={height}
+                className="fill-blue-400"
+              >
+                <title>
+                  {`${format.format(new Date(bucket.start))}: ${bucket.count}`
+                    + (bucket.change ? ` (previous ${bucket.change.previous})` : '')}
+                </title>
+              </rect>
+            );
+          })}
+          {previous && (
+            <polyline
+              points={previousCounts.map((count, index) => `${index + 0.5},${100 - (count / max) * 100}`).join(' ')}
+              className="fill-none stroke-orange-300"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        <div className="relative h-5 mt-2 text-xs text-slate-400">
+          {buckets.map((bucket, index) => index % labelEvery === 0 && (
+            <span
+              key={bucket.start}
+              className="absolute whitespace-nowrap"
+              style={{ left: `${(index / buckets.length) * 100}%` }}
+            >
+              {format.format(new Date(bucket.start))}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          Times in {series.timeZone}, max {max} per {series.granularity}
+          {previous && (
+            <span className="text-orange-300">
+              {' · '}dashed: {new Date(previous.from).toLocaleDateString()} to {new Date(previous.to).toLocaleDateString()}
+            </span>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface BreakdownChartProps {
+  title: string;
+  icon: ReactNode;
+  rows: Array<{ label: string; count: number; visitors?: number; change?: Change }>;
+  // Full Tailwind classes, so they survive purging
+  titleClassName: string;
+  barClassName: string;
+  onSelect?: (value: string) => void;
+}
+
+// Share of each value among the rows shown, as a stacked bar and a legend
+export function BreakdownChart({ title, icon, rows, titleClassName, barClassName, onSelect }: BreakdownChartProps) {
+  const total = rows.reduce((sum, row) => sum + row.count, 0) || 1;
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className={`flex items-center space-x-2 ${titleClassName}`}>
+          {icon}
+          <span>{title}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.length === 0 && <p className="text-sm text-slate-400">No data for this view.</p>}
+        {rows.map((row) => {
+          const share = (row.count / total) * 100;
+          return (
+            <div key={row.label} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                {onSelect ? (
+                  <button onClick={() => onSelect(row.label)} className="text-white truncate hover:underline">
+                    {row.label}
+                  </button>
+                ) : (
+                  <span className="text-white truncate">{row.label}</span>
+                )}
+                <span className="text-slate-300 font-mono space-x-2">
+                  <ChangeIndicator change={row.change} />
+                  <span>{row.count}</span>
+                  <span className="text-slate-500">({share.toFixed(1)}%)</span>
+                  {row.visitors !== undefined && <span className="text-slate-500">{row.visitors} unique</span>}
+                </span>
+              </div>
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${barClassName}`} style={{ width: `${share}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RepeatVisitorsChartProps {
+  visitors: DashboardStats['repeatVisitors'];
+  // Viewers get an empty list from the API rather than redacted rows
+  restricted: boolean;
+}
+
+export function RepeatVisitorsChart({ visitors, restricted }: RepeatVisitorsChartProps) {
+  const max = Math.max(1, ...visitors.map((visitor) => visitor.visits));
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-orange-300">
+          <Repeat className="w-5 h-5" />
+          <span>Repeat Visitors</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {restricted ? (
+          <p className="text-sm text-slate-400">Repeat visitors need the analyst role.</p>
+        ) : visitors.length === 0 ? (
+          <p className="text-sm text-slate-400">No visitor came back more than once in this view.</p>
+        ) : visitors.map((visitor) => (
+          <div key={visitor.ip} className="flex items-center justify-between gap-4">
+            <span className="font-mono text-red-300 text-sm truncate">{visitor.ip}</span>
+            <div className="flex items-center space-x-2">
+              <div className="w-32 h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-orange-400 rounded-full" style={{ width: `${(visitor.visits / max) * 100}%` }} />
+              </div>
+              <span className="text-orange-300 font-mono text-sm w-8">{visitor.visits}</span>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DailyKpiStripProps {
+  dailyStats: DashboardStats['dailyStats'];
+}
+
+// Today against yesterday, in the analyst's time zone
+export function DailyKpiStrip({ dailyStats }: DailyKpiStripProps) {
+  const { change } = dailyStats;
+  const falling = change.delta < 0;
+  const GrowthIcon = falling ? TrendingDown : TrendingUp;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+        <CardContent className="p-6 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-400">Today</p>
+            <p className="text-3xl font-bold text-white">{dailyStats.today}</p>
+          </div>
+          <CalendarDays className="w-10 h-10 text-blue-400 opacity-80" />
+        </CardContent>
+      </Card>
+      <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+        <CardContent className="p-6 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-400">Yesterday</p>
+            <p className="text-3xl font-bold text-slate-300">{dailyStats.yesterday}</p>
+          </div>
+          <CalendarDays className="w-10 h-10 text-slate-400 opacity-80" />
+        </CardContent>
+      </Card>
+      <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+        <CardContent className="p-6 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-400">Growth</p>
+            <div className="flex items-center space-x-2">
+              <p className={`text-3xl font-bold ${falling ? 'text-red-400' : 'text-green-400'}`}>
+                {change.percent !== null
+                  ? `${change.percent > 0 ? '+' : ''}${change.percent}%`
+                  : `${change.delta > 0 ? '+' : ''}${change.delta}`}
+              </p>
+              {change.previous === 0 && (
+                <Badge variant="secondary" className="text-xs">no visits yesterday</Badge>
+              )}
+            </div>
+          </div>
+          <GrowthIcon className={`w-10 h-10 opacity-80 ${falling ? 'text-red-400' : 'text-green-400'}`} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Calendar, Filter, X } from 'lucide-react';
+import { DIMENSION_FILTERS, type DashboardFilters } from '@/lib/dashboard-filters';
+import { COMPARE_MODES, type CompareMode } from '@/lib/comparison';
+
+interface DashboardFilterBarProps {
+  filters: DashboardFilters;
+  onChange: (filters: DashboardFilters) => void;
+  rollupsIncluded?: boolean;
+  compare?: CompareMode | null;
+  onCompareChange?: (compare: CompareMode | null) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPARE_LABELS: Record<CompareMode, string> = {
+  previous: 'Previous period',
+  year: 'Same period last year',
+};
+
+const PRESETS = [
+  { label: '24h', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+// Dates are sent as UTC days, matching how the API reads `from` and `to`
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function DashboardFilterBar({
+  filters,
+  onChange,
+  rollupsIncluded = true,
+  compare = null,
+  onCompareChange,
+}: DashboardFilterBarProps) {
+  const update = (key: keyof DashboardFilters, value: string | undefined) => {
+    const next = { ...filters };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    onChange(next);
+  };
+
+  const applyPreset = (days: number) => {
+    const today = new Date();
+    onChange({
+      ...filters,
+      from: isoDay(new Date(today.getTime() - (days - 1) * DAY_MS)),
+      to: isoDay(today),
+    });
+  };
+
+  const chips = DIMENSION_FILTERS.filter((key) => filters[key]);
+
+  return (
+    <div className="space-y-3 mb-8">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Calendar className="w-4 h-4 text-blue-400" />
+        <input
+          type="date"
+          value={filters.from ?? ''}
+          max={filters.to}
+          onChange={(event) => update('from', event.target.value)}
+          className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-1 text-white"
+        />
+        <span className="text-slate-400">to</span>
+        <input
+          type="date"
+          value={filters.to ?? ''}
+          min={filters.from}
+          onChange={(event) => update('to', event.target.value)}
+          className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-1 text-white"
+        />
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => applyPreset(preset.days)}
+            className="px-3 py-1 border border-slate-600 rounded-lg text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange({ ...filters, from: undefined, to: undefined })}
+          className="px-3 py-1 border border-slate-600 rounded-lg text-slate-300 hover:bg-slate-800 transition-colors"
+        >
+          All time
+        </button>
+        {onCompareChange && (
+          // A comparison period is derived from the selected range
+          <select
+            value={compare ?? ''}
+            disabled={!filters.from}
+            onChange={(event) => onCompareChange((event.target.value || null) as CompareMode | null)}
+            className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-1 text-white disabled:opacity-50"
+            title={filters.from ? undefined : 'Select a date range to compare'}
+          >
+            <option value="">No comparison</option>
+            {COMPARE_MODES.map((mode) => (
+              <option key={mode} value={mode}>Compare: {COMPARE_LABELS[mode]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Filter className="w-4 h-4 text-blue-400" />
+        {chips.length === 0 && (
+          <span className="text-slate-500">Click a country, city, device, browser or OS to filter</span>
+        )}
+        {chips.map((key) => (
+          <Badge key={key} variant="secondary" className="text-xs space-x-1">
+            <span className="text-slate-500">{key}:</span>
+            <span>{filters[key]}</span>
+            <button onClick={() => update(key, undefined)} aria-label={`Remove ${key} filter`}>
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        {chips.length > 1 && (
+          <button
+            onClick={() => onChange({ site: filters.site, from: filters.from, to: filters.to })}
+            className="text-xs text-slate-400 hover:text-white"
+          >
+            Clear filters
+          </button>
+        )}
+        {!rollupsIncluded && (
+          <span className="text-xs text-yellow-400">
+            Data older than the raw retention period is not included in filtered views
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { MousePointerClick, Tag } from 'lucide-react';
+import { BreakdownChart, TimeSeriesChart } from '@/components/dashboard-charts';
+import { toSearchParams, type DashboardFilters } from '@/lib/dashboard-filters';
+import type { EventStats } from '@/lib/dashboard-types';
+import type { Granularity } from '@/lib/time-buckets';
+
+interface EventsPanelProps {
+  filters: DashboardFilters;
+  granularity: Granularity;
+  onGranularityChange: (granularity: Granularity) => void;
+}
+
+// Custom events sent with track(): counts per event, over time and, for the
+// selected event, per property value
+export function EventsPanel({ filters, granularity, onGranularityChange }: EventsPanelProps) {
+  const [stats, setStats] = useState<EventStats | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = toSearchParams(filters);
+    params.set('tz', Intl.DateTimeFormat().resolvedOptions().timeZone);
+    params.set('granularity', granularity);
+    if (selected) params.set('event', selected);
+
+    const controller = new AbortController();
+    fetch(`/api/admin/events?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || 'Failed to fetch events');
+        setStats(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+    return () => controller.abort();
+  }, [filters, granularity, selected]);
+
+  return (
+    <div className="space-y-6 mb-8">
+      <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-pink-300">
+            <MousePointerClick className="w-5 h-5" />
+            <span>Events</span>
+            {selected && (
+              <button onClick={() => setSelected(null)} className="ml-auto text-xs font-normal text-slate-400 hover:text-white">
+                Show all events
+              </button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {stats && stats.events.length === 0 && (
+            <p className="text-sm text-slate-400">No events in this view. Send them with track(name, properties).</p>
+          )}
+          {stats?.events.map((event) => (
+            <div key={event.name} className="flex items-center justify-between text-sm">
+              <button
+                onClick={() => setSelected(event.name === selected ? null : event.name)}
+                className={`font-mono truncate hover:underline ${event.name === selected ? 'text-pink-300' : 'text-white'}`}
+              >
+                {event.name}
+              </button>
+              <span className="text-slate-300 font-mono space-x-2">
+                <span>{event.count}</span>
+                <span className="text-slate-500">{event.sessions} sessions</span>
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {stats && stats.events.length > 0 && (
+        <TimeSeriesChart
+          series={stats.timeSeries}
+          onGranularityChange={onGranularityChange}
+          title={selected ?? 'All events'}
+          unit="events"
+        />
+      )}
+
+      {selected && stats && (
+        stats.properties.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            <Badge variant="secondary" className="text-xs mr-2">{selected}</Badge>
+            was sent without properties.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {stats.properties.map((breakdown) => (
+              <BreakdownChart
+                key={breakdown.property}
+                title={breakdown.property}
+                icon={<Tag className="w-5 h-5" />}
+                rows={breakdown.values.map((value) => ({ label: value.value, count: value.count }))}
+                titleClassName="text-pink-300"
+                barClassName="bg-pink-400"
+              />
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
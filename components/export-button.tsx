@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { toSearchParams, type DashboardFilters } from '@/lib/dashboard-filters';
+
+interface ExportButtonProps {
+  filters: DashboardFilters;
+}
+
+const FORMATS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'ndjson', label: 'JSON Lines' },
+  { value: 'columnar', label: 'Columnar' },
+];
+
+// Downloads the visitors matching the current dashboard filters
+export function ExportButton({ filters }: ExportButtonProps) {
+  const [format, setFormat] = useState('csv');
+
+  const params = toSearchParams(filters);
+  params.set('format', format);
+
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <select
+        value={format}
+        onChange={(event) => setFormat(event.target.value)}
+        className="bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-white"
+      >
+        {FORMATS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <a
+        href={`/api/admin/export?${params}`}
+        className="flex items-center space-x-2 px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        <span>Export</span>
+      </a>
+    </div>
+  );
+}
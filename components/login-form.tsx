@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Eye, KeyRound } from 'lucide-react';
+
+interface LoginFormProps {
+  next: string;
+  oidcEnabled: boolean;
+  error?: string;
+}
+
+export function LoginForm({ next, oidcEnabled, error: initialError }: LoginFormProps) {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(initialError ?? null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Sign-in failed');
+      }
+
+      router.replace(next);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md bg-slate-800/50 border-blue-700 backdrop-blur-sm text-white">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-3 text-blue-300">
+          <Eye className="w-6 h-6" />
+          <span>Sign in to the dashboard</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-300">
+            <AlertTriangle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block space-y-1 text-sm">
+            <span className="text-slate-400">Username</span>
+            <input
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+              autoComplete="username"
+              required
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="text-slate-400">Password</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete="current-password"
+              required
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+
+        {oidcEnabled && (
+          <a
+            href={`/api/auth/oidc?next=${encodeURIComponent(next)}`}
+            className="flex items-center justify-center space-x-2 w-full px-4 py-2 border border-slate-600 text-white rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            <KeyRound className="w-4 h-4" />
+            <span>Sign in with single sign-on</span>
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { createContext, Suspense, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import type { ConsentState } from '@/lib/consent';
+import { NavigationTracker, queuePageView, sendPageView, startHitQueue, type TrackResponse } from '@/lib/tracking';
+
+interface PageViewState {
+  // Response to the latest page view; null before it arrives or if it failed
+  lastHit: TrackResponse | null;
+  pending: boolean;
+  // Sends the current page again, e.g. once the visitor gives consent
+  resend: (consent: ConsentState) => Promise<void>;
+}
+
+const PageViewContext = createContext<PageViewState | null>(null);
+
+export function usePageView(): PageViewState {
+  const state = useContext(PageViewContext);
+  if (!state) {
+    throw new Error('usePageView must be used inside <PageViewTracker>');
+  }
+  return state;
+}
+
+interface PageViewTrackerProps {
+  children: React.ReactNode;
+  // Path prefixes that are never tracked
+  ignorePaths?: string[];
+  trackHashChanges?: boolean;
+}
+
+// Sends a page view on load and on every client-side route change, with the
+// previous URL as referrer
+export function PageViewTracker({ children, ignorePaths = [], trackHashChanges = false }: PageViewTrackerProps) {
+  const [lastHit, setLastHit] = useState<TrackResponse | null>(null);
+  const [pending, setPending] = useState(true);
+  const tracker = useRef<NavigationTracker | null>(null);
+  const referrer = useRef('');
+  const latest = useRef(0);
+  const ignored = ignorePaths.join('\n');
+
+  const isIgnored = useCallback(() => {
+    const path = window.location.pathname;
+    return ignored !== '' && ignored.split('\n').some((prefix) => path.startsWith(prefix));
+  }, [ignored]);
+
+  // Sent right away, since the page shows the response
+  const send = useCallback(async (from: string, consent?: ConsentState) => {
+    if (isIgnored()) {
+      setPending(false);
+      return;
+    }
+
+    // Responses can arrive out of order; only the latest page view is kept
+    const hit = ++latest.current;
+    referrer.current = from;
+    setPending(true);
+    const response = await sendPageView(consent, from);
+    if (hit === latest.current) {
+      setLastHit(response);
+      setPending(false);
+    }
+  }, [isIgnored]);
+
+  useEffect(() => {
+    startHitQueue();
+    send(document.referrer);
+
+    // Route changes go out with the next batch
+    const navigation = new NavigationTracker((_url, previousUrl) => {
+      if (isIgnored()) return;
+      referrer.current = previousUrl;
+      queuePageView(previousUrl);
+    }, { trackHashChanges });
+    navigation.start();
+    tracker.current = navigation;
+    return () => {
+      navigation.stop();
+      tracker.current = null;
+    };
+  }, [send, isIgnored, trackHashChanges]);
+
+  const onRouteChange = useCallback(() => tracker.current?.notify(), []);
+
+  const state = useMemo<PageViewState>(() => ({
+    lastHit,
+    pending,
+    resend: (consent) => send(referrer.current, consent),
+  }), [lastHit, pending, send]);
+
+  return (
+    <PageViewContext.Provider value={state}>
+      <Suspense fallback={null}>
+        <RouteChanges onChange={onRouteChange} />
+      </Suspense>
+      {children}
+    </PageViewContext.Provider>
+  );
+}
+
+// App Router navigations, for route changes the history hooks miss. The
+// tracker ignores URLs it has already seen.
+function RouteChanges({ onChange }: { onChange: () => void }) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  useEffect(() => {
+    onChange();
+  }, [pathname, searchParams, onChange]);
+
+  return null;
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LayoutGrid } from 'lucide-react';
+import { DEFAULT_SITE_ID, type SiteSummary } from '@/lib/sites';
+
+interface SiteSwitcherProps {
+  // Site id; the default site when unset
+  value?: string;
+  onChange: (siteId: string) => void;
+}
+
+// Picks the site every figure on the page is scoped to
+export function SiteSwitcher({ value = DEFAULT_SITE_ID, onChange }: SiteSwitcherProps) {
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+
+  useEffect(() => {
+    fetch('/api/admin/sites')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setSites(data?.sites ?? []))
+      .catch((error) => console.error('Failed to load sites:', error));
+  }, []);
+
+  // Nothing to switch between until a second site is registered
+  if (sites.length < 2) return null;
+
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <LayoutGrid className="w-4 h-4 text-blue-400" />
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-1 text-white"
+        aria-label="Site"
+      >
+        {sites.map((site) => (
+          <option key={site.id} value={site.id}>{site.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
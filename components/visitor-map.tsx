@@ -0,0 +1,227 @@
+'use client';
+
+import { useMemo, useRef, useState, type PointerEvent } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Globe, Minus, Plus, RotateCcw } from 'lucide-react';
+import { MAP_HEIGHT, MAP_WIDTH, project, WORLD_COUNTRIES } from '@/lib/world-map';
+import type { DashboardStats } from '@/lib/dashboard-types';
+
+interface VisitorMapProps {
+  locations: DashboardStats['visitorLocations'];
+  countries: DashboardStats['countryVisits'];
+  onSelectCountry: (country: string) => void;
+  onSelectCity: (city: string) => void;
+}
+
+interface Cluster {
+  x: number;
+  y: number;
+  count: number;
+  cities: Set<string>;
+}
+
+const MAX_ZOOM = 16;
+// Points closer than this, in map units at zoom 1, are drawn as one cluster
+const CLUSTER_CELL = 12;
+// Clicks that moved less than this many pixels are not drags
+const DRAG_THRESHOLD = 4;
+
+// Shades from no visits to the busiest country, on a log scale so one busy
+// country doesn't wash out the rest
+const SHADES = ['fill-slate-700', 'fill-blue-900', 'fill-blue-700', 'fill-blue-500', 'fill-blue-300'];
+
+function shadeLevel(count: number, max: number): number {
+  if (count <= 0) return 0;
+  return Math.max(1, Math.ceil((Math.log1p(count) / Math.log1p(max)) * (SHADES.length - 1)));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+export function VisitorMap({ locations, countries, onSelectCountry, onSelectCity }: VisitorMapProps) {
+  const [view, setView] = useState({ zoom: 1, x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean } | null>(null);
+
+  const width = MAP_WIDTH / view.zoom;
+  const height = MAP_HEIGHT / view.zoom;
+  const left = clamp(view.x - width / 2, 0, MAP_WIDTH - width);
+  const top = clamp(view.y - height / 2, 0, MAP_HEIGHT - height);
+
+  // Stored country names can differ from Natural Earth's, so codes come first
+  const visitsByCountry = useMemo(() => {
+    const byCode = new Map<string, DashboardStats['countryVisits'][number]>();
+    const byName = new Map<string, DashboardStats['countryVisits'][number]>();
+    for (const entry of countries) {
+      if (entry.countryCode) byCode.set(entry.countryCode, entry);
+      byName.set(entry.country.toLowerCase(), entry);
+    }
+    return WORLD_COUNTRIES.map((country) => (
+      (country.code && byCode.get(country.code)) || byName.get(country.name.toLowerCase()) || null
+    ));
+  }, [countries]);
+
+  const maxVisits = Math.max(1, ...countries.map((entry) => entry.count));
+
+  const clusters = useMemo(() => {
+    const cell = CLUSTER_CELL / view.zoom;
+    const cells = new Map<string, Cluster & { sumX: number; sumY: number }>();
+    for (const location of locations) {
+      const { x, y } = project(location.latitude, location.longitude);
+      const key = `${Math.floor(x / cell)}:${Math.floor(y / cell)}`;
+      const cluster = cells.get(key) ?? { x: 0, y: 0, sumX: 0, sumY: 0, count: 0, cities: new Set<string>() };
+      cluster.sumX += x;
+      cluster.sumY += y;
+      cluster.count += 1;
+      cluster.cities.add(location.city);
+      cells.set(key, cluster);
+    }
+    return Array.from(cells.values()).map(({ sumX, sumY, ...cluster }) => ({
+      ...cluster,
+      x: sumX / cluster.count,
+      y: sumY / cluster.count,
+    }));
+  }, [locations, view.zoom]);
+
+  const zoomTo = (zoom: number, x = view.x, y = view.y) => {
+    setView({ zoom: clamp(zoom, 1, MAX_ZOOM), x, y });
+  };
+
+  const selectCluster = (cluster: Cluster) => {
+    if (drag.current?.moved) return;
+    if (cluster.cities.size === 1) {
+      onSelectCity(Array.from(cluster.cities)[0]);
+    } else {
+      zoomTo(view.zoom * 2, cluster.x, cluster.y);
+    }
+  };
+
+  const onPointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    drag.current = { startX: event.clientX, startY: event.clientY, x: left + width / 2, y: top + height / 2, moved: false };
+  };
+
+  const onPointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const current = drag.current;
+    const svg = svgRef.current;
+    if (!current || !svg || event.buttons === 0) return;
+
+    const dx = event.clientX - current.startX;
+    const dy = event.clientY - current.startY;
+    if (!current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!current.moved) svg.setPointerCapture(event.pointerId);
+    current.moved = true;
+
+    const unitsPerPixel = width / svg.getBoundingClientRect().width;
+    setView((previous) => ({
+      ...previous,
+      x: clamp(current.x - dx * unitsPerPixel, width / 2, MAP_WIDTH - width / 2),
+      y: clamp(current.y - dy * unitsPerPixel, height / 2, MAP_HEIGHT - height / 2),
+    }));
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-blue-300">
+          <Globe className="w-5 h-5" />
+          <span>Visitor Map</span>
+          <Badge variant="secondary" className="text-xs">{locations.length} recent locations</Badge>
+          <div className="ml-auto flex items-center space-x-1">
+            <button onClick={() => zoomTo(view.zoom * 2)} className="p-1 rounded hover:bg-slate-700" aria-label="Zoom in">
+              <Plus className="w-4 h-4" />
+            </button>
+            <button onClick={() => zoomTo(view.zoom / 2)} className="p-1 rounded hover:bg-slate-700" aria-label="Zoom out">
+              <Minus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setView({ zoom: 1, x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 })}
+              className="p-1 rounded hover:bg-slate-700"
+              aria-label="Reset view"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <svg
+          ref={svgRef}
+          viewBox={`${left} ${top} ${width} ${height}`}
+          className="w-full aspect-[2/1] bg-slate-900/60 rounded-lg cursor-grab touch-none select-none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          role="img"
+          aria-label="Map of visitor locations"
+        >
+          {WORLD_COUNTRIES.map((country, index) => {
+            const visits = visitsByCountry[index];
+            return (
+              <path
+                key={`${country.code}-${country.name}`}
+                d={country.d}
+                className={`${SHADES[shadeLevel(visits?.count ?? 0, maxVisits)]} stroke-slate-900 ${visits ? 'cursor-pointer hover:fill-cyan-400' : ''}`}
+                strokeWidth={0.5}
+                vectorEffect="non-scaling-stroke"
+                onClick={() => {
+                  if (visits && !drag.current?.moved) onSelectCountry(visits.country);
+                }}
+              >
+                <title>{`${country.name}: ${visits?.count ?? 0} visits`}</title>
+              </path>
+            );
+          })}
+          {clusters.map((cluster) => {
+            const radius = (1.5 + Math.log2(cluster.count)) / view.zoom;
+            return (
+              <g
+                key={`${cluster.x}:${cluster.y}`}
+                className="cursor-pointer"
+                onClick={() => selectCluster(cluster)}
+              >
+                <circle
+                  cx={cluster.x}
+                  cy={cluster.y}
+                  r={radius}
+                  className="fill-red-500/80 stroke-red-200"
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                />
+                {cluster.count > 1 && (
+                  <text
+                    x={cluster.x}
+                    y={cluster.y}
+                    fontSize={radius}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className="fill-white pointer-events-none"
+                  >
+                    {cluster.count}
+                  </text>
+                )}
+                <title>
+                  {cluster.cities.size === 1
+                    ? `${Array.from(cluster.cities)[0]}: ${cluster.count} visits`
+                    : `${cluster.count} visits in ${cluster.cities.size} cities, click to zoom in`}
+                </title>
+              </g>
+            );
+          })}
+        </svg>
+        <div className="flex items-center justify-between mt-3 text-xs text-slate-400">
+          <div className="flex items-center space-x-1">
+            <span>0</span>
+            <svg viewBox="0 0 50 6" className="w-24 h-2">
+              {SHADES.map((shade, index) => (
+                <rect key={shade} x={index * 10} y={0} width={10} height={6} className={shade} />
+              ))}
+            </svg>
+            <span>{maxVisits} visits</span>
+          </div>
+          <span>Click a country or city to filter the dashboard</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
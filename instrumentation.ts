@@ -0,0 +1,9 @@
+export async function register() {
+  // Background jobs only run in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { scheduleRetention } = await import('@/lib/retention');
+    const { scheduleSessionSweep } = await import('@/lib/sessions');
+    scheduleRetention();
+    scheduleSessionSweep();
+  }
+}
@@ -0,0 +1,114 @@
+import { createHash, randomBytes } from 'crypto';
+import { prismadb } from '@/lib/db';
+import { isApiScope, type ApiScope } from '@/lib/roles';
+
+// Keys look like `ylk_<43 base64url characters>`; the prefix makes leaked keys easy to spot
+export const API_KEY_PREFIX = 'ylk_';
+
+export interface ApiKeyPrincipal {
+  kind: 'apiKey';
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  rateLimit: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets
+  resetIn: number;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function getDefaultRateLimit(): number {
+  return Number(process.env.API_KEY_DEFAULT_RATE_LIMIT) || 60;
+}
+
+// Keys carry 256 bits of randomness, so a plain SHA-256 is enough to store them
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function parseScopes(value: unknown): ApiScope[] {
+  return Array.isArray(value) ? value.filter(isApiScope) : [];
+}
+
+export class ApiKeyStore {
+  // Fixed one-minute windows per key, kept in process memory
+  private static windows = new Map<string, { start: number; count: number }>();
+
+  // Returns the plaintext key, which is shown once and never stored
+  static async create(input: {
+    name: string;
+    scopes: ApiScope[];
+    rateLimit?: number;
+    expiresAt?: Date | null;
+    createdById?: string | null;
+  }) {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const record = await prismadb.apiKey.create({
+      data: {
+        name: input.name,
+        prefix: key.slice(0, 12),
+        keyHash: hashApiKey(key),
+        scopes: input.scopes,
+        rateLimit: input.rateLimit ?? getDefaultRateLimit(),
+        expiresAt: input.expiresAt ?? null,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    return { key, record };
+  }
+
+  // The key's principal, or null when it is unknown, revoked or expired
+  static async authenticate(key: string, now: Date = new Date()): Promise<ApiKeyPrincipal | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+    const record = await prismadb.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+    if (!record || record.revokedAt) return null;
+    if (record.expiresAt && record.expiresAt <= now) return null;
+
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await prismadb.apiKey.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return {
+      kind: 'apiKey',
+      id: record.id,
+      name: record.name,
+      scopes: parseScopes(record.scopes),
+      rateLimit: record.rateLimit,
+    };
+  }
+
+  static consumeRateLimit(principal: ApiKeyPrincipal, now: number = Date.now()): RateLimitResult {
+    let window = this.windows.get(principal.id);
+    if (!window || now - window.start >= RATE_WINDOW_MS) {
+      window = { start: now, count: 0 };
+      this.windows.set(principal.id, window);
+    }
+
+    const resetIn = Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000);
+    if (window.count >= principal.rateLimit) {
+      return { allowed: false, limit: principal.rateLimit, remaining: 0, resetIn };
+    }
+
+    window.count++;
+    return {
+      allowed: true,
+      limit: principal.rateLimit,
+      remaining: principal.rateLimit - window.count,
+      resetIn,
+    };
+  }
+}
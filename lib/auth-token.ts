@@ -0,0 +1,88 @@
+import { isRole, type Role } from '@/lib/roles';
+
+// Signed admin session cookies. Uses Web Crypto so the middleware (edge
+// runtime) can check them without a database round trip; route handlers
+// additionally check the session row, so signing out takes effect at once.
+
+export const AUTH_COOKIE = 'yl_admin';
+
+export interface AuthTokenPayload {
+  // AdminSession id
+  sid: string;
+  uid: string;
+  role: Role;
+  // Expiry, in ms since the epoch
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+export class AuthConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigurationError';
+  }
+}
+
+// Must be shared by the middleware and the server, so there is no random fallback
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new AuthConfigurationError('AUTH_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getAuthSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+export async function signAuthToken(payload: AuthTokenPayload): Promise<string> {
+  const encoded = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(encoded));
+  return `${encoded}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Null for tampered, malformed or expired tokens
+export async function verifyAuthToken(token: string | undefined, now: number = Date.now()): Promise<AuthTokenPayload | null> {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(encoded),
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+    if (typeof payload.sid !== 'string' || typeof payload.uid !== 'string' || !isRole(payload.role)) return null;
+    if (typeof payload.exp !== 'number' || payload.exp <= now) return null;
+
+    return payload as AuthTokenPayload;
+  } catch (error) {
+    if (error instanceof AuthConfigurationError) throw error;
+    return null;
+  }
+}
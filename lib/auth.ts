@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prismadb } from '@/lib/db';
+import { AUTH_COOKIE, signAuthToken, verifyAuthToken } from '@/lib/auth-token';
+import { hashPassword, verifyPassword } from '@/lib/passwords';
+import { ApiKeyStore, type ApiKeyPrincipal } from '@/lib/api-keys';
+import { hasRole, isRole, routePolicy, type ApiScope, type Role } from '@/lib/roles';
+
+export interface AuthenticatedUser {
+  kind: 'user';
+  id: string;
+  username: string;
+  name: string | null;
+  role: Role;
+}
+
+// Who a request to an admin route acts as
+export type Principal = AuthenticatedUser | ApiKeyPrincipal;
+
+interface UserRecord {
+  id: string;
+  username: string;
+  name: string | null;
+  role: string;
+}
+
+// Compared against when the username is unknown, so response times don't reveal which usernames exist
+let dummyHash: Promise<string> | null = null;
+
+function toAuthenticatedUser(user: UserRecord): AuthenticatedUser {
+  return {
+    kind: 'user',
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: isRole(user.role) ? user.role : 'viewer',
+  };
+}
+
+function authError(error: string, message: string, status: number, headers?: Record<string, string>) {
+  return NextResponse.json(
+    {
+      error,
+      message,
+      timestamp: new Date().toISOString()
+    },
+    { status, headers }
+  );
+}
+
+// Bearer token from the Authorization header, if any
+export function getBearerToken(request: NextRequest): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Users are checked by role, API keys by scope
+export function permits(principal: Principal, role: Role, scope: ApiScope): boolean {
+  return principal.kind === 'user'
+    ? hasRole(principal.role, role)
+    : principal.scopes.includes(scope);
+}
+
+export class AdminAuth {
+  static getSessionHours(): number {
+    return Number(process.env.AUTH_SESSION_HOURS) || 12;
+  }
+
+  // Creates the first admin from ADMIN_USERNAME / ADMIN_PASSWORD while there are no users yet
+  static async bootstrapAdmin(): Promise<void> {
+    const username = process.env.ADMIN_USERNAME;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!username || !password) return;
+
+    if (await prismadb.user.count() > 0) return;
+
+    await prismadb.user.create({
+      data: {
+        username,
+        passwordHash: await hashPassword(password),
+        role: 'admin',
+      },
+    });
+    console.log(`Created initial admin user "${username}"`);
+  }
+
+  static async verifyCredentials(username: string, password: string): Promise<AuthenticatedUser | null> {
+    await this.bootstrapAdmin();
+
+    const user = await prismadb.user.findUnique({ where: { username } });
+    if (!user?.passwordHash) {
+      dummyHash = dummyHash ?? hashPassword(randomUUID());
+      await verifyPassword(password, await dummyHash);
+      return null;
+    }
+
+    return await verifyPassword(password, user.passwordHash) ? toAuthenticatedUser(user) : null;
+  }
+
+  // Records the session and returns the signed cookie value
+  static async startSession(user: AuthenticatedUser, request: NextRequest): Promise<{ token: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + this.getSessionHours() * 60 * 60 * 1000);
+
+    const session = await prismadb.adminSession.create({
+      data: {
+        id: randomUUID(),
+        userId: user.id,
+        userAgent: request.headers.get('user-agent'),
+        expiresAt,
+      },
+    });
+    await prismadb.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    const token = await signAuthToken({
+      sid: session.id,
+      uid: user.id,
+      role: user.role,
+      exp: expiresAt.getTime(),
+    });
+    return { token, expiresAt };
+  }
+
+  static setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+    response.cookies.set(AUTH_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: expiresAt,
+    });
+  }
+
+  // The signed-in user, with the role as currently stored rather than as signed into the cookie
+  static async getUser(request: NextRequest): Promise<AuthenticatedUser | null> {
+    const payload = await verifyAuthToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!payload) return null;
+
+    const session = await prismadb.adminSession.findUnique({
+      where: { id: payload.sid },
+      include: { user: true },
+    });
+    if (!session || session.userId !== payload.uid || session.expiresAt <= new Date()) return null;
+
+    return toAuthenticatedUser(session.user);
+  }
+
+  // Checks the request against the route's policy: the session user's role, or
+  // the scope and rate limit of a bearer API key. Handlers return the response
+  // as-is when they get one back.
+  static async authorize(request: NextRequest): Promise<Principal | NextResponse> {
+    const policy = routePolicy(request.nextUrl.pathname, request.method);
+    const bearer = getBearerToken(request);
+
+    if (bearer) {
+      const key = await ApiKeyStore.authenticate(bearer);
+      if (!key) {
+        return authError('Unauthorized', 'The API key is invalid, expired or revoked', 401);
+      }
+      if (!policy?.scope) {
+        return authError('Forbidden', 'This resource does not accept API keys', 403);
+      }
+      if (!key.scopes.includes(policy.scope)) {
+        return authError('Forbidden', `This API key lacks the ${policy.scope} scope`, 403);
+      }
+
+      const limit = ApiKeyStore.consumeRateLimit(key);
+      if (!limit.allowed) {
+        return authError('Too many requests', `Rate limit of ${limit.limit} requests per minute exceeded`, 429, {
+          'Retry-After': String(limit.resetIn),
+          'X-RateLimit-Limit': String(limit.limit),
+          'X-RateLimit-Remaining': '0',
+        });
+      }
+      return key;
+    }
+
+    const user = await this.getUser(request);
+    if (!user) {
+      return authError('Unauthorized', 'Sign in to access this resource', 401);
+    }
+    if (policy && !hasRole(user.role, policy.role)) {
+      return authError('Forbidden', `This resource requires the ${policy.role} role`, 403);
+    }
+    return user;
+  }
+
+  static async endSession(request: NextRequest): Promise<void> {
+    const payload = await verifyAuthToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (payload) {
+      await prismadb.adminSession.deleteMany({ where: { id: payload.sid } });
+    }
+  }
+
+  static async purgeExpiredSessions(now: Date = new Date()): Promise<number> {
+    const result = await prismadb.adminSession.deleteMany({ where: { expiresAt: { lte: now } } });
+    return result.count;
+  }
+}
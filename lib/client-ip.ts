@@ -0,0 +1,351 @@
+// Client IP resolution behind reverse proxies, and address classification.
+
+export type IPVersion = 4 | 6;
+
+export type IPScope =
+  | 'public'
+  | 'private'
+  | 'loopback'
+  | 'link-local'
+  | 'cgnat'
+  | 'unique-local'
+  | 'unspecified';
+
+export interface ParsedIP {
+  version: IPVersion;
+  bytes: number[];
+}
+
+interface CIDR extends ParsedIP {
+  prefix: number;
+}
+
+// Published at https://www.cloudflare.com/ips/
+const CLOUDFLARE_RANGES = [
+  '173.245.48.0/20', '103.21.244.0/22', '103.22.200.0/22', '103.31.4.0/22',
+  '141.101.64.0/18', '108.162.192.0/18', '190.93.240.0/20', '188.114.96.0/20',
+  '197.234.240.0/22', '198.41.128.0/17', '162.158.0.0/15', '104.16.0.0/13',
+  '104.24.0.0/14', '172.64.0.0/13', '131.0.72.0/22',
+  '2400:cb00::/32', '2606:4700::/32', '2803:f800::/32', '2405:b500::/32',
+  '2405:8100::/32', '2a06:98c0::/29', '2c0f:f248::/32',
+];
+
+const SCOPE_RANGES: Array<{ scope: IPScope; ranges: string[] }> = [
+  { scope: 'unspecified', ranges: ['0.0.0.0/8', '::/128'] },
+  { scope: 'loopback', ranges: ['127.0.0.0/8', '::1/128'] },
+  { scope: 'private', ranges: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16'] },
+  { scope: 'cgnat', ranges: ['100.64.0.0/10'] },
+  { scope: 'link-local', ranges: ['169.254.0.0/16', 'fe80::/10'] },
+  { scope: 'unique-local', ranges: ['fc00::/7'] },
+];
+
+export const TRUSTED_PROXY_PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  private: [
+    '10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '100.64.0.0/10',
+    '169.254.0.0/16', 'fc00::/7', 'fe80::/10',
+  ],
+  cloudflare: CLOUDFLARE_RANGES,
+};
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIPv6(value: string): number[] | null {
+  let address = value;
+
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  let tail: number[] = [];
+  const lastColon = address.lastIndexOf(':');
+  if (address.includes('.', lastColon)) {
+    const ipv4 = parseIPv4(address.slice(lastColon + 1));
+    if (!ipv4) return null;
+    tail = [(ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]];
+    address = address.slice(0, lastColon + 1) + '0';
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => (part === '' ? [] : part.split(':'));
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  const groupCount = tail.length > 0 ? 7 : 8;
+
+  let groups: string[];
+  if (halves.length === 2) {
+    const missing = groupCount - head.length - rest.length;
+    if (missing < 1) return null;
+    groups = [...head, ...Array(missing).fill('0'), ...rest];
+  } else {
+    groups = head;
+  }
+  if (groups.length !== groupCount) return null;
+  if (tail.length > 0) groups = groups.slice(0, 6);
+
+  const words: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    words.push(parseInt(group, 16));
+  }
+  words.push(...tail);
+  if (words.length !== 8) return null;
+
+  return words.flatMap((word) => [word >> 8, word & 0xff]);
+}
+
+// Parses an IPv4 or IPv6 literal. IPv4-mapped IPv6 addresses are returned as IPv4.
+export function parseIP(value: string): ParsedIP | null {
+  const address = value.trim().replace(/%.*$/, '');
+
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return { version: 4, bytes: ipv4 };
+
+  const ipv6 = parseIPv6(address);
+  if (!ipv6) return null;
+
+  const isMapped = ipv6.slice(0, 10).every((byte) => byte === 0)
+    && ipv6[10] === 0xff && ipv6[11] === 0xff;
+  return isMapped
+    ? { version: 4, bytes: ipv6.slice(12) }
+    : { version: 6, bytes: ipv6 };
+}
+
+export function formatIP(ip: ParsedIP): string {
+  if (ip.version === 4) return ip.bytes.join('.');
+
+  const words: number[] = [];
+  for (let i = 0; i < 16; i += 2) words.push((ip.bytes[i] << 8) | ip.bytes[i + 1]);
+
+  // Compress the longest run of zero words, as in RFC 5952
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8;) {
+    if (words[i] !== 0) { i++; continue; }
+    let j = i;
+    while (j < 8 && words[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = words.map((word) => word.toString(16));
+  if (bestStart === -1) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+export function parseCIDR(value: string): CIDR | null {
+  const [address, prefixPart] = value.trim().split('/');
+  const ip = parseIP(address);
+  if (!ip) return null;
+
+  const maxPrefix = ip.version === 4 ? 32 : 128;
+  const prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  // A mapped IPv4 range such as ::ffff:10.0.0.0/104 becomes 10.0.0.0/8
+  const adjusted = ip.version === 4 && address.includes(':') ? prefix - 96 : prefix;
+  if (adjusted < 0) return null;
+
+  return { ...ip, prefix: adjusted };
+}
+
+function inCIDR(ip: ParsedIP, cidr: CIDR): boolean {
+  if (ip.version !== cidr.version) return false;
+
+  const fullBytes = Math.floor(cidr.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (ip.bytes[i] !== cidr.bytes[i]) return false;
+  }
+
+  const remainingBits = cidr.prefix % 8;
+  if (remainingBits === 0) return true;
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (ip.bytes[fullBytes] & mask) === (cidr.bytes[fullBytes] & mask);
+}
+
+const SCOPE_CIDRS = SCOPE_RANGES.map(({ scope, ranges }) => ({
+  scope,
+  cidrs: ranges.map((range) => parseCIDR(range) as CIDR),
+}));
+
+export function classifyIP(value: string | ParsedIP): IPScope | null {
+  const ip = typeof value === 'string' ? parseIP(value) : value;
+  if (!ip) return null;
+
+  const match = SCOPE_CIDRS.find(({ cidrs }) => cidrs.some((cidr) => inCIDR(ip, cidr)));
+  return match ? match.scope : 'public';
+}
+
+export function isPublicIP(value: string): boolean {
+  return classifyIP(value) === 'public';
+}
+
+export class TrustedProxies {
+  private cidrs: CIDR[];
+
+  // Accepts CIDRs, single addresses and preset names (loopback, private, cloudflare)
+  constructor(entries: string[]) {
+    this.cidrs = entries.flatMap((entry) => {
+      const name = entry.trim().toLowerCase();
+      if (!name || name === 'none') return [];
+
+      const ranges = TRUSTED_PROXY_PRESETS[name] ?? [entry];
+      return ranges.flatMap((range) => {
+        const cidr = parseCIDR(range);
+        if (!cidr) console.warn(`Ignoring invalid trusted proxy entry: ${range}`);
+        return cidr ? [cidr] : [];
+      });
+    });
+  }
+
+  // Nothing is trusted unless proxies are configured: route handlers never see
+  // the peer address, so a forwarding header can't be told from a forged one
+  static fromEnv(value: string | undefined = process.env.TRUSTED_PROXIES): TrustedProxies {
+    if (value === undefined || value.trim() === '') {
+      console.warn('TRUSTED_PROXIES is not set, so forwarding headers are ignored and client IPs are unknown');
+      return new TrustedProxies([]);
+    }
+    return new TrustedProxies(value.split(','));
+  }
+
+  get isEmpty(): boolean {
+    return this.cidrs.length === 0;
+  }
+
+  contains(ip: ParsedIP): boolean {
+    return this.cidrs.some((cidr) => inCIDR(ip, cidr));
+  }
+}
+
+let defaultTrustedProxies: TrustedProxies | null = null;
+
+// The TRUSTED_PROXIES configuration, parsed once per process
+export function getTrustedProxies(): TrustedProxies {
+  defaultTrustedProxies = defaultTrustedProxies ?? TrustedProxies.fromEnv();
+  return defaultTrustedProxies;
+}
+
+// Strips quotes, brackets and ports from a node identifier
+// ("[2001:db8::1]:4711", "192.0.2.1:80") and returns the parsed address.
+export function parseNodeIdentifier(value: string): ParsedIP | null {
+  let node = value.trim();
+  if (node.startsWith('"') && node.endsWith('"') && node.length >= 2) {
+    node = node.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+
+  const bracketed = node.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) return parseIP(bracketed[1]);
+
+  const ipv4WithPort = node.match(/^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/);
+  if (ipv4WithPort) return parseIP(ipv4WithPort[1]);
+
+  return parseIP(node);
+}
+
+// Splits on a delimiter outside of quoted strings
+function splitUnquoted(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted && i + 1 < value.length) {
+      current += char + value[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (char === delimiter && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+// Returns the `for=` value of each element of an RFC 7239 Forwarded header,
+// in order. Elements without a `for` parameter yield an empty string.
+export function parseForwardedHeader(value: string): string[] {
+  return splitUnquoted(value, ',').map((element) => {
+    for (const pair of splitUnquoted(element, ';')) {
+      const separator = pair.indexOf('=');
+      if (separator === -1) continue;
+      if (pair.slice(0, separator).trim().toLowerCase() === 'for') {
+        return pair.slice(separator + 1).trim();
+      }
+    }
+    return '';
+  });
+}
+
+// The header the trusted proxies set. Proxies append to their own header but
+// pass the others through unchanged, so only that one is read.
+export type ProxyHeader = 'x-forwarded-for' | 'forwarded' | 'x-real-ip';
+
+const PROXY_HEADERS: ProxyHeader[] = ['x-forwarded-for', 'forwarded', 'x-real-ip'];
+
+let defaultProxyHeader: ProxyHeader | null = null;
+
+// The TRUSTED_PROXY_HEADER configuration, read once per process
+export function getProxyHeader(): ProxyHeader {
+  if (!defaultProxyHeader) {
+    const configured = (process.env.TRUSTED_PROXY_HEADER ?? 'x-forwarded-for').trim().toLowerCase();
+    defaultProxyHeader = PROXY_HEADERS.find((header) => header === configured) ?? 'x-forwarded-for';
+    if (defaultProxyHeader !== configured) {
+      console.warn(`Ignoring invalid TRUSTED_PROXY_HEADER: ${configured}`);
+    }
+  }
+  return defaultProxyHeader;
+}
+
+// Returns the forwarding chain, client first, from the given header
+export function getForwardingChain(headers: Headers, header: ProxyHeader = getProxyHeader()): string[] {
+  const value = headers.get(header);
+  if (!value) return [];
+
+  switch (header) {
+    case 'forwarded':
+      return parseForwardedHeader(value);
+    case 'x-forwarded-for':
+      return value.split(',').map((hop) => hop.trim());
+    case 'x-real-ip':
+      return [value.trim()];
+  }
+}
+
+// Walks the forwarding chain from the right, skipping hops added by trusted
+// proxies. The first untrusted hop is the client; anything to its left was
+// supplied by the client and can't be believed. If every hop is trusted, the
+// leftmost one is used. Returns null when no proxies are trusted (the header
+// may come straight from the client), the chain is empty or the client hop
+// is not an IP address (e.g. `for=unknown`).
+export function resolveClientIP(
+  headers: Headers,
+  trusted: TrustedProxies = getTrustedProxies(),
+  header: ProxyHeader = getProxyHeader()
+): string | null {
+  if (trusted.isEmpty) return null;
+
+  const chain = getForwardingChain(headers, header);
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const hop = parseNodeIdentifier(chain[i]);
+    if (!hop) return null;
+    if (i === 0 || !trusted.contains(hop)) return formatIP(hop);
+  }
+
+  return null;
+}
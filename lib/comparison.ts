@@ -0,0 +1,59 @@
+import { InvalidFilterError, type ResolvedFilters } from '@/lib/dashboard-filters';
+
+// Period-over-period comparison. Shared by the dashboard API and the admin
+// page, so it imports nothing server-only.
+//   previous - the period of the same length just before the selected range
+//   year     - the selected range one year earlier
+export const COMPARE_MODES = ['previous', 'year'] as const;
+
+export type CompareMode = typeof COMPARE_MODES[number];
+
+export interface Change {
+  previous: number;
+  delta: number;
+  // Null when the previous value is zero
+  percent: number | null;
+}
+
+export function readCompareMode(params: URLSearchParams): CompareMode | null {
+  const mode = params.get('compare');
+  if (!mode) return null;
+  if (!COMPARE_MODES.includes(mode as CompareMode)) {
+    throw new InvalidFilterError(`\`compare\` must be one of ${COMPARE_MODES.join(', ')}`);
+  }
+  return mode as CompareMode;
+}
+
+function shiftYear(date: Date, years: number): Date {
+  const shifted = new Date(date);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() + years);
+  return shifted;
+}
+
+// The same filters over the comparison period. An open-ended range runs until `now`.
+export function comparisonFilters(
+  filters: ResolvedFilters,
+  mode: CompareMode,
+  now: Date = new Date(),
+): ResolvedFilters & { from: Date; to: Date } {
+  if (!filters.from) {
+    throw new InvalidFilterError('`compare` needs a `from` date');
+  }
+  const to = filters.to ?? now;
+
+  if (mode === 'year') {
+    return { ...filters, from: shiftYear(filters.from, -1), to: shiftYear(to, -1) };
+  }
+
+  const span = to.getTime() - filters.from.getTime();
+  return { ...filters, from: new Date(filters.from.getTime() - span), to: filters.from };
+}
+
+export function compareCounts(current: number, previous: number): Change {
+  const delta = Number((current - previous).toFixed(2));
+  return {
+    previous,
+    delta,
+    percent: previous !== 0 ? Number((delta / previous * 100).toFixed(1)) : null,
+  };
+}
@@ -0,0 +1,96 @@
+import type { NextRequest } from 'next/server';
+import { prismadb } from '@/lib/db';
+import {
+  ConsentManager,
+  CONSENT_COOKIE,
+  NO_CONSENT,
+  type ConsentState,
+  type ConsentStatus,
+} from '@/lib/consent';
+import { DEFAULT_SITE_ID } from '@/lib/sites';
+
+export interface ResolvedConsent {
+  recordId: string | null;
+  status: ConsentStatus;
+}
+
+// Server-side lookup of the visitor's stored consent record
+export class ConsentStore {
+  static async resolve(request: NextRequest): Promise<ResolvedConsent> {
+    const signals = ConsentManager.readSignals(request.headers);
+    const honorsOptOutSignals = ConsentManager.honorsOptOutSignals();
+    const cookie = ConsentManager.decodeCookie(request.cookies.get(CONSENT_COOKIE)?.value);
+
+    const record = cookie
+      ? await prismadb.consentRecord.findUnique({ where: { id: cookie.id } })
+      : null;
+
+    const choice: ConsentState = record
+      ? { necessary: true, analytics: record.analytics, fingerprinting: record.fingerprinting }
+      : NO_CONSENT;
+
+    return {
+      recordId: record?.id ?? null,
+      status: {
+        decided: record !== null,
+        choice,
+        effective: ConsentManager.applySignals(choice, signals, honorsOptOutSignals),
+        signals,
+        honorsOptOutSignals,
+      },
+    };
+  }
+
+  // Embedded sites collect consent themselves and pass it with each hit. It
+  // is not stored, and browser opt-out signals still apply.
+  static forEmbeddedSite(request: NextRequest, consent: Partial<Omit<ConsentState, 'necessary'>> | undefined): ResolvedConsent {
+    const signals = ConsentManager.readSignals(request.headers);
+    const honorsOptOutSignals = ConsentManager.honorsOptOutSignals();
+    const choice: ConsentState = {
+      necessary: true,
+      analytics: consent?.analytics === true,
+      fingerprinting: consent?.fingerprinting === true,
+    };
+
+    return {
+      recordId: null,
+      status: {
+        decided: consent !== undefined,
+        choice,
+        effective: ConsentManager.applySignals(choice, signals, honorsOptOutSignals),
+        signals,
+        honorsOptOutSignals,
+      },
+    };
+  }
+
+  // The consent that applies to a hit for the given site
+  static async resolveForSite(
+    request: NextRequest,
+    siteId: string,
+    consent: Partial<Omit<ConsentState, 'necessary'>> | undefined
+  ): Promise<ResolvedConsent> {
+    return siteId === DEFAULT_SITE_ID ? this.resolve(request) : this.forEmbeddedSite(request, consent);
+  }
+
+  static async save(
+    request: NextRequest,
+    recordId: string | null,
+    choice: Omit<ConsentState, 'necessary'>
+  ): Promise<string> {
+    const signals = ConsentManager.readSignals(request.headers);
+    const data = {
+      analytics: choice.analytics,
+      fingerprinting: choice.fingerprinting,
+      doNotTrack: signals.doNotTrack,
+      globalPrivacyControl: signals.globalPrivacyControl,
+      userAgent: request.headers.get('user-agent'),
+    };
+
+    const record = recordId
+      ? await prismadb.consentRecord.update({ where: { id: recordId }, data })
+      : await prismadb.consentRecord.create({ data });
+
+    return record.id;
+  }
+}
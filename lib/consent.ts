@@ -0,0 +1,121 @@
+// Consent categories shared by the client collector, the banner and the API routes.
+// This module is imported on both sides, so it must not touch the database.
+
+export type ConsentCategory = 'necessary' | 'analytics' | 'fingerprinting';
+
+export interface ConsentState {
+  // Always granted: needed to answer the request at all, nothing is stored
+  necessary: true;
+  // Storing visits, sessions and page views
+  analytics: boolean;
+  // Canvas, WebGL, font and plugin probes plus the server-side device fingerprint
+  fingerprinting: boolean;
+}
+
+export interface OptOutSignals {
+  doNotTrack: boolean;
+  globalPrivacyControl: boolean;
+}
+
+export interface ConsentStatus {
+  // Whether the visitor has made a choice in the banner yet
+  decided: boolean;
+  // What the visitor chose
+  choice: ConsentState;
+  // What is actually enforced once browser opt-out signals are applied
+  effective: ConsentState;
+  signals: OptOutSignals;
+  honorsOptOutSignals: boolean;
+}
+
+// First-party cookie holding the consent record id and the visitor's choice
+export const CONSENT_COOKIE = 'yl_consent';
+export const CONSENT_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// Dispatched on `window` whenever the visitor changes their choice
+export const CONSENT_CHANGE_EVENT = 'yl:consent-change';
+
+export const NO_CONSENT: ConsentState = {
+  necessary: true,
+  analytics: false,
+  fingerprinting: false,
+};
+
+export class ConsentManager {
+  // DNT and Sec-GPC opt out of everything but strictly necessary processing,
+  // unless HONOR_BROWSER_OPT_OUT=false
+  static honorsOptOutSignals(): boolean {
+    return process.env.HONOR_BROWSER_OPT_OUT !== 'false';
+  }
+
+  static readSignals(headers: Headers): OptOutSignals {
+    return {
+      doNotTrack: headers.get('dnt') === '1',
+      globalPrivacyControl: headers.get('sec-gpc') === '1',
+    };
+  }
+
+  static applySignals(choice: ConsentState, signals: OptOutSignals, honorSignals: boolean): ConsentState {
+    if (honorSignals && (signals.doNotTrack || signals.globalPrivacyControl)) {
+      return NO_CONSENT;
+    }
+    return choice;
+  }
+
+  static encodeCookie(id: string, choice: ConsentState): string {
+    return `${id}.${choice.analytics ? 1 : 0}${choice.fingerprinting ? 1 : 0}`;
+  }
+
+  // The flags in the cookie are only a hint for the client; the server
+  // always re-reads the record by id.
+  static decodeCookie(value: string | undefined): { id: string; choice: ConsentState } | null {
+    const match = value?.match(/^([A-Za-z0-9_-]+)\.([01])([01])$/);
+    if (!match) return null;
+
+    return {
+      id: match[1],
+      choice: {
+        necessary: true,
+        analytics: match[2] === '1',
+        fingerprinting: match[3] === '1',
+      },
+    };
+  }
+
+  static readClientCookie(): { id: string; choice: ConsentState } | null {
+    if (typeof document === 'undefined') return null;
+
+    const entry = document.cookie
+      .split(';')
+      .map((cookie) => cookie.trim())
+      .find((cookie) => cookie.startsWith(`${CONSENT_COOKIE}=`));
+
+    return entry ? this.decodeCookie(decodeURIComponent(entry.slice(CONSENT_COOKIE.length + 1))) : null;
+  }
+
+  static async fetchStatus(): Promise<ConsentStatus> {
+    const response = await fetch('/api/consent', { credentials: 'same-origin' });
+    if (!response.ok) {
+      throw new Error(`Consent API error: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  static async saveChoice(choice: Omit<ConsentState, 'necessary'>): Promise<ConsentStatus> {
+    const response = await fetch('/api/consent', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(choice),
+    });
+    if (!response.ok) {
+      throw new Error(`Consent API error: ${response.status}`);
+    }
+
+    const status: ConsentStatus = await response.json();
+    window.dispatchEvent(new CustomEvent<ConsentStatus>(CONSENT_CHANGE_EVENT, { detail: status }));
+    return status;
+  }
+}
@@ -0,0 +1,112 @@
+import type { Prisma } from '@prisma/client';
+import { DEFAULT_SITE_ID } from '@/lib/sites';
+
+// Dashboard filters, shared by the admin page (query string) and the
+// dashboard API (Prisma where clauses). Imports nothing server-only.
+
+export const DIMENSION_FILTERS = ['country', 'device', 'browser', 'os', 'city'] as const;
+
+export type DimensionFilter = typeof DIMENSION_FILTERS[number];
+
+// As carried in the query string: dates are `YYYY-MM-DD` or ISO timestamps,
+// `site` a site id
+export type DashboardFilters = Partial<Record<DimensionFilter | 'site' | 'from' | 'to', string>>;
+
+export interface ResolvedFilters {
+  // Every query is scoped to one site, the default site unless one is selected
+  siteId: string;
+  from: Date | null;
+  // Exclusive upper bound
+  to: Date | null;
+  dimensions: Partial<Record<DimensionFilter, string>>;
+}
+
+export class InvalidFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFilterError';
+  }
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A bare date means the whole UTC day, so `to=2024-05-07` includes the 7th
+function parseBound(name: 'from' | 'to', value: string): Date {
+  const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00.000Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidFilterError(`\`${name}\` must be a date (YYYY-MM-DD) or an ISO timestamp`);
+  }
+  return name === 'to' && DATE_ONLY.test(value) ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+export function readDashboardFilters(params: URLSearchParams): DashboardFilters {
+  const filters: DashboardFilters = {};
+  for (const key of ['site', 'from', 'to', ...DIMENSION_FILTERS] as const) {
+    const value = params.get(key)?.trim();
+    if (value) filters[key] = value;
+  }
+  return filters;
+}
+
+export function toSearchParams(filters: DashboardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+export function resolveFilters(filters: DashboardFilters): ResolvedFilters {
+  const from = filters.from ? parseBound('from', filters.from) : null;
+  const to = filters.to ? parseBound('to', filters.to) : null;
+  if (from && to && from >= to) {
+    throw new InvalidFilterError('`from` must be before `to`');
+  }
+
+  const dimensions: ResolvedFilters['dimensions'] = {};
+  for (const key of DIMENSION_FILTERS) {
+    if (filters[key]) dimensions[key] = filters[key];
+  }
+
+  return { siteId: filters.site ?? DEFAULT_SITE_ID, from, to, dimensions };
+}
+
+export function hasDimensionFilters(filters: ResolvedFilters): boolean {
+  return Object.keys(filters.dimensions).length > 0;
+}
+
+export function visitedAtRange(filters: ResolvedFilters): Prisma.DateTimeFilter | undefined {
+  if (!filters.from && !filters.to) return undefined;
+  return {
+    ...(filters.from && { gte: filters.from }),
+    ...(filters.to && { lt: filters.to }),
+  };
+}
+
+export function visitorWhere(filters: ResolvedFilters): Prisma.VisitorWhereInput {
+  const range = visitedAtRange(filters);
+  return {
+    siteId: filters.siteId,
+    ...filters.dimensions,
+    ...(range && { visitedAt: range }),
+  };
+}
+
+// Sessions with at least one matching visit. Unfiltered, every session of the
+// site counts, including ones whose visitor rows were erased.
+export function sessionWhere(filters: ResolvedFilters): Prisma.SessionWhereInput {
+  if (!hasDimensionFilters(filters) && !filters.from && !filters.to) return { siteId: filters.siteId };
+  return { siteId: filters.siteId, visitors: { some: visitorWhere(filters) } };
+}
+
+// The same check for a single visitor, e.g. one pushed by the live feed
+export function matchesFilters(
+  visitor: Record<DimensionFilter, string> & { siteId: string; visitedAt: Date },
+  filters: ResolvedFilters,
+): boolean {
+  if (visitor.siteId !== filters.siteId) return false;
+  if (filters.from && visitor.visitedAt < filters.from) return false;
+  if (filters.to && visitor.visitedAt >= filters.to) return false;
+  return DIMENSION_FILTERS.every((key) => !filters.dimensions[key] || visitor[key] === filters.dimensions[key]);
+}
@@ -0,0 +1,386 @@
+import { prismadb } from '@/lib/db';
+import {
+  getRolledUpSessions,
+  getRolledUpTotal,
+  getRolledUpVisitors,
+  mergeWithRollups,
+  type CountRow,
+  type RollupScope,
+} from '@/lib/retention';
+import { hasDimensionFilters, sessionWhere, visitorWhere, type ResolvedFilters } from '@/lib/dashboard-filters';
+import { getVisitorSeries, type SeriesOptions, type TimeSeries } from '@/lib/time-series';
+import {
+  countUniqueVisitors,
+  countUniqueVisitorsBy,
+  filterConditions,
+  type UniqueDimension,
+} from '@/lib/unique-visitors';
+
+// The dashboard metrics that describe one period, so the route can compute
+// them for the selected range and again for the comparison period
+
+// Type definitions for the grouped queries
+interface CountryGroup {
+  country: string;
+  _count: {
+    country: number;
+  };
+}
+
+interface DeviceGroup {
+  device: string;
+  _count: {
+    device: number;
+  };
+}
+
+interface BrowserGroup {
+  browser: string;
+  _count: {
+    browser: number;
+  };
+}
+
+interface OSGroup {
+  os: string;
+  _count: {
+    os: number;
+  };
+}
+
+interface ISPGroup {
+  isp: string;
+  _count: {
+    isp: number;
+  };
+}
+
+interface ConnectionGroup {
+  connection: string;
+  _count: {
+    connection: number;
+  };
+}
+
+interface ThreatGroup {
+  threat: string;
+  _count: {
+    threat: number;
+  };
+}
+
+interface LanguageGroup {
+  language: string | null;
+  _count: {
+    language: number;
+  };
+}
+
+interface ReferrerGroup {
+  referrer: string | null;
+  _count: {
+    referrer: number;
+  };
+}
+
+interface ScreenGroup {
+  screenWidth: number | null;
+  screenHeight: number | null;
+  _count: {
+    _all: number;
+  };
+}
+
+export interface PeriodMetrics {
+  totalVisitors: number;
+  uniqueVisitors: number;
+  // Full lists, most visits first
+  countries: CountRow[];
+  countryCodes: Map<string, string>;
+  browsers: CountRow[];
+  devices: CountRow[];
+  os: CountRow[];
+  isps: CountRow[];
+  connections: CountRow[];
+  threats: CountRow[];
+  languages: CountRow[];
+  referrers: CountRow[];
+  screens: CountRow[];
+  security: {
+    vpn: number;
+    proxy: number;
+    hosting: number;
+  };
+  sessions: {
+    totalSessions: number;
+    totalPageViews: number;
+    pagesPerSession: number;
+    bounceRate: number;
+    averageSessionDuration: number;
+  };
+  timeSeries: TimeSeries;
+}
+
+// Rollups only hold per-dimension counts per site, so they can't be filtered by dimension
+export function rollupScopeFor(filters: ResolvedFilters): RollupScope {
+  return hasDimensionFilters(filters) ? null : { siteId: filters.siteId, from: filters.from, to: filters.to };
+}
+
+export async function getPeriodMetrics(filters: ResolvedFilters, seriesOptions: SeriesOptions): Promise<PeriodMetrics> {
+  const where = visitorWhere(filters);
+  const sessionFilter = sessionWhere(filters);
+  const rollupScope = rollupScopeFor(filters);
+  const conditions = filterConditions(filters);
+
+  // Unique visitors per value, attached to the live rows before rollups are added
+  const withUniques = async (dimension: UniqueDimension, rows: CountRow[]): Promise<CountRow[]> => {
+    const uniques = await countUniqueVisitorsBy(prismadb, conditions, dimension);
+    return rows.map((row) => ({ ...row, visitors: uniques.get(row.value) ?? 0 }));
+  };
+
+  // Get total visitors, including rolled-up history whose raw rows were purged
+  const totalVisitors = await prismadb.visitor.count({ where })
+    + await getRolledUpTotal('total', 'all', rollupScope);
+
+  // Identifiers change daily, so per-day uniques add up across a range
+  const uniqueVisitors = await countUniqueVisitors(prismadb, conditions)
+    + await getRolledUpVisitors('total', 'all', rollupScope);
+
+  const countryStats = await prismadb.visitor.groupBy({
+    by: ['country'],
+    where,
+    _count: {
+      country: true,
+    },
+  });
+
+  const countries = await mergeWithRollups('country', await withUniques('country', countryStats.map((item: CountryGroup) => ({
+    value: item.country,
+    count: item._count.country,
+  }))), rollupScope);
+
+  // ISO codes for the map. Rolled-up countries whose raw rows were purged
+  // have no code and are matched by name instead.
+  const countryCodeStats = await prismadb.visitor.groupBy({
+    by: ['country', 'countryCode'],
+    where,
+  });
+  const countryCodes = new Map(countryCodeStats.map((item) => [item.country, item.countryCode]));
+
+  const browserStats = await prismadb.visitor.groupBy({
+    by: ['browser'],
+    where,
+    _count: {
+      browser: true,
+    },
+  });
+
+  const browsers = await mergeWithRollups('browser', await withUniques('browser', browserStats.map((item: BrowserGroup) => ({
+    value: item.browser,
+    count: item._count.browser,
+  }))), rollupScope);
+
+  const deviceStats = await prismadb.visitor.groupBy({
+    by: ['device'],
+    where,
+    _count: {
+      device: true,
+    },
+  });
+
+  const devices = await mergeWithRollups('device', await withUniques('device', deviceStats.map((item: DeviceGroup) => ({
+    value: item.device,
+    count: item._count.device,
+  }))), rollupScope);
+
+  // Get OS statistics
+  const osStats = await prismadb.visitor.groupBy({
+    by: ['os'],
+    where,
+    _count: {
+      os: true,
+    },
+  });
+
+  const os = await mergeWithRollups('os', await withUniques('os', osStats.map((item: OSGroup) => ({
+    value: item.os,
+    count: item._count.os,
+  }))), rollupScope);
+
+  // Get network statistics
+  const ispStats = await prismadb.visitor.groupBy({
+    by: ['isp'],
+    where,
+    _count: {
+      isp: true,
+    },
+  });
+
+  const isps = await mergeWithRollups('isp', await withUniques('isp', ispStats.map((item: ISPGroup) => ({
+    value: item.isp,
+    count: item._count.isp,
+  }))), rollupScope);
+
+  const connectionStats = await prismadb.visitor.groupBy({
+    by: ['connection'],
+    where,
+    _count: {
+      connection: true,
+    },
+  });
+
+  const connections = await mergeWithRollups('connection', await withUniques('connection', connectionStats.map((item: ConnectionGroup) => ({
+    value: item.connection,
+    count: item._count.connection,
+  }))), rollupScope);
+
+  // Get security statistics
+  const threatStats = await prismadb.visitor.groupBy({
+    by: ['threat'],
+    where,
+    _count: {
+      threat: true,
+    },
+  });
+
+  const threats = await mergeWithRollups('threat', await withUniques('threat', threatStats.map((item: ThreatGroup) => ({
+    value: item.threat,
+    count: item._count.threat,
+  }))), rollupScope);
+
+  const [vpnVisitors, proxyVisitors, hostingVisitors] = await Promise.all([
+    prismadb.visitor.count({ where: { ...where, vpn: true } }),
+    prismadb.visitor.count({ where: { ...where, proxy: true } }),
+    prismadb.visitor.count({ where: { ...where, hosting: true } }),
+  ]);
+  const [vpnRolledUp, proxyRolledUp, hostingRolledUp] = await Promise.all([
+    getRolledUpTotal('security', 'vpn', rollupScope),
+    getRolledUpTotal('security', 'proxy', rollupScope),
+    getRolledUpTotal('security', 'hosting', rollupScope),
+  ]);
+
+  // Get client environment statistics
+  const languageStats = await prismadb.visitor.groupBy({
+    by: ['language'],
+    where: {
+      ...where,
+      language: {
+        not: null,
+      },
+    },
+    _count: {
+      language: true,
+    },
+  });
+
+  const languages = await mergeWithRollups('language', await withUniques('language', languageStats.map((item: LanguageGroup) => ({
+    value: item.language as string,
+    count: item._count.language,
+  }))), rollupScope);
+
+  const referrerStats = await prismadb.visitor.groupBy({
+    by: ['referrer'],
+    where: {
+      ...where,
+      referrer: {
+        not: null,
+      },
+    },
+    _count: {
+      referrer: true,
+    },
+  });
+
+  const referrers = await mergeWithRollups('referrer', await withUniques('referrer', referrerStats.map((item: ReferrerGroup) => ({
+    value: item.referrer as string,
+    count: item._count.referrer,
+  }))), rollupScope);
+
+  const screenStats = await prismadb.visitor.groupBy({
+    by: ['screenWidth', 'screenHeight'],
+    where: {
+      ...where,
+      screenWidth: {
+        not: null,
+      },
+      screenHeight: {
+        not: null,
+      },
+    },
+    _count: {
+      _all: true,
+    },
+  });
+
+  const screens = await mergeWithRollups('screen', await withUniques('screen', screenStats.map((item: ScreenGroup) => ({
+    value: `${item.screenWidth}x${item.screenHeight}`,
+    count: item._count._all,
+  }))), rollupScope);
+
+  // Get session statistics
+  const [sessionAggregate, bouncedSessions, totalPageViews] = await Promise.all([
+    prismadb.session.aggregate({
+      where: {
+        ...sessionFilter,
+        pageCount: {
+          gte: 1,
+        },
+      },
+      _count: {
+        _all: true,
+      },
+      _avg: {
+        duration: true,
+        pageCount: true,
+      },
+    }),
+    prismadb.session.count({
+      where: {
+        ...sessionFilter,
+        pageCount: 1,
+      },
+    }),
+    prismadb.pageView.count({ where: { session: sessionFilter } }),
+  ]);
+
+  // Purged sessions only survive as daily sums, so averages are rebuilt from totals
+  const rolledUpSessions = await getRolledUpSessions(rollupScope);
+  const liveSessions = sessionAggregate._count._all;
+  const totalSessions = liveSessions + rolledUpSessions.sessions;
+  const totalPages = (sessionAggregate._avg.pageCount ?? 0) * liveSessions + rolledUpSessions.pageViews;
+  const totalDuration = (sessionAggregate._avg.duration ?? 0) * liveSessions + rolledUpSessions.totalDuration;
+
+  // Visits over time, bucketed in the analyst's time zone
+  const timeSeries = await getVisitorSeries(filters, seriesOptions, rollupScope);
+
+  return {
+    totalVisitors,
+    uniqueVisitors,
+    countries,
+    countryCodes,
+    browsers,
+    devices,
+    os,
+    isps,
+    connections,
+    threats,
+    languages,
+    referrers,
+    screens,
+    security: {
+      vpn: vpnVisitors + vpnRolledUp,
+      proxy: proxyVisitors + proxyRolledUp,
+      hosting: hostingVisitors + hostingRolledUp,
+    },
+    sessions: {
+      totalSessions,
+      totalPageViews: totalPageViews + rolledUpSessions.pageViews,
+      pagesPerSession: totalSessions > 0 ? Number((totalPages / totalSessions).toFixed(2)) : 0,
+      bounceRate: totalSessions > 0
+        ? Number(((bouncedSessions + rolledUpSessions.bounces) / totalSessions * 100).toFixed(1))
+        : 0,
+      averageSessionDuration: totalSessions > 0 ? Math.round(totalDuration / totalSessions) : 0,
+    },
+    timeSeries,
+  };
+}
@@ -0,0 +1,120 @@
+import type { Visitor } from '@prisma/client';
+import type { IPStorageMode } from '@/lib/ip-anonymizer';
+import type { TimeBucket, TimeSeries } from '@/lib/time-series';
+import type { DimensionFilter } from '@/lib/dashboard-filters';
+import type { Change, CompareMode } from '@/lib/comparison';
+import type { EventMetrics } from '@/lib/event-metrics';
+
+// Shape of the `/api/admin/dashboard` response. The route builds it and the
+// admin page reads its JSON form, so both are checked against this one type.
+// Type-only imports keep it safe for client components.
+
+// Counts carry their unique `visitors` and, when a comparison period is
+// requested, a `change` against it
+type Compared<T> = T & { change?: Change };
+
+export type ComparableTotal =
+  | 'totalVisitors'
+  | 'uniqueVisitors'
+  | 'uniqueCountries'
+  | 'uniqueDevices'
+  | 'totalSessions'
+  | 'totalPageViews'
+  | 'pagesPerSession'
+  | 'bounceRate'
+  | 'averageSessionDuration'
+  | 'vpn'
+  | 'proxy'
+  | 'hosting';
+
+export interface DashboardResponse {
+  // Visits, i.e. page loads recorded by /api/track
+  totalVisitors: number;
+  // Daily unique visitors, summed over the days of the range
+  uniqueVisitors: number;
+  sessionStats: {
+    totalSessions: number;
+    activeSessions: number;
+    totalPageViews: number;
+    pagesPerSession: number;
+    bounceRate: number;
+    averageSessionDuration: number;
+  };
+  uniqueCountries: number;
+  uniqueDevices: number;
+  // Identifiers are redacted for viewers
+  recentVisitors: Visitor[];
+  topCountries: Array<Compared<{ country: string; count: number; visitors?: number }>>;
+  // Every country, not just the top ten
+  countryVisits: Array<Compared<{ country: string; countryCode: string | null; count: number; visitors?: number }>>;
+  topBrowsers: Array<Compared<{ browser: string; count: number; visitors?: number }>>;
+  topDevices: Array<Compared<{ device: string; count: number; visitors?: number }>>;
+  topOS: Array<Compared<{ os: string; count: number; visitors?: number }>>;
+  topISPs: Array<Compared<{ isp: string; count: number; visitors?: number }>>;
+  topConnections: Array<Compared<{ connection: string; count: number; visitors?: number }>>;
+  topLanguages: Array<Compared<{ language: string; count: number; visitors?: number }>>;
+  topReferrers: Array<Compared<{ referrer: string; count: number; visitors?: number }>>;
+  topScreenResolutions: Array<Compared<{ resolution: string; count: number; visitors?: number }>>;
+  securityStats: {
+    vpn: number;
+    proxy: number;
+    hosting: number;
+    threatLevels: Array<Compared<{ threat: string; count: number; visitors?: number }>>;
+  };
+  timeSeries: Omit<TimeSeries, 'buckets'> & { buckets: Array<Compared<TimeBucket>> };
+  visitorLocations: Array<{
+    latitude: number;
+    longitude: number;
+    city: string;
+    country: string;
+    visitedAt: Date;
+  }>;
+  // Empty without visitor-level access
+  repeatVisitors: Array<{ ip: string; visits: number }>;
+  dailyStats: {
+    today: number;
+    yesterday: number;
+    // Signed percentage, e.g. "-12.5%". Prefer `change`.
+    growthRate: string;
+    change: Change;
+  };
+  // The comparison period's totals and series, aligned bucket by bucket
+  comparison: {
+    mode: CompareMode;
+    from: string;
+    to: string;
+    totals: Record<ComparableTotal, Change>;
+    timeSeries: TimeSeries;
+  } | null;
+  ipStorageMode: IPStorageMode;
+  filters: Partial<Record<DimensionFilter, string>> & {
+    site: string;
+    from: string | null;
+    to: string | null;
+  };
+  rollupsIncluded: boolean;
+  lastUpdated: string;
+}
+
+// Shape of the `/api/admin/events` response
+export interface EventsResponse extends EventMetrics {
+  // Event the series and property breakdowns are for; all events when null
+  event: string | null;
+  filters: DashboardResponse['filters'];
+  lastUpdated: string;
+}
+
+// What survives `NextResponse.json()`: dates arrive as ISO strings
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer Item>
+    ? Serialized<Item>[]
+    : T extends object
+      ? { [Key in keyof T]: Serialized<T[Key]> }
+      : T;
+
+export type DashboardStats = Serialized<DashboardResponse>;
+
+export type DashboardVisitor = DashboardStats['recentVisitors'][number];
+
+export type EventStats = Serialized<EventsResponse>;
@@ -0,0 +1,236 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { geoCache } from '@/lib/geo-cache';
+import { IPAnonymizer } from '@/lib/ip-anonymizer';
+import { getRetentionPolicy } from '@/lib/retention';
+
+// Identifiers a data subject request can be matched on
+export interface SubjectQuery {
+  ip?: string;
+  fingerprint?: string;
+  visitorId?: string;
+  sessionId?: string;
+  consentId?: string;
+}
+
+export interface ErasureResult {
+  visitors: number;
+  sessions: number;
+  pageViews: number;
+  events: number;
+  consentRecords: number;
+  geoCacheEntries: number;
+}
+
+export interface ErasureTokenPayload {
+  // Session the token was issued for
+  sid: string;
+  // Consent record, which links the visitor's sessions across visits
+  cid: string | null;
+  iat: number;
+}
+
+const SUBJECT_KEYS: Array<keyof SubjectQuery> = ['ip', 'fingerprint', 'visitorId', 'sessionId', 'consentId'];
+
+export function parseSubjectQuery(params: URLSearchParams | Record<string, unknown>): SubjectQuery {
+  const query: SubjectQuery = {};
+
+  for (const key of SUBJECT_KEYS) {
+    const value = params instanceof URLSearchParams ? params.get(key) : params[key];
+    if (typeof value === 'string' && value.trim()) {
+      query[key] = value.trim();
+    }
+  }
+
+  return query;
+}
+
+export function isEmptyQuery(query: SubjectQuery): boolean {
+  return SUBJECT_KEYS.every((key) => !query[key]);
+}
+
+export class DataSubjectService {
+  private static visitorWhere(query: SubjectQuery): Prisma.VisitorWhereInput {
+    const conditions: Prisma.VisitorWhereInput[] = [];
+
+    if (query.ip) {
+      const { rawDays } = getRetentionPolicy();
+      conditions.push({ ip: { in: IPAnonymizer.storedValueCandidates(query.ip, rawDays) } });
+    }
+    if (query.fingerprint) conditions.push({ deviceFingerprint: query.fingerprint });
+    if (query.visitorId) conditions.push({ id: query.visitorId });
+    if (query.sessionId) conditions.push({ sessionId: query.sessionId });
+    if (query.consentId) conditions.push({ consentId: query.consentId });
+
+    return { OR: conditions };
+  }
+
+  // Resolves the visitor rows and every session and consent record linked to them
+  private static async resolveIds(query: SubjectQuery) {
+    const visitors = await prismadb.visitor.findMany({
+      where: this.visitorWhere(query),
+      select: { id: true, sessionId: true, consentId: true },
+    });
+
+    const sessionIds = new Set<string>();
+    const consentIds = new Set<string>();
+    if (query.sessionId) sessionIds.add(query.sessionId);
+    if (query.consentId) consentIds.add(query.consentId);
+
+    for (const visitor of visitors) {
+      if (visitor.sessionId) sessionIds.add(visitor.sessionId);
+      if (visitor.consentId) consentIds.add(visitor.consentId);
+    }
+
+    return {
+      visitorIds: visitors.map((visitor) => visitor.id),
+      sessionIds: Array.from(sessionIds),
+      consentIds: Array.from(consentIds),
+    };
+  }
+
+  static async find(query: SubjectQuery) {
+    const { visitorIds, sessionIds, consentIds } = await this.resolveIds(query);
+
+    const [visitors, sessions, pageViews, events, consentRecords] = await Promise.all([
+      prismadb.visitor.findMany({
+        where: { id: { in: visitorIds } },
+        orderBy: { visitedAt: 'asc' },
+      }),
+      prismadb.session.findMany({
+        where: { id: { in: sessionIds } },
+        orderBy: { startedAt: 'asc' },
+      }),
+      prismadb.pageView.findMany({
+        where: {
+          OR: [
+            { sessionId: { in: sessionIds } },
+            { visitorId: { in: visitorIds } },
+          ],
+        },
+        orderBy: { viewedAt: 'asc' },
+      }),
+      prismadb.event.findMany({
+        where: {
+          OR: [
+            { sessionId: { in: sessionIds } },
+            { visitorId: { in: visitorIds } },
+          ],
+        },
+        orderBy: { occurredAt: 'asc' },
+      }),
+      prismadb.consentRecord.findMany({
+        where: { id: { in: consentIds } },
+      }),
+    ]);
+
+    const geoCacheEntry = query.ip
+      ? await prismadb.geoCache.findUnique({ where: { ip: IPAnonymizer.lookupKey(query.ip) } })
+      : null;
+
+    return {
+      query,
+      visitors,
+      sessions,
+      pageViews,
+      events,
+      consentRecords,
+      geoCache: geoCacheEntry ? [geoCacheEntry] : [],
+    };
+  }
+
+  // Hard-deletes every matching record and everything that hangs off it
+  static async erase(query: SubjectQuery): Promise<ErasureResult> {
+    const { visitorIds, sessionIds, consentIds } = await this.resolveIds(query);
+
+    const result = await prismadb.$transaction(async (tx) => {
+      const pageViews = await tx.pageView.deleteMany({
+        where: {
+          OR: [
+            { sessionId: { in: sessionIds } },
+            { visitorId: { in: visitorIds } },
+          ],
+        },
+      });
+      const events = await tx.event.deleteMany({
+        where: {
+          OR: [
+            { sessionId: { in: sessionIds } },
+            { visitorId: { in: visitorIds } },
+          ],
+        },
+      });
+      const visitors = await tx.visitor.deleteMany({
+        where: {
+          OR: [
+            { id: { in: visitorIds } },
+            { sessionId: { in: sessionIds } },
+          ],
+        },
+      });
+      const sessions = await tx.session.deleteMany({ where: { id: { in: sessionIds } } });
+      const consentRecords = await tx.consentRecord.deleteMany({ where: { id: { in: consentIds } } });
+
+      return {
+        visitors: visitors.count,
+        sessions: sessions.count,
+        pageViews: pageViews.count,
+        events: events.count,
+        consentRecords: consentRecords.count,
+      };
+    });
+
+    let geoCacheEntries = 0;
+    if (query.ip) {
+      const key = IPAnonymizer.lookupKey(query.ip);
+      geoCacheEntries = await prismadb.geoCache.count({ where: { ip: key } });
+      await geoCache.forget(query.ip);
+    }
+
+    return { ...result, geoCacheEntries };
+  }
+}
+
+let processSecret: string | null = null;
+
+function getTokenSecret(): string {
+  const configured = process.env.ERASURE_TOKEN_SECRET || process.env.IP_HASH_SECRET;
+  if (configured) return configured;
+
+  if (!processSecret) {
+    console.warn('ERASURE_TOKEN_SECRET is not set - using a random secret, erasure tokens stop working on restart');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getTokenSecret()).update(`erasure:${payload}`).digest('base64url');
+}
+
+// Signed token handed to the visitor when a visit is stored. Presenting it
+// proves the requester is the visitor the records belong to.
+export class ErasureToken {
+  static issue(sessionId: string, consentId: string | null): string {
+    const payload: ErasureTokenPayload = { sid: sessionId, cid: consentId, iat: Date.now() };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+  }
+
+  static verify(token: string): ErasureTokenPayload | null {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) return null;
+
+    const expected = Buffer.from(sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      return typeof payload.sid === 'string' ? payload as ErasureTokenPayload : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { hasDimensionFilters, type ResolvedFilters } from '@/lib/dashboard-filters';
+import { getEventSeries, type SeriesOptions, type TimeSeries } from '@/lib/time-series';
+import { rollupScopeFor } from '@/lib/dashboard-metrics';
+import { getRolledUpEventProperties, getRolledUpEvents, type RollupScope } from '@/lib/retention';
+import { dimensionConditions } from '@/lib/unique-visitors';
+
+// Custom event figures for the dashboard's events panel
+
+export interface EventCount {
+  name: string;
+  count: number;
+  sessions: number;
+}
+
+export interface PropertyBreakdown {
+  property: string;
+  // Events carrying the property
+  count: number;
+  // Most common values first
+  values: Array<{ value: string; count: number }>;
+}
+
+export interface EventMetrics {
+  events: EventCount[];
+  timeSeries: TimeSeries;
+  properties: PropertyBreakdown[];
+}
+
+const MAX_EVENT_NAMES = 50;
+const MAX_PROPERTIES = 20;
+const MAX_PROPERTY_VALUES = 10;
+
+// Site, event name and the dashboard's dimension filters, which apply to the
+// visit the event is linked to
+function eventConditions(filters: ResolvedFilters, name: string | null): Prisma.Sql[] {
+  return [
+    Prisma.sql`siteId = ${filters.siteId}`,
+    ...(name ? [Prisma.sql`name = ${name}`] : []),
+    ...(hasDimensionFilters(filters)
+      ? [Prisma.sql`visitorId IN (SELECT id FROM visitors WHERE ${Prisma.join(dimensionConditions(filters), ' AND ')})`]
+      : []),
+  ];
+}
+
+function rangeConditions(filters: ResolvedFilters): Prisma.Sql[] {
+  return [
+    ...(filters.from ? [Prisma.sql`occurredAt >= ${filters.from}`] : []),
+    ...(filters.to ? [Prisma.sql`occurredAt < ${filters.to}`] : []),
+  ];
+}
+
+// Counts per event name, the series for `name` (or all events) and, for a
+// single event, how often each property value occurs
+export async function getEventMetrics(
+  filters: ResolvedFilters,
+  seriesOptions: SeriesOptions,
+  name: string | null,
+): Promise<EventMetrics> {
+  const conditions = eventConditions(filters, null);
+  const where = Prisma.join([...conditions, ...rangeConditions(filters)], ' AND ');
+
+  const live = await prismadb.$queryRaw<Array<{ name: string; count: bigint | number; sessions: bigint | number }>>`
+    SELECT name, COUNT(*) AS count, COUNT(DISTINCT sessionId) AS sessions
+    FROM events
+    WHERE ${where}
+    GROUP BY name
+  `;
+
+  // Purged events survive as daily rollups, which have no dimensions
+  const rollupScope = rollupScopeFor(filters);
+  const counts = new Map<string, EventCount>();
+  const add = (row: { name: string; count: number; sessions: number }) => {
+    const current = counts.get(row.name) ?? { name: row.name, count: 0, sessions: 0 };
+    counts.set(row.name, { name: row.name, count: current.count + row.count, sessions: current.sessions + row.sessions });
+  };
+  live.forEach((row) => add({ name: row.name, count: Number(row.count), sessions: Number(row.sessions) }));
+  (await getRolledUpEvents(rollupScope)).forEach(add);
+
+  const timeSeries = await getEventSeries(filters, seriesOptions, eventConditions(filters, name), rollupScope, name);
+
+  return {
+    events: Array.from(counts.values()).sort((a, b) => b.count - a.count).slice(0, MAX_EVENT_NAMES),
+    timeSeries,
+    properties: name ? await getPropertyBreakdowns(filters, name, rollupScope) : [],
+  };
+}
+
+// Live and rolled-up counts per property and value. Property keys are
+// validated on the way in (see lib/events.ts), so they can be quoted into a
+// JSON path.
+async function getPropertyBreakdowns(
+  filters: ResolvedFilters,
+  name: string,
+  rollupScope: RollupScope,
+): Promise<PropertyBreakdown[]> {
+  const where = Prisma.join([...eventConditions(filters, name), ...rangeConditions(filters)], ' AND ');
+  const pairs = Prisma.sql`
+    SELECT k.property AS property,
+           JSON_UNQUOTE(JSON_EXTRACT(e.properties, CONCAT('$."', k.property, '"'))) AS value
+    FROM (SELECT properties FROM events WHERE ${where} AND properties IS NOT NULL) AS e,
+         JSON_TABLE(JSON_KEYS(e.properties), '$[*]' COLUMNS (property VARCHAR(64) PATH '$')) AS k
+  `;
+
+  // Totals per property first, so a property with many distinct values
+  // doesn't crowd the others out
+  const totals = await prismadb.$queryRaw<Array<{ property: string; count: bigint | number }>>`
+    SELECT property, COUNT(*) AS count
+    FROM (${pairs}) AS pairs
+    GROUP BY property
+    ORDER BY count DESC
+    LIMIT ${MAX_PROPERTIES}
+  `;
+
+  const values = totals.length === 0 ? [] : await prismadb.$queryRaw<Array<{ property: string; value: string | null; count: bigint | number }>>`
+    SELECT property, value, count
+    FROM (
+      SELECT property, value, COUNT(*) AS count,
+             ROW_NUMBER() OVER (PARTITION BY property ORDER BY COUNT(*) DESC, value) AS position
+      FROM (${pairs}) AS pairs
+      WHERE property IN (${Prisma.join(totals.map((row) => row.property))})
+      GROUP BY property, value
+    ) AS ranked
+    WHERE position <= ${MAX_PROPERTY_VALUES}
+    ORDER BY property, count DESC
+  `;
+
+  const breakdowns = new Map<string, { count: number; values: Map<string, number> }>();
+  const entry = (property: string) => {
+    const current = breakdowns.get(property) ?? { count: 0, values: new Map<string, number>() };
+    breakdowns.set(property, current);
+    return current;
+  };
+  const addValue = (property: string, value: string, count: number) => {
+    const { values } = entry(property);
+    values.set(value, (values.get(value) ?? 0) + count);
+  };
+
+  for (const row of totals) entry(row.property).count += Number(row.count);
+  for (const row of values) addValue(row.property, row.value ?? 'null', Number(row.count));
+  for (const row of await getRolledUpEventProperties(name, rollupScope)) {
+    if (row.kind === 'property') entry(row.property).count += row._sum.count ?? 0;
+    else addValue(row.property, row.value, row._sum.count ?? 0);
+  }
+
+  return Array.from(breakdowns, ([property, { count, values: counts }]) => ({
+    property,
+    count,
+    values: Array.from(counts, ([value, valueCount]) => ({ value, count: valueCount }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_PROPERTY_VALUES),
+  }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_PROPERTIES);
+}
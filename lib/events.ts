@@ -0,0 +1,74 @@
+import type { ConsentState } from '@/lib/consent';
+
+// Custom events: track('signup', { plan: 'pro' }). Shared by the client
+// tracker and /api/track/event, so it imports nothing server-only.
+
+export type EventPropertyValue = string | number | boolean | null;
+
+export type EventProperties = Record<string, EventPropertyValue>;
+
+export interface EventInput {
+  name: string;
+  properties: EventProperties;
+}
+
+// Body of a request to /api/track/event. Site, session and consent work as for /api/track.
+export interface EventPayload {
+  name: string;
+  properties?: EventProperties;
+  url?: string;
+  siteId?: string;
+  sessionId?: string;
+  consent?: Omit<ConsentState, 'necessary'>;
+}
+
+// Names and property keys are used in JSON paths, so they are kept to a safe alphabet
+const NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+export const MAX_EVENT_PROPERTIES = 20;
+const MAX_VALUE_LENGTH = 255;
+
+export class InvalidEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidEventError';
+  }
+}
+
+export function isEventName(value: unknown): value is string {
+  return typeof value === 'string' && NAME_PATTERN.test(value);
+}
+
+function isPropertyValue(value: unknown): value is EventPropertyValue {
+  return value === null
+    || typeof value === 'boolean'
+    || (typeof value === 'number' && Number.isFinite(value))
+    || (typeof value === 'string' && value.length <= MAX_VALUE_LENGTH);
+}
+
+export function readEventInput(body: { name?: unknown; properties?: unknown }): EventInput {
+  if (!isEventName(body.name)) {
+    throw new InvalidEventError('`name` must be 1-64 letters, digits or _ . : -');
+  }
+
+  const raw = body.properties ?? {};
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new InvalidEventError('`properties` must be an object');
+  }
+
+  const entries = Object.entries(raw);
+  if (entries.length > MAX_EVENT_PROPERTIES) {
+    throw new InvalidEventError(`At most ${MAX_EVENT_PROPERTIES} properties are allowed`);
+  }
+  for (const [key, value] of entries) {
+    if (!NAME_PATTERN.test(key)) {
+      throw new InvalidEventError(`Property "${key}" must be named with 1-64 letters, digits or _ . : -`);
+    }
+    if (!isPropertyValue(value)) {
+      throw new InvalidEventError(
+        `Property "${key}" must be a string of at most ${MAX_VALUE_LENGTH} characters, a number, a boolean or null`,
+      );
+    }
+  }
+
+  return { name: body.name, properties: Object.fromEntries(entries) as EventProperties };
+}
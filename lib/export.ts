@@ -0,0 +1,230 @@
+import { Prisma } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { InvalidFilterError } from '@/lib/dashboard-filters';
+
+// Streaming export of visitor rows.
+//   csv      - header row, then one row per visitor
+//   ndjson   - one JSON object per line
+//   columnar - JSON Lines: a schema line, then one row group per page with
+//              one array per column (Parquet-like layout, no binary encoding)
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'columnar'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type ColumnType = 'string' | 'number' | 'boolean' | 'timestamp' | 'json';
+
+// Exportable visitor columns. Identifying ones need visitor-level access.
+export const EXPORT_COLUMNS = {
+  id: { type: 'string' },
+  visitedAt: { type: 'timestamp' },
+  ip: { type: 'string', identifying: true },
+  country: { type: 'string' },
+  countryCode: { type: 'string' },
+  region: { type: 'string' },
+  city: { type: 'string' },
+  zip: { type: 'string', identifying: true },
+  latitude: { type: 'number' },
+  longitude: { type: 'number' },
+  timezone: { type: 'string' },
+  browser: { type: 'string' },
+  os: { type: 'string' },
+  device: { type: 'string' },
+  userAgent: { type: 'string' },
+  isp: { type: 'string' },
+  organization: { type: 'string' },
+  asn: { type: 'string' },
+  reverse: { type: 'string', identifying: true },
+  connection: { type: 'string' },
+  threat: { type: 'string' },
+  vpn: { type: 'boolean' },
+  proxy: { type: 'boolean' },
+  hosting: { type: 'boolean' },
+  deviceFingerprint: { type: 'string', identifying: true },
+  screenWidth: { type: 'number' },
+  screenHeight: { type: 'number' },
+  colorDepth: { type: 'number' },
+  viewportWidth: { type: 'number' },
+  viewportHeight: { type: 'number' },
+  language: { type: 'string' },
+  languages: { type: 'json' },
+  platform: { type: 'string' },
+  referrer: { type: 'string' },
+  url: { type: 'string' },
+  sessionId: { type: 'string' },
+} satisfies Record<string, { type: ColumnType; identifying?: boolean }>;
+
+export type ExportColumn = keyof typeof EXPORT_COLUMNS;
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  'id',
+  'visitedAt',
+  'country',
+  'region',
+  'city',
+  'device',
+  'browser',
+  'os',
+  'isp',
+  'connection',
+  'threat',
+  'language',
+  'referrer',
+  'url',
+];
+
+const PAGE_SIZE = 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  columnar: 'application/x-ndjson',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  columnar: 'columnar.jsonl',
+};
+
+function isExportColumn(value: string): value is ExportColumn {
+  return Object.prototype.hasOwnProperty.call(EXPORT_COLUMNS, value);
+}
+
+export function readExportOptions(params: URLSearchParams, allowIdentifying: boolean) {
+  const format = (params.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new InvalidFilterError(`\`format\` must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const requested = params.get('columns')?.split(',').map((column) => column.trim()).filter(Boolean);
+  const columns = requested?.length ? requested : DEFAULT_EXPORT_COLUMNS;
+
+  const unknown = columns.filter((column) => !isExportColumn(column));
+  if (unknown.length > 0) {
+    throw new InvalidFilterError(`Unknown columns: ${unknown.join(', ')}`);
+  }
+
+  const valid = columns as ExportColumn[];
+  if (!allowIdentifying) {
+    const identifying = valid.filter((column) => 'identifying' in EXPORT_COLUMNS[column]);
+    if (identifying.length > 0) {
+      throw new InvalidFilterError(`Columns ${identifying.join(', ')} require visitor-level access`);
+    }
+  }
+
+  return { format, columns: Array.from(new Set(valid)) };
+}
+
+export function exportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export function exportFileName(format: ExportFormat, now: Date = new Date()): string {
+  return `visitors-${now.toISOString().slice(0, 19).replace(/:/g, '-')}.${FILE_EXTENSIONS[format]}`;
+}
+
+function toPlain(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+// Quotes per RFC 4180 and defuses values a spreadsheet would run as a formula
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(value)
+    : String(toPlain(value));
+  if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+type Row = Record<string, unknown>;
+
+function encodePage(format: ExportFormat, columns: ExportColumn[], rows: Row[], pageIndex: number): string {
+  switch (format) {
+    case 'csv':
+      return rows.map((row) => columns.map((column) => csvCell(row[column])).join(',') + '\r\n').join('');
+    case 'ndjson':
+      return rows.map((row) => JSON.stringify(
+        Object.fromEntries(columns.map((column) => [column, toPlain(row[column])])),
+      ) + '\n').join('');
+    case 'columnar':
+      return JSON.stringify({
+        rowGroup: pageIndex,
+        rows: rows.length,
+        columns: Object.fromEntries(columns.map((column) => [column, rows.map((row) => toPlain(row[column]))])),
+      }) + '\n';
+  }
+}
+
+function encodePreamble(format: ExportFormat, columns: ExportColumn[]): string {
+  switch (format) {
+    case 'csv':
+      return columns.join(',') + '\r\n';
+    case 'ndjson':
+      return '';
+    case 'columnar':
+      return JSON.stringify({
+        schema: columns.map((column) => ({ name: column, type: EXPORT_COLUMNS[column].type })),
+      }) + '\n';
+  }
+}
+
+// Streams matching visitors oldest first. Pages are fetched with a cursor on
+// demand, so only one page is held in memory and a slow client slows the queries.
+export function createVisitorExportStream(
+  where: Prisma.VisitorWhereInput,
+  format: ExportFormat,
+  columns: ExportColumn[],
+  signal?: AbortSignal,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const select: Prisma.VisitorSelect = { id: true };
+  for (const column of columns) select[column] = true;
+
+  let cursor: string | null = null;
+  let pageIndex = 0;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (signal?.aborted) {
+        controller.close();
+        return;
+      }
+
+      if (!started) {
+        started = true;
+        const preamble = encodePreamble(format, columns);
+        if (preamble) {
+          controller.enqueue(encoder.encode(preamble));
+          return;
+        }
+      }
+
+      try {
+        const rows: Row[] = await prismadb.visitor.findMany({
+          where,
+          select,
+          orderBy: [{ visitedAt: 'asc' }, { id: 'asc' }],
+          take: PAGE_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+
+        if (rows.length === 0) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(encodePage(format, columns, rows, pageIndex++)));
+        cursor = rows[rows.length - 1].id as string;
+
+        if (rows.length < PAGE_SIZE) controller.close();
+      } catch (error) {
+        console.error('Export stream error:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
@@ -0,0 +1,185 @@
+import { Prisma } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { IPAnonymizer } from '@/lib/ip-anonymizer';
+import type { GeoLocationData } from '@/lib/tracking';
+
+interface CacheEntry {
+  data: GeoLocationData | null;
+  expiresAt: number;
+}
+
+export interface GeoCacheStats {
+  memoryEntries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  negativeTtlSeconds: number;
+  memoryHits: number;
+  databaseHits: number;
+  negativeHits: number;
+  misses: number;
+  hitRate: number;
+  writes: number;
+  evictions: number;
+}
+
+const TTL_SECONDS = Number(process.env.GEO_CACHE_TTL_SECONDS) || 24 * 60 * 60;
+const NEGATIVE_TTL_SECONDS = Number(process.env.GEO_CACHE_NEGATIVE_TTL_SECONDS) || 5 * 60;
+const MAX_ENTRIES = Number(process.env.GEO_CACHE_MAX_ENTRIES) || 10000;
+
+export class GeoLookupCachedFailureError extends Error {
+  constructor(ip: string) {
+    super(`Geolocation for ${ip} failed recently; skipping providers until the negative cache entry expires`);
+    this.name = 'GeoLookupCachedFailureError';
+  }
+}
+
+// Two-level cache in front of the provider registry: an in-process LRU backed
+// by the `geo_cache` table, so entries survive restarts and redeploys. Rows are
+// keyed by a keyed hash of the IP unless IP_STORAGE_MODE is `full`.
+export class GeoCache {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private memoryHits = 0;
+  private databaseHits = 0;
+  private negativeHits = 0;
+  private misses = 0;
+  private writes = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly ttlSeconds: number = TTL_SECONDS,
+    private readonly negativeTtlSeconds: number = NEGATIVE_TTL_SECONDS,
+    private readonly maxEntries: number = MAX_ENTRIES
+  ) {}
+
+  private remember(ip: string, entry: CacheEntry) {
+    this.entries.delete(ip);
+    this.entries.set(ip, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  private async read(ip: string, now: number): Promise<CacheEntry | null> {
+    const cached = this.entries.get(ip);
+    if (cached && cached.expiresAt > now) {
+      this.remember(ip, cached);
+      this.memoryHits++;
+      return cached;
+    }
+    if (cached) this.entries.delete(ip);
+
+    try {
+      const row = await prismadb.geoCache.findUnique({ where: { ip: IPAnonymizer.lookupKey(ip) } });
+      if (row && row.expiresAt.getTime() > now) {
+        const entry: CacheEntry = {
+          data: row.failed ? null : row.data as unknown as GeoLocationData,
+          expiresAt: row.expiresAt.getTime(),
+        };
+        this.remember(ip, entry);
+        this.databaseHits++;
+        return entry;
+      }
+    } catch (error) {
+      console.warn('Geolocation cache read failed:', error);
+    }
+
+    return null;
+  }
+
+  private async write(ip: string, data: GeoLocationData | null, now: number) {
+    const ttl = data ? this.ttlSeconds : this.negativeTtlSeconds;
+    const expiresAt = now + ttl * 1000;
+    this.remember(ip, { data, expiresAt });
+    this.writes++;
+
+    const fields = {
+      data: data ? data as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+      failed: data === null,
+      expiresAt: new Date(expiresAt),
+    };
+
+    try {
+      const key = IPAnonymizer.lookupKey(ip);
+      await prismadb.geoCache.upsert({
+        where: { ip: key },
+        create: { ip: key, ...fields },
+        update: fields,
+      });
+    } catch (error) {
+      console.warn('Geolocation cache write failed:', error);
+    }
+  }
+
+  // Returns the cached lookup for the IP, or runs `lookup` and caches its
+  // result. Failed lookups are cached for the shorter negative TTL.
+  async resolve(ip: string, lookup: () => Promise<GeoLocationData>): Promise<GeoLocationData> {
+    const now = Date.now();
+    const cached = await this.read(ip, now);
+
+    if (cached) {
+      if (cached.data) return cached.data;
+      this.negativeHits++;
+      throw new GeoLookupCachedFailureError(ip);
+    }
+
+    this.misses++;
+    try {
+      const data = await lookup();
+      await this.write(ip, data, now);
+      return data;
+    } catch (error) {
+      await this.write(ip, null, now);
+      throw error;
+    }
+  }
+
+  // Drops the IP from both levels, e.g. after an erasure request
+  async forget(ip: string): Promise<void> {
+    this.entries.delete(ip);
+    await prismadb.geoCache.deleteMany({ where: { ip: IPAnonymizer.lookupKey(ip) } });
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    for (const [ip, entry] of this.entries) {
+      if (entry.expiresAt <= now.getTime()) this.entries.delete(ip);
+    }
+
+    const { count } = await prismadb.geoCache.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+    return count;
+  }
+
+  getStats(): GeoCacheStats {
+    const lookups = this.memoryHits + this.databaseHits + this.misses;
+
+    return {
+      memoryEntries: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlSeconds: this.ttlSeconds,
+      negativeTtlSeconds: this.negativeTtlSeconds,
+      memoryHits: this.memoryHits,
+      databaseHits: this.databaseHits,
+      negativeHits: this.negativeHits,
+      misses: this.misses,
+      hitRate: lookups > 0
+        ? Number(((this.memoryHits + this.databaseHits) / lookups * 100).toFixed(1))
+        : 0,
+      writes: this.writes,
+      evictions: this.evictions,
+    };
+  }
+}
+
+// Kept on `global` in development so hot reloads don't drop the memory cache
+const globalForGeoCache = globalThis as unknown as {
+  geoCache: GeoCache | undefined
+}
+
+export const geoCache = globalForGeoCache.geoCache ?? new GeoCache();
+
+if (process.env.NODE_ENV !== 'production') globalForGeoCache.geoCache = geoCache
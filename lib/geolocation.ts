@@ -0,0 +1,370 @@
+import type { GeoLocationData } from '@/lib/tracking';
+import { MmdbGeoProvider } from '@/lib/mmdb';
+
+// A source of IP geolocation data. Providers only translate their own
+// response format; timeouts, ordering and failure handling live in the registry.
+export interface GeoProvider {
+  name: string;
+  // Overrides the registry default when the provider is known to be slower
+  timeoutMs?: number;
+  lookup(ip: string, signal: AbortSignal): Promise<GeoLocationData>;
+}
+
+export interface GeoProviderSettings {
+  name: string;
+  enabled: boolean;
+  timeoutMs?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface GeoProviderStats {
+  name: string;
+  enabled: boolean;
+  order: number;
+  timeoutMs: number;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  attempts: number;
+  successes: number;
+  failures: number;
+  skipped: number;
+  successRate: number;
+  averageLatencyMs: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  openedAt: string | null;
+}
+
+interface ProviderState {
+  provider: GeoProvider;
+  settings: GeoProviderSettings;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  attempts: number;
+  successes: number;
+  failures: number;
+  skipped: number;
+  totalLatencyMs: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.GEO_TIMEOUT_MS) || 5000;
+const FAILURE_THRESHOLD = Number(process.env.GEO_CIRCUIT_FAILURE_THRESHOLD) || 3;
+const COOLDOWN_MS = Number(process.env.GEO_CIRCUIT_COOLDOWN_MS) || 60000;
+
+async function fetchJSON(url: string, signal: AbortSignal): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'LocationTracker/2.0',
+      'Accept': 'application/json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export const ipApiProvider: GeoProvider = {
+  name: 'ip-api.com',
+  async lookup(ip, signal) {
+    const data = await fetchJSON(
+      `http://ip-api.com/json/${ip}?fields=status,message,country,countryCode,region,regionName,city,zip,lat,lon,timezone,isp,org,as,reverse,mobile,proxy,hosting,query&lang=en`,
+      signal
+    );
+
+    if (data.status !== 'success') {
+      throw new Error(`API returned status: ${data.status} - ${data.message || 'Unknown error'}`);
+    }
+
+    return data as unknown as GeoLocationData;
+  },
+};
+
+export const ipapiCoProvider: GeoProvider = {
+  name: 'ipapi.co',
+  async lookup(ip, signal) {
+    const data = await fetchJSON(`https://ipapi.co/${ip}/json/`, signal);
+
+    if (data.error) {
+      throw new Error(`API error: ${data.reason || data.error}`);
+    }
+
+    return {
+      query: ip,
+      status: 'success',
+      country: data.country_name as string || 'Unknown',
+      countryCode: data.country_code as string || 'XX',
+      region: data.region_code as string || 'XX',
+      regionName: data.region as string || 'Unknown',
+      city: data.city as string || 'Unknown',
+      zip: data.postal as string || 'Unknown',
+      lat: data.latitude as number || 0,
+      lon: data.longitude as number || 0,
+      timezone: data.timezone as string || 'UTC',
+      isp: data.org as string || 'Unknown ISP',
+      org: data.org as string || 'Unknown Organization',
+      as: data.asn as string || 'Unknown',
+      reverse: 'Unknown',
+      mobile: false,
+      proxy: false,
+      hosting: false,
+    };
+  },
+};
+
+export const ipinfoProvider: GeoProvider = {
+  name: 'ipinfo.io',
+  async lookup(ip, signal) {
+    const data = await fetchJSON(`https://ipinfo.io/${ip}/json`, signal);
+
+    if (data.bogon) {
+      throw new Error('API error: bogon address');
+    }
+
+    const [lat, lon] = ((data.loc as string | undefined) || '0,0').split(',').map(Number);
+    return {
+      query: ip,
+      status: 'success',
+      country: data.country as string || 'Unknown',
+      countryCode: data.country as string || 'XX',
+      region: data.region as string || 'XX',
+      regionName: data.region as string || 'Unknown',
+      city: data.city as string || 'Unknown',
+      zip: data.postal as string || 'Unknown',
+      lat: lat || 0,
+      lon: lon || 0,
+      timezone: data.timezone as string || 'UTC',
+      isp: data.org as string || 'Unknown ISP',
+      org: data.org as string || 'Unknown Organization',
+      as: 'Unknown',
+      reverse: data.hostname as string || 'Unknown',
+      mobile: false,
+      proxy: false,
+      hosting: false,
+    };
+  },
+};
+
+// Parses GEO_PROVIDERS, e.g. "ip-api.com:3000,ipinfo.io". Listed providers run
+// in the given order; registered providers that are not listed are disabled.
+export function parseProviderSettings(value: string | undefined): GeoProviderSettings[] | null {
+  if (!value || !value.trim()) return null;
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, timeout] = entry.split(':');
+      const timeoutMs = Number(timeout);
+      return {
+        name: name.trim(),
+        enabled: true,
+        timeoutMs: timeoutMs > 0 ? timeoutMs : undefined,
+      };
+    });
+}
+
+export class GeoProviderRegistry {
+  private states: ProviderState[] = [];
+
+  constructor(
+    private readonly failureThreshold: number = FAILURE_THRESHOLD,
+    private readonly cooldownMs: number = COOLDOWN_MS,
+    private readonly defaultTimeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  register(provider: GeoProvider, settings?: Partial<GeoProviderSettings>): this {
+    const existing = this.states.find((state) => state.provider.name === provider.name);
+    if (existing) {
+      existing.provider = provider;
+      existing.settings = { ...existing.settings, ...settings, name: provider.name };
+      return this;
+    }
+
+    this.states.push({
+      provider,
+      settings: { name: provider.name, enabled: true, ...settings },
+      consecutiveFailures: 0,
+      openedAt: null,
+      attempts: 0,
+      successes: 0,
+      failures: 0,
+      skipped: 0,
+      totalLatencyMs: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+    });
+    return this;
+  }
+
+  // Reorders and enables providers. Providers missing from the list are disabled.
+  configure(settings: GeoProviderSettings[]): this {
+    const ordered: ProviderState[] = [];
+
+    for (const setting of settings) {
+      const state = this.states.find((candidate) => candidate.provider.name === setting.name);
+      if (!state) {
+        console.warn(`Unknown geolocation provider in configuration: ${setting.name}`);
+        continue;
+      }
+      state.settings = { ...state.settings, ...setting };
+      ordered.push(state);
+    }
+
+    for (const state of this.states) {
+      if (!ordered.includes(state)) {
+        state.settings.enabled = false;
+        ordered.push(state);
+      }
+    }
+
+    this.states = ordered;
+    return this;
+  }
+
+  getProvider(name: string): GeoProvider | undefined {
+    return this.states.find((state) => state.provider.name === name)?.provider;
+  }
+
+  private circuitState(state: ProviderState, now: number): CircuitState {
+    if (state.openedAt === null) return 'closed';
+    return now - state.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  private recordSuccess(state: ProviderState, latencyMs: number) {
+    state.successes++;
+    state.totalLatencyMs += latencyMs;
+    state.lastLatencyMs = latencyMs;
+    state.lastSuccessAt = Date.now();
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+  }
+
+  private recordFailure(state: ProviderState, latencyMs: number, error: unknown) {
+    const now = Date.now();
+    state.failures++;
+    state.totalLatencyMs += latencyMs;
+    state.lastLatencyMs = latencyMs;
+    state.lastFailureAt = now;
+    state.lastError = error instanceof Error ? error.message : 'Unknown error';
+    state.consecutiveFailures++;
+
+    // A failed half-open probe re-opens the circuit for another cooldown
+    if (state.consecutiveFailures >= this.failureThreshold) {
+      state.openedAt = now;
+    }
+  }
+
+  // Tries each enabled provider in order, skipping those whose circuit is open
+  async lookup(ip: string): Promise<GeoLocationData> {
+    const errors: string[] = [];
+
+    for (const state of this.states) {
+      if (!state.settings.enabled) continue;
+
+      if (this.circuitState(state, Date.now()) === 'open') {
+        state.skipped++;
+        continue;
+      }
+
+      const { provider } = state;
+      const timeoutMs = state.settings.timeoutMs ?? provider.timeoutMs ?? this.defaultTimeoutMs;
+      const startedAt = Date.now();
+      state.attempts++;
+
+      try {
+        console.log(`Trying geolocation API: ${provider.name}`);
+        const data = await provider.lookup(ip, AbortSignal.timeout(timeoutMs));
+        this.recordSuccess(state, Date.now() - startedAt);
+        console.log(`Successfully got geolocation from ${provider.name}`);
+        return data;
+      } catch (error) {
+        this.recordFailure(state, Date.now() - startedAt, error);
+        errors.push(`${provider.name}: ${state.lastError}`);
+        console.warn(`${provider.name} failed:`, state.lastError);
+      }
+    }
+
+    throw new Error(
+      errors.length > 0
+        ? `All geolocation APIs failed (${errors.join('; ')})`
+        : 'No geolocation provider available'
+    );
+  }
+
+  getStats(): GeoProviderStats[] {
+    const now = Date.now();
+    const toISO = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+
+    return this.states.map((state, index) => ({
+      name: state.provider.name,
+      enabled: state.settings.enabled,
+      order: index + 1,
+      timeoutMs: state.settings.timeoutMs ?? state.provider.timeoutMs ?? this.defaultTimeoutMs,
+      circuit: this.circuitState(state, now),
+      consecutiveFailures: state.consecutiveFailures,
+      attempts: state.attempts,
+      successes: state.successes,
+      failures: state.failures,
+      skipped: state.skipped,
+      successRate: state.attempts > 0
+        ? Number((state.successes / state.attempts * 100).toFixed(1))
+        : 0,
+      averageLatencyMs: state.attempts > 0 ? Math.round(state.totalLatencyMs / state.attempts) : 0,
+      lastLatencyMs: state.lastLatencyMs,
+      lastError: state.lastError,
+      lastSuccessAt: toISO(state.lastSuccessAt),
+      lastFailureAt: toISO(state.lastFailureAt),
+      openedAt: toISO(state.openedAt),
+    }));
+  }
+}
+
+function createDefaultRegistry(): GeoProviderRegistry {
+  const registry = new GeoProviderRegistry();
+
+  // A local database, when configured, is the primary source and the HTTP APIs become fallbacks
+  if (process.env.GEO_MMDB_CITY_PATH) {
+    registry.register(new MmdbGeoProvider(
+      process.env.GEO_MMDB_CITY_PATH,
+      process.env.GEO_MMDB_ASN_PATH || undefined
+    ));
+  }
+
+  registry
+    .register(ipApiProvider)
+    .register(ipapiCoProvider)
+    .register(ipinfoProvider);
+
+  const settings = parseProviderSettings(process.env.GEO_PROVIDERS);
+  if (settings) registry.configure(settings);
+
+  return registry;
+}
+
+// Kept on `global` in development so hot reloads don't reset provider stats
+const globalForGeo = globalThis as unknown as {
+  geoRegistry: GeoProviderRegistry | undefined
+}
+
+export const geoRegistry = globalForGeo.geoRegistry ?? createDefaultRegistry();
+
+if (process.env.NODE_ENV !== 'production') globalForGeo.geoRegistry = geoRegistry
+
+export function getMmdbProvider(): MmdbGeoProvider | null {
+  const provider = geoRegistry.getProvider('mmdb');
+  return provider instanceof MmdbGeoProvider ? provider : null;
+}
@@ -0,0 +1,31 @@
+import { prismadb } from '@/lib/db';
+import { MAX_HIT_AGE_MS } from '@/lib/track-batch';
+
+// Keys outlive the oldest hit the server accepts, so a late retry is still
+// recognised
+const KEY_TTL_MS = 2 * MAX_HIT_AGE_MS;
+
+// Idempotency keys of hits taken through /api/track/batch, and of page views
+// the app sends straight to /api/track
+export class HitLedger {
+  // Records the key before its hit is processed; false if it was seen before
+  static async claim(siteId: string, key: string): Promise<boolean> {
+    const { count } = await prismadb.trackedHit.createMany({
+      data: [{ siteId, key }],
+      skipDuplicates: true,
+    });
+    return count === 1;
+  }
+
+  // Forgets the key of a hit that could not be stored, so its retry goes through
+  static async release(siteId: string, key: string) {
+    await prismadb.trackedHit.deleteMany({ where: { siteId, key } });
+  }
+
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await prismadb.trackedHit.deleteMany({
+      where: { receivedAt: { lt: new Date(now.getTime() - KEY_TTL_MS) } },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  MAX_BATCH_HITS,
+  MAX_HIT_AGE_MS,
+  type BatchResponse,
+  type QueuedHit,
+  type TrackBatch,
+} from '@/lib/track-batch';
+import type { EventPayload } from '@/lib/events';
+import type { TrackPayload } from '@/lib/tracking';
+
+// Client side of /api/track/batch for the app's own pages. Hits are kept in IndexedDB until the server
+// confirms them, sent in batches a few seconds apart and with
+// navigator.sendBeacon when the page is hidden or unloaded. Failed sends are
+// retried with exponential backoff, and hits left over from earlier page loads
+// go out with the next batch. Each hit has an idempotency key, so sending one
+// twice (a beacon followed by a retry, two open tabs) stores it once.
+
+// The hit as passed to enqueue(), without its key and time
+export type NewHit =
+  | { type: 'pageview'; payload: TrackPayload }
+  | { type: 'event'; payload: EventPayload };
+
+export interface HitQueueOptions {
+  endpoint: string;
+  flushDelayMs?: number;
+}
+
+const DB_NAME = 'yl-tracking';
+const STORE = 'hits';
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Idempotency key for a new hit
+export function hitId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export class HitQueue {
+  private pending: QueuedHit[] = [];
+  private database: Promise<IDBDatabase | null>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending = false;
+  private failures = 0;
+
+  constructor(private readonly options: HitQueueOptions) {
+    // Without IndexedDB (private mode in some browsers) hits are only kept in memory
+    this.database = typeof indexedDB === 'undefined'
+      ? Promise.resolve(null)
+      : openDatabase().catch((error) => {
+        console.warn('Hit queue storage unavailable:', error);
+        return null;
+      });
+
+    this.database.then(() => this.restore());
+
+    window.addEventListener('online', () => this.flush());
+    window.addEventListener('pagehide', () => this.beacon());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.beacon();
+    });
+  }
+
+  // `id` is passed for a hit that already went out once under that key
+  enqueue(hit: NewHit, id: string = hitId()) {
+    const queued = { ...hit, id, queuedAt: Date.now() } as QueuedHit;
+    this.pending.push(queued);
+    this.persist(queued);
+
+    if (this.pending.length >= MAX_BATCH_HITS) {
+      this.flush();
+    } else {
+      this.schedule(this.options.flushDelayMs ?? 2000);
+    }
+  }
+
+  // Sends what is queued now and applies the per-hit results
+  async flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.sending || this.pending.length === 0) return;
+    if (!navigator.onLine) return;
+
+    this.sending = true;
+    const hits = this.fresh().slice(0, MAX_BATCH_HITS);
+    try {
+      const response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+        body: JSON.stringify(this.batch(hits)),
+      });
+
+      if (response.status >= 500) {
+        throw new Error(`Batch failed with status ${response.status}`);
+      }
+      if (!response.ok) {
+        // Rejected as a whole (bad request, unknown site): retrying won't help
+        console.warn('Tracking batch was rejected:', (await response.json()).message);
+        this.remove(hits.map((hit) => hit.id));
+      } else {
+        const data: BatchResponse = await response.json();
+        this.remove(data.results.filter((result) => result.status !== 'failed').map((result) => result.id));
+        if (data.results.some((result) => result.status === 'failed')) {
+          throw new Error('Some hits could not be stored');
+        }
+      }
+      this.failures = 0;
+    } catch (error) {
+      this.failures++;
+      console.warn('Tracking batch failed, retrying later:', error);
+    } finally {
+      this.sending = false;
+    }
+
+    if (this.pending.length > 0) {
+      this.schedule(this.failures > 0 ? this.backoff() : 0);
+    }
+  }
+
+  // Last chance before the page goes away. The hits stay queued, since a beacon
+  // has no response; if it did arrive, their retry is answered as a duplicate.
+  private beacon() {
+    const hits = this.fresh().slice(0, MAX_BATCH_HITS);
+    if (hits.length === 0 || typeof navigator.sendBeacon !== 'function') return;
+
+    const body = new Blob([JSON.stringify(this.batch(hits))], { type: 'text/plain;charset=UTF-8' });
+    if (!navigator.sendBeacon(this.options.endpoint, body)) {
+      this.flush();
+    }
+  }
+
+  private batch(hits: QueuedHit[]): TrackBatch {
+    return { sentAt: Date.now(), hits };
+  }
+
+  // Hits past the age the server accepts are dropped
+  private fresh(): QueuedHit[] {
+    const cutoff = Date.now() - MAX_HIT_AGE_MS;
+    const expired = this.pending.filter((hit) => hit.queuedAt < cutoff);
+    if (expired.length > 0) this.remove(expired.map((hit) => hit.id));
+    return this.pending;
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), delayMs);
+  }
+
+  // Doubles with each consecutive failure, with jitter so tabs don't retry in step
+  private backoff(): number {
+    const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (this.failures - 1));
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  private remove(ids: string[]) {
+    const done = new Set(ids);
+    this.pending = this.pending.filter((hit) => !done.has(hit.id));
+    this.withStore('readwrite', (store) => ids.forEach((id) => store.delete(id)));
+  }
+
+  private persist(hit: QueuedHit) {
+    this.withStore('readwrite', (store) => store.put(hit));
+  }
+
+  // Picks up hits earlier page loads could not send
+  private restore() {
+    this.withStore('readonly', (store) => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        const known = new Set(this.pending.map((hit) => hit.id));
+        const restored = (request.result as QueuedHit[]).filter((hit) => !known.has(hit.id));
+        if (restored.length === 0) return;
+
+        this.pending = [...restored, ...this.pending].sort((a, b) => a.queuedAt - b.queuedAt);
+        this.schedule(0);
+      };
+    });
+  }
+
+  private withStore(mode: IDBTransactionMode, use: (store: IDBObjectStore) => void) {
+    this.database.then((database) => {
+      if (!database) return;
+      try {
+        use(database.transaction(STORE, mode).objectStore(STORE));
+      } catch (error) {
+        console.warn('Hit queue storage failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { createHmac, randomBytes } from 'crypto';
+import { formatIP, parseIP } from '@/lib/client-ip';
+
+// How visitor IPs are written to the database. Geolocation and threat
+// analysis always run on the full address in memory.
+//   full      - the address as received
+//   truncated - IPv4 to /24, IPv6 to /48
+//   hashed    - keyed hash with a salt that rotates every IP_HASH_ROTATION_DAYS
+export type IPStorageMode = 'full' | 'truncated' | 'hashed';
+
+const STORAGE_MODES: IPStorageMode[] = ['full', 'truncated', 'hashed'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Prefix that marks stored values as pseudonyms rather than addresses
+export const HASHED_IP_PREFIX = 'h:';
+
+let processSecret: string | null = null;
+
+function getSecret(): string {
+  if (process.env.IP_HASH_SECRET) return process.env.IP_HASH_SECRET;
+
+  if (!processSecret) {
+    console.warn('IP_HASH_SECRET is not set - using a random secret, pseudonyms will change on restart');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+}
+
+export class IPAnonymizer {
+  static getMode(): IPStorageMode {
+    const mode = (process.env.IP_STORAGE_MODE || 'full').toLowerCase() as IPStorageMode;
+    if (STORAGE_MODES.includes(mode)) return mode;
+
+    console.warn(`Unknown IP_STORAGE_MODE "${process.env.IP_STORAGE_MODE}", falling back to truncated`);
+    return 'truncated';
+  }
+
+  static getRotationDays(): number {
+    return Number(process.env.IP_HASH_ROTATION_DAYS) || 30;
+  }
+
+  // Zeroes the host part: IPv4 keeps /24, IPv6 keeps /48
+  static truncate(ip: string): string {
+    const parsed = parseIP(ip);
+    if (!parsed) return '0.0.0.0';
+
+    const keepBytes = parsed.version === 4 ? 3 : 6;
+    const bytes = parsed.bytes.map((byte, index) => (index < keepBytes ? byte : 0));
+    return formatIP({ version: parsed.version, bytes });
+  }
+
+  // The salt is derived from the secret and the current rotation period, so
+  // it is never stored and pseudonyms can't be linked across periods.
+  private static periodSalt(now: Date): string {
+    const period = Math.floor(now.getTime() / (this.getRotationDays() * DAY_MS));
+    return createHmac('sha256', getSecret()).update(`ip-salt:${period}`).digest('hex');
+  }
+
+  static hash(ip: string, now: Date = new Date()): string {
+    const digest = createHmac('sha256', this.periodSalt(now)).update(ip).digest('hex');
+    return `${HASHED_IP_PREFIX}${digest.slice(0, 32)}`;
+  }
+
+  // The value to write to `visitors.ip` under the configured mode
+  static forStorage(ip: string, now: Date = new Date()): string {
+    switch (this.getMode()) {
+      case 'full':
+        return ip;
+      case 'truncated':
+        return this.truncate(ip);
+      case 'hashed':
+        return this.hash(ip, now);
+    }
+  }
+
+  // Every value a full IP may have been stored as within the last `days`:
+  // the address itself and its pseudonym in each hash rotation period.
+  // Truncated values are shared by many visitors, so they are never included.
+  static storedValueCandidates(ip: string, days: number, now: Date = new Date()): string[] {
+    const periodMs = this.getRotationDays() * DAY_MS;
+    const candidates = new Set<string>([ip]);
+
+    for (let time = now.getTime(); time >= now.getTime() - days * DAY_MS - periodMs; time -= periodMs) {
+      candidates.add(this.hash(ip, new Date(time)));
+    }
+
+    return Array.from(candidates);
+  }
+
+  // Key for persisted per-IP lookups such as the geolocation cache. Unlike
+  // stored visitor IPs it must stay stable, so it uses the secret directly.
+  static lookupKey(ip: string): string {
+    if (this.getMode() === 'full') return ip;
+    return createHmac('sha256', getSecret()).update(`lookup:${ip}`).digest('hex').slice(0, 40);
+  }
+}
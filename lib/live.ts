@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+import type { Visitor } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { SESSION_TIMEOUT_MS } from '@/lib/sessions';
+
+// Real-time events for the admin live feed (/api/admin/live)
+
+export interface LiveCounters {
+  siteId: string;
+  activeSessions: number;
+  visitsLastMinute: number;
+  timestamp: string;
+}
+
+export type LiveEvent =
+  | { type: 'visitor'; visitor: Visitor }
+  | { type: 'counters'; counters: LiveCounters };
+
+// Transport between the processes that publish and the ones holding SSE
+// connections. The in-process backend only reaches subscribers in the same
+// process; a multi-instance deployment swaps in a shared one (e.g. Redis pub/sub).
+export interface LiveBackend {
+  publish(event: LiveEvent): void | Promise<void>;
+  // Returns an unsubscribe function
+  subscribe(handler: (event: LiveEvent) => void): () => void;
+  // Whether anyone may be listening; lets publishers skip work
+  hasSubscribers(): boolean;
+}
+
+export class InProcessLiveBackend implements LiveBackend {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open dashboard
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: LiveEvent) {
+    this.emitter.emit('event', event);
+  }
+
+  subscribe(handler: (event: LiveEvent) => void) {
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  hasSubscribers() {
+    return this.emitter.listenerCount('event') > 0;
+  }
+}
+
+// Counters are recomputed at most this often, however busy tracking is
+const COUNTER_INTERVAL_MS = 2000;
+
+export class LiveFeed {
+  private backend: LiveBackend;
+  // Per site
+  private lastCounters = new Map<string, number>();
+  private pendingCounters = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(backend: LiveBackend = new InProcessLiveBackend()) {
+    this.backend = backend;
+  }
+
+  setBackend(backend: LiveBackend) {
+    this.backend = backend;
+  }
+
+  subscribe(handler: (event: LiveEvent) => void): () => void {
+    return this.backend.subscribe(handler);
+  }
+
+  async publish(event: LiveEvent): Promise<void> {
+    if (!this.backend.hasSubscribers()) return;
+    await this.backend.publish(event);
+  }
+
+  static async computeCounters(siteId: string, now: Date = new Date()): Promise<LiveCounters> {
+    const [activeSessions, visitsLastMinute] = await Promise.all([
+      prismadb.session.count({
+        where: {
+          siteId,
+          endedAt: null,
+          lastSeenAt: {
+            gte: new Date(now.getTime() - SESSION_TIMEOUT_MS),
+          },
+        },
+      }),
+      prismadb.visitor.count({
+        where: {
+          siteId,
+          visitedAt: {
+            gte: new Date(now.getTime() - 60 * 1000),
+          },
+        },
+      }),
+    ]);
+
+    return { siteId, activeSessions, visitsLastMinute, timestamp: now.toISOString() };
+  }
+
+  // Publishes a site's fresh counters, coalescing bursts into one query per interval
+  publishCounters(siteId: string) {
+    if (!this.backend.hasSubscribers() || this.pendingCounters.has(siteId)) return;
+
+    const wait = Math.max(0, (this.lastCounters.get(siteId) ?? 0) + COUNTER_INTERVAL_MS - Date.now());
+    this.pendingCounters.set(siteId, setTimeout(async () => {
+      this.pendingCounters.delete(siteId);
+      this.lastCounters.set(siteId, Date.now());
+      try {
+        await this.publish({ type: 'counters', counters: await LiveFeed.computeCounters(siteId) });
+      } catch (error) {
+        console.error('Publishing live counters failed:', error);
+      }
+    }, wait));
+  }
+}
+
+// Kept on `global` in every environment: route bundles can hold separate
+// module instances, and /api/track and /api/admin/live must share one feed
+const globalForLive = globalThis as unknown as {
+  liveFeed: LiveFeed | undefined
+};
+
+export const liveFeed = globalForLive.liveFeed ?? new LiveFeed();
+
+globalForLive.liveFeed = liveFeed;
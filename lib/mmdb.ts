@@ -0,0 +1,130 @@
+import { readFile } from 'fs/promises';
+import { Reader, type AsnResponse, type CityResponse } from 'mmdb-lib';
+import type { GeoProvider } from '@/lib/geolocation';
+import type { GeoLocationData } from '@/lib/tracking';
+
+export interface MmdbDatabaseStatus {
+  path: string;
+  databaseType: string | null;
+  buildEpoch: string | null;
+}
+
+export interface MmdbStatus {
+  loaded: boolean;
+  loadedAt: string | null;
+  lastError: string | null;
+  city: MmdbDatabaseStatus;
+  asn: MmdbDatabaseStatus | null;
+}
+
+async function openReader<T extends CityResponse | AsnResponse>(path: string): Promise<Reader<T>> {
+  const buffer = await readFile(path);
+  return new Reader<T>(buffer);
+}
+
+function describe(path: string, reader: Reader<CityResponse> | Reader<AsnResponse> | null): MmdbDatabaseStatus {
+  return {
+    path,
+    databaseType: reader?.metadata.databaseType ?? null,
+    buildEpoch: reader ? reader.metadata.buildEpoch.toISOString() : null,
+  };
+}
+
+// Geolocation from MaxMind-format city and (optional) ASN databases on disk.
+// Lookups never leave the process, so visitor IPs are not sent to third parties.
+export class MmdbGeoProvider implements GeoProvider {
+  readonly name = 'mmdb';
+
+  private cityReader: Reader<CityResponse> | null = null;
+  private asnReader: Reader<AsnResponse> | null = null;
+  private loading: Promise<void> | null = null;
+  private loadedAt: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly cityPath: string,
+    private readonly asnPath?: string
+  ) {}
+
+  // Reads both files before swapping readers, so lookups running during a
+  // reload keep using the previous database and a bad file leaves it in place.
+  private async load(): Promise<void> {
+    try {
+      const [cityReader, asnReader] = await Promise.all([
+        openReader<CityResponse>(this.cityPath),
+        this.asnPath ? openReader<AsnResponse>(this.asnPath) : Promise.resolve(null),
+      ]);
+
+      this.cityReader = cityReader;
+      this.asnReader = asnReader;
+      this.loadedAt = new Date();
+      this.lastError = null;
+      console.log(`Loaded geolocation database ${this.cityPath} (${cityReader.metadata.databaseType})`);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      throw error;
+    } finally {
+      this.loading = null;
+    }
+  }
+
+  async reload(): Promise<MmdbStatus> {
+    this.loading = this.loading ?? this.load();
+    await this.loading;
+    return this.getStatus();
+  }
+
+  private async ensureLoaded(): Promise<Reader<CityResponse>> {
+    if (!this.cityReader) {
+      this.loading = this.loading ?? this.load();
+      await this.loading;
+    }
+    return this.cityReader as Reader<CityResponse>;
+  }
+
+  async lookup(ip: string): Promise<GeoLocationData> {
+    const cityReader = await this.ensureLoaded();
+    const city = cityReader.get(ip);
+
+    if (!city) {
+      throw new Error(`Address ${ip} not found in geolocation database`);
+    }
+
+    const asn = this.asnReader?.get(ip) ?? null;
+    const traits = city.traits;
+    const subdivision = city.subdivisions?.[0];
+    const asNumber = asn?.autonomous_system_number ?? traits?.autonomous_system_number;
+    const asOrganization = asn?.autonomous_system_organization ?? traits?.autonomous_system_organization;
+
+    return {
+      query: ip,
+      status: 'success',
+      country: city.country?.names.en || 'Unknown',
+      countryCode: city.country?.iso_code || 'XX',
+      region: subdivision?.iso_code || 'XX',
+      regionName: subdivision?.names.en || 'Unknown',
+      city: city.city?.names.en || 'Unknown',
+      zip: city.postal?.code || 'Unknown',
+      lat: city.location?.latitude || 0,
+      lon: city.location?.longitude || 0,
+      timezone: city.location?.time_zone || 'UTC',
+      isp: traits?.isp || asOrganization || 'Unknown ISP',
+      org: traits?.organization || asOrganization || 'Unknown Organization',
+      as: asNumber ? `AS${asNumber} ${asOrganization || ''}`.trim() : 'Unknown',
+      reverse: traits?.domain || 'Unknown',
+      mobile: traits?.connection_type === 'Cellular',
+      proxy: Boolean(traits?.is_anonymous_proxy || traits?.is_public_proxy || traits?.is_anonymous_vpn),
+      hosting: Boolean(traits?.is_hosting_provider),
+    };
+  }
+
+  getStatus(): MmdbStatus {
+    return {
+      loaded: this.cityReader !== null,
+      loadedAt: this.loadedAt?.toISOString() ?? null,
+      lastError: this.lastError,
+      city: describe(this.cityPath, this.cityReader),
+      asn: this.asnPath ? describe(this.asnPath, this.asnReader) : null,
+    };
+  }
+}
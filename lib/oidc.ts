@@ -0,0 +1,249 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import { prismadb } from '@/lib/db';
+import { isRole, ROLES, type Role } from '@/lib/roles';
+import type { AuthenticatedUser } from '@/lib/auth';
+
+// OpenID Connect sign-in (authorization code flow with PKCE) against a
+// provider such as a locally run Keycloak or Dex.
+
+export const OIDC_STATE_COOKIE = 'yl_oidc';
+export const OIDC_STATE_MAX_AGE = 10 * 60;
+
+interface OIDCSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string | null;
+  scopes: string;
+  roleClaim: string;
+  defaultRole: Role;
+}
+
+interface OIDCDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface OIDCState {
+  state: string;
+  nonce: string;
+  verifier: string;
+  next: string;
+}
+
+export class OIDCError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OIDCError';
+  }
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+// Only same-site admin pages, so the flow can't be used as an open redirect
+export function safeNextPath(next: string | null | undefined): string {
+  return next && next.startsWith('/admin') && !next.startsWith('//') ? next : '/admin';
+}
+
+export class OIDCClient {
+  private static discovery: { issuer: string; document: OIDCDiscovery } | null = null;
+
+  static getSettings(): OIDCSettings | null {
+    const issuer = process.env.OIDC_ISSUER;
+    const clientId = process.env.OIDC_CLIENT_ID;
+    if (!issuer || !clientId) return null;
+
+    const defaultRole = process.env.OIDC_DEFAULT_ROLE;
+    return {
+      issuer: issuer.replace(/\/+$/, ''),
+      clientId,
+      clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+      redirectUri: process.env.OIDC_REDIRECT_URI || null,
+      scopes: process.env.OIDC_SCOPES || 'openid profile email',
+      roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+      defaultRole: isRole(defaultRole) ? defaultRole : 'viewer',
+    };
+  }
+
+  static isConfigured(): boolean {
+    return this.getSettings() !== null;
+  }
+
+  private static requireSettings(): OIDCSettings {
+    const settings = this.getSettings();
+    if (!settings) throw new OIDCError('OIDC is not configured');
+    return settings;
+  }
+
+  private static async discover(settings: OIDCSettings): Promise<OIDCDiscovery> {
+    if (this.discovery?.issuer === settings.issuer) return this.discovery.document;
+
+    const response = await fetch(`${settings.issuer}/.well-known/openid-configuration`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new OIDCError(`Discovery failed with HTTP ${response.status}`);
+    }
+
+    const document = await response.json() as OIDCDiscovery;
+    this.discovery = { issuer: settings.issuer, document };
+    return document;
+  }
+
+  private static redirectUri(settings: OIDCSettings, request: NextRequest): string {
+    return settings.redirectUri ?? `${request.nextUrl.origin}/api/auth/oidc/callback`;
+  }
+
+  // Provider URL to send the browser to, and the state cookie to set alongside
+  static async beginSignIn(request: NextRequest): Promise<{ url: string; stateCookie: string }> {
+    const settings = this.requireSettings();
+    const discovery = await this.discover(settings);
+
+    const state: OIDCState = {
+      state: base64Url(randomBytes(16)),
+      nonce: base64Url(randomBytes(16)),
+      verifier: base64Url(randomBytes(32)),
+      next: safeNextPath(request.nextUrl.searchParams.get('next')),
+    };
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', settings.clientId);
+    url.searchParams.set('redirect_uri', this.redirectUri(settings, request));
+    url.searchParams.set('scope', settings.scopes);
+    url.searchParams.set('state', state.state);
+    url.searchParams.set('nonce', state.nonce);
+    url.searchParams.set('code_challenge', base64Url(createHash('sha256').update(state.verifier).digest()));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return {
+      url: url.toString(),
+      stateCookie: Buffer.from(JSON.stringify(state)).toString('base64url'),
+    };
+  }
+
+  // Exchanges the code and returns the local user for the identity, creating it on first sign-in
+  static async completeSignIn(request: NextRequest): Promise<{ user: AuthenticatedUser; next: string }> {
+    const settings = this.requireSettings();
+    const discovery = await this.discover(settings);
+
+    const stored = request.cookies.get(OIDC_STATE_COOKIE)?.value;
+    let state: OIDCState;
+    try {
+      state = JSON.parse(Buffer.from(stored ?? '', 'base64url').toString('utf8'));
+    } catch {
+      throw new OIDCError('Missing or invalid sign-in state');
+    }
+
+    const params = request.nextUrl.searchParams;
+    if (params.get('error')) {
+      throw new OIDCError(params.get('error_description') || params.get('error') || 'Sign-in was rejected');
+    }
+    const code = params.get('code');
+    if (!code || !state?.state || params.get('state') !== state.state) {
+      throw new OIDCError('Sign-in state does not match');
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri(settings, request),
+      code_verifier: state.verifier,
+      client_id: settings.clientId,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (settings.clientSecret) {
+      const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new OIDCError(`Token exchange failed with HTTP ${response.status}`);
+    }
+
+    const tokens = await response.json();
+    const claims = this.readIdToken(tokens.id_token, settings, discovery, state.nonce);
+    const user = await this.upsertUser(claims, settings, discovery.issuer);
+
+    return { user, next: state.next };
+  }
+
+  // The ID token comes straight from the token endpoint over TLS, so its issuer
+  // is established by the connection (OIDC Core 3.1.3.7); the claims are still checked.
+  private static readIdToken(idToken: unknown, settings: OIDCSettings, discovery: OIDCDiscovery, nonce: string) {
+    if (typeof idToken !== 'string') throw new OIDCError('The provider returned no ID token');
+
+    let claims: Record<string, unknown>;
+    try {
+      claims = JSON.parse(Buffer.from(idToken.split('.')[1] ?? '', 'base64url').toString('utf8'));
+    } catch {
+      throw new OIDCError('The ID token could not be decoded');
+    }
+
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== discovery.issuer) throw new OIDCError('ID token issuer does not match');
+    if (!audience.includes(settings.clientId)) throw new OIDCError('ID token audience does not match');
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) throw new OIDCError('ID token has expired');
+    if (claims.nonce !== nonce) throw new OIDCError('ID token nonce does not match');
+    if (typeof claims.sub !== 'string') throw new OIDCError('ID token has no subject');
+
+    return claims;
+  }
+
+  // Highest known role named in the role claim, if any
+  private static roleFromClaims(claims: Record<string, unknown>, settings: OIDCSettings): Role | null {
+    const value = claims[settings.roleClaim];
+    const values = Array.isArray(value) ? value : [value];
+    const roles = values.filter(isRole);
+    if (roles.length === 0) return null;
+    return roles.sort((a, b) => ROLES.indexOf(b) - ROLES.indexOf(a))[0];
+  }
+
+  private static async upsertUser(claims: Record<string, unknown>, settings: OIDCSettings, issuer: string): Promise<AuthenticatedUser> {
+    const subject = `${issuer}|${claims.sub}`;
+    const claimedRole = this.roleFromClaims(claims, settings);
+    const name = typeof claims.name === 'string' ? claims.name : null;
+
+    const existing = await prismadb.user.findUnique({ where: { oidcSubject: subject } });
+    const user = existing
+      ? await prismadb.user.update({
+        where: { id: existing.id },
+        data: { name, ...(claimedRole && { role: claimedRole }) },
+      })
+      : await prismadb.user.create({
+        data: {
+          username: await this.availableUsername(claims),
+          name,
+          role: claimedRole ?? settings.defaultRole,
+          oidcSubject: subject,
+        },
+      });
+
+    return {
+      kind: 'user',
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      role: isRole(user.role) ? user.role : 'viewer',
+    };
+  }
+
+  // OIDC identities never take over an existing local account with the same name
+  private static async availableUsername(claims: Record<string, unknown>): Promise<string> {
+    const preferred = [claims.preferred_username, claims.email, claims.sub]
+      .find((value): value is string => typeof value === 'string' && value.length > 0) as string;
+
+    const taken = await prismadb.user.findUnique({ where: { username: preferred } });
+    return taken ? `${preferred}#${String(claims.sub).slice(0, 8)}` : preferred;
+  }
+}
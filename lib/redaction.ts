@@ -0,0 +1,13 @@
+interface VisitorIdentifiers {
+  ip: string;
+  deviceFingerprint: string;
+  reverse: string;
+  zip: string;
+  visitorHash: string | null;
+}
+
+// Viewers get aggregates only; visitor-level identifiers need the analyst role
+// (or the visitors:read scope for API keys)
+export function redactVisitor<T extends VisitorIdentifiers>(visitor: T): T {
+  return { ...visitor, ip: 'redacted', deviceFingerprint: 'redacted', reverse: '', zip: '', visitorHash: null };
+}
@@ -0,0 +1,482 @@
+import { Prisma } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { geoCache } from '@/lib/geo-cache';
+import { AdminAuth } from '@/lib/auth';
+import { HitLedger } from '@/lib/hit-ledger';
+import { SessionTracker } from '@/lib/sessions';
+import { countUniqueVisitors, countUniqueVisitorsBy } from '@/lib/unique-visitors';
+
+// Visitor columns whose per-day counts are kept after raw rows are purged
+export const ROLLUP_DIMENSIONS = [
+  'country',
+  'device',
+  'browser',
+  'os',
+  'isp',
+  'connection',
+  'threat',
+  'language',
+  'referrer',
+] as const;
+
+export type RollupDimension = typeof ROLLUP_DIMENSIONS[number] | 'total' | 'screen' | 'security';
+
+export interface RetentionPolicy {
+  rawDays: number;
+  aggregateDays: number;
+  intervalHours: number;
+}
+
+export interface RetentionRunResult {
+  startedAt: string;
+  finishedAt: string;
+  rawCutoff: string;
+  aggregateCutoff: string;
+  daysRolledUp: number;
+  visitorsPurged: number;
+  sessionsPurged: number;
+  aggregatesPurged: number;
+  geoCacheEntriesPurged: number;
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_VALUE_LENGTH = 191;
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    rawDays: Number(process.env.RETENTION_RAW_DAYS) || 90,
+    aggregateDays: Number(process.env.RETENTION_AGGREGATE_DAYS) || 730,
+    intervalHours: process.env.RETENTION_INTERVAL_HOURS === undefined
+      ? 24
+      : Number(process.env.RETENTION_INTERVAL_HOURS) || 0,
+  };
+}
+
+// Rollups are kept per UTC day
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function groupDimension(
+  tx: TransactionClient,
+  dimension: typeof ROLLUP_DIMENSIONS[number],
+  where: Prisma.VisitorWhereInput,
+  conditions: Prisma.Sql[],
+) {
+  const groups = await tx.visitor.groupBy({
+    by: [dimension],
+    where,
+    _count: {
+      _all: true,
+    },
+  });
+  const uniques = await countUniqueVisitorsBy(tx, conditions, dimension);
+
+  return groups
+    .filter((group) => group[dimension] !== null && group[dimension] !== '')
+    .map((group) => ({
+      dimension,
+      value: String(group[dimension]).slice(0, MAX_VALUE_LENGTH),
+      visits: group._count._all,
+      visitors: uniques.get(String(group[dimension])) ?? 0,
+    }));
+}
+
+// One site's share of a day: visit counts per dimension, session totals and
+// the custom events of those sessions
+async function rollupSiteDay(tx: TransactionClient, siteId: string, day: Date, end: Date) {
+  const where: Prisma.VisitorWhereInput = { siteId, visitedAt: { gte: day, lt: end } };
+  const conditions = [Prisma.sql`siteId = ${siteId}`, Prisma.sql`visitedAt >= ${day}`, Prisma.sql`visitedAt < ${end}`];
+  const sessionWhere: Prisma.SessionWhereInput = { siteId, startedAt: { gte: day, lt: end }, endedAt: { not: null } };
+  const rows: Array<{ dimension: RollupDimension; value: string; visits: number; visitors: number }> = [];
+
+  const total = await tx.visitor.count({ where });
+  if (total > 0) {
+    rows.push({
+      dimension: 'total',
+      value: 'all',
+      visits: total,
+      visitors: await countUniqueVisitors(tx, conditions),
+    });
+
+    for (const dimension of ROLLUP_DIMENSIONS) {
+      rows.push(...await groupDimension(tx, dimension, where, conditions));
+    }
+
+    const screens = await tx.visitor.groupBy({
+      by: ['screenWidth', 'screenHeight'],
+      where: { ...where, screenWidth: { not: null }, screenHeight: { not: null } },
+      _count: { _all: true },
+    });
+    const screenVisitors = await countUniqueVisitorsBy(tx, conditions, 'screen');
+    for (const screen of screens) {
+      const value = `${screen.screenWidth}x${screen.screenHeight}`;
+      rows.push({
+        dimension: 'screen',
+        value,
+        visits: screen._count._all,
+        visitors: screenVisitors.get(value) ?? 0,
+      });
+    }
+
+    for (const flag of ['vpn', 'proxy', 'hosting'] as const) {
+      const visits = await tx.visitor.count({ where: { ...where, [flag]: true } });
+      if (visits > 0) {
+        const visitors = await countUniqueVisitors(tx, [...conditions, Prisma.sql`${Prisma.raw(flag)} = TRUE`]);
+        rows.push({ dimension: 'security', value: flag, visits, visitors });
+      }
+    }
+  }
+
+  for (const row of rows) {
+    await tx.dailyStat.upsert({
+      where: { siteId_date_dimension_value: { siteId, date: day, dimension: row.dimension, value: row.value } },
+      create: { siteId, date: day, dimension: row.dimension, value: row.value, visits: row.visits, visitors: row.visitors },
+      update: { visits: { increment: row.visits }, visitors: { increment: row.visitors } },
+    });
+  }
+
+  const sessionTotals = await tx.session.aggregate({
+    where: { ...sessionWhere, pageCount: { gte: 1 } },
+    _count: { _all: true },
+    _sum: { pageCount: true, duration: true },
+  });
+  const bounces = await tx.session.count({ where: { ...sessionWhere, pageCount: 1 } });
+
+  if (sessionTotals._count._all > 0) {
+    const increments = {
+      sessions: sessionTotals._count._all,
+      bounces,
+      pageViews: sessionTotals._sum.pageCount ?? 0,
+      totalDuration: sessionTotals._sum.duration ?? 0,
+    };
+    await tx.dailySessionStat.upsert({
+      where: { siteId_date: { siteId, date: day } },
+      create: { siteId, date: day, ...increments },
+      update: {
+        sessions: { increment: increments.sessions },
+        bounces: { increment: increments.bounces },
+        pageViews: { increment: increments.pageViews },
+        totalDuration: { increment: increments.totalDuration },
+      },
+    });
+  }
+
+  await rollupSiteEvents(tx, siteId, day, end);
+}
+
+// Values kept per event property and day; rarer ones only count towards the property
+const MAX_ROLLED_UP_VALUES = 50;
+
+// Custom events of the site's sessions about to be purged, by the UTC day they
+// happened on. Property keys are validated on the way in, so they can be
+// quoted into a JSON path.
+async function rollupSiteEvents(tx: TransactionClient, siteId: string, day: Date, end: Date) {
+  const purged = Prisma.sql`
+    sessionId IN (
+      SELECT id FROM sessions
+      WHERE siteId = ${siteId} AND startedAt >= ${day} AND startedAt < ${end} AND endedAt IS NOT NULL
+    )
+  `;
+
+  const totals = await tx.$queryRaw<Array<{ date: Date; name: string; count: bigint | number; sessions: bigint | number }>>`
+    SELECT DATE(occurredAt) AS date, name, COUNT(*) AS count, COUNT(DISTINCT sessionId) AS sessions
+    FROM events
+    WHERE ${purged}
+    GROUP BY date, name
+  `;
+  if (totals.length === 0) return;
+
+  const pairs = await tx.$queryRaw<Array<{ date: Date; name: string; property: string; value: string | null; count: bigint | number }>>`
+    SELECT DATE(e.occurredAt) AS date, e.name AS name, k.property AS property,
+           JSON_UNQUOTE(JSON_EXTRACT(e.properties, CONCAT('$."', k.property, '"'))) AS value,
+           COUNT(*) AS count
+    FROM (SELECT occurredAt, name, properties FROM events WHERE ${purged} AND properties IS NOT NULL) AS e,
+         JSON_TABLE(JSON_KEYS(e.properties), '$[*]' COLUMNS (property VARCHAR(64) PATH '$')) AS k
+    GROUP BY date, name, property, value
+  `;
+
+  const rows: Array<{ date: Date; name: string; kind: string; property: string; value: string; count: number; sessions: number }> = [];
+  for (const total of totals) {
+    rows.push({
+      date: total.date,
+      name: total.name,
+      kind: 'event',
+      property: '',
+      value: '',
+      count: Number(total.count),
+      sessions: Number(total.sessions),
+    });
+  }
+
+  const properties = new Map<string, { date: Date; name: string; property: string; count: number; values: Map<string, number> }>();
+  for (const pair of pairs) {
+    const key = `${pair.date.toISOString()}\n${pair.name}\n${pair.property}`;
+    const entry = properties.get(key)
+      ?? { date: pair.date, name: pair.name, property: pair.property, count: 0, values: new Map<string, number>() };
+    const value = (pair.value ?? 'null').slice(0, MAX_VALUE_LENGTH);
+    entry.count += Number(pair.count);
+    entry.values.set(value, (entry.values.get(value) ?? 0) + Number(pair.count));
+    properties.set(key, entry);
+  }
+  for (const { date, name, property, count, values } of properties.values()) {
+    rows.push({ date, name, kind: 'property', property, value: '', count, sessions: 0 });
+    const common = Array.from(values).sort((a, b) => b[1] - a[1]).slice(0, MAX_ROLLED_UP_VALUES);
+    for (const [value, valueCount] of common) {
+      rows.push({ date, name, kind: 'value', property, value, count: valueCount, sessions: 0 });
+    }
+  }
+
+  for (const { count, sessions, ...key } of rows) {
+    await tx.dailyEventStat.upsert({
+      where: { siteId_date_name_kind_property_value: { siteId, ...key } },
+      create: { siteId, ...key, count, sessions },
+      update: { count: { increment: count }, sessions: { increment: sessions } },
+    });
+  }
+}
+
+export class RetentionManager {
+  private static lastRun: RetentionRunResult | null = null;
+  private static running: Promise<RetentionRunResult> | null = null;
+
+  static getLastRun(): RetentionRunResult | null {
+    return this.lastRun;
+  }
+
+  // Adds one UTC day of raw visitors and sessions to the aggregate tables and
+  // deletes them in the same transaction, so a failed run can simply be retried.
+  static async rollupDay(day: Date, rawCutoff: Date): Promise<{ visitors: number; sessions: number }> {
+    const nextDay = new Date(day.getTime() + DAY_MS);
+    const end = nextDay < rawCutoff ? nextDay : rawCutoff;
+
+    return prismadb.$transaction(async (tx) => {
+      const where: Prisma.VisitorWhereInput = { visitedAt: { gte: day, lt: end } };
+      // Only sessions that have ended; page views and events go with them by cascade
+      const sessionWhere: Prisma.SessionWhereInput = {
+        startedAt: { gte: day, lt: end },
+        endedAt: { not: null },
+      };
+
+      // Rollups are kept per site
+      const visitorSites = await tx.visitor.findMany({ where, distinct: ['siteId'], select: { siteId: true } });
+      const sessionSites = await tx.session.findMany({ where: sessionWhere, distinct: ['siteId'], select: { siteId: true } });
+      const siteIds = new Set([...visitorSites, ...sessionSites].map((site) => site.siteId));
+
+      for (const siteId of siteIds) {
+        await rollupSiteDay(tx, siteId, day, end);
+      }
+
+      const visitors = await tx.visitor.deleteMany({ where });
+      const sessions = await tx.session.deleteMany({ where: sessionWhere });
+
+      return { visitors: visitors.count, sessions: sessions.count };
+    }, { timeout: 120000 });
+  }
+
+  private static async execute(now: Date): Promise<RetentionRunResult> {
+    const policy = getRetentionPolicy();
+    const startedAt = new Date();
+    const rawCutoff = startOfUTCDay(new Date(now.getTime() - policy.rawDays * DAY_MS));
+    const aggregateCutoff = startOfUTCDay(new Date(now.getTime() - policy.aggregateDays * DAY_MS));
+
+    await SessionTracker.closeInactiveSessions(now);
+
+    let daysRolledUp = 0;
+    let visitorsPurged = 0;
+    let sessionsPurged = 0;
+
+    // Work forward from the oldest raw data, one day per transaction
+    while (true) {
+      const [oldestVisitor, oldestSession] = await Promise.all([
+        prismadb.visitor.findFirst({
+          where: { visitedAt: { lt: rawCutoff } },
+          orderBy: { visitedAt: 'asc' },
+          select: { visitedAt: true },
+        }),
+        prismadb.session.findFirst({
+          where: { startedAt: { lt: rawCutoff }, endedAt: { not: null } },
+          orderBy: { startedAt: 'asc' },
+          select: { startedAt: true },
+        }),
+      ]);
+
+      const oldest = [oldestVisitor?.visitedAt, oldestSession?.startedAt]
+        .filter((date): date is Date => date instanceof Date)
+        .sort((a, b) => a.getTime() - b.getTime())[0];
+      if (!oldest) break;
+
+      const result = await this.rollupDay(startOfUTCDay(oldest), rawCutoff);
+      daysRolledUp++;
+      visitorsPurged += result.visitors;
+      sessionsPurged += result.sessions;
+    }
+
+    const [stats, sessionStats, eventStats] = await Promise.all([
+      prismadb.dailyStat.deleteMany({ where: { date: { lt: aggregateCutoff } } }),
+      prismadb.dailySessionStat.deleteMany({ where: { date: { lt: aggregateCutoff } } }),
+      prismadb.dailyEventStat.deleteMany({ where: { date: { lt: aggregateCutoff } } }),
+    ]);
+
+    const geoCacheEntriesPurged = await geoCache.purgeExpired(now);
+    await AdminAuth.purgeExpiredSessions(now);
+    await HitLedger.purgeExpired(now);
+
+    const result: RetentionRunResult = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      rawCutoff: rawCutoff.toISOString(),
+      aggregateCutoff: aggregateCutoff.toISOString(),
+      daysRolledUp,
+      visitorsPurged,
+      sessionsPurged,
+      aggregatesPurged: stats.count + sessionStats.count + eventStats.count,
+      geoCacheEntriesPurged,
+    };
+
+    this.lastRun = result;
+    console.log('Retention run finished:', result);
+    return result;
+  }
+
+  // Concurrent triggers (scheduler and admin command) share a single run
+  static async run(now: Date = new Date()): Promise<RetentionRunResult> {
+    this.running = this.running ?? this.execute(now).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+}
+
+// Starts the periodic retention job once per process. RETENTION_INTERVAL_HOURS=0 disables it.
+export function scheduleRetention() {
+  const globalForRetention = globalThis as unknown as {
+    retentionTimer: ReturnType<typeof setInterval> | undefined
+  };
+
+  const { intervalHours } = getRetentionPolicy();
+  if (globalForRetention.retentionTimer || intervalHours <= 0) return;
+
+  const runJob = () => {
+    RetentionManager.run().catch((error) => {
+      console.error('Scheduled retention run failed:', error);
+    });
+  };
+
+  globalForRetention.retentionTimer = setInterval(runJob, intervalHours * 60 * 60 * 1000);
+  // First run shortly after startup rather than a full interval later
+  setTimeout(runJob, 60 * 1000);
+}
+
+export interface CountRow {
+  value: string;
+  count: number;
+  // Unique visitors, summed over days
+  visitors?: number;
+}
+
+// Site and date range of rolled-up history to include, or null when the query
+// filters on something rollups can't answer (they are counted per dimension,
+// not per visitor). Rolled-up days are whole UTC days; a day counts if it
+// starts inside the range.
+export type RollupScope = { siteId: string; from: Date | null; to: Date | null } | null;
+
+function rollupDateWhere(scope: NonNullable<RollupScope>): Prisma.DateTimeFilter | undefined {
+  if (!scope.from && !scope.to) return undefined;
+  return {
+    // Rollup dates are day starts, so this takes the days that start in [from, to)
+    ...(scope.from && { gte: scope.from }),
+    ...(scope.to && { lt: scope.to }),
+  };
+}
+
+// Adds rolled-up historical counts to live counts from `visitors` and sorts
+// the result, so totals stay correct after raw rows are purged.
+export async function mergeWithRollups(dimension: RollupDimension, live: CountRow[], scope: RollupScope): Promise<CountRow[]> {
+  const rolled = scope
+    ? await prismadb.dailyStat.groupBy({
+      by: ['value'],
+      where: { siteId: scope.siteId, dimension, date: rollupDateWhere(scope) },
+      _sum: { visits: true, visitors: true },
+    })
+    : [];
+
+  const counts = new Map<string, { count: number; visitors: number }>();
+  const add = (value: string, count: number, visitors: number) => {
+    const current = counts.get(value) ?? { count: 0, visitors: 0 };
+    counts.set(value, { count: current.count + count, visitors: current.visitors + visitors });
+  };
+  for (const row of live) add(row.value, row.count, row.visitors ?? 0);
+  for (const row of rolled) add(row.value, row._sum.visits ?? 0, row._sum.visitors ?? 0);
+
+  return Array.from(counts, ([value, { count, visitors }]) => ({ value, count, visitors }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export async function getRolledUpTotal(dimension: RollupDimension, value: string, scope: RollupScope): Promise<number> {
+  if (!scope) return 0;
+
+  const result = await prismadb.dailyStat.aggregate({
+    where: { siteId: scope.siteId, dimension, value, date: rollupDateWhere(scope) },
+    _sum: { visits: true },
+  });
+  return result._sum.visits ?? 0;
+}
+
+export async function getRolledUpVisitors(dimension: RollupDimension, value: string, scope: RollupScope): Promise<number> {
+  if (!scope) return 0;
+
+  const result = await prismadb.dailyStat.aggregate({
+    where: { siteId: scope.siteId, dimension, value, date: rollupDateWhere(scope) },
+    _sum: { visitors: true },
+  });
+  return result._sum.visitors ?? 0;
+}
+
+export async function getRolledUpSessions(scope: RollupScope) {
+  if (!scope) {
+    return { sessions: 0, bounces: 0, pageViews: 0, totalDuration: 0 };
+  }
+
+  const result = await prismadb.dailySessionStat.aggregate({
+    where: { siteId: scope.siteId, date: rollupDateWhere(scope) },
+    _sum: {
+      sessions: true,
+      bounces: true,
+      pageViews: true,
+      totalDuration: true,
+    },
+  });
+
+  return {
+    sessions: result._sum.sessions ?? 0,
+    bounces: result._sum.bounces ?? 0,
+    pageViews: result._sum.pageViews ?? 0,
+    totalDuration: result._sum.totalDuration ?? 0,
+  };
+}
+
+// Rolled-up custom events per name
+export async function getRolledUpEvents(scope: RollupScope): Promise<Array<{ name: string; count: number; sessions: number }>> {
+  if (!scope) return [];
+
+  const rows = await prismadb.dailyEventStat.groupBy({
+    by: ['name'],
+    where: { siteId: scope.siteId, kind: 'event', date: rollupDateWhere(scope) },
+    _sum: { count: true, sessions: true },
+  });
+  return rows.map((row) => ({ name: row.name, count: row._sum.count ?? 0, sessions: row._sum.sessions ?? 0 }));
+}
+
+// Rolled-up events of one name carrying each property, and per property value
+export async function getRolledUpEventProperties(name: string, scope: RollupScope) {
+  if (!scope) return [];
+
+  return prismadb.dailyEventStat.groupBy({
+    by: ['kind', 'property', 'value'],
+    where: { siteId: scope.siteId, name, kind: { in: ['property', 'value'] }, date: rollupDateWhere(scope) },
+    _sum: { count: true },
+  });
+}
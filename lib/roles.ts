@@ -0,0 +1,77 @@
+// Admin roles and API key scopes, and what each admin route needs. Used by the
+// middleware (edge runtime) and by route handlers, so it imports nothing server-only.
+//   viewer  - aggregate dashboard figures
+//   analyst - visitor-level data: IPs, fingerprints, provider and retention status
+//   admin   - erasure, retention runs, database reloads, users, API keys and sites
+
+export const ROLES = ['viewer', 'analyst', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// What an API key may do. Keys never get access to routes without a scope.
+//   stats:read    - aggregate figures
+//   visitors:read - visitor-level data, like the analyst role
+//   export        - bulk exports and data subject exports
+//   delete        - data subject erasure
+export const API_SCOPES = ['stats:read', 'visitors:read', 'export', 'delete'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && (API_SCOPES as readonly string[]).includes(value);
+}
+
+export interface RoutePolicy {
+  prefix: string;
+  // All methods when omitted
+  methods?: string[];
+  role: Role;
+  // Scope an API key needs; routes without one only accept signed-in users
+  scope?: ApiScope;
+}
+
+// First match wins, so more specific entries come first
+const ROUTE_POLICIES: RoutePolicy[] = [
+  { prefix: '/api/admin/data-subjects', methods: ['DELETE'], role: 'admin', scope: 'delete' },
+  { prefix: '/api/admin/data-subjects', role: 'admin', scope: 'export' },
+  { prefix: '/api/admin/export', role: 'analyst', scope: 'export' },
+  { prefix: '/api/admin/visitors', role: 'analyst', scope: 'visitors:read' },
+  { prefix: '/api/admin/users', role: 'admin' },
+  { prefix: '/api/admin/api-keys', role: 'admin' },
+  { prefix: '/api/admin/sites', methods: ['POST', 'PATCH'], role: 'admin' },
+  { prefix: '/api/admin/sites', role: 'viewer', scope: 'stats:read' },
+  { prefix: '/api/admin/geo/reload', role: 'admin' },
+  { prefix: '/api/admin/retention', methods: ['POST'], role: 'admin' },
+  { prefix: '/api/admin/retention', role: 'analyst', scope: 'stats:read' },
+  { prefix: '/api/admin/geo', role: 'analyst', scope: 'stats:read' },
+  { prefix: '/api/admin/dashboard', methods: ['GET'], role: 'viewer', scope: 'stats:read' },
+  { prefix: '/api/admin/events', methods: ['GET'], role: 'viewer', scope: 'stats:read' },
+  { prefix: '/api/admin/live', role: 'viewer', scope: 'stats:read' },
+  { prefix: '/api/admin', role: 'viewer' },
+  { prefix: '/admin/visitors', role: 'analyst' },
+  { prefix: '/admin', role: 'viewer' },
+];
+
+// Pages under /admin that must stay reachable without a session
+export const PUBLIC_ADMIN_PATHS = ['/admin/login'];
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+// Null for routes that need no authentication
+export function routePolicy(pathname: string, method: string): RoutePolicy | null {
+  if (PUBLIC_ADMIN_PATHS.some((path) => matchesPrefix(pathname, path))) return null;
+
+  return ROUTE_POLICIES.find((entry) =>
+    matchesPrefix(pathname, entry.prefix)
+    && (!entry.methods || entry.methods.includes(method.toUpperCase()))) ?? null;
+}
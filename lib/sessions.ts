@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { Session } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { DEFAULT_SITE_ID } from '@/lib/sites';
+
+// First-party cookie that carries the session identifier between hits
+export const SESSION_COOKIE = 'yl_session';
+
+// Sessions without a page view for this long are considered closed
+export const SESSION_TIMEOUT_MS =
+  (Number(process.env.SESSION_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+
+export interface PageViewInput {
+  url?: string;
+  referrer?: string;
+}
+
+export class SessionTracker {
+  static extractPath(url?: string): string {
+    if (!url) return '/';
+    try {
+      return new URL(url).pathname || '/';
+    } catch {
+      return url.startsWith('/') ? url.split(/[?#]/)[0] : '/';
+    }
+  }
+
+  // The app's own pages carry the session in a cookie; embedded sites can't,
+  // so their snippet sends it back with each hit
+  static readSessionId(request: NextRequest, siteId: string, sent: unknown): string | undefined {
+    if (siteId === DEFAULT_SITE_ID) return request.cookies.get(SESSION_COOKIE)?.value;
+    return typeof sent === 'string' ? sent : undefined;
+  }
+
+  // Rolling first-party session cookie, refreshed on every hit
+  static setCookie(response: NextResponse, sessionId: string) {
+    response.cookies.set(SESSION_COOKIE, sessionId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: Math.floor(SESSION_TIMEOUT_MS / 1000),
+    });
+  }
+
+  static isExpired(session: Pick<Session, 'lastSeenAt' | 'endedAt'>, now: Date = new Date()): boolean {
+    return session.endedAt !== null
+      || now.getTime() - session.lastSeenAt.getTime() > SESSION_TIMEOUT_MS;
+  }
+
+  // Returns the site's open session for the given identifier, or starts a new
+  // one when the identifier is unknown or its session has timed out. A queued
+  // hit sent late can predate the session it arrives with; it goes to
+  // `earlierId`, the session hits before it were given, or to a new one, and
+  // the session it arrived with is left as it is.
+  static async resolveSession(
+    sessionId: string | undefined,
+    siteId: string,
+    path: string,
+    now: Date = new Date(),
+    earlierId?: string
+  ): Promise<{ session: Session; earlier: boolean }> {
+    if (sessionId) {
+      const existing = await prismadb.session.findUnique({ where: { id: sessionId } });
+
+      if (existing && existing.siteId === siteId && now < existing.startedAt) {
+        return { session: await this.resolveEarlier(earlierId, siteId, path, now), earlier: true };
+      }
+
+      if (existing && existing.siteId === siteId && !this.isExpired(existing, now)) {
+        return { session: existing, earlier: false };
+      }
+
+      if (existing && existing.siteId === siteId && existing.endedAt === null) {
+        await this.closeSession(existing.id, existing.lastSeenAt);
+      }
+    }
+
+    return { session: await this.openSession(siteId, path, now), earlier: false };
+  }
+
+  private static async resolveEarlier(
+    earlierId: string | undefined,
+    siteId: string,
+    path: string,
+    now: Date
+  ): Promise<Session> {
+    if (earlierId) {
+      const earlier = await prismadb.session.findUnique({ where: { id: earlierId } });
+      if (earlier && earlier.siteId === siteId && now >= earlier.startedAt && !this.isExpired(earlier, now)) {
+        return earlier;
+      }
+    }
+    return this.openSession(siteId, path, now);
+  }
+
+  private static openSession(siteId: string, path: string, now: Date): Promise<Session> {
+    return prismadb.session.create({
+      data: {
+        id: randomUUID(),
+        siteId,
+        startedAt: now,
+        lastSeenAt: now,
+        entryPath: path,
+        exitPath: path,
+      },
+    });
+  }
+
+  // Hits can arrive out of order, so the session's end only ever moves forward
+  private static advance(session: Session, now: Date) {
+    if (now <= session.lastSeenAt) return {};
+    return {
+      lastSeenAt: now,
+      duration: Math.max(session.duration, Math.round((now.getTime() - session.startedAt.getTime()) / 1000)),
+    };
+  }
+
+  // Appends a page view to the session and advances its duration and exit page
+  static async recordPageView(
+    session: Session,
+    visitorId: string | null,
+    input: PageViewInput,
+    now: Date = new Date()
+  ) {
+    const path = this.extractPath(input.url);
+
+    const [pageView] = await prismadb.$transaction([
+      prismadb.pageView.create({
+        data: {
+          sessionId: session.id,
+          visitorId,
+          path,
+          url: input.url || null,
+          referrer: input.referrer || null,
+          viewedAt: now,
+        },
+      }),
+      prismadb.session.update({
+        where: { id: session.id },
+        data: {
+          ...this.advance(session, now),
+          // The latest page is the exit page, whatever order hits arrive in
+          ...(now >= session.lastSeenAt ? { exitPath: path } : {}),
+          pageCount: { increment: 1 },
+        },
+      }),
+    ]);
+
+    return pageView;
+  }
+
+  // Activity other than a page view, e.g. a custom event, keeps the session open
+  static async touch(session: Session, now: Date = new Date()) {
+    if (now <= session.lastSeenAt) return;
+    await prismadb.session.update({
+      where: { id: session.id },
+      data: this.advance(session, now),
+    });
+  }
+
+  static async closeSession(sessionId: string, endedAt: Date) {
+    await prismadb.session.update({
+      where: { id: sessionId },
+      data: { endedAt },
+    });
+  }
+
+  // Marks every session that has been idle past the timeout as ended, in one
+  // statement so overlapping sweeps can't trip over each other. The end time is
+  // the last page view, not the time the sweep ran.
+  static async closeInactiveSessions(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - SESSION_TIMEOUT_MS);
+    return prismadb.$executeRaw`
+      UPDATE sessions SET endedAt = lastSeenAt
+      WHERE endedAt IS NULL AND lastSeenAt < ${cutoff}
+    `;
+  }
+}
+
+// Closes idle sessions in the background rather than on every hit. Live
+// counts check lastSeenAt themselves; the end time only has to be set before
+// retention rolls the session up.
+export function scheduleSessionSweep() {
+  const globalForSweep = globalThis as unknown as {
+    sessionSweepTimer: ReturnType<typeof setInterval> | undefined
+  };
+  if (globalForSweep.sessionSweepTimer) return;
+
+  globalForSweep.sessionSweepTimer = setInterval(() => {
+    SessionTracker.closeInactiveSessions().catch((error) => {
+      console.warn('Closing inactive sessions failed:', error);
+    });
+  }, Math.min(SESSION_TIMEOUT_MS, 5 * 60 * 1000));
+}
@@ -0,0 +1,130 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { Site } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { DEFAULT_SITE_ID, normalizeOrigin, parseAllowedOrigins, type SiteSummary } from '@/lib/sites';
+
+const SITE_ACCESS_ERRORS = {
+  400: 'Invalid site',
+  403: 'Origin not allowed',
+  404: 'Unknown site',
+} as const;
+
+// Malformed site ids, unknown sites and origins a site doesn't allow
+export class SiteAccessError extends Error {
+  readonly status: keyof typeof SITE_ACCESS_ERRORS;
+
+  constructor(message: string, status: keyof typeof SITE_ACCESS_ERRORS) {
+    super(message);
+    this.name = 'SiteAccessError';
+    this.status = status;
+  }
+
+  // The `error` field of the response
+  get title(): string {
+    return SITE_ACCESS_ERRORS[this.status];
+  }
+}
+
+function toSummary(site: Site): SiteSummary {
+  return { id: site.id, name: site.name, allowedOrigins: parseAllowedOrigins(site.allowedOrigins) };
+}
+
+// Headers that let an allowed origin read tracking responses. Hits are sent
+// without credentials, so none are allowed.
+export function corsHeaders(origin: string): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin',
+  };
+}
+
+// Adds the CORS headers to a response for a cross-origin request: the answer
+// to a hit, or the reason its site turned it away
+export function withCors<T extends NextResponse>(response: T, request: NextRequest): T {
+  const origin = request.headers.get('origin');
+  if (origin) {
+    for (const [name, value] of Object.entries(corsHeaders(origin))) {
+      response.headers.set(name, value);
+    }
+  }
+  return response;
+}
+
+export class SiteStore {
+  // The default site is created on first use, so existing installs need no setup
+  static async ensureDefault(): Promise<SiteSummary> {
+    const site = await prismadb.site.upsert({
+      where: { id: DEFAULT_SITE_ID },
+      create: { id: DEFAULT_SITE_ID, name: 'Main site', allowedOrigins: [] },
+      update: {},
+    });
+    return toSummary(site);
+  }
+
+  // The default site first, then the others by name
+  static async list(): Promise<SiteSummary[]> {
+    const defaultSite = await this.ensureDefault();
+    const others = await prismadb.site.findMany({
+      where: { id: { not: DEFAULT_SITE_ID } },
+      orderBy: { name: 'asc' },
+    });
+    return [defaultSite, ...others.map(toSummary)];
+  }
+
+  static async find(id: string): Promise<SiteSummary | null> {
+    if (id === DEFAULT_SITE_ID) return this.ensureDefault();
+    const site = await prismadb.site.findUnique({ where: { id } });
+    return site ? toSummary(site) : null;
+  }
+
+  static async create(input: { name: string; allowedOrigins: string[] }): Promise<SiteSummary> {
+    return toSummary(await prismadb.site.create({ data: input }));
+  }
+
+  static async update(id: string, input: { name?: string; allowedOrigins?: string[] }): Promise<SiteSummary | null> {
+    if (id === DEFAULT_SITE_ID) await this.ensureDefault();
+    const updated = await prismadb.site.updateMany({ where: { id }, data: input });
+    return updated.count > 0 ? this.find(id) : null;
+  }
+
+  // Whether any site accepts hits from this origin; answers CORS preflights,
+  // which don't say which site they are for
+  static async isAllowedOrigin(origin: string): Promise<boolean> {
+    const normalized = normalizeOrigin(origin);
+    if (!normalized) return false;
+
+    const sites = await prismadb.site.findMany({ select: { allowedOrigins: true } });
+    return sites.some((site) => parseAllowedOrigins(site.allowedOrigins).includes(normalized));
+  }
+
+  // The site a hit belongs to, once the request's Origin is checked against it.
+  // The default site takes same-origin requests and, for older clients,
+  // requests without an Origin. Other sites are always embedded elsewhere, so
+  // browsers send one.
+  // `siteId` comes straight from the request body, so its type is checked too.
+  static async authorize(request: NextRequest, siteId: unknown = DEFAULT_SITE_ID): Promise<SiteSummary> {
+    if (typeof siteId !== 'string') {
+      throw new SiteAccessError('`siteId` must be a string', 400);
+    }
+    const site = await this.find(siteId);
+    if (!site) {
+      throw new SiteAccessError(`Unknown site "${siteId}"`, 404);
+    }
+
+    const origin = request.headers.get('origin');
+    const normalized = origin ? normalizeOrigin(origin) : null;
+    const sameOrigin = normalized !== null && new URL(normalized).host === request.headers.get('host');
+
+    const allowed = site.id === DEFAULT_SITE_ID
+      ? origin === null || sameOrigin || (normalized !== null && site.allowedOrigins.includes(normalized))
+      : normalized !== null && site.allowedOrigins.includes(normalized);
+
+    if (!allowed) {
+      throw new SiteAccessError(`Origin ${origin ?? '(none)'} may not send hits for site "${site.id}"`, 403);
+    }
+    return site;
+  }
+}
@@ -0,0 +1,27 @@
+// Sites whose visits are tracked. Shared by the admin page (site switcher) and
+// the API routes, so it imports nothing server-only.
+
+// The app's own pages. Its hits come from the same origin and need no snippet.
+export const DEFAULT_SITE_ID = 'default';
+
+export interface SiteSummary {
+  id: string;
+  name: string;
+  allowedOrigins: string[];
+}
+
+// `https://Example.com:443/path` -> `https://example.com`; null for anything
+// that isn't an http(s) URL
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseAllowedOrigins(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((origin): origin is string => typeof origin === 'string');
+}
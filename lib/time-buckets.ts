@@ -0,0 +1,113 @@
+// Calendar bucketing in an IANA time zone, without a date library. Shared by
+// the dashboard API and the admin page, so it imports nothing server-only.
+
+export const GRANULARITIES = ['minute', 'hour', 'day', 'week', 'month'] as const;
+
+export type Granularity = typeof GRANULARITIES[number];
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toWallTime(date: Date, timeZone: string): WallTime & { second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Offset of the zone from UTC at `date`, in milliseconds
+function zoneOffset(date: Date, timeZone: string): number {
+  const wall = toWallTime(date, timeZone);
+  const asUTC = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Out-of-range fields roll over (day 0, month 13), as with Date.UTC.
+// Wall times skipped by a DST jump resolve to the instant after the gap.
+function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offset = zoneOffset(new Date(guess), timeZone);
+  const adjusted = zoneOffset(new Date(guess - offset), timeZone);
+  return new Date(guess - (adjusted === offset ? offset : adjusted));
+}
+
+// Start of the bucket containing `date`. Weeks start on Monday.
+export function bucketStart(date: Date, granularity: Granularity, timeZone: string): Date {
+  const wall: WallTime = toWallTime(date, timeZone);
+
+  switch (granularity) {
+    case 'minute':
+      return fromWallTime(wall, timeZone);
+    case 'hour':
+      return fromWallTime({ ...wall, minute: 0 }, timeZone);
+    case 'day':
+      return fromWallTime({ ...wall, hour: 0, minute: 0 }, timeZone);
+    case 'week': {
+      const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+      return fromWallTime({ ...wall, day: wall.day - ((weekday + 6) % 7), hour: 0, minute: 0 }, timeZone);
+    }
+    case 'month':
+      return fromWallTime({ ...wall, day: 1, hour: 0, minute: 0 }, timeZone);
+  }
+}
+
+// Start of the bucket after the one starting at `start`
+export function nextBucket(start: Date, granularity: Granularity, timeZone: string): Date {
+  if (granularity === 'minute') return new Date(start.getTime() + MINUTE_MS);
+  if (granularity === 'hour') return new Date(start.getTime() + HOUR_MS);
+
+  const wall = toWallTime(start, timeZone);
+  switch (granularity) {
+    case 'day':
+      return fromWallTime({ ...wall, day: wall.day + 1 }, timeZone);
+    case 'week':
+      return fromWallTime({ ...wall, day: wall.day + 7 }, timeZone);
+    case 'month':
+      return fromWallTime({ ...wall, month: wall.month + 1 }, timeZone);
+  }
+}
@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import { prismadb } from '@/lib/db';
+import { InvalidFilterError, type ResolvedFilters } from '@/lib/dashboard-filters';
+import type { RollupScope } from '@/lib/retention';
+import { dimensionConditions } from '@/lib/unique-visitors';
+import {
+  bucketStart,
+  GRANULARITIES,
+  isValidTimeZone,
+  nextBucket,
+  type Granularity,
+} from '@/lib/time-buckets';
+
+export interface SeriesOptions {
+  granularity: Granularity;
+  timeZone: string;
+}
+
+export interface TimeBucket {
+  // Bucket start as an ISO timestamp
+  start: string;
+  count: number;
+}
+
+export interface TimeSeries extends SeriesOptions {
+  from: string;
+  to: string;
+  buckets: TimeBucket[];
+}
+
+const MAX_BUCKETS = 1500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Window shown when no date range is selected
+const DEFAULT_SPAN_MS: Record<Granularity, number> = {
+  minute: 60 * 60 * 1000,
+  hour: DAY_MS,
+  day: 30 * DAY_MS,
+  week: 12 * 7 * DAY_MS,
+  month: 365 * DAY_MS,
+};
+
+// Rows are counted per UTC slot in SQL and the slots are then folded into
+// calendar buckets. 15 minutes divides every real-world UTC offset.
+const SLOT_SECONDS: Record<Granularity, number> = {
+  minute: 60,
+  hour: 900,
+  day: 900,
+  week: 900,
+  month: 900,
+};
+
+export function readSeriesOptions(params: URLSearchParams): SeriesOptions {
+  const granularity = (params.get('granularity') || 'hour') as Granularity;
+  if (!GRANULARITIES.includes(granularity)) {
+    throw new InvalidFilterError(`\`granularity\` must be one of ${GRANULARITIES.join(', ')}`);
+  }
+
+  const timeZone = params.get('tz') || 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    throw new InvalidFilterError(`Unknown time zone "${timeZone}"`);
+  }
+
+  return { granularity, timeZone };
+}
+
+// Tables a series can be counted from, with their timestamp column. Fixed
+// names, so they are safe to splice into raw queries.
+const SERIES_SOURCES = {
+  visitors: { table: 'visitors', time: 'visitedAt' },
+  events: { table: 'events', time: 'occurredAt' },
+} as const;
+
+type SeriesSource = keyof typeof SERIES_SOURCES;
+
+interface BucketPlan {
+  start: Date;
+  end: Date;
+  buckets: Array<{ start: Date; count: number }>;
+  // Index of the bucket containing a time; buckets are sorted by start
+  findBucket: (time: number) => number;
+}
+
+// Empty buckets covering the filtered range, or a default window before now
+function planBuckets(filters: ResolvedFilters, granularity: Granularity, timeZone: string): BucketPlan {
+  const end = filters.to ?? new Date();
+  const start = bucketStart(
+    filters.from ?? new Date(end.getTime() - DEFAULT_SPAN_MS[granularity]),
+    granularity,
+    timeZone,
+  );
+
+  const buckets: Array<{ start: Date; count: number }> = [];
+  for (let bucket = start; bucket < end; bucket = nextBucket(bucket, granularity, timeZone)) {
+    if (buckets.length === MAX_BUCKETS) {
+      throw new InvalidFilterError(`The selected range has more than ${MAX_BUCKETS} ${granularity} buckets`);
+    }
+    buckets.push({ start: bucket, count: 0 });
+  }
+
+  const findBucket = (time: number) => {
+    let low = 0;
+    let high = buckets.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (buckets[middle].start.getTime() <= time) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+
+  return { start, end, buckets, findBucket };
+}
+
+// Adds the rows of `source` matching `conditions` to the buckets, in one aggregated query
+async function countIntoBuckets(
+  source: SeriesSource,
+  conditions: Prisma.Sql[],
+  granularity: Granularity,
+  { start, end, buckets, findBucket }: BucketPlan,
+  from: Date | null,
+) {
+  const { table, time } = SERIES_SOURCES[source];
+  const column = Prisma.raw(time);
+  const allConditions = [
+    Prisma.sql`${column} >= ${from ?? start}`,
+    Prisma.sql`${column} < ${end}`,
+    ...conditions,
+  ];
+
+  const slotSeconds = SLOT_SECONDS[granularity];
+  const slots = await prismadb.$queryRaw<Array<{ slot: bigint | number; count: bigint | number }>>`
+    SELECT FLOOR(TIMESTAMPDIFF(SECOND, '1970-01-01 00:00:00', ${column}) / ${slotSeconds}) AS slot,
+           COUNT(*) AS count
+    FROM ${Prisma.raw(table)}
+    WHERE ${Prisma.join(allConditions, ' AND ')}
+    GROUP BY slot
+  `;
+
+  for (const { slot, count } of slots) {
+    buckets[findBucket(Number(slot) * slotSeconds * 1000)].count += Number(count);
+  }
+}
+
+function toSeries(plan: BucketPlan, { granularity, timeZone }: SeriesOptions): TimeSeries {
+  return {
+    granularity,
+    timeZone,
+    from: plan.start.toISOString(),
+    to: plan.end.toISOString(),
+    buckets: plan.buckets.map((bucket) => ({ start: bucket.start.toISOString(), count: bucket.count })),
+  };
+}
+
+// Purged history survives as UTC day totals, so it can only be placed in
+// day or coarser buckets. Each day is attributed to the bucket holding its midday.
+function canHoldRollups(granularity: Granularity, plan: BucketPlan): boolean {
+  return granularity !== 'minute' && granularity !== 'hour' && plan.buckets.length > 0;
+}
+
+// Days whose midday may fall inside the plan
+function rolledUpDays({ start, end }: BucketPlan) {
+  return { gte: new Date(start.getTime() - DAY_MS), lt: end };
+}
+
+function addRolledUpDays({ start, end, buckets, findBucket }: BucketPlan, days: Array<{ date: Date; count: number }>) {
+  for (const { date, count } of days) {
+    const midday = date.getTime() + DAY_MS / 2;
+    if (midday >= start.getTime() && midday < end.getTime()) {
+      buckets[findBucket(midday)].count += count;
+    }
+  }
+}
+
+// Visits per bucket over the filtered range. Empty buckets are returned with
+// a count of zero.
+export async function getVisitorSeries(
+  filters: ResolvedFilters,
+  options: SeriesOptions,
+  rollupScope: RollupScope,
+): Promise<TimeSeries> {
+  const { granularity } = options;
+  const plan = planBuckets(filters, granularity, options.timeZone);
+
+  await countIntoBuckets('visitors', dimensionConditions(filters), granularity, plan, filters.from);
+
+  if (rollupScope && canHoldRollups(granularity, plan)) {
+    const rolledUp = await prismadb.dailyStat.findMany({
+      where: {
+        siteId: rollupScope.siteId,
+        dimension: 'total',
+        value: 'all',
+        date: rolledUpDays(plan),
+      },
+      select: { date: true, visits: true },
+    });
+    addRolledUpDays(plan, rolledUp.map((day) => ({ date: day.date, count: day.visits })));
+  }
+
+  return toSeries(plan, options);
+}
+
+// Custom events per bucket, for the given conditions on `events`, plus the
+// rolled-up events of `name` (or of every name)
+export async function getEventSeries(
+  filters: ResolvedFilters,
+  options: SeriesOptions,
+  conditions: Prisma.Sql[],
+  rollupScope: RollupScope,
+  name: string | null,
+): Promise<TimeSeries> {
+  const { granularity } = options;
+  const plan = planBuckets(filters, granularity, options.timeZone);
+
+  await countIntoBuckets('events', conditions, granularity, plan, filters.from);
+
+  if (rollupScope && canHoldRollups(granularity, plan)) {
+    const rolledUp = await prismadb.dailyEventStat.findMany({
+      where: {
+        siteId: rollupScope.siteId,
+        kind: 'event',
+        ...(name && { name }),
+        date: rolledUpDays(plan),
+      },
+      select: { date: true, count: true },
+    });
+    addRolledUpDays(plan, rolledUp);
+  }
+
+  return toSeries(plan, options);
+}
@@ -0,0 +1,110 @@
+import type { EventPayload } from '@/lib/events';
+import type { TrackPayload } from '@/lib/tracking';
+
+// Batches of queued hits sent to /api/track/batch. Shared by the client queue
+// and the route, so it imports nothing server-only.
+
+// A page view or custom event waiting to be sent. `id` is the idempotency key:
+// the server records a hit once however often it arrives.
+export type QueuedHit =
+  | { id: string; type: 'pageview'; queuedAt: number; payload: TrackPayload }
+  | { id: string; type: 'event'; queuedAt: number; payload: EventPayload };
+
+export interface TrackBatch {
+  // Site id, omitted by the app's own pages
+  siteId?: string;
+  // Embedded sites' current session; the app's own pages use the session cookie
+  sessionId?: string;
+  // Client clock when the batch was sent. With each hit's `queuedAt` it gives
+  // the hit's age, so the server can date it without trusting the client clock.
+  sentAt: number;
+  hits: QueuedHit[];
+}
+
+// `failed` hits may be sent again; every other status is final
+export type BatchHitStatus = 'stored' | 'duplicate' | 'skipped' | 'rejected' | 'failed';
+
+export interface BatchHitResult {
+  id: string;
+  status: BatchHitStatus;
+  message?: string;
+}
+
+export interface BatchResponse {
+  success: boolean;
+  sessionId: string | null;
+  results: BatchHitResult[];
+}
+
+export const MAX_BATCH_HITS = 50;
+// Older hits are dropped by the client and rejected by the server
+export const MAX_HIT_AGE_MS = 24 * 60 * 60 * 1000;
+
+const HIT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isHitId(value: unknown): value is string {
+  return typeof value === 'string' && HIT_ID_PATTERN.test(value);
+}
+
+export class InvalidBatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBatchError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readHit(value: unknown, index: number): QueuedHit {
+  if (!isObject(value)) {
+    throw new InvalidBatchError(`Hit ${index} must be an object`);
+  }
+  if (!isHitId(value.id)) {
+    throw new InvalidBatchError(`Hit ${index} needs an \`id\` of 8-64 letters, digits, _ or -`);
+  }
+  if (typeof value.queuedAt !== 'number' || !Number.isFinite(value.queuedAt)) {
+    throw new InvalidBatchError(`Hit ${index} needs a numeric \`queuedAt\``);
+  }
+  if (!isObject(value.payload)) {
+    throw new InvalidBatchError(`Hit ${index} needs a \`payload\` object`);
+  }
+
+  if (value.type === 'pageview') {
+    if (typeof value.payload.userAgent !== 'string') {
+      throw new InvalidBatchError(`Page view ${index} needs a \`userAgent\``);
+    }
+    return value as QueuedHit;
+  }
+  if (value.type === 'event') {
+    // Event names and properties are checked per hit, so one bad event doesn't fail the batch
+    return value as QueuedHit;
+  }
+  throw new InvalidBatchError(`Hit ${index} must have \`type\` pageview or event`);
+}
+
+export function readBatch(body: unknown): TrackBatch {
+  if (!isObject(body)) {
+    throw new InvalidBatchError('The batch must be an object');
+  }
+  if (!Array.isArray(body.hits) || body.hits.length === 0 || body.hits.length > MAX_BATCH_HITS) {
+    throw new InvalidBatchError(`\`hits\` must be an array of 1-${MAX_BATCH_HITS} hits`);
+  }
+  if (typeof body.sentAt !== 'number' || !Number.isFinite(body.sentAt)) {
+    throw new InvalidBatchError('`sentAt` must be a timestamp in milliseconds');
+  }
+
+  for (const field of ['siteId', 'sessionId'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') {
+      throw new InvalidBatchError(`\`${field}\` must be a string`);
+    }
+  }
+
+  return {
+    siteId: body.siteId as string | undefined,
+    sessionId: body.sessionId as string | undefined,
+    sentAt: body.sentAt,
+    hits: body.hits.map(readHit),
+  };
+}
@@ -0,0 +1,412 @@
+import type { NextRequest } from 'next/server';
+import { UAParser } from 'ua-parser-js';
+import { prismadb } from '@/lib/db';
+import { ServerTracker, type GeoLocationData, type TrackPayload } from '@/lib/tracking';
+import { classifyIP } from '@/lib/client-ip';
+import { geoRegistry } from '@/lib/geolocation';
+import { geoCache } from '@/lib/geo-cache';
+import { IPAnonymizer } from '@/lib/ip-anonymizer';
+import { ConsentStore } from '@/lib/consent-store';
+import { SessionTracker } from '@/lib/sessions';
+import { ErasureToken } from '@/lib/data-subject';
+import { liveFeed } from '@/lib/live';
+import { dailyVisitorId } from '@/lib/unique-visitors';
+import { readEventInput, type EventPayload } from '@/lib/events';
+import type { SiteSummary } from '@/lib/sites';
+
+// Processing of single hits, shared by /api/track, /api/track/event and the
+// batch endpoint. Callers authorize the site and resolve the session id.
+
+// Cached geolocation through the provider registry, with simulated data for local development
+async function fetchGeoLocationWithFallback(ip: string, isLocalhost: boolean): Promise<GeoLocationData> {
+  // If localhost, simulate realistic data for development
+  if (isLocalhost) {
+    console.log('Localhost detected - using simulated geolocation data');
+    return {
+      query: ip,
+      status: 'success',
+      country: 'United Kingdom',
+      countryCode: 'GB',
+      region: 'ENG',
+      regionName: 'England',
+      city: 'London',
+      zip: 'EC1A 1BB',
+      lat: 51.5074,
+      lon: -0.1278,
+      timezone: 'Europe/London',
+      isp: 'Development Network',
+      org: 'Local Development Environment',
+      as: 'AS0 Localhost',
+      reverse: 'localhost.localdomain',
+      mobile: false,
+      proxy: false,
+      hosting: true,
+    };
+  }
+
+  // Serve repeat IPs from the cache, otherwise try each enabled provider in the configured order
+  return geoCache.resolve(ip, () => geoRegistry.lookup(ip));
+}
+
+// Records a page view of an authorized site. `sessionHint` is the session the
+// client is in, if any; `now` is when the hit happened. `earlierHint` is where
+// queued hits older than that session went (see SessionTracker.resolveSession).
+export async function recordVisit(
+  request: NextRequest,
+  site: SiteSummary,
+  clientData: TrackPayload,
+  sessionHint: string | undefined,
+  now: Date = new Date(),
+  earlierHint?: string
+) {
+  // Stored consent, with DNT / Sec-GPC applied. Embedded sites pass their own.
+  const { recordId: consentId, status: consentStatus } = await ConsentStore.resolveForSite(
+    request,
+    site.id,
+    clientData.consent
+  );
+  const consent = consentStatus.effective;
+
+  // Probe results the visitor did not consent to are discarded before any processing
+  if (!consent.fingerprinting) {
+    delete clientData.canvas;
+    delete clientData.webgl;
+    delete clientData.fonts;
+    delete clientData.plugins;
+  }
+  
+  // Extract IP address using our utility
+  const ip = ServerTracker.extractClientIP(request);
+  
+  // Get all request headers for analysis
+  const requestHeaders = Object.fromEntries(request.headers.entries());
+  
+  // The full IP is only used in memory; this is what may be stored or logged,
+  // hashed with the salt of the period the hit happened in
+  const storedIP = IPAnonymizer.forStorage(ip, now);
+
+  console.log(`Tracking visitor with IP: ${storedIP}`);
+
+  // Check if IP is localhost and handle accordingly
+  let effectiveIP = ip;
+  let isLocalhost = false;
+  
+  const ipScope = classifyIP(ip);
+  if (ipScope !== 'public') {
+    isLocalhost = true;
+    console.log(`Non-public IP detected (${ipScope ?? 'invalid'}), attempting to get public IP...`);
+    
+    // Try to get public IP for testing
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 3000);
+      const publicIPResponse = await fetch('https://api.ipify.org?format=json', {
+        signal: controller.signal
+      });
+      clearTimeout(timeoutId);
+      if (publicIPResponse.ok) {
+        const publicIPData = await publicIPResponse.json();
+        effectiveIP = publicIPData.ip;
+        console.log(`Using public IP for geolocation: ${effectiveIP}`);
+      }
+    } catch (ipError) {
+      console.warn('Failed to get public IP:', ipError);
+    }
+  }
+
+  // Fetch comprehensive geolocation data
+  let geoData: GeoLocationData;
+  try {
+    // Use multiple API services for better reliability
+    geoData = await fetchGeoLocationWithFallback(effectiveIP, isLocalhost);
+  } catch (error) {
+    console.error('All geolocation services failed:', error);
+    // Enhanced fallback data with more realistic testing values
+    geoData = {
+      query: effectiveIP,
+      status: 'success',
+      country: isLocalhost ? 'United Kingdom' : 'Unknown',
+      countryCode: isLocalhost ? 'GB' : 'XX',
+      region: isLocalhost ? 'ENG' : 'XX',
+      regionName: isLocalhost ? 'England' : 'Unknown',
+      city: isLocalhost ? 'London' : 'Unknown',
+      zip: isLocalhost ? 'SW1A 1AA' : 'Unknown',
+      lat: isLocalhost ? 51.5074 : 0,
+      lon: isLocalhost ? -0.1278 : 0,
+      timezone: clientData.timezone || 'UTC',
+      isp: isLocalhost ? 'Local Development' : 'Unknown ISP',
+      org: isLocalhost ? 'Localhost' : 'Unknown Organization',
+      as: isLocalhost ? 'AS0 Local Network' : 'Unknown',
+      reverse: isLocalhost ? 'localhost' : 'Unknown',
+      mobile: false,
+      proxy: false,
+      hosting: isLocalhost,
+    };
+  }
+
+  // Parse user agent with enhanced detection
+  const parser = new UAParser(clientData.userAgent);
+  const uaResult = parser.getResult();
+
+  // Enhanced device type detection
+  let deviceType = 'Desktop';
+  if (uaResult.device.type) {
+    deviceType = uaResult.device.type === 'mobile' ? 'Mobile' : 
+                 uaResult.device.type === 'tablet' ? 'Tablet' : 
+                 uaResult.device.type === 'smarttv' ? 'Smart TV' : 'Desktop';
+  } else if (geoData.mobile || clientData.userAgent.includes('Mobile')) {
+    deviceType = 'Mobile';
+  } else if (clientData.userAgent.includes('Tablet') || clientData.userAgent.includes('iPad')) {
+    deviceType = 'Tablet';
+  }
+
+  // Enhanced browser detection
+  const browserName = uaResult.browser.name || 'Unknown';
+  const browserVersion = uaResult.browser.version || 'Unknown';
+  const browser = `${browserName} ${browserVersion}`;
+
+  // Enhanced OS detection
+  const osName = uaResult.os.name || 'Unknown';
+  const osVersion = uaResult.os.version || 'Unknown';
+  const os = `${osName} ${osVersion}`;
+
+  // Advanced threat detection
+  const isVPN = ServerTracker.detectVPN(geoData, clientData.userAgent);
+  const isProxy = geoData.proxy || isVPN;
+  const threatLevel = ServerTracker.getThreatLevel(geoData, isVPN, clientData.userAgent);
+  const connectionType = ServerTracker.getConnectionType(clientData.userAgent, geoData);
+
+  // Generate device fingerprint
+  const deviceFingerprint = consent.fingerprinting
+    ? ServerTracker.generateDeviceFingerprint(clientData.userAgent, requestHeaders)
+    : null;
+
+  // Prepare comprehensive visitor data
+  const visitorInfo = {
+    ip,
+    country: geoData.country,
+    region: geoData.regionName,
+    city: geoData.city,
+    latitude: geoData.lat,
+    longitude: geoData.lon,
+    timezone: geoData.timezone,
+    browser,
+    os,
+    device: deviceType,
+    userAgent: clientData.userAgent,
+    isp: geoData.isp,
+    connection: connectionType,
+    threat: threatLevel,
+    vpn: isVPN,
+    proxy: isProxy,
+  };
+
+  // Save to database with error handling
+  let dbSaveSuccess = false;
+  let sessionId: string | null = null;
+  let earlier = false;
+  if (consent.analytics) {
+    try {
+      const resolved = await SessionTracker.resolveSession(
+        sessionHint,
+        site.id,
+        SessionTracker.extractPath(clientData.url),
+        now,
+        earlierHint
+      );
+      const session = resolved.session;
+      sessionId = session.id;
+      earlier = resolved.earlier;
+
+      const visitor = await prismadb.visitor.create({
+        data: {
+          siteId: site.id,
+          ip: storedIP,
+          country: visitorInfo.country,
+          region: visitorInfo.region,
+          city: visitorInfo.city,
+          latitude: visitorInfo.latitude,
+          longitude: visitorInfo.longitude,
+          timezone: visitorInfo.timezone,
+          browser: visitorInfo.browser,
+          os: visitorInfo.os,
+          device: visitorInfo.device,
+          userAgent: visitorInfo.userAgent,
+          countryCode: geoData.countryCode,
+          zip: geoData.zip,
+          // Network
+          isp: visitorInfo.isp,
+          organization: geoData.org,
+          asn: geoData.as,
+          reverse: geoData.reverse,
+          connection: visitorInfo.connection,
+          // Security
+          threat: visitorInfo.threat,
+          vpn: visitorInfo.vpn,
+          proxy: visitorInfo.proxy,
+          hosting: geoData.hosting,
+          deviceFingerprint: deviceFingerprint ?? '',
+          visitorHash: dailyVisitorId({
+            site: site.id,
+            ip,
+            userAgent: clientData.userAgent,
+          }, now),
+          // Client environment
+          screenWidth: clientData.screen?.width,
+          screenHeight: clientData.screen?.height,
+          colorDepth: clientData.screen?.colorDepth,
+          viewportWidth: clientData.viewport?.width,
+          viewportHeight: clientData.viewport?.height,
+          language: clientData.language,
+          languages: clientData.languages ? [...clientData.languages] : undefined,
+          platform: clientData.platform,
+          referrer: clientData.referrer || null,
+          url: clientData.url,
+          sessionId: session.id,
+          consentId,
+          visitedAt: now,
+        },
+      });
+
+      await SessionTracker.recordPageView(session, visitor.id, {
+        url: clientData.url,
+        referrer: clientData.referrer,
+      }, now);
+    
+      dbSaveSuccess = true;
+      console.log('Visitor data saved successfully to database');
+
+      // Push to open dashboards; the feed must never fail tracking
+      liveFeed.publish({ type: 'visitor', visitor }).catch((liveError) => {
+        console.warn('Publishing live visitor failed:', liveError);
+      });
+      liveFeed.publishCounters(site.id);
+      console.log('Visitor data:', { ...visitorInfo, ip: storedIP });
+    } catch (dbError) {
+      console.error('Database save failed:', dbError);
+      // Continue execution even if DB save fails
+    }
+  } else {
+    console.log('No analytics consent - visitor data not stored');
+  }
+
+
+  // Comprehensive response with all collected data
+  const body = {
+    success: true,
+    message: 'Visitor tracked successfully',
+    siteId: site.id,
+    dbSaved: dbSaveSuccess,
+    sessionId,
+    // Lets the visitor delete what was stored about them via /api/privacy/erase
+    erasureToken: dbSaveSuccess && sessionId ? ErasureToken.issue(sessionId, consentId) : null,
+    consent: consentStatus,
+    visitorInfo,
+    detailedAnalysis: {
+      security: {
+        threatLevel,
+        vpnDetected: isVPN,
+        proxyDetected: isProxy,
+        hostingProvider: geoData.hosting,
+        deviceFingerprint: deviceFingerprint ?? 'Not collected (no fingerprinting consent)',
+      },
+      network: {
+        isp: geoData.isp,
+        organization: geoData.org,
+        asn: geoData.as,
+        reverse: geoData.reverse,
+        connectionType,
+      },
+      location: {
+        country: geoData.country,
+        countryCode: geoData.countryCode,
+        region: geoData.regionName,
+        city: geoData.city,
+        zip: geoData.zip,
+        coordinates: `${geoData.lat}, ${geoData.lon}`,
+        timezone: geoData.timezone,
+      },
+      device: {
+        type: deviceType,
+        browser: browser,
+        os: os,
+        userAgent: clientData.userAgent,
+        screen: clientData.screen,
+        viewport: clientData.viewport,
+        language: clientData.language,
+        languages: clientData.languages,
+        platform: clientData.platform,
+        cookieEnabled: clientData.cookieEnabled,
+        onLine: clientData.onLine,
+      },
+      fingerprinting: {
+        canvas: clientData.canvas ? 'Available' : 'Not available',
+        webgl: clientData.webgl ? `${clientData.webgl.vendor} - ${clientData.webgl.renderer}` : 'Not available',
+        fonts: clientData.fonts ? `${clientData.fonts.length} fonts detected` : 'Font detection failed',
+        plugins: clientData.plugins ? `${clientData.plugins.length} plugins detected` : 'Plugin detection failed',
+        storage: clientData.storage,
+      },
+      privacy: {
+        dntHeader: consentStatus.signals.doNotTrack ? 'Do Not Track Enabled' : 'Tracking Allowed',
+        globalPrivacyControl: consentStatus.signals.globalPrivacyControl ? 'Enabled' : 'Not set',
+        referrer: clientData.referrer || 'Direct visit',
+        userAgentDetails: uaResult,
+      },
+      timing: {
+        serverTime: now.toISOString(),
+        clientTime: clientData.timestamp,
+        timezoneOffset: clientData.timezoneOffset,
+      }
+    }
+  };
+
+  return { body, sessionId, earlier, stored: dbSaveSuccess, analytics: consent.analytics };
+}
+
+// Records a custom event of an authorized site; throws InvalidEventError for
+// a malformed one. Stored only with analytics consent. Sessions are resolved
+// as for recordVisit.
+export async function recordEvent(
+  request: NextRequest,
+  site: SiteSummary,
+  payload: EventPayload,
+  sessionHint: string | undefined,
+  now: Date = new Date(),
+  earlierHint?: string
+): Promise<{ stored: boolean; eventId: string | null; sessionId: string | null; earlier: boolean }> {
+  const event = readEventInput(payload);
+
+  const { status: consentStatus } = await ConsentStore.resolveForSite(request, site.id, payload.consent);
+  if (!consentStatus.effective.analytics) {
+    return { stored: false, eventId: null, sessionId: null, earlier: false };
+  }
+
+  // Events join the visitor's current session, or open one if it has timed out
+  const { session, earlier } = await SessionTracker.resolveSession(
+    sessionHint,
+    site.id,
+    SessionTracker.extractPath(payload.url),
+    now,
+    earlierHint
+  );
+  const visitor = await prismadb.visitor.findFirst({
+    where: { sessionId: session.id },
+    orderBy: { visitedAt: 'desc' },
+    select: { id: true },
+  });
+
+  const stored = await prismadb.event.create({
+    data: {
+      siteId: site.id,
+      name: event.name,
+      properties: event.properties,
+      sessionId: session.id,
+      visitorId: visitor?.id ?? null,
+      url: payload.url || null,
+      occurredAt: now,
+    },
+  });
+  await SessionTracker.touch(session, now);
+
+  return { stored: true, eventId: stored.id, sessionId: session.id, earlier };
+}
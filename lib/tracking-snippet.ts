@@ -0,0 +1,288 @@
+import { MAX_BATCH_HITS, MAX_HIT_AGE_MS } from '@/lib/track-batch';
+
+// Source of /t.js, the standalone script other sites embed:
+//
+//   <script async src="https://<this app>/t.js" data-site="<site id>" data-consent="analytics"></script>
+//
+// `data-consent` lists the categories the visitor agreed to on the embedding
+// site (analytics, fingerprinting). Without analytics nothing would be stored,
+// so nothing is sent. The script runs no fingerprinting probes itself.
+//
+// Route changes in single-page apps (history.pushState / replaceState and
+// back/forward) are sent as page views with the previous URL as referrer.
+// Changes of the hash alone are not, unless the tag has data-hash="track".
+//
+// Custom events: window.yl.track('signup', { plan: 'pro' }). Calls made before
+// the script loads can be queued in window.yl.q as [name, properties] pairs.
+//
+// Like the app's own pages (lib/hit-queue.ts), hits are queued with an
+// idempotency key, kept in local storage until /api/track/batch confirms them,
+// sent a second apart, retried with backoff and beaconed when the page is
+// hidden. Hits still queued when the page closes go out on the next page load.
+//
+// Plain ES5 with no build step: it is served as written.
+export const TRACKING_SNIPPET = `(function () {
+  'use strict';
+  var script = document.currentScript;
+  if (!script) return;
+
+  var site = script.getAttribute('data-site');
+  if (!site) {
+    console.warn('[y-l-i-m] data-site is missing, no visits are sent');
+    return;
+  }
+
+  var granted = (script.getAttribute('data-consent') || '').split(/\\s+/);
+  var consent = {
+    analytics: granted.indexOf('analytics') !== -1,
+    fingerprinting: granted.indexOf('fingerprinting') !== -1
+  };
+
+  var yl = window.yl = window.yl || {};
+  var queued = yl.q || [];
+  yl.q = [];
+  yl.track = function () {};
+  if (!consent.analytics) return;
+
+  var trackHashChanges = script.getAttribute('data-hash') === 'track';
+  var endpoint = new URL('/api/track/batch', script.src).href;
+  // The session cookie is first-party to this app, so embedded sites keep the id
+  var sessionKey = 'yl_session:' + site;
+  var queueKey = 'yl_queue:' + site;
+  var MAX_BATCH_HITS = ${MAX_BATCH_HITS};
+  var MAX_HIT_AGE_MS = ${MAX_HIT_AGE_MS};
+
+  function has(name) {
+    try {
+      return !!window[name];
+    } catch (e) {
+      return false;
+    }
+  }
+
+  function readSession() {
+    try {
+      return localStorage.getItem(sessionKey) || undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  function writeSession(id) {
+    try {
+      localStorage.setItem(sessionKey, id);
+    } catch (e) {
+      // Storage blocked; every hit starts a new session
+    }
+  }
+
+  // Queued hits live in local storage, shared by the site's open tabs. Without
+  // it they are only kept in memory for this page.
+  var memory = [];
+  var persistent = true;
+
+  function loadQueue() {
+    if (!persistent) return memory;
+    try {
+      var stored = JSON.parse(localStorage.getItem(queueKey) || '[]');
+      return stored instanceof Array ? stored : [];
+    } catch (e) {
+      persistent = false;
+      return memory;
+    }
+  }
+
+  function saveQueue(hits) {
+    memory = hits;
+    if (!persistent) return;
+    try {
+      localStorage.setItem(queueKey, JSON.stringify(hits));
+    } catch (e) {
+      persistent = false;
+    }
+  }
+
+  function hitId() {
+    return Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 12);
+  }
+
+  // Hits past the age the server accepts are dropped
+  function fresh() {
+    var cutoff = Date.now() - MAX_HIT_AGE_MS;
+    var hits = loadQueue();
+    var kept = hits.filter(function (hit) {
+      return hit.queuedAt >= cutoff;
+    });
+    if (kept.length !== hits.length) saveQueue(kept);
+    return kept;
+  }
+
+  function remove(ids) {
+    saveQueue(loadQueue().filter(function (hit) {
+      return ids.indexOf(hit.id) === -1;
+    }));
+  }
+
+  function batch(hits) {
+    return { siteId: site, sessionId: readSession(), sentAt: Date.now(), hits: hits };
+  }
+
+  var timer = null;
+  var sending = false;
+  var failures = 0;
+
+  function schedule(delay) {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, delay);
+  }
+
+  // Doubles with each consecutive failure, up to five minutes, with jitter
+  function backoff() {
+    var delay = Math.min(5 * 60 * 1000, 2000 * Math.pow(2, failures - 1));
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  // Sends what is queued and applies the per-hit results. Only one batch is in
+  // flight, so each hit joins the session the one before opened.
+  // text/plain keeps it a simple request, so browsers skip the CORS preflight.
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (sending || !navigator.onLine) return;
+    var hits = fresh().slice(0, MAX_BATCH_HITS);
+    if (hits.length === 0) return;
+
+    sending = true;
+    fetch(endpoint, {
+      method: 'POST',
+      credentials: 'omit',
+      headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+      body: JSON.stringify(batch(hits))
+    })
+      .then(function (response) {
+        if (response.status >= 500) throw new Error('Batch failed with status ' + response.status);
+        if (!response.ok) {
+          // Rejected as a whole (unknown site, origin not allowed): retrying won't help
+          remove(hits.map(function (hit) { return hit.id; }));
+          return;
+        }
+        return response.json().then(function (data) {
+          if (data.sessionId) writeSession(data.sessionId);
+          var done = [];
+          var failed = false;
+          data.results.forEach(function (result) {
+            if (result.status === 'failed') failed = true;
+            else done.push(result.id);
+          });
+          remove(done);
+          if (failed) throw new Error('Some hits could not be stored');
+        });
+      })
+      .then(function () {
+        failures = 0;
+      }, function () {
+        // Tracking must never break the embedding page
+        failures++;
+      })
+      .then(function () {
+        sending = false;
+        if (loadQueue().length > 0) schedule(failures > 0 ? backoff() : 0);
+      });
+  }
+
+  // Last chance before the page goes away. The hits stay queued, since a beacon
+  // has no response; if it did arrive, their retry is answered as a duplicate.
+  function beacon() {
+    var hits = fresh().slice(0, MAX_BATCH_HITS);
+    if (hits.length === 0 || typeof navigator.sendBeacon !== 'function') return;
+    var body = new Blob([JSON.stringify(batch(hits))], { type: 'text/plain;charset=UTF-8' });
+    if (!navigator.sendBeacon(endpoint, body)) flush();
+  }
+
+  function enqueue(type, payload) {
+    var hits = loadQueue().concat([{ id: hitId(), type: type, queuedAt: Date.now(), payload: payload }]);
+    saveQueue(hits);
+    if (hits.length >= MAX_BATCH_HITS) flush();
+    else if (!timer && !sending) schedule(1000);
+  }
+
+  window.addEventListener('online', flush);
+  window.addEventListener('pagehide', beacon);
+  document.addEventListener('visibilitychange', function () {
+    if (document.visibilityState === 'hidden') beacon();
+  });
+
+  // Body of a page view, as /api/track takes it; site and session go on the batch
+  function pageView(url, referrer) {
+    return {
+      consent: consent,
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      languages: navigator.languages || [navigator.language],
+      platform: navigator.platform,
+      cookieEnabled: navigator.cookieEnabled,
+      onLine: navigator.onLine,
+      screen: {
+        width: screen.width,
+        height: screen.height,
+        colorDepth: screen.colorDepth,
+        pixelDepth: screen.pixelDepth,
+        orientation: screen.orientation && screen.orientation.type
+      },
+      viewport: {
+        width: window.innerWidth,
+        height: window.innerHeight
+      },
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      timezoneOffset: new Date().getTimezoneOffset(),
+      timestamp: new Date().toISOString(),
+      referrer: referrer,
+      url: url,
+      storage: {
+        localStorage: has('localStorage'),
+        sessionStorage: has('sessionStorage'),
+        indexedDB: has('indexedDB')
+      }
+    };
+  }
+
+  function pageOf(url) {
+    return trackHashChanges ? url : url.split('#')[0];
+  }
+
+  var lastUrl = location.href;
+  enqueue('pageview', pageView(location.href, document.referrer));
+
+  function onNavigate() {
+    var previous = lastUrl;
+    var url = lastUrl = location.href;
+    if (pageOf(url) === pageOf(previous)) return;
+    enqueue('pageview', pageView(url, previous));
+  }
+
+  ['pushState', 'replaceState'].forEach(function (method) {
+    var original = history[method];
+    history[method] = function () {
+      var result = original.apply(this, arguments);
+      onNavigate();
+      return result;
+    };
+  });
+  window.addEventListener('popstate', onNavigate);
+  if (trackHashChanges) window.addEventListener('hashchange', onNavigate);
+
+  // Events queue behind the page view, so they join the session it starts
+  yl.track = function (name, properties) {
+    enqueue('event', {
+      consent: consent,
+      name: name,
+      properties: properties || {},
+      url: location.href
+    });
+  };
+
+  for (var i = 0; i < queued.length; i++) {
+    yl.track(queued[i][0], queued[i][1]);
+  }
+})();
+`;
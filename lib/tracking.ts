@@ -1,3 +1,8 @@
+import { resolveClientIP } from '@/lib/client-ip';
+import { ConsentManager, NO_CONSENT, type ConsentState } from '@/lib/consent';
+import { readEventInput, type EventPayload, type EventProperties } from '@/lib/events';
+import { HitQueue, hitId } from '@/lib/hit-queue';
+
 // Types for tracking data
 export interface VisitorInfo {
   ip: string;
@@ -55,6 +60,18 @@ export interface ClientFingerprint {
   plugins?: string[];
 }
 
+// Body of a hit sent to /api/track
+export interface TrackPayload extends ClientFingerprint {
+  // Site id, omitted by the app's own pages
+  siteId?: string;
+  // Embedded sites can't use the session cookie, so the snippet sends its session back
+  sessionId?: string;
+  // The embedding site's consent; the app's own pages use the consent cookie instead
+  consent?: Omit<ConsentState, 'necessary'>;
+  // Idempotency key from the app's own pages, kept if the hit is queued for a batch
+  hitId?: string;
+}
+
 export interface GeoLocationData {
   query: string;
   status: string;
@@ -79,7 +96,8 @@ export interface GeoLocationData {
 
 // Client-side fingerprinting functions
 export class ClientFingerprinter {
-  static async generateFingerprint(): Promise<ClientFingerprint> {
+  // Canvas, WebGL, font and plugin probes only run with fingerprinting consent
+  static async generateFingerprint(consent: ConsentState = NO_CONSENT): Promise<ClientFingerprint> {
     const fingerprint: ClientFingerprint = {
       userAgent: navigator.userAgent,
       language: navigator.language,
@@ -110,6 +128,10 @@ export class ClientFingerprinter {
       },
     };
 
+    if (!consent.fingerprinting) {
+      return fingerprint;
+    }
+
     // Add WebGL fingerprint if available
     try {
       fingerprint.webgl = this.getWebGLFingerprint();
@@ -293,72 +315,161 @@ export class ClientFingerprinter {
   }
 }
 
-// Server-side utilities
-export class ServerTracker {
-  static extractClientIP(request: Request): string {
-    // Check various headers for the real IP address
-    const headers = request.headers;
-    
-    // Cloudflare
-    const cfConnectingIP = headers.get('cf-connecting-ip');
-    if (cfConnectingIP) return cfConnectingIP;
-    
-    // Standard forwarded headers
-    const xForwardedFor = headers.get('x-forwarded-for');
-    if (xForwardedFor) {
-      return xForwardedFor.split(',')[0].trim();
-    }
-    
-    // Real IP header
-    const xRealIP = headers.get('x-real-ip');
-    if (xRealIP) return xRealIP;
-    
-    // Other possible headers
-    const xClientIP = headers.get('x-client-ip');
-    if (xClientIP) return xClientIP;
-    
-    const xForwarded = headers.get('x-forwarded');
-    if (xForwarded) return xForwarded;
-    
-    const forwardedFor = headers.get('forwarded-for');
-    if (forwardedFor) return forwardedFor;
-    
-    const forwarded = headers.get('forwarded');
-    if (forwarded) {
-      const match = forwarded.match(/for=([^;,\s]+)/);
-      if (match) return match[1];
+// The parts of the /api/track response the client uses
+export interface TrackResponse {
+  success: boolean;
+  sessionId: string | null;
+  visitorInfo?: VisitorInfo;
+}
+
+let hitQueue: HitQueue | null = null;
+
+// The app's queue of hits for /api/track/batch, created on first use in the browser
+function queue(): HitQueue {
+  hitQueue ??= new HitQueue({ endpoint: '/api/track/batch' });
+  return hitQueue;
+}
+
+// Creates the queue on page load, so hits left over from earlier page loads go
+// out even if this one queues nothing
+export function startHitQueue() {
+  queue();
+}
+
+// Page view of the current URL from the app's own pages. Probes only run with
+// fingerprinting consent; the cookie is a hint, the server re-checks it.
+async function pageViewPayload(consent: ConsentState | undefined, referrer: string): Promise<TrackPayload> {
+  const clientData = await ClientFingerprinter.generateFingerprint(
+    consent ?? ConsentManager.readClientCookie()?.choice ?? NO_CONSENT
+  );
+  return { ...clientData, referrer };
+}
+
+// Sends a page view straight to /api/track, for pages that show its response.
+// If the network or the server fails, the hit is queued for a later batch
+// under the same key, so it is stored once even if the first send got through.
+export async function sendPageView(
+  consent?: ConsentState,
+  referrer: string = document.referrer
+): Promise<TrackResponse | null> {
+  const id = hitId();
+  const payload: TrackPayload = { ...await pageViewPayload(consent, referrer), hitId: id };
+  try {
+    const response = await fetch('/api/track', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+    if (response.status >= 500) {
+      queue().enqueue({ type: 'pageview', payload }, id);
+      return null;
     }
-    
-    // Fallback
-    return '127.0.0.1';
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.error('Tracking failed, queued for retry:', error);
+    queue().enqueue({ type: 'pageview', payload }, id);
+    return null;
   }
+}
 
-  static async fetchGeoLocation(ip: string): Promise<GeoLocationData> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch(
-      `http://ip-api.com/json/${ip}?fields=status,message,country,countryCode,region,regionName,city,zip,lat,lon,timezone,isp,org,as,reverse,mobile,proxy,hosting&lang=en`,
-      {
-        headers: {
-          'User-Agent': 'LocationTracker/1.0',
-        },
-        signal: controller.signal,
-      }
-    );
-    clearTimeout(timeoutId);
+// Queues a page view for the next batch, e.g. after a client-side route change
+export async function queuePageView(referrer: string, consent?: ConsentState) {
+  queue().enqueue({ type: 'pageview', payload: await pageViewPayload(consent, referrer) });
+}
+
+export interface NavigationOptions {
+  // Count a change of location.hash alone as a new page; off by default, as
+  // hashes usually point within the page
+  trackHashChanges?: boolean;
+}
+
+// Client-side route changes in single-page apps: history.pushState and
+// replaceState, back/forward and, if enabled, hash changes. onNavigate runs
+// once per new URL, with the URL the visitor came from.
+export class NavigationTracker {
+  private lastUrl: string;
+  private active = false;
+  private cleanup: Array<() => void> = [];
+
+  constructor(
+    private readonly onNavigate: (url: string, previousUrl: string) => void,
+    private readonly options: NavigationOptions = {}
+  ) {
+    this.lastUrl = window.location.href;
+  }
+
+  start() {
+    if (this.active) return;
+    this.active = true;
 
-    if (!response.ok) {
-      throw new Error(`Geo API error: ${response.status}`);
+    const check = () => {
+      if (this.active) this.notify();
+    };
+    for (const method of ['pushState', 'replaceState'] as const) {
+      const original = history[method];
+      const patched = function (this: History, ...args: Parameters<History['pushState']>) {
+        original.apply(this, args);
+        check();
+      };
+      history[method] = patched;
+      this.cleanup.push(() => {
+        // Leave wrappers installed by later code in place; ours is inert once stopped
+        if (history[method] === patched) history[method] = original;
+      });
     }
 
-    const data = await response.json();
-    
-    if (data.status !== 'success') {
-      throw new Error(`Geo API failed: ${data.status} - ${data.message}`);
+    window.addEventListener('popstate', check);
+    this.cleanup.push(() => window.removeEventListener('popstate', check));
+    if (this.options.trackHashChanges) {
+      window.addEventListener('hashchange', check);
+      this.cleanup.push(() => window.removeEventListener('hashchange', check));
     }
+  }
 
-    return data;
+  stop() {
+    this.active = false;
+    this.cleanup.forEach((undo) => undo());
+    this.cleanup = [];
+  }
+
+  // Checks the current URL; also called for router events the history hooks
+  // may not see. Repeated calls for the same URL are ignored.
+  notify() {
+    const url = window.location.href;
+    const previousUrl = this.lastUrl;
+    this.lastUrl = url;
+    if (this.pageOf(url) !== this.pageOf(previousUrl)) {
+      this.onNavigate(url, previousUrl);
+    }
+  }
+
+  private pageOf(url: string): string {
+    return this.options.trackHashChanges ? url : url.split('#')[0];
+  }
+}
+
+// Custom events from the app's own pages, e.g. track('signup', { plan: 'pro' }).
+// Events are queued and sent in batches; they are stored with analytics consent.
+export function track(name: string, properties: EventProperties = {}) {
+  const payload: EventPayload = { name, properties, url: window.location.href };
+  try {
+    readEventInput(payload);
+  } catch (error) {
+    console.warn(`Event "${name}" was not sent:`, error instanceof Error ? error.message : error);
+    return;
+  }
+  queue().enqueue({ type: 'event', payload });
+}
+
+// Server-side utilities
+export class ServerTracker {
+  // Resolves the client address from the forwarding chain, trusting only the
+  // proxies configured in TRUSTED_PROXIES (see lib/client-ip.ts). Without them
+  // the address is unknown and the hit is treated as local.
+  static extractClientIP(request: Request): string {
+    return resolveClientIP(request.headers) ?? '127.0.0.1';
   }
 
   static detectVPN(geoData: GeoLocationData, userAgent: string): boolean {
@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { ResolvedFilters } from '@/lib/dashboard-filters';
+
+// Daily unique visitor counting without cookies or a long-lived identifier.
+// Each visit is tagged with SHA-256(salt, site, IP, user agent). Salts are
+// random, live only in memory and are kept for one day past their own, so
+// queued hits from yesterday are counted with yesterday's salt. The same person
+// gets a new identifier every day and old ones can't be recomputed.
+
+export interface VisitorIdInput {
+  site: string;
+  ip: string;
+  userAgent: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function utcDay(time: Date): string {
+  return time.toISOString().slice(0, 10);
+}
+
+class DailySalt {
+  private salts = new Map<string, Buffer>();
+
+  // Salt for the day `at` falls on. Days before yesterday get today's salt,
+  // since theirs is gone.
+  get(at: Date, now: Date = new Date()): Buffer {
+    const today = utcDay(now);
+    const yesterday = utcDay(new Date(now.getTime() - DAY_MS));
+
+    // Older salts are dropped, never written anywhere
+    for (const day of this.salts.keys()) {
+      if (day !== today && day !== yesterday) this.salts.delete(day);
+    }
+
+    const day = utcDay(at) === yesterday ? yesterday : today;
+    let salt = this.salts.get(day);
+    if (!salt) {
+      salt = randomBytes(32);
+      this.salts.set(day, salt);
+    }
+    return salt;
+  }
+}
+
+// One salt per process, shared by every route bundle. Instances behind a load
+// balancer each have their own, so a visitor may count once per instance.
+const globalForSalt = globalThis as unknown as {
+  visitorSalt: DailySalt | undefined
+};
+
+const dailySalt = globalForSalt.visitorSalt ?? new DailySalt();
+
+globalForSalt.visitorSalt = dailySalt;
+
+// `visitedAt` picks the day's salt; queued hits may be from yesterday
+export function dailyVisitorId({ site, ip, userAgent }: VisitorIdInput, visitedAt: Date = new Date()): string {
+  return createHash('sha256')
+    .update(dailySalt.get(visitedAt))
+    .update(`\0${site}\0${ip}\0${userAgent}`)
+    .digest('hex');
+}
+
+// Breakdowns with unique counts, as SQL over `visitors`. Fixed expressions,
+// so they are safe to splice into raw queries.
+const UNIQUE_DIMENSIONS = {
+  country: 'country',
+  city: 'city',
+  device: 'device',
+  browser: 'browser',
+  os: 'os',
+  isp: 'isp',
+  connection: 'connection',
+  threat: 'threat',
+  language: 'language',
+  referrer: 'referrer',
+  screen: 'CONCAT(screenWidth, \'x\', screenHeight)',
+} as const;
+
+export type UniqueDimension = keyof typeof UNIQUE_DIMENSIONS;
+
+type Queryable = Pick<Prisma.TransactionClient, '$queryRaw'>;
+
+// Site and dimension filters as raw SQL conditions; keys come from a fixed list
+export function dimensionConditions(filters: ResolvedFilters): Prisma.Sql[] {
+  return [
+    Prisma.sql`siteId = ${filters.siteId}`,
+    ...Object.entries(filters.dimensions).map(
+      ([column, value]) => Prisma.sql`${Prisma.raw(`\`${column}\``)} = ${value}`,
+    ),
+  ];
+}
+
+export function filterConditions(filters: ResolvedFilters): Prisma.Sql[] {
+  return [
+    ...(filters.from ? [Prisma.sql`visitedAt >= ${filters.from}`] : []),
+    ...(filters.to ? [Prisma.sql`visitedAt < ${filters.to}`] : []),
+    ...dimensionConditions(filters),
+  ];
+}
+
+function whereClause(conditions: Prisma.Sql[]): Prisma.Sql {
+  return conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+}
+
+// Visits recorded before identifiers existed have none and are not counted
+export async function countUniqueVisitors(db: Queryable, conditions: Prisma.Sql[]): Promise<number> {
+  const [row] = await db.$queryRaw<Array<{ visitors: bigint | number }>>`
+    SELECT COUNT(DISTINCT visitorHash) AS visitors
+    FROM visitors
+    ${whereClause(conditions)}
+  `;
+  return Number(row?.visitors ?? 0);
+}
+
+export async function countUniqueVisitorsBy(
+  db: Queryable,
+  conditions: Prisma.Sql[],
+  dimension: UniqueDimension,
+): Promise<Map<string, number>> {
+  const expression = Prisma.raw(UNIQUE_DIMENSIONS[dimension]);
+  const rows = await db.$queryRaw<Array<{ value: string | null; visitors: bigint | number }>>`
+    SELECT ${expression} AS value, COUNT(DISTINCT visitorHash) AS visitors
+    FROM visitors
+    ${whereClause(conditions)}
+    GROUP BY value
+  `;
+
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (row.value !== null) counts.set(row.value, Number(row.visitors));
+  }
+  return counts;
+}
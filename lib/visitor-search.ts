@@ -0,0 +1,93 @@
+import { Prisma } from '@prisma/client';
+import {
+  InvalidFilterError,
+  readDashboardFilters,
+  resolveFilters,
+  visitorWhere,
+} from '@/lib/dashboard-filters';
+
+// Search grammar of the visitor explorer: the dashboard filters, free text
+// and a few more exact-match fields
+export const VISITOR_SORT_FIELDS = [
+  'visitedAt',
+  'country',
+  'city',
+  'device',
+  'browser',
+  'os',
+  'isp',
+  'threat',
+] as const;
+
+export type VisitorSortField = typeof VISITOR_SORT_FIELDS[number];
+
+const TEXT_FIELDS = ['isp', 'connection', 'threat'] as const;
+const FLAG_FIELDS = ['vpn', 'proxy', 'hosting'] as const;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 200;
+
+export interface VisitorSearch {
+  where: Prisma.VisitorWhereInput;
+  orderBy: Prisma.VisitorOrderByWithRelationInput[];
+  page: number;
+  pageSize: number;
+}
+
+function readPositiveInt(params: URLSearchParams, name: string, fallback: number): number {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new InvalidFilterError(`\`${name}\` must be a positive integer`);
+  }
+  return value;
+}
+
+export function readVisitorSearch(params: URLSearchParams): VisitorSearch {
+  const conditions: Prisma.VisitorWhereInput[] = [
+    visitorWhere(resolveFilters(readDashboardFilters(params))),
+  ];
+
+  // Free text over the stored IP, city, network and user agent
+  const query = params.get('q')?.trim();
+  if (query) {
+    conditions.push({
+      OR: [
+        { ip: { contains: query } },
+        { city: { contains: query } },
+        { isp: { contains: query } },
+        { userAgent: { contains: query } },
+      ],
+    });
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = params.get(field)?.trim();
+    if (value) conditions.push({ [field]: value });
+  }
+
+  for (const field of FLAG_FIELDS) {
+    const value = params.get(field);
+    if (value === 'true' || value === 'false') conditions.push({ [field]: value === 'true' });
+    else if (value) throw new InvalidFilterError(`\`${field}\` must be true or false`);
+  }
+
+  const sort = (params.get('sort') || 'visitedAt') as VisitorSortField;
+  if (!VISITOR_SORT_FIELDS.includes(sort)) {
+    throw new InvalidFilterError(`\`sort\` must be one of ${VISITOR_SORT_FIELDS.join(', ')}`);
+  }
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new InvalidFilterError('`order` must be asc or desc');
+  }
+
+  return {
+    where: { AND: conditions },
+    // The id tie-breaker keeps pages stable when sort values repeat
+    orderBy: [{ [sort]: order }, { id: order }],
+    page: readPositiveInt(params, 'page', 1),
+    pageSize: Math.min(readPositiveInt(params, 'pageSize', DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+  };
+}
@@ -0,0 +1,199 @@
+// World outline for the admin map, shipped with the app so the map needs no
+// tile server. Countries are Natural Earth 1:110m (public domain), via the
+// world-atlas package, pre-projected to equirectangular coordinates:
+// x = longitude + 180, y = 90 - latitude, in a 360 x 180 box.
+
+export interface WorldCountry {
+  // ISO 3166-1 alpha-2, null for territories without one
+  code: string | null;
+  name: string;
+  // SVG path in map coordinates
+  d: string;
+}
+
+export const MAP_WIDTH = 360;
+export const MAP_HEIGHT = 180;
+
+export function project(latitude: number, longitude: number): { x: number; y: number } {
+  return { x: longitude + 180, y: 90 - latitude };
+}
+
+export const WORLD_COUNTRIES: WorldCountry[] = [
+  { code: 'AF', name: 'Afghanistan', d: 'M246.5 52.6L247.1 52.6L247.8 52.9L248.1 53L248.9 52.7L249.2 52.8L249.5 52.4L250.1 52.4L250.3 52.3L250.4 51.9L250.8 51.5L251.3 51.7L251.2 52L251.5 52.1L251.4 52.9L251.8 53.3L252.2 53.1L252.6 53L253.3 52.5L254 52.6L255 52.6L255.2 52.9L254.6 53L254.1 53.2L252.9 53.3L251.8 53.5L251.3 53.9L251.5 54.3L251.6 54.8L251.1 55.3L251.2 55.7L250.9 56L249.9 56L250.3 56.6L249.7 56.9L249.3 57.5L249.3 58.1L248.9 58.4L248.6 58.3L247.8 58.4L247.7 58.7L246.9 58.7L246.4 59.3L246.3 60.1L245 60.5L244.3 60.4L244.1 60.7L243.5 60.5L242.5 60.7L240.9 60.2L241.8 59.3L241.7 58.6L240.9 58.5L240.9 57.8L240.5 57L241 56.5L240.5 56.3L240.8 55.6L241.2 54.4L242.2 54.7L243 54.6L243.2 54.1L244 54L244.5 53.7L244.7 52.9L245.6 52.7L245.7 52.3L246.2 52.6L246.5 52.6Z' },
+  { code: 'AL', name: 'Albania', d: 'M201 49.2L201 49.4L200.7 49.6L200.6 49.9L200.2 50.4L200 50.3L200 50.1L199.4 49.7L199.3 49.3L199.4 48.6L199.5 48.3L199.4 48.1L199.3 47.8L199.7 47.3L199.8 47.5L200.1 47.4L200.3 47.7L200.5 47.8L200.6 48.1L200.5 48.5L200.6 48.9L201 49.2Z' },
+  { code: 'DZ', name: 'Algeria', d: 'M171.3 62.6L171.3 62.4L171.3 62.3L171.3 61.2L172.9 60.4L173.9 60.3L174.8 60L175.1 59.5L176.3 59.1L176.4 58.4L176.9 58.3L177.4 57.9L178.7 57.7L178.9 57.3L178.6 57.1L178.3 56.1L178.2 55.5L177.8 54.8L178.8 54.3L179.9 54.1L180.5 53.7L181.5 53.4L183.2 53.2L184.8 53.1L185.3 53.3L186.3 52.9L187.3 52.9L187.7 53.1L188.4 53.1L188.2 53.6L188.4 54.5L188.1 55.3L187.5 55.9L187.6 56.7L188.4 57.3L188.4 57.5L189.1 57.9L189.5 59.7L189.8 60.6L189.9 61L189.7 61.9L189.8 62.3L189.6 62.9L189.7 63.5L189.3 63.9L189.9 64.6L189.9 65.1L190.3 65.6L190.8 65.4L191.6 65.9L192 66.5L188.6 68.4L185.7 70.4L184.3 70.8L183.2 70.9L183.1 70.3L182.7 70.1L182.1 69.9L181.8 69.4L178.5 67.2L175.1 65L171.3 62.6Z' },
+  { code: 'AO', name: 'Angola', d: 'M193 94.8L192.6 95L192.5 95.2L192.4 95.7L192.2 95.8L191.9 95L192.3 94.6L192.6 94.4L193 94.8ZM192.3 96.1L192.7 96L193 96L193.4 95.9L196.3 95.9L196.6 96.6L196.9 97.2L197.1 97.5L197.5 98.1L198.1 98L198.5 97.8L199 98L199.2 97.7L199.4 97.2L200 97.1L200.1 96.9L200.6 96.9L200.5 97.3L201.7 97.3L201.7 97.9L201.9 98.3L201.8 98.9L201.9 99.5L202.2 99.9L202.2 101.1L202.4 101L202.8 101L203.5 100.9L203.9 100.9L204 101.2L203.9 101.7L204.1 102.2L203.9 102.6L204 102.9L201.9 102.9L201.9 106.1L202.6 106.9L203.2 107.5L201.4 107.9L199 107.8L198.3 107.3L194.2 107.4L194.1 107.4L193.5 107L192.8 106.9L192.2 107.1L191.7 107.3L191.6 106.7L191.8 105.8L192.1 104.9L192.2 104.4L192.5 103.5L192.7 103.1L193.3 102.5L193.6 102L193.7 101.3L193.7 100.7L193.4 100.4L193.1 99.8L192.9 99.2L192.9 99L193.2 98.6L192.9 97.6L192.7 96.9L192.2 96.3L192.3 96.1Z' },
+  { code: 'AQ', name: 'Antarctica', d: 'M131.3 168L131.8 168L133.3 167.8L134.8 168L136.1 168.5L136.5 169.1L136.6 169.5L136.7 170L135.1 170.3L133.5 170.6L131.6 170.8L129.5 171L127.1 171L125.8 170.6L126 170.2L128.1 169.9L129 169.6L129.6 169.2L130.1 168.8L130.7 168.5L131.3 168ZM113.7 170.3L116 170.3L118.1 170.4L118.9 170L119.4 169.6L120.4 170L120.1 170.5L119.8 171L117.7 170.9L115.5 170.9L114.3 170.6L114.3 170.5L113.7 170.3ZM106.1 161.3L106.8 161.2L107.9 161.2L108.2 160.7L108.3 160.3L108.3 159.5L108.8 159L109.7 158.9L110.3 159.3L110.5 159.6L110.9 160.1L111.3 160.5L111.5 161L111.7 161.4L111.5 161.8L111.2 162.2L110 162.3L108.9 162.5L107.6 162.5L108.1 162.1L106.9 162.2L105.8 162.4L105 162.1L105 161.7L106.1 161.3ZM77.7 161.9L78.3 161.7L79.6 161.9L81 161.9L82.1 162.1L83.2 162L83.8 162.5L83 162.4L81.8 162.5L80.6 162.4L79.2 162.5L78.2 162.3L77.7 161.9ZM57.4 163.7L57.6 163.3L58.8 163.5L60.1 163.7L61.3 163.5L60.7 163.8L59.8 164.1L58.4 164L57.4 163.7ZM52.7 163.5L53.4 163.2L54.4 163.5L56 163.9L55.4 163.8L54.1 163.7L52.7 163.5ZM16.3 168.6L16.9 168.2L18.8 168.4L19.8 168.7L20.5 169L20.8 169.5L18.9 169.6L17.6 169.3L17 168.9L16.9 168.9L16.3 168.6ZM0 174.7L0.1 174.7L0.9 174.1L2.7 174.5L2.9 174.4L3.9 174.1L4.1 174.1L4.2 174.1L5.6 174.5L6.9 174.1L7.1 174.1L10 173.9L11 174.1L11.5 174.2L13 174.6L15.8 174.8L18.1 175.1L21.9 175.4L24.8 175.1L29.1 175.3L31.5 175.6L34.1 175.3L36.9 175L37.1 174.6L33.2 174.5L29.9 174.3L29.1 173.9L26.4 173.7L26.6 173.2L27 172.8L27.3 172.5L27.1 172L25.5 171.8L24.7 171.4L23.2 171.1L25.6 171.2L27.9 171L29.4 171.3L31.1 171L32.8 170.7L33.6 170.3L33.2 169.9L31.9 169.7L30.5 169.4L28.4 169.3L26.6 169.2L24.7 169.1L24 168.7L22.7 168.4L21.9 168L21.6 166.9L22.1 167L23 167.3L24.7 167.2L26.3 167.1L27.1 167.5L28.7 167.4L30 167.2L31.3 166.9L32.4 166.6L33.9 166.5L33.9 166.1L33.5 165.7L33.8 165.4L35.1 165.2L35.7 165.5L37.2 165.3L38.4 165.1L39.8 165.1L41.1 165L42.5 164.7L43.6 164.5L44.8 164.3L45.6 164.4L46.3 164.4L47.7 164.3L49.1 164.5L50.4 164.5L51.8 164.3L53.1 164.4L54.6 164.5L56 164.5L57.4 164.5L58.9 164.5L60.3 164.5L61.3 164.2L62.5 164L63.8 164.2L65 164.1L66.1 163.7L66.7 164L67.1 164.4L67.7 164.7L68.7 164.4L69.9 164.8L71.3 164.9L72.4 165.2L73.9 165.1L75.1 164.9L76.6 165L78 165.1L79.4 165.3L79.9 164.9L79.2 164.5L78.7 164.2L77.5 164.1L76.9 163.7L76.7 163.4L76.3 162.6L77.1 162.8L78.4 162.8L79.7 162.8L80.9 162.9L81.9 163.2L82.3 163.6L83.7 163.6L85 163.5L86.3 163.3L87.6 163.2L88.6 163.4L89.9 163.3L90.8 162.6L91.6 163L92.7 163.2L94 163.1L94.8 163.5L96.1 163.5L97.3 163.6L98.5 163.9L99.3 163.5L99.7 163.1L100.7 163.5L102.1 163.4L103.1 163.6L103.8 164L105.1 163.9L106.1 163.7L107.2 163.4L108.4 163.3L109.8 163.1L111.1 163L112 162.8L112.6 162.5L112.9 162L112.7 161.6L112.4 161.2L112.1 160.9L111.8 160.5L111.5 160.1L111.5 159.7L111.6 159.3L112 159L112.4 158.5L112.6 158.2L112.4 157.7L112.3 157.3L112.7 156.9L113.3 156.6L113.9 156.2L114.6 155.9L115.4 155.6L115.8 155.2L116.4 154.9L117 154.6L118 154.6L118.6 154.3L119.3 154.1L120.1 154L120.8 153.7L121.4 153.4L122.2 153.3L122.8 153.5L122.4 153.9L121.4 154.2L121 154.4L120.2 154.2L119.4 154.3L118.7 154.5L118 154.8L117.5 155.1L117.4 155.5L117.4 155.9L117.9 156.2L117.2 156.4L116.3 156.5L115.7 156.8L115.1 157.1L114.5 157.6L114.3 158L114.7 158.4L115.2 158.7L116 158.9L116.8 159.2L117.2 159.6L117.4 160L117.7 160.4L118.2 160.7L118.5 161.1L118.6 162L118.9 162.4L119 162.8L119.3 163.2L119.2 163.7L118.6 164.1L118 164.4L116.7 164.6L116.3 164.9L115.6 165.3L114.1 165.6L112.8 165.8L111.6 166L110.2 166.2L109.4 166.6L107.8 166.7L106 166.6L104.4 166.7L102.8 166.7L103.1 167.1L104.6 167.3L105.7 167.6L106.3 167.9L105.2 168.2L103.5 168.1L102.1 168.4L102 168.8L102 169.2L103.2 169.5L103.4 169.9L104.6 170.3L106.8 170.4L108.6 170.7L110 171L111.8 171.3L114.3 171.5L116.7 171.7L118.4 172L120.3 172.4L121.3 172.8L121.8 173.2L123 172.9L124.6 172.6L126.4 172.3L128.5 172L130.2 171.7L132.7 171.7L135.2 171.8L137.2 172.1L137.8 171.7L139.2 171.4L141.8 171.3L143.7 171.1L145.6 170.9L147.7 170.8L149.9 170.6L151.4 170.3L150.7 170L150.3 169.6L150.3 169.3L148.4 169.3L146.3 169.5L144.4 169.5L144.1 169.1L144.2 168.3L144.7 168.1L146.1 167.9L147.8 167.7L149 167.4L150.2 167.1L151.1 166.7L152.5 166.5L153.8 166.4L154.5 166.3L156.1 166.2L157.5 166.1L158.8 165.9L160 165.7L161.1 165.4L162.5 165.1L163.4 164.8L164.3 164.5L164.6 164.1L163.5 163.9L163.9 163.5L164.6 163.1L165.6 163L166.7 162.7L167.7 162.4L168.5 162L169 161.5L169.7 161.3L170.9 161.3L171.4 161.7L172.6 161.7L172.6 161.3L173.1 160.9L174.2 161L174.5 161.4L175.7 161.5L177 161.3L178.2 161.2L179.3 161.2L179.8 161.6L180.9 161.3L181.9 161.1L183 161L184.1 160.9L185.2 160.6L186.3 160.5L187.1 160.2L187.7 159.9L188.5 160.1L189.5 160L190.3 160.5L190.8 160.8L192 160.6L192.4 160.2L193.4 160L194.7 160L195.1 160.4L195.9 160L197 159.9L198.2 159.9L199.3 159.9L200.4 160L201.5 160.1L201.9 160.4L202.6 160.7L203.7 160.5L204.8 160.5L206 160.5L207.1 160.5L208.1 160.3L209.2 160.2L210 159.9L211 159.8L212 159.7L212.8 159.4L213.3 158.8L213.9 158.5L214.9 158.7L215.3 159L216.2 159.2L217.2 159.2L217.9 159.5L218.6 159.8L219.7 159.5L220 159.1L220.9 158.9L222 158.6L222.9 158.5L224.1 158.3L224.9 158.1L225.7 157.8L226.5 157.6L227.4 157.7L228.3 157.4L229 157.1L229.9 157.1L230.8 156.9L230.9 156.5L231.8 156.2L232.6 156.1L233.6 155.9L234.5 155.8L235.4 155.9L236.4 156L237.2 156.2L237.3 156.7L238.1 157L238.7 157.3L239.9 157.4L240.6 157.7L241.4 158L242.4 158L243.2 157.8L244.1 157.4L245 157.6L246 157.7L246.9 157.9L247.9 157.9L248.9 157.9L249.7 159L249.7 159.2L249.6 159.7L248.6 159.9L247.8 160.3L247.9 160.7L249.1 160.7L248.9 161.1L248.4 161.4L247.9 161.9L248.7 162.2L249.9 162.3L251 162.1L251.6 161.7L251.9 161.3L252.5 161L253.1 160.7L253.3 160.4L253.9 159.9L254.5 159.8L255.6 159.7L256.6 159.6L257.6 159.5L258.1 159.1L258.4 158.7L259.1 158.3L260.1 158.1L260.9 157.9L261.5 157.5L262.1 157.4L262.8 157.2L263.8 157.3L264.7 157.2L265.7 157.1L266.8 157.1L267.5 156.9L268 156.2L268.4 156.5L268.8 157L269.7 157.1L270.6 157.2L271.6 157.1L272.6 157.2L273.5 157.2L274.2 157.1L275 157.2L275.8 157.4L276.7 157.2L277.8 157.2L278.7 157.1L279.7 157.2L280.4 156.9L280.9 156.6L281.6 156.3L282.8 155.6L283.5 155.7L284.2 156L284.9 156.3L286.2 156.9L287.2 157L288.1 157L289.2 156.8L290.2 156.7L291.1 156.4L291.7 156.1L292.9 156.1L293.6 155.9L294.4 156.1L294.9 156.4L295.6 156.7L296.7 156.7L297.4 156.9L298.6 157.2L299.8 157.3L300.9 157.2L301.7 156.9L302.3 156.6L303.2 156.5L304.1 156.6L305.2 156.7L306.1 156.6L307 156.6L307.9 156.7L308.8 156.8L309.7 156.6L310.8 156.4L311.8 156.4L312.9 156.4L313.9 156.3L314.8 156.2L315 155.7L315.1 155.3L315.7 155.6L315.9 156L316.2 156.4L316.6 156.8L317.5 157L318.6 156.9L319.9 156.9L320.8 156.8L322.1 156.8L323.1 156.8L324.4 156.8L325.5 156.9L326.2 157.2L326 157.6L326.6 157.9L327.7 158.1L328.8 158.4L330.1 158.6L331.5 158.7L332.5 158.9L333.6 158.9L334.3 158.6L335.2 158.8L335.9 159.1L336.8 159.4L338 159.5L339.2 159.6L339.7 160L340.8 160.2L341.6 160.6L342.7 160.7L343.8 160.7L344.9 160.8L346.1 160.8L347.3 160.8L348.4 161L349.5 161.2L350.5 161.4L351.2 161.7L351.1 162.1L350.6 162.4L350.1 162.9L349.8 163.2L349.3 163.7L348 163.8L347.4 164.2L346.1 164.4L345.6 164.8L345 165.1L344.2 165.5L343.8 165.9L343.6 166.2L343.5 166.7L343.5 167.1L344.1 167.5L344.3 167.8L344.7 168.2L346.6 168.3L347 168.8L345.2 168.9L343.7 169.1L341.8 169.2L340.9 169.7L340.7 170.2L340.3 170.6L339.8 170.9L341.1 171.3L341.6 171.7L342.5 172.1L343.7 172.4L345.1 172.7L346.6 173L348.9 173.3L349.4 173.8L352.3 174L352.5 174.1L353.2 174.4L356 174.2L358.3 174.5L360 174.7L0 174.7Z' },
+  { code: 'AR', name: 'Argentina', d: 'M111.4 142.6L111.7 143.1L112.2 143.8L113.5 144.5L114.9 144.7L114.5 145.2L113.5 145.2L113 144.9L112.4 144.9L111.4 144.9L111.4 142.6ZM122.4 120.2L122.1 121L121.9 122L121.9 123L121.6 123.3L121.6 123.9L121.5 124.4L122.8 125.3L122.6 126L123.3 126.4L123.2 126.9L122.3 128.2L120.8 128.7L118.8 128.9L117.7 128.8L117.9 129.4L117.7 130.2L117.9 130.7L117.3 131L116.2 131.2L115.3 130.8L114.9 131.1L115 132.1L115.7 132.4L116.2 132L116.5 132.6L115.6 132.9L114.8 133.5L114.7 134.5L114.4 135L113.5 135L112.7 135.6L112.4 136.3L113.4 137L114.4 137.2L114 138.1L112.8 138.7L112.2 139.9L111.3 140.3L110.9 140.7L111.2 141.8L111.8 142.4L111.4 142.3L110.5 142.1L108.1 142L107.7 141.4L107.7 140.7L107 140.7L106.7 140.4L106.6 139.3L107.4 138.9L107.7 138.2L107.6 137.7L108.1 136.9L108.4 135.6L108.3 135L108.8 134.8L108.7 134.4L108.2 134.2L108.5 133.8L108.1 133.4L107.8 132.3L108.3 132.1L108.1 130.8L108.3 129.8L108.6 128.9L109.2 128.6L108.9 127.6L108.9 126.7L109.6 126L109.6 125.2L110.2 124.2L110.2 123.3L109.9 123.1L109.5 121.4L110.1 120.3L110 119.4L110.3 118.5L111 117.5L111.7 116.9L111.4 116.5L111.6 116.2L111.6 114.5L112.7 114L113 113L112.9 112.7L113.7 111.8L115 112.1L115.6 112.8L116 112L117.2 112L117.3 112.2L119.2 113.9L120 114L121.2 114.8L122.2 115.2L122.4 115.6L121.4 117.1L122.4 117.4L123.5 117.5L124.3 117.4L125.2 116.6L125.4 115.7L125.9 115.5L126.4 116.1L126.4 116.9L125.5 117.5L124.8 117.9L123.7 118.9L122.4 120.2Z' },
+  { code: 'AM', name: 'Armenia', d: 'M226.5 51.2L226.1 51.3L225.7 50.7L225.7 50.5L225.3 50.5L225 50.3L224.8 50.3L224.4 50L223.7 49.7L223.8 49.3L223.6 48.9L225 48.8L225.2 49L225.6 49.2L225.4 49.4L225.9 49.8L225.6 50.1L226 50.4L226.5 50.5L226.5 51.2Z' },
+  { code: 'AU', name: 'Australia', d: 'M327.7 130.8L328.3 130.9L328.4 132.1L328 132.4L327.9 133.2L327.6 132.9L326.9 133.6L326.7 133.6L326 133.5L325.4 132.7L325.3 132L324.7 131.2L324.7 130.7L325.4 130.8L326.4 131.1L326.9 131L327.7 130.8ZM306.1 122.2L305.1 122.7L304.2 123L304 123.5L303.7 123.9L302.8 123.9L302.2 124L301.3 123.8L300.6 123.9L299.9 124L299.3 124.5L299 124.5L298.5 124.7L298 125.1L297.3 125L296.6 125L295.6 124.4L295 124.2L295 123.6L295.5 123.5L295.7 123.3L295.7 122.9L295.8 122.2L295.7 121.6L295.2 120.6L295 120L295 119.5L294.6 118.8L294.6 118.5L294.2 118.1L294 117.3L293.5 116.5L293.3 116.1L293.8 116.5L293.4 115.6L293.9 115.9L294.2 116.3L294.2 115.8L293.7 115L293.6 114.7L293.4 114.4L293.5 113.8L293.7 113.6L293.8 113.1L293.7 112.5L294.1 111.8L294.2 112.5L294.6 111.8L295.5 111.5L295.9 111.1L296.7 110.7L297.2 110.6L297.4 110.7L298.2 110.4L298.8 110.3L299 110L299.3 110L299.8 110L300.9 109.7L301.4 109.2L301.7 108.7L302.2 108.2L302.3 107.8L302.3 107.3L303 106.4L303.4 107.3L303.9 107.1L303.5 106.6L303.8 106.1L304.3 106.3L304.4 105.6L304.9 105.1L305.2 104.7L305.7 104.5L305.7 104.2L306.1 104.3L306.1 104.1L306.6 104L307.1 103.8L307.8 104.3L308.4 104.9L309 104.9L309.6 105L309.4 104.4L309.9 103.6L310.3 103.4L310.2 103.1L310.6 102.5L311.2 102.2L311.7 102.3L312.6 102.1L312.6 101.6L311.8 101.3L312.4 101.1L313 101.4L313.6 101.8L314.4 102L314.7 101.9L315.3 102.2L315.9 102L316.3 102L316.5 101.9L317 102.4L316.7 102.9L316.3 103.3L316 103.3L316.1 103.7L315.8 104.2L315.4 104.7L315.5 105L316.3 105.6L317.1 105.9L317.6 106.2L318.3 106.8L318.6 106.8L319.1 107.1L319.3 107.4L320.2 107.7L320.9 107.4L321.1 106.8L321.3 106.4L321.4 105.8L321.7 105L321.6 104.6L321.6 104.3L321.5 103.7L321.7 102.9L321.8 102.7L321.7 102.4L321.9 101.9L322.1 101.3L322.1 101L322.5 100.7L322.8 101.2L322.9 101.8L323.1 101.9L323.2 102.3L323.5 102.8L323.6 103.4L323.6 103.8L323.9 104.5L324.6 104.2L324.9 104.6L325.4 105L325.3 105.4L325.5 106.3L325.6 106.8L325.9 106.9L326.2 107.8L326.1 108.3L326.4 109L327.5 109.5L328.2 110L328.8 110.4L328.7 110.6L329.3 111.3L329.7 112.3L330.1 112.1L330.5 112.6L330.7 112.4L330.9 113.5L331.6 114.1L332.1 114.5L332.9 115.3L333.1 116.1L333.2 116.6L333.1 117.3L333.6 118.1L333.5 119L333.3 119.5L333.1 120.4L333.1 120.9L332.9 121.6L332.4 122.6L331.7 123L331.3 123.8L331 124.3L330.7 125.2L330.3 125.7L330.1 126.4L329.9 127.1L330 127.4L329.4 127.8L328.3 127.8L327.4 128.2L326.9 128.6L326.3 129L325.5 128.6L324.9 128.4L325 127.9L324.5 128.1L323.6 128.8L322.7 128.5L322.2 128.4L321.6 128.3L320.6 128L320 127.4L319.8 126.6L319.6 126.1L319.1 125.7L318.1 125.6L318.4 125.1L318.2 124.4L317.7 125.1L316.8 125.3L317.4 124.7L317.5 124.1L317.9 123.6L317.8 122.9L317 123.8L316.4 124.1L316 124.9L315.2 124.5L315.2 123.9L314.6 123.2L314.1 122.8L314.3 122.6L313 122L312.3 122L311.3 121.5L309.5 121.6L308.2 121.9L307.1 122.3L306.1 122.2Z' },
+  { code: 'AT', name: 'Austria', d: 'M197 41.9L196.9 42.3L196.3 42.3L196.5 42.5L196.2 43.1L196 43.3L195.1 43.3L194.6 43.6L193.8 43.5L192.4 43.2L192.2 42.9L191.2 43.1L191.1 43.2L190.4 43.1L189.9 43.1L189.5 42.9L189.6 42.7L189.6 42.5L189.9 42.4L190.4 42.7L190.5 42.4L191.4 42.5L192.1 42.3L192.6 42.3L192.9 42.5L193 42.4L192.9 41.7L193.2 41.6L193.6 41.1L194.3 41.4L194.9 41L195.3 41L196 41.3L196.5 41.2L197 41.4L196.9 41.5L197 41.9Z' },
+  { code: 'AZ', name: 'Azerbaijan', d: 'M226.4 48.1L226.7 48.2L227.4 48.8L227.8 48.8L228 48.6L228.6 48.2L229.1 48.7L229.6 49.4L230.1 49.5L230.4 49.7L229.6 49.8L229.4 50.6L229.2 51L228.9 51.2L228.9 51.7L228.6 51.7L228 51.2L228.4 50.7L228.1 50.4L227.7 50.5L226.5 51.2L226.5 50.5L226 50.4L225.6 50.1L225.9 49.8L225.4 49.4L225.6 49.2L225.2 49L225 48.8L225.2 48.6L226 48.9L226.5 48.9L226.6 48.8L226.1 48.3L226.4 48.1ZM226.1 51.3L225.5 51.1L225 50.7L224.8 50.3L225 50.3L225.3 50.5L225.7 50.5L225.7 50.7L226.1 51.3Z' },
+  { code: 'BS', name: 'Bahamas', d: 'M101 63.2L101.5 63.1L102.2 63.2L102.2 63.4L101.1 63.6L101 63.2ZM102.2 63L103 63.4L102.8 64.1L102.6 64L102.7 63.5L102.2 63.1L102.2 63ZM101.8 64.8L102.1 64.8L102.5 65.7L102.5 66.2L102.2 66.3L102 65.7L101.6 65.4L101.8 64.8Z' },
+  { code: 'BD', name: 'Bangladesh', d: 'M272.7 68L272.7 68.7L272.3 68.5L272.4 69.3L272.1 68.8L272 68.3L271.8 67.8L271.4 67.2L270.5 67.2L270.6 67.6L270.3 68.2L269.8 68L269.7 68.1L269.4 68L269 67.9L268.9 67.1L268.5 66.4L268.7 65.8L268.1 65.5L268.3 65.1L268.9 64.8L268.2 64.2L268.6 63.6L269.4 64L269.8 64L269.9 64.7L270.9 64.9L271.8 64.9L272.4 65L271.9 65.9L271.5 65.9L271.2 66.5L271.7 67L271.9 66.4L272.1 66.4L272.7 68Z' },
+  { code: 'BY', name: 'Belarus', d: 'M208.2 33.8L209.2 34.1L209.4 34.3L209.9 34.2L210.9 34.4L211 34.9L210.8 35.2L211.4 35.8L211.8 36L211.7 36.2L212.4 36.4L212.7 36.6L212.3 36.9L211.5 36.8L211.3 36.9L211.5 37.3L211.8 37.9L210.9 38L210.6 38.2L210.6 38.7L210.2 38.6L209.3 38.6L209 38.4L208.6 38.6L208.2 38.4L207.5 38.4L206.3 38.2L205.3 38.1L204.6 38.1L204 38.4L203.5 38.4L203.5 38L203.2 37.5L203.8 37.3L203.8 36.9L203.5 36.5L203.5 36.1L204.4 36.1L205.5 35.7L205.8 35.2L206.6 34.8L206.5 34.4L207.1 34.2L208.2 33.8Z' },
+  { code: 'BE', name: 'Belgium', d: 'M186.2 39.2L186 39.9L185.8 39.9L185.7 40.5L184.8 40L184.3 40.1L183.6 39.6L183.1 39.2L182.7 39.2L182.5 38.9L183.3 38.7L184 38.7L185 38.5L185.6 39L186.2 39.2Z' },
+  { code: 'BZ', name: 'Belize', d: 'M90.9 72.2L90.9 72L91 72L91.2 72.1L91.5 71.5L91.7 71.5L91.7 71.6L91.9 71.7L91.9 71.9L91.7 72.4L91.8 72.5L91.7 72.9L91.8 73L91.6 73.5L91.4 73.7L91.3 73.8L91.1 74.1L90.8 74.1L90.9 73L90.9 72.2Z' },
+  { code: 'BJ', name: 'Benin', d: 'M182.7 83.7L181.9 83.9L181.6 83.2L181.7 80.9L181.5 80.7L181.4 80.2L181.1 79.8L180.8 79.5L180.9 79L181.2 78.9L181.4 78.5L181.9 78.4L182.2 78.1L182.5 77.8L182.8 77.8L183.6 78.3L183.6 78.7L183.8 79.3L183.6 79.7L183.7 79.9L183.2 80.6L182.9 80.9L182.7 81.5L182.7 82.1L182.7 83.7Z' },
+  { code: 'BT', name: 'Bhutan', d: 'M271.7 62.2L272.1 62.5L272 63.2L271.2 63.2L270.4 63.1L269.7 63.3L268.8 62.9L268.8 62.7L269.5 62L270 61.7L270.7 61.9L271.3 62L271.7 62.2Z' },
+  { code: 'BO', name: 'Bolivia', d: 'M110.5 101L111.2 101L111.7 101L112 100.7L112.8 100.3L113.4 99.9L114.7 99.8L114.6 100.5L114.7 100.9L114.6 101.6L115.7 102.5L116.8 102.6L117.2 103L117.9 103.2L118.3 103.5L118.9 103.5L119.5 103.8L119.5 104.4L119.7 104.6L119.7 105.1L119.5 105.1L119.8 106.3L121.8 106.3L121.6 106.9L121.7 107.3L122.3 107.6L122.5 108.2L122.3 109L122 109.4L122.1 110L121.8 110.2L121.8 109.9L120.9 109.4L120 109.3L118.2 109.6L117.7 110.5L117.7 111.1L117.3 112.2L117.2 112L116 112L115.6 112.8L115 112.1L113.7 111.8L112.9 112.7L112.2 112.9L111.8 111.5L111.2 110.4L111.6 109.4L111 109L110.9 108.3L110.4 107.6L111 106.5L110.6 105.7L110.8 105.3L110.7 105L111.1 104.5L111.1 103.6L111.1 102.9L111.3 102.6L110.5 101Z' },
+  { code: 'BA', name: 'Bosnia and Herz.', d: 'M198.6 47.4L197.7 47L197.3 46.6L196.9 46.3L196.5 46L196.2 45.6L195.7 45.2L196 44.8L196.3 45L196.5 44.8L197 44.8L197.9 44.9L198.6 44.9L199 45.1L199.4 45.1L199.1 45.6L199.6 46L199.5 46.4L199.2 46.5L199 46.6L198.7 46.8L198.6 47.4Z' },
+  { code: 'BW', name: 'Botswana', d: 'M209.4 112.1L208 112.8L207.1 113.6L206.8 114.2L206.5 114.6L205.9 114.7L205.8 115.2L205.7 115.5L205 115.7L204.2 115.7L203.7 115.4L203.3 115.3L202.8 115.5L202.6 116L202.1 116.3L201.6 116.7L200.9 116.8L200.7 116.5L200.8 115.9L200.2 114.9L199.9 114.8L199.9 111.8L200.9 111.8L200.9 108.3L201.7 108.2L203.2 107.9L203.6 108.3L204.2 107.9L204.5 107.9L205.1 107.7L205.3 107.7L205.6 108.5L205.9 108.7L206.2 109.3L207.3 110.4L207.7 110.5L207.7 110.9L208 111.5L208.8 111.6L209.4 112.1Z' },
+  { code: 'BR', name: 'Brazil', d: 'M126.6 123.8L126.4 123.2L126.8 122.7L126.2 122L125.4 121.5L124.4 120.9L124 120.9L123 120.1L122.4 120.2L123.7 118.9L124.8 117.9L125.5 117.5L126.4 116.9L126.4 116.1L125.9 115.5L125.4 115.7L125.6 115.2L125.7 114.6L125.7 114L125.3 113.8L125 114L124.6 114L124.5 113.6L124.4 112.7L124.2 112.4L123.5 112.1L123.1 112.3L122.1 112.1L122.1 110.7L121.8 110.2L122.1 110L122 109.4L122.3 109L122.5 108.2L122.3 107.6L121.7 107.3L121.6 106.9L121.8 106.3L119.8 106.3L119.5 105.1L119.7 105.1L119.7 104.6L119.5 104.4L119.5 103.8L118.9 103.5L118.3 103.5L117.9 103.2L117.2 103L116.8 102.6L115.7 102.5L114.6 101.6L114.7 100.9L114.6 100.5L114.7 99.8L113.4 99.9L112.8 100.3L112 100.7L111.7 101L111.2 101L110.5 101L109.9 101.1L109.5 101L109.5 99.5L108.7 100.1L107.8 100.1L107.4 99.5L106.8 99.5L107 99L106.4 98.4L106 97.5L106.3 97.3L106.3 96.9L106.9 96.6L106.8 96.1L107 95.7L107.1 95.3L108.3 94.6L109.1 94.4L109.2 94.3L110.1 94.3L110.6 91.6L110.6 91.1L110.4 90.5L110 90.2L110 89.5L110.5 89.3L110.7 89.4L110.8 89L110.2 88.9L110.2 88.3L112.1 88.3L112.5 88L112.7 88.3L112.9 88.9L113.1 88.7L113.7 89.3L114.5 89.2L114.6 88.9L115.4 88.7L115.8 88.5L115.9 88.1L116.6 87.8L116.6 87.6L115.7 87.5L115.6 86.9L115.6 86.2L115.2 85.9L115.4 85.9L116.1 86L116.9 86.2L117.2 86L117.9 85.8L119 85.5L119.4 85.1L119.3 84.8L119.8 84.8L120 85L119.9 85.4L120.2 85.6L120.5 86L120.2 86.4L120 87.2L120.3 87.8L120.4 88.2L121 88.7L121.5 88.7L121.6 88.5L121.9 88.5L122.3 88.3L122.7 88.1L123.2 88.1L123.5 88.1L124 88.2L124.1 88L123.9 87.8L124 87.5L124.4 87.6L124.9 87.5L125.5 87.7L125.9 87.9L126.2 87.6L126.4 87.7L126.6 87.9L127.1 87.9L127.4 87.5L127.8 86.8L128.3 85.8L128.7 85.8L128.9 86.4L129.5 88.1L130 88.3L130.1 89L129.3 89.8L129.6 90.1L131.4 90.2L131.4 91.2L132.2 90.6L133.4 90.9L135.1 91.6L135.6 92.1L135.4 92.7L136.6 92.4L138.5 92.9L140 92.9L141.5 93.7L142.8 94.8L143.5 95.1L144.4 95.1L144.8 95.5L145.1 96.7L145.3 97.3L144.9 99L144.4 99.6L143 101L142.3 102.2L141.6 103L141.3 103.1L141 103.8L141.1 105.7L140.8 107.2L140.7 107.9L140.4 108.3L140.2 109.6L139.2 110.9L139.1 111.9L138.2 112.4L138 113L136.9 113L135.4 113.4L134.6 113.8L133.5 114.1L132.4 114.9L131.5 115.9L131.4 116.6L131.5 117.2L131.3 118.2L131.1 118.7L130.4 119.2L129.3 121L128.4 121.8L127.7 122.2L127.3 123.2L126.6 123.8Z' },
+  { code: 'BN', name: 'Brunei', d: 'M295.5 84.6L295.4 85L295.3 85.7L294.9 85.7L294.7 86L294.2 85.5L294.6 85.1L295.5 84.6Z' },
+  { code: 'BG', name: 'Bulgaria', d: 'M202.7 45.8L202.9 46.2L203.3 46.1L204.1 46.3L205.6 46.3L206.1 46.1L207.2 45.8L208 46.2L208.6 46.3L208 46.7L207.7 47.4L208 48L207.1 47.9L206.1 48.2L206.1 48.7L205.2 48.8L204.5 48.4L203.7 48.7L203 48.7L202.9 48L202.4 47.7L202.5 47.5L202.4 47.4L202.6 47.1L203 46.8L202.5 46.4L202.4 46L202.7 45.8Z' },
+  { code: 'BF', name: 'Burkina Faso', d: 'M174.6 79.6L174.5 79L174.8 78.6L174.8 78.3L175.6 77.5L175.7 76.8L176 76.5L176.5 76.7L176.9 76.5L177 76.2L177.8 75.8L178 75.4L178.9 75L179.5 74.9L179.7 75.1L180.4 75.1L180.3 75.6L180.4 76L181 76.7L181 77.1L182.2 77.4L182.2 78.1L181.9 78.4L181.4 78.5L181.2 78.9L180.9 79L180 79L179.6 78.9L179.2 79.1L178.8 79L177.1 79L177 79.6L177.2 80.4L176.5 80.1L176 80.1L175.7 80.4L175.2 80.2L175 79.8L174.6 79.6Z' },
+  { code: 'BI', name: 'Burundi', d: 'M210.5 92.4L210.5 92.8L210.7 93L210.8 93.4L210.5 93.6L210.1 94.1L209.8 94.5L209.3 94.5L209.3 93.3L209 92.8L209.6 92.9L209.9 92.3L210.5 92.4Z' },
+  { code: 'KH', name: 'Cambodia', d: 'M282.6 77.8L282.3 76.6L283 75.8L284.3 75.6L285.2 75.7L286 76.1L286.5 75.4L287.4 75.8L287.6 76.5L287.5 77.7L285.8 78.4L286.2 79L285.2 79.1L284.3 79.5L283.5 79.4L283.1 78.8L282.6 77.8Z' },
+  { code: 'CM', name: 'Cameroon', d: 'M194.5 77.1L194.9 77.8L195 78.4L194.9 79.1L195.5 80L194.9 80L194.6 80.1L194.2 80L194 80.5L194.5 81L195 81.2L195.1 81.6L195.4 82.3L195.3 82.6L194.8 83.6L194.5 83.8L194.5 84.5L194.6 85L194.5 85.3L195 85.8L195 86.1L195.4 86.7L195.9 87L195.9 87.4L196 87.7L195.9 88.3L195.1 88L194.3 87.8L193.1 87.7L193 87.7L192.4 87.8L191.8 87.7L191.3 87.7L189.6 87.7L189.8 86.9L189.4 86.3L188.9 86.1L188.7 85.6L188.5 85.5L188.5 85.2L188.8 84.5L189.2 83.6L189.5 83.5L190.1 83L190.5 82.9L191.1 83.4L191.7 83L191.8 82.6L192.1 82.2L192.2 81.7L192.8 81.3L193 80.6L193.2 80.4L193.3 79.8L193.6 79.2L194.4 78.4L194.5 78.1L194.6 77.9L194.2 77.5L194.2 77.2L194.5 77.1Z' },
+  { code: 'CA', name: 'Canada', d: 'M57.2 41L57 41L55.1 40L54.4 39.6L52.6 39.2L52 38.3L52.2 37.7L50.9 37.2L50.7 36.4L49.5 35.7L49.5 35.2L50 34.7L50 34.1L48.3 33.4L47.3 32.3L46.6 31.6L45.7 31.1L45.1 30.7L44.5 30.2L43.5 30.5L42.5 31.1L41.7 30.4L41 30L40 29.7L39 29.7L39 24L39 20.3L40.9 20.5L42.5 21L43.5 21.1L44.4 20.7L45.6 20.4L47.1 20.5L48.6 20.1L50.2 19.8L50.9 20.2L51.6 20L51.9 19.5L52.6 19.6L54.2 20.5L55.6 19.8L55.7 20.6L56.9 20.4L57.3 20.1L58.5 20.2L60.1 20.6L62.4 21L63.8 21.2L64.8 21.1L66.1 21.6L64.7 22.1L66.5 22.3L69.2 22.2L70.1 22L71.1 22.6L72.2 22.1L71.2 21.7L71.8 21.3L73 21.3L73.9 21.2L74.7 21.4L75.7 22L76.8 21.9L78.5 22.4L80.1 22.2L81.6 22.2L81.4 21.6L82.3 21.4L83.9 21.8L83.9 22.7L84.5 21.9L85.3 21.9L85.8 20.9L84.7 20.3L83.5 19.9L83.6 18.8L84.8 18.1L86.1 18.2L87.1 18.7L88.5 19.8L87.6 20.3L89.5 20.5L89.5 21.5L90.8 20.7L92 21.4L91.7 22.1L92.7 22.8L93.7 22.1L94.4 21.2L94.5 20.1L95.9 20.2L97.4 20.3L98.7 20.8L98.8 21.3L98 21.9L98.7 22.4L98.6 22.9L96.7 23.6L95.3 23.7L94.2 23.4L93.9 23.9L93 24.8L92.7 25.2L91.5 25.9L90.1 26L89.3 26.4L89.2 27L88.1 27.2L86.8 28L85.8 29.1L85.4 29.9L85.3 31.1L86.8 31.2L87.2 32.2L87.7 32.9L89.1 32.7L91 33.1L92 33.5L92.7 34L93.9 34.3L95 34.7L96.6 34.8L97.7 34.9L97.6 35.7L97.9 36.7L98.6 37.8L100.1 38.8L100.9 38.5L101.4 37.4L100.9 35.9L100.2 35.3L101.8 34.9L102.9 34.2L103.5 33.5L103.4 32.8L102.7 31.9L101.5 31.2L102.7 30.1L102.2 29.2L101.9 27.7L102.6 27.4L104.3 27.7L105.3 27.8L106.2 27.6L107.1 27.9L108.3 28.5L108.6 28.9L110.4 28.9L110.4 29.8L110.7 31L111.6 31.2L112.3 31.8L113.8 31.2L114.8 30.1L115.4 29.7L116.2 30.6L117.5 31.8L118.6 33L118.2 33.7L119.5 34.2L120.4 34.8L122 35.1L122.7 35.4L123.1 36.2L123.8 36.4L124.2 36.7L124.3 37.9L123.6 38.2L122.9 38.6L121.2 38.9L120 39.8L118.3 39.9L116.1 39.7L114.6 39.7L113.6 39.8L112.8 40.5L111.5 40.9L110 42.3L108.9 43.2L109.7 43L111.3 41.7L113.4 40.9L114.9 40.8L115.8 41.3L114.9 41.9L115.2 43L115.5 43.8L116.8 44.3L118.5 44.1L119.5 43L119.5 43.7L120.2 44.1L119 44.7L116.7 45.3L115.8 45.7L114.6 46.5L113.9 46.4L113.8 45.5L115.6 44.7L114 44.7L112.9 44.9L112.2 44.3L112.2 42.9L111.8 42.6L111.1 42.8L110.8 42.6L110 43.3L109.7 44.1L109.3 44.5L108.9 44.7L108.6 44.7L108.5 45L106.7 45L105.1 45L104.7 45.2L103.6 45.9L103.5 46L103.2 46.4L102.3 46.4L101.3 46.4L100.8 46.5L101 46.7L101.1 47L101.1 47.1L99.8 47.6L98.7 47.8L97.6 48.3L97.3 48.3L97 48.2L96.9 48L96.9 47.9L97.1 47.6L97.6 47L97.9 46.4L97.7 45.6L97.4 44.7L96.4 44.2L96.5 44L96.4 43.9L96.1 43.9L95.9 43.7L95.9 43.5L95.7 43.6L95.4 43.6L95.5 43.5L95.2 43.4L95.1 43.1L94.3 42.8L93.5 42.4L92.6 42.1L91.6 41.7L90.7 42L90.4 42L89.2 41.7L88.4 41.9L87.4 41.5L86.4 41.4L85.7 41.3L85.4 41.2L85.2 40.6L84.8 40.6L84.8 41L82.8 41L79.3 41L75.9 41L73 41L69.9 41L67 41L64 41L63 41L60 41L57.2 41ZM96 27.5L96.8 27.1L98.1 27.1L98.1 27.3L96.9 27.8L96.2 27.8L96 27.5ZM100.2 17.2L99.1 16.7L99.2 16.3L99.6 16.2L101.9 16.3L103.7 16.9L103.7 17.2L102.7 17.1L101.6 17.1L100.5 17.3L100.2 17.2ZM99.7 27.9L100.1 27.6L100.5 27.6L100.7 27.8L100.3 28.4L99.9 28.3L99.6 28L99.7 27.9ZM86.4 15L85.8 15.4L84.4 15.3L83.2 15.1L83.7 14.6L85.1 14.4L86 14.7L86.4 15ZM86.2 12.5L85.7 12.5L83.8 12.4L83.6 12.2L85.6 12.2L86.3 12.4L86.2 12.5ZM83.2 11.2L84.4 11.6L84.2 11.9L82.7 12.2L81.9 11.9L81.4 11.5L81.4 11.1L82.7 11.2L83.2 11.2ZM91.9 15.6L90.2 15.5L87.6 15.2L87.2 14.6L87.1 14.1L86.1 13.7L84 13.6L82.9 13.2L83.3 12.8L85.3 12.9L86.4 13.2L88.4 13.2L89.3 13.5L89 13.9L90.2 14.2L90.8 14.4L92.2 14.4L93.6 14.5L95.2 14.3L97.2 14.2L98.9 14.3L99.9 14.7L100.2 15.1L99.5 15.3L98.1 15.6L96.8 15.4L93.9 15.6L91.9 15.6ZM68.7 11.8L70.1 12L69.8 12.3L67.9 12.6L66.5 12.3L67.3 11.9L68.7 11.8ZM69 11.2L70.3 11.4L69.1 11.6L67.5 11.6L67.5 11.4L68.5 11.1L69 11.2ZM124.4 38.7L123.9 39.3L123.2 40.2L123.9 39.9L124.5 40.1L124.2 40.4L125.1 40.7L125.5 40.4L126.5 40.8L126.2 41.5L126.9 41.3L127 41.8L127.4 42.5L126.9 43.3L126.5 43.4L125.8 43.2L126 42.4L125.8 42.2L124.6 43.1L124 43.1L124.7 42.6L123.7 42.4L122.7 42.4L120.7 42.4L120.6 42.1L121.2 41.7L120.8 41.5L121.6 40.9L122.6 39.3L123.3 38.7L124.1 38.4L124.6 38.4L124.4 38.7ZM96.1 24.9L97.2 25.2L98.4 25.5L98.4 26L99.2 25.9L99.9 26.3L99 26.6L97.5 26.3L96.9 25.9L95.9 26.4L94.5 26.9L94.1 26.4L92.8 26.5L93.6 26L93.8 25.2L94.1 24.3L94.8 24.3L95 24.8L95.5 24.6L96.1 24.9ZM101.2 17.6L102.2 17.2L104.4 17.8L105.8 18.2L105.9 18.7L107.8 18.4L108.8 19.1L111.2 19.5L112.1 19.9L113 20.8L111.2 21.3L113.5 21.9L115.1 22.2L116.6 23.1L118.1 23.1L117.8 23.8L116.1 25L114.9 24.6L113.3 23.6L112 23.7L111.9 24.3L112.9 24.9L114.3 25.4L114.7 25.6L115.3 26.6L115 27.3L113.7 27.1L111.2 26.3L112.6 27.1L113.7 27.7L113.8 28.1L111.1 27.7L109 27.1L107.8 26.6L108.1 26.3L106.6 25.8L105.2 25.3L105.2 25.6L102.3 25.8L101.4 25.4L102.1 24.7L104 24.7L106 24.5L105.7 24.2L106.1 23.7L107.3 22.7L107.1 22.3L106.7 21.9L105.2 21.4L103.1 21.1L103.8 20.9L102.7 20.2L101.8 20.2L101 19.8L100.5 20.1L98.7 20.3L95.1 20L92.9 19.7L91.3 19.6L90.5 19.2L91.5 18.8L90.1 18.8L89.8 17.8L90.6 16.9L91.6 16.5L94.2 16.2L93.4 16.8L94.2 17.5L95.1 16.7L97.7 16.2L99.4 17.3L99.2 17.9L101.2 17.6ZM85.5 15.9L87.6 15.9L89.5 16.1L88 17L86.8 17.2L85.7 18L84.6 17.9L84 17.1L84 16.6L84.5 16.1L85.5 15.9ZM57.1 13.9L58.8 13.1L60.9 12.5L62.4 12.5L63.8 12.4L63.7 13.1L62.9 13.5L62 13.5L60.1 13.9L58.5 14.1L57.1 13.9ZM47.3 36L48.3 35.9L47.9 37L48.8 37.8L48.4 37.8L47.8 37.4L47.4 36.9L46.9 36.6L46.8 36.1L46.8 35.8L47.3 36ZM74.5 10.7L76.5 10.8L79.2 11.2L79.9 11.7L80.3 12.1L78.7 12L77.1 11.7L74.8 11.6L75.8 11.3L74.6 11.1L74.5 10.7ZM56.5 41.5L56 41.6L54.3 41.2L54 40.8L53.2 40.5L53 40.2L51.9 40L51.6 39.5L51.6 39.2L52.7 39.4L53.3 39.6L54.2 39.7L54.6 40.1L55.1 40.5L56.1 40.9L56.5 41.5ZM58.5 15.6L59.9 15.8L62.4 15.8L63.4 16.1L64.5 16.5L63.2 16.8L60.8 17.5L59.5 18.2L59.5 18.6L56.9 19.1L56.4 18.7L54.1 18.1L54.5 17.7L55.2 17L56.1 16.3L55.1 15.7L58.5 15.6ZM72.2 14.2L73.1 14L74.1 14L74.3 14.5L73.7 15L70.3 15.1L67.8 15.6L66.3 15.6L66.1 15.3L68.2 14.8L63.7 15L62.3 14.8L63.7 13.8L64.6 13.5L67.4 13.9L69.2 14.5L70.9 14.5L69.5 13.6L70.4 13.2L71.4 13.3L71.8 13.8L72.2 14.2ZM73.5 16.9L74.6 17.3L75.2 18.3L75.5 19L77.2 19.5L79 20L78.9 20.4L77.3 20.5L77.9 20.9L77.6 21.2L75.8 21.1L74 20.8L72.9 20.9L71 21.2L68.5 21.4L66.7 21.5L66.1 21L64.8 20.7L63.9 20.8L62.7 20L63.3 19.9L64.9 19.8L66.3 19.8L67.6 19.6L65.7 19.4L63.5 19.5L62.1 19.5L61.6 19.1L63.9 18.7L62.3 18.7L60.6 18.4L61.4 17.7L62.1 17.3L64.8 16.7L65.8 16.9L65.3 17.3L67.6 17L68.9 17.5L70.1 17L71 17.4L71.8 18.3L72.3 17.9L71.6 16.9L72.5 16.8L73.5 16.9ZM79.6 17.3L78.5 16.6L79.6 16.2L80.8 16.4L82.6 16.2L82.9 16.5L81.9 17L83.5 17.4L83.3 18.3L81.6 18.7L80.7 18.6L80 18.3L77.5 17.5L77.5 17.2L79.6 17.3ZM73.4 16.4L74.7 16.4L75.5 16.6L74.6 17.2L73.1 16.5L73.4 16.4ZM81.5 13.3L82.3 13.7L82.3 14.3L81.8 15L80.2 15.1L79.1 14.9L79.1 14.4L77.5 14.4L77.4 13.7L78.5 13.7L80 13.4L81.4 13.4L81.5 13.3ZM84 9.4L84.7 9.1L85.7 9L85.3 8.8L87.6 8.7L88.9 9.3L90.6 9.5L92.2 9.7L93 10.3L94.2 10.7L92.8 11L91 11.7L89.2 11.8L87.1 11.7L86 11.2L86.1 10.9L86.9 10.6L85 10.6L83.9 10.3L83.3 9.8L84 9.4ZM88.4 8.1L89.9 7.9L91.1 7.9L93 7.7L94.5 7.3L95.7 7.4L96.8 7.7L97.6 7.1L98.9 7L100.7 6.9L103.7 6.8L104.3 6.9L107.2 6.8L109.3 6.8L111.5 6.9L114.2 7L116.3 7.1L118.1 7.4L118.1 7.6L115.7 8.1L113.2 8.3L112.3 8.5L114.5 8.5L112.2 9.1L110.5 9.4L108.8 10.2L106.8 10.4L106.1 10.6L103.1 10.7L104.5 10.8L103.8 11L104.6 11.5L103.7 11.8L102.1 12.1L101.6 12.5L100.2 12.8L100.4 13L102.1 13L102.1 13.2L99.4 13.8L96.8 13.5L93.9 13.7L92.4 13.6L90.5 13.5L90.4 13L92.2 12.8L91.7 12.1L92.4 12L95 12.5L93.7 11.8L92 11.6L92.8 11.2L94.6 11L94.9 10.7L93.5 10.3L93.1 9.7L95.8 9.8L96.6 9.9L98.2 9.5L95.9 9.4L92.4 9.5L90.6 9.1L89.8 8.7L88.6 8.4L88.4 8.1ZM104.8 22.6L104.1 22.9L103 22.9L102.8 22.4L103.2 21.9L104.1 21.7L104.9 22L104.9 22.4L104.8 22.6ZM83.7 20.5L84.4 20.9L83.7 21.2L82.4 20.9L81.6 21L80.2 20.6L81.1 20.3L81.8 19.9L82.8 20.1L83.4 20.3L83.7 20.5ZM115.5 40.1L115.8 40L117.1 40.3L118.2 40.7L118.2 40.9L117.7 40.9L116.4 40.6L115.5 40.1ZM116 43L116.3 43.5L117.1 43.6L118 43.6L117.5 44L117.1 44L115.9 43.6L115.6 43.3L116 43Z' },
+  { code: 'CF', name: 'Central African Rep.', d: 'M207.4 84.8L207 84.9L206.4 84.8L205.7 84.7L205.3 84.8L205.1 85.1L204.8 85.1L204.4 84.9L203.3 85.4L202.8 85.3L202.7 85.4L202.4 86L201.7 85.8L200.9 85.7L200.3 85.3L199.5 85L198.9 85.3L198.5 85.8L198.5 86.5L197.8 86.4L197.1 86.3L196.5 86.8L196 87.7L195.9 87.4L195.9 87L195.4 86.7L195 86.1L195 85.8L194.5 85.3L194.6 85L194.5 84.5L194.5 83.8L194.8 83.6L195.3 82.6L196.1 82.5L196.3 82.2L196.5 82.3L196.7 82.5L198 82.1L198.4 81.7L198.9 81.4L198.8 81L199.1 80.9L200.1 81L201 80.5L201.7 79.4L202.2 79L202.9 78.9L203 79.3L203.6 79.9L203.6 80.3L203.4 80.7L203.5 81L203.8 81.3L204.6 81.8L205.1 82.2L205.1 82.5L205.8 83L206.2 83.5L206.5 84.1L207.2 84.4L207.4 84.8Z' },
+  { code: 'TD', name: 'Chad', d: 'M203.8 70.4L203.9 74.4L203 74.3L202.6 75.1L202.3 75.7L202.5 75.9L202.2 76.2L202.3 76.6L202 77L201.9 77.4L202.3 77.4L202.5 77.7L202.5 78.3L202.9 78.6L202.9 78.9L202.2 79L201.7 79.4L201 80.5L200.1 81L199.1 80.9L198.8 81L198.9 81.4L198.4 81.7L198 82.1L196.7 82.5L196.5 82.3L196.3 82.2L196.1 82.5L195.3 82.6L195.4 82.3L195.1 81.6L195 81.2L194.5 81L194 80.5L194.2 80L194.6 80.1L194.9 80L195.5 80L194.9 79.1L195 78.4L194.9 77.8L194.5 77.1L194.6 76.7L194 76.6L194 76L193.5 75.6L194 74.3L195.2 73.4L195.3 72.1L195.7 70L195.9 69.6L195.5 69.3L195.5 69L195.1 68.7L194.9 67.1L195.9 66.6L199.8 68.5L203.8 70.4Z' },
+  { code: 'CL', name: 'Chile', d: 'M111.4 142.6L111.4 144.9L112.4 144.9L113 144.9L112.7 145.3L111.9 145.6L111.4 145.6L110.8 145.5L110 145.2L109 145.1L107.7 144.5L106.7 144L105.3 142.8L106.2 143L107.6 143.7L108.9 144.1L109.4 143.6L109.7 142.9L110.7 142.5L111.4 142.6ZM110.4 107.6L110.9 108.3L111 109L111.6 109.4L111.2 110.4L111.8 111.5L112.2 112.9L112.9 112.7L113 113L112.7 114L111.6 114.5L111.6 116.2L111.4 116.5L111.7 116.9L111 117.5L110.3 118.5L110 119.4L110.1 120.3L109.5 121.4L109.9 123.1L110.2 123.3L110.2 124.2L109.6 125.2L109.6 126L108.9 126.7L108.9 127.6L109.2 128.6L108.6 128.9L108.3 129.8L108.1 130.8L108.3 132.1L107.8 132.3L108.1 133.4L108.5 133.8L108.2 134.2L108.7 134.4L108.8 134.8L108.3 135L108.4 135.6L108.1 136.9L107.6 137.7L107.7 138.2L107.4 138.9L106.6 139.3L106.7 140.4L107 140.7L107.7 140.7L107.7 141.4L108.1 142L110.5 142.1L111.4 142.3L110.5 142.3L110.1 142.5L109.2 142.9L109 143.8L108.6 143.9L107.4 143.5L106.3 142.8L105.1 142.3L104.7 141.6L105 141L104.5 140.4L104.4 138.7L104.8 137.7L105.9 136.9L104.4 136.6L105.3 135.8L105.6 134.1L106.8 134.5L107.3 132.4L106.6 132.1L106.3 133.4L105.7 133.2L106 131.8L106.3 129.9L106.8 129.3L106.5 128.3L106.4 127.2L106.8 127.1L107.4 125.5L108.1 123.9L108.6 122.4L108.3 120.9L108.6 120.1L108.5 118.9L109.1 117.6L109.3 115.7L109.6 113.6L109.9 111.4L109.8 109.8L109.6 108.3L110.1 108.1L110.4 107.6Z' },
+  { code: 'CN', name: 'China', d: 'M289.5 71.8L288.7 71.5L288.6 70.6L289.1 70.2L290.2 69.9L290.8 69.9L291 70.3L290.6 70.7L290.3 71.3L289.5 71.8ZM260.3 47.6L260.2 47.1L260.9 46.8L260 45.1L261.9 44.7L262.5 44.5L263.2 42.7L265.2 43L265.7 42.5L265.8 41.5L266.6 41.5L267.4 40.8L267.8 40.7L268 41.4L268.9 41.9L270.3 42.3L271 43.1L270.6 44.3L270.9 44.7L272.1 44.9L273.5 45L274.7 45.6L275.3 45.8L275.8 46.7L276.3 47.3L277.5 47.3L279.5 47.5L280.8 47.3L281.8 47.5L283.3 48.1L284.5 48.1L285 48.4L286.1 47.9L287.7 47.5L289.2 47.5L290.4 47.1L291.1 46.6L291.8 46.3L291.7 45.9L291.3 45.5L291.9 44.9L292.4 45L293.5 45.2L294.5 44.7L296 44.3L296.7 43.6L297.4 43.3L298.9 43.2L299.7 43.3L299.8 43L298.9 42.3L298.1 41.9L297.3 42.3L296.3 42.1L295.7 42.3L295.5 41.9L296.2 40.9L296.7 40.1L297.9 40.5L299.3 39.9L299.3 39.4L300.2 38.4L300.7 38L300.7 37.5L300.2 37.2L301 36.7L302.2 36.6L303.6 36.5L305.1 36.8L305.9 37.2L306.6 38.2L306.9 38.6L307.3 39.3L307.7 40.2L309.4 40.6L310.6 41.3L311 42.2L312.5 42.2L313.4 41.8L315 41.5L314.5 42.4L314.1 42.8L313.8 43.9L313.1 44.9L311.9 44.7L311 45L311.3 45.9L311.1 47.1L310.6 47.1L310.6 47.6L310 47L309.6 47.6L308.1 48L308.2 48.5L307.3 48.5L306.9 48.2L306.2 48.9L305.1 49.4L304.3 50.1L302.9 50.4L302.1 50.8L301.1 51.1L301.6 50.6L301.4 50.2L302.2 49.6L301.6 49.1L300.8 49.4L299.6 50.1L299 50.7L298 50.8L297.5 51.3L298.1 51.9L298.9 52.1L298.9 52.6L299.7 52.8L300.8 52.1L301.7 52.5L302.4 52.5L302.5 53.1L301.1 53.3L300.6 53.9L299.7 54.4L299.2 55.1L300.2 55.6L300.6 56.6L301.2 57.5L301.9 58.3L301.9 59.1L301.3 59.3L301.5 59.9L302.1 60.2L301.9 61L301.7 61.8L301.1 61.9L300.4 62.9L299.6 64.3L298.7 65.5L297.3 66.4L295.9 67.2L294.8 67.3L294.2 67.8L293.8 67.5L293.2 67.9L291.8 68.4L290.8 68.6L290.4 69.7L289.9 69.7L289.6 69L289.9 68.6L288.5 68.3L288 68.4L287 68.2L286.6 67.8L286.7 67.2L285.8 67L285.3 66.6L284.5 67.2L283.5 67.3L282.7 67.3L282.2 67.5L281.7 67.7L281.8 68.8L281.3 68.8L281.2 68.6L281.1 68.2L280.4 68.4L280 68.3L279.2 67.9L279.5 67.1L278.9 66.9L278.7 65.9L277.6 66.1L277.7 64.9L278.7 64.1L278.7 63.3L278.7 62.5L278.2 62.3L277.9 61.7L277.3 61.7L276.2 61.6L276.6 61.2L276.1 60.5L275.4 61L274.6 60.7L273.4 61.4L272.5 62.1L271.7 62.2L271.3 62L270.7 61.9L270 61.7L269.5 62L268.8 62.7L268.7 61.9L268.1 62.1L267 62L265.8 61.8L265 61.4L264.2 61.2L263.9 60.7L263.3 60.5L262.3 59.9L261.5 59.6L261.1 59.8L259.7 59.1L258.7 58.5L258.5 57.4L259.2 57.5L259.2 57L258.8 56.5L258.9 55.7L257.8 54.5L256.2 54.1L255.9 53.3L255.2 52.9L255 52.6L254.8 52L254.9 51.6L254.3 51.4L253.9 51.5L253.7 50.6L254 50.3L253.8 50.1L254.8 49.6L255.5 49.4L256.5 49.6L256.9 48.9L258.2 48.8L258.5 48.4L260.1 47.9L260.3 47.6Z' },
+  { code: 'CO', name: 'Colombia', d: 'M113.1 88.7L112.9 88.9L112.7 88.3L112.5 88L112.1 88.3L110.2 88.3L110.2 88.9L110.8 89L110.7 89.4L110.5 89.3L110 89.5L110 90.2L110.4 90.5L110.6 91.1L110.6 91.6L110.1 94.3L109.6 93.8L109.3 93.7L110 92.7L109.2 92.3L108.6 92.3L108.2 92.2L107.7 92.4L106.9 92.3L106.3 91.3L105.9 91L105.6 90.5L104.9 90.1L104.6 90.2L104.2 89.9L103.7 89.6L103.4 89.7L102.6 89.6L102.3 89.2L102.1 89.2L101.1 88.6L101 88.3L101.4 88.2L101.3 87.7L101.6 87.4L102.1 87.3L102.5 86.7L102.9 86.2L102.5 85.9L102.7 85.3L102.5 84.4L102.7 84.2L102.5 83.3L102.1 82.8L102.2 82.3L102.6 82.4L102.8 82.1L102.5 81.5L102.6 81.3L103.2 81.4L103.9 80.7L104.3 80.6L104.3 80.2L104.5 79.4L105.1 78.9L105.7 78.9L105.8 78.7L106.6 78.8L107.4 78.3L107.8 78L108.2 77.6L108.6 77.6L108.9 77.9L108.7 78.2L108 78.4L107.8 78.9L107.4 79.2L107.1 79.5L107 80.3L106.7 80.8L107.2 80.9L107.3 81.4L107.6 81.6L107.6 82L107.5 82.4L107.6 82.6L107.8 82.7L108 83L109.3 82.9L109.9 83L110.6 83.9L111 83.8L111.7 83.8L112.3 83.7L112.7 83.9L112.5 84.4L112.3 84.8L112.2 85.5L112.4 86.2L112.7 86.5L112.7 86.7L112.2 87.2L112.6 87.4L112.8 87.8L113.1 88.7Z' },
+  { code: 'CG', name: 'Congo', d: 'M198.5 86.5L198.4 87.1L198.1 87.6L197.9 88.3L197.8 89.1L197.8 89.7L197.7 90.1L197.6 90.4L197.5 90.7L196.9 91.2L196.4 91.7L196 92.7L196 93.5L195.8 93.9L195.2 94.3L194.6 95L194.2 94.8L194.1 94.5L193.6 94.5L193.3 94.9L193 94.8L192.6 94.4L192.3 94.6L191.9 95L191.1 94L191.9 93.4L191.5 92.8L191.8 92.5L192.5 92.4L192.6 91.9L193.1 92.4L194 92.5L194.3 92L194.4 91.3L194.3 90.6L193.8 90L194.3 88.8L194 88.6L193.3 88.7L193 88.2L193.1 87.7L194.3 87.8L195.1 88L195.9 88.3L196 87.7L196.5 86.8L197.1 86.3L197.8 86.4L198.5 86.5Z' },
+  { code: 'CR', name: 'Costa Rica', d: 'M97.5 80.4L97.1 80.5L97.1 80.9L97.3 81.1L97.1 81.2L97.2 81.4L97.1 81.6L97 81.8L96.5 81.6L96.3 81.3L96.4 81.2L96.4 80.9L96.1 80.7L95.7 80.5L95.4 80.4L95.3 80.1L95 79.9L95.1 80.2L94.9 80.4L94.7 80.2L94.3 80.1L94.2 79.9L94.2 79.6L94.3 79.2L94.1 79.1L94.3 78.9L94.4 78.8L95.1 79L95.3 78.9L95.6 79L95.8 79.2L96.1 79.3L96.3 79.1L96.6 79.6L97 80L97.5 80.4Z' },
+  { code: 'CI', name: 'Côte d\'Ivoire', d: 'M172 79.8L172.1 79.7L172.4 79.9L173.2 79.9L173.3 79.6L173.5 79.6L173.8 79.5L174 79.9L174.2 79.8L174.6 79.6L175 79.8L175.2 80.2L175.7 80.4L176 80.1L176.5 80.1L177.2 80.4L177.4 81.8L177 82.6L176.8 83.7L177.2 84.6L177.1 85L176.7 85L176 84.8L175.4 84.8L174.2 85L173.5 85.3L172.5 85.7L172.3 85.6L172.4 84.8L172.5 84.7L172.4 84.3L172 83.9L171.7 83.8L171.4 83.5L171.6 83.1L171.5 82.6L171.6 82.3L171.7 82.3L171.8 81.9L171.7 81.7L171.8 81.5L172.2 81.4L171.9 80.6L171.7 80.2L171.8 79.9L172 79.8Z' },
+  { code: 'HR', name: 'Croatia', d: 'M196.6 43.5L196.9 43.6L197.6 44L198.5 44.2L198.8 44.1L199.1 44.5L199.4 44.8L199 45.1L198.6 44.9L197.9 44.9L197 44.8L196.5 44.8L196.3 45L196 44.8L195.7 45.2L196.2 45.6L196.5 46L196.9 46.3L197.3 46.6L197.7 47L198.6 47.4L198.4 47.5L197.5 47.2L196.9 46.8L196 46.5L195.2 45.8L195.4 45.7L194.9 45.3L194.9 44.9L194.3 44.8L194 45.2L193.7 44.9L193.7 44.5L194.4 44.5L194.6 44.4L194.9 44.5L195.3 44.5L195.3 44.3L195.7 44.2L195.8 43.8L196.6 43.5Z' },
+  { code: 'CU', name: 'Cuba', d: 'M97.7 66.8L98.6 66.9L99.4 66.9L100.3 67.2L100.7 67.6L101.7 67.5L102 67.7L102.9 68.3L103.5 68.8L103.8 68.8L104.4 69L104.3 69.3L105.1 69.3L105.8 69.7L105.7 69.9L105 70.1L104.4 70.1L103.7 70L102.2 70.1L102.9 69.6L102.5 69.3L101.9 69.3L101.5 69L101.3 68.4L100.7 68.4L99.8 68.2L99.5 68L98.2 67.8L97.8 67.6L98.2 67.4L97.2 67.3L96.5 67.8L96.1 67.8L95.9 68.1L95.5 68.2L95 68.1L95.6 67.8L95.8 67.4L96.2 67.2L96.7 67L97.5 66.9L97.7 66.8Z' },
+  { code: 'CY', name: 'Cyprus', d: 'M212.7 54.9L212.9 54.9L213.2 54.8L213.4 54.8L213.5 54.9L213.5 55L213.7 55L213.9 54.9L214 54.9L214 55L213 55.4L212.5 55.3L212.3 54.9L212.7 54.9Z' },
+  { code: 'CZ', name: 'Czechia', d: 'M195 38.9L195.5 39.2L196.2 39.3L196.2 39.6L196.7 39.8L196.9 39.5L197.6 39.6L197.6 40L198.4 40L198.9 40.5L198.6 40.5L198.4 40.7L198.2 40.7L198.1 41L197.9 41L197.9 41.1L197.5 41.2L197.1 41.2L197 41.4L196.5 41.2L196 41.3L195.3 41L194.9 41L194.3 41.4L193.6 41.1L193 40.7L192.5 40.5L192.4 40L192.2 39.7L193 39.5L193.3 39.3L194.1 39.1L194.3 38.9L194.6 39L195 38.9Z' },
+  { code: 'CD', name: 'Dem. Rep. Congo', d: 'M209.3 94.5L209.5 95.4L209.4 95.9L209.6 96.5L210.2 97.1L210.7 98.3L210.3 98.2L209 98.4L208.7 98.5L208.4 99.2L208.7 99.6L208.5 100.8L208.4 101.8L208.6 102L209.3 102.4L209.6 102.2L209.7 103.3L208.9 103.2L208.5 102.7L208.2 102.3L207.4 102.1L207.2 101.6L206.6 101.9L205.8 101.8L205.4 101.3L204.8 101.2L204.3 101.3L204.3 101L203.9 100.9L203.5 100.9L202.8 101L202.4 101L202.2 101.1L202.2 99.9L201.9 99.5L201.8 98.9L201.9 98.3L201.7 97.9L201.7 97.3L200.5 97.3L200.6 96.9L200.1 96.9L200 97.1L199.4 97.2L199.2 97.7L199 98L198.5 97.8L198.1 98L197.5 98.1L197.1 97.5L196.9 97.2L196.6 96.6L196.3 95.9L193.4 95.9L193 96L192.7 96L192.3 96.1L192.2 95.8L192.4 95.7L192.5 95.2L192.6 95L193 94.8L193.3 94.9L193.6 94.5L194.1 94.5L194.2 94.8L194.6 95L195.2 94.3L195.8 93.9L196 93.5L196 92.7L196.4 91.7L196.9 91.2L197.5 90.7L197.6 90.4L197.7 90.1L197.8 89.7L197.8 89.1L197.9 88.3L198.1 87.6L198.4 87.1L198.5 86.5L198.5 85.8L198.9 85.3L199.5 85L200.3 85.3L200.9 85.7L201.7 85.8L202.4 86L202.7 85.4L202.8 85.3L203.3 85.4L204.4 84.9L204.8 85.1L205.1 85.1L205.3 84.8L205.7 84.7L206.4 84.8L207 84.9L207.4 84.8L208 85.6L208.4 85.7L208.7 85.5L209.2 85.6L209.7 85.4L210 85.8L210.8 86.5L210.8 87.7L211.2 87.8L210.9 88.2L210.5 88.4L210.1 88.9L209.9 89.4L209.8 90.2L209.6 90.6L209.6 91.3L209.3 91.6L209.3 92.2L209.1 92.3L209 92.8L209.3 93.3L209.3 94.5Z' },
+  { code: 'DK', name: 'Denmark', d: 'M189.9 35L189.3 35.2L188.5 35L188.1 34.5L188.1 33.5L188.3 33.2L188.5 32.9L189.4 32.8L189.8 32.6L190.6 32.3L190.5 32.8L190.3 33.1L190.4 33.4L190.9 33.5L190.7 33.9L190.4 33.8L189.6 34.5L189.9 35ZM192.4 33.9L192.7 34.4L192.1 35.2L191 34.6L190.9 34.2L192.4 33.9Z' },
+  { code: 'DJ', name: 'Djibouti', d: 'M222.4 77.5L222.8 77.5L223.1 77.3L223.3 77.6L223.3 78L222.7 78.3L223.1 78.5L222.8 79.1L222.6 78.9L222.3 79L221.8 78.9L221.7 78.6L221.7 78.4L222 77.9L222.4 77.5Z' },
+  { code: 'DO', name: 'Dominican Rep.', d: 'M108.3 72L108.3 71.7L108.1 71.4L108.3 71.2L108.4 70.8L108.3 70.3L108.4 70.1L109.2 70.1L109.8 70.4L110 70.4L110.2 70.7L110.8 70.7L110.7 71L111.2 71L111.7 71.4L111.3 71.8L110.8 71.6L110.4 71.6L110 71.6L109.9 71.8L109.5 71.8L109.3 71.6L109 71.7L108.6 72.4L108.3 72.2L108.3 72Z' },
+  { code: 'EC', name: 'Ecuador', d: 'M104.6 90.2L104.8 90.9L104.5 91.6L103.4 92.6L102.2 93L101.5 93.9L101.4 94.5L100.8 95L100.4 94.5L100 94.3L99.6 94.4L99.5 94.1L99.8 93.8L99.7 93.4L100.2 92.7L100 92.2L99.6 92.7L99 92.2L99.2 92L99.1 91.1L99.4 90.9L99.6 90.3L100 89.6L99.9 89.2L100.5 89L101.1 88.6L102.1 89.2L102.3 89.2L102.6 89.6L103.4 89.7L103.7 89.6L104.2 89.9L104.6 90.2Z' },
+  { code: 'EG', name: 'Egypt', d: 'M216.9 68L212.9 68L209 68L205 68L205 64.3L205 60.8L204.7 60L205 59.3L204.8 58.9L205.2 58.4L206.5 58.4L207.5 58.7L208.4 59L208.9 59.1L209.7 58.8L210.1 58.5L211 58.4L211.7 58.6L212 59.1L212.2 58.7L213 59L213.8 59L214.3 58.8L214.8 60.2L214.9 60.5L214.6 60.9L214.4 61.7L214.2 62.2L213.9 62.4L213.6 62L213.1 61.6L212.4 60.1L212.3 60.2L212.7 61.3L213.3 62.3L214.1 63.9L214.5 64.4L214.8 65L215.7 66.1L215.5 66.2L215.5 66.9L216.7 67.8L216.9 68Z' },
+  { code: 'SV', name: 'El Salvador', d: 'M90.6 75.6L90.9 75.7L91.2 75.9L91.5 76L91.5 76.2L91.9 76L92.1 76.1L92.3 76.2L92.2 76.6L92.1 76.9L91.5 76.8L91.2 76.7L90.7 76.5L90.2 76.5L89.9 76.3L89.9 76.1L90.3 75.9L90.5 75.8L90.4 75.6L90.6 75.6Z' },
+  { code: 'GQ', name: 'Eq. Guinea', d: 'M189.6 87.7L191.3 87.7L191.3 88.9L189.8 88.9L189.5 89L189.3 88.8L189.6 87.7Z' },
+  { code: 'ER', name: 'Eritrea', d: 'M216.4 75.6L216.3 75.2L216.8 73.7L216.9 73L217.2 72.7L217.9 72.6L218.4 72L219 73.2L219.3 74.1L219.8 74.6L221.2 75.5L221.7 76.1L222.3 76.7L222.6 77L223.1 77.3L222.8 77.5L222.4 77.5L222 77.1L221.6 76.5L221.2 76.2L220.9 75.9L220 75.5L219.3 75.5L219.1 75.3L218.5 75.5L217.9 75L217.6 75.8L216.4 75.6Z' },
+  { code: 'EE', name: 'Estonia', d: 'M208 30.5L208.1 30.7L207.4 31.3L207.7 32.2L207.3 32.5L206.5 32.5L205.6 32.2L205.2 32L204.3 32.2L204.4 31.6L204.1 31.7L203.4 31.4L203.3 30.8L204.6 30.5L205.9 30.4L206.9 30.6L208 30.5Z' },
+  { code: 'SZ', name: 'eSwatini', d: 'M212.1 116.7L211.9 117.2L211.3 117.3L210.7 116.7L210.7 116.4L211 116L211 115.7L211.3 115.7L211.8 115.8L212 116.3L212.1 116.7Z' },
+  { code: 'ET', name: 'Ethiopia', d: 'M227.8 82L225 85L223.7 85L222.8 85.7L222.1 85.8L221.9 86.1L221.2 86.1L220.8 85.7L219.9 86.2L219.6 86.6L218.9 86.5L218.7 86.4L218.4 86.4L218.1 86.4L216.9 85.6L216.2 85.6L215.8 85.2L215.8 84.7L215.3 84.5L214.7 83.4L214.2 83.2L214.1 82.8L213.6 82.3L213 82.2L213.3 81.6L213.8 81.6L214 81.3L214 80.4L214.3 79.4L214.7 79.1L214.8 78.7L215.3 77.9L215.9 77.4L216.3 76.4L216.4 75.6L217.6 75.8L217.9 75L218.5 75.5L219.1 75.3L219.3 75.5L220 75.5L220.9 75.9L221.2 76.2L221.6 76.5L222 77.1L222.4 77.5L222 77.9L221.7 78.4L221.7 78.6L221.8 78.9L222.3 79L222.6 78.9L222.8 79.1L222.6 79.4L222.9 80L223.3 80.5L223.7 80.8L226.9 82L227.8 82Z' },
+  { code: 'FK', name: 'Falkland Is.', d: 'M118.8 141.8L120 141.3L120.8 141.5L121.5 141.1L122.3 141.5L122 141.9L120.6 142.2L120.2 141.8L119.3 142.3L118.8 141.8Z' },
+  { code: 'FJ', name: 'Fiji', d: 'M358.1 107.5L358.4 107.3L358.7 107.6L358.6 108.2L357.9 108.3L357.4 108.2L357.3 107.7L357.7 107.4L358.1 107.5ZM0 106.1L0.2 106L0.1 106.5L0 106.6L359.4 106.8L358.7 107L358.6 106.6L359.1 106.4L359.4 106.4L360 106.1L0 106.1Z' },
+  { code: 'FI', name: 'Finland', d: 'M208.6 20.9L208.4 21.6L210 22.3L209.1 23.1L210.2 24.2L209.5 25.1L210.4 25.8L210 26.4L211.5 27.1L211.1 27.6L210.2 28.2L208.1 29.5L206.3 29.6L204.5 29.9L202.9 30.2L202.3 29.6L201.3 29.3L201.5 28.3L201.1 27.4L201.5 26.8L202.4 26.2L204.7 25.1L205.4 24.9L205.3 24.5L203.9 24L203.6 23.6L203.5 22.1L202 21.4L200.6 20.9L201.2 20.6L202.4 21.2L203.7 21.1L204.7 21.4L205.7 20.9L206.2 20.2L207.7 19.8L209 20.2L208.6 20.9Z' },
+  { code: 'TF', name: 'Fr. S. Antarctic Lands', d: 'M248.9 138.6L249.6 138.9L250.5 139.1L250.6 139.3L250.3 139.7L248.7 139.8L248.7 139.2L248.9 138.8L248.9 138.6Z' },
+  { code: 'FR', name: 'France', d: 'M128.3 85.8L127.8 86.8L127.4 87.5L127.1 87.9L126.6 87.9L126.4 87.7L126.2 87.6L125.9 87.9L125.5 87.7L125.7 87.3L125.8 86.8L126 86.4L125.6 85.8L125.5 85.1L126 84.2L126.4 84.4L127.1 84.6L128.2 85.4L128.3 85.8ZM186.2 40.5L186.7 40.8L188.1 41L187.6 41.7L187.5 42.4L187.2 42.6L186.7 42.5L186.8 42.7L186 43.3L186 43.7L186.5 43.6L186.8 44L186.8 44.3L187.1 44.7L186.7 45L187 45.7L187.6 45.9L187.4 46.3L186.5 46.9L184.6 46.6L183.1 46.9L183 47.5L181.8 47.7L180.7 47.2L180.3 47.4L178.5 47L178.1 46.6L178.6 46L178.8 44L177.8 42.9L177 42.4L175.5 42L175.4 41.3L176.7 41.1L178.4 41.4L178.1 40.2L179 40.7L181.3 39.9L181.6 39.1L182.5 38.9L182.7 39.2L183.1 39.2L183.6 39.6L184.3 40.1L184.8 40L185.7 40.5L185.9 40.6L186.2 40.5ZM188.7 47.4L189.4 47L189.6 47.8L189.2 48.6L188.8 48.4L188.5 47.7L188.7 47.4Z' },
+  { code: 'GA', name: 'Gabon', d: 'M191.3 87.7L191.8 87.7L192.4 87.8L193 87.7L193.1 87.7L193 88.2L193.3 88.7L194 88.6L194.3 88.8L193.8 90L194.3 90.6L194.4 91.3L194.3 92L194 92.5L193.1 92.4L192.6 91.9L192.5 92.4L191.8 92.5L191.5 92.8L191.9 93.4L191.1 94L190.1 93L189.4 92.1L188.8 91.1L188.8 90.8L189 90.5L189.3 89.7L189.5 89L189.8 88.9L191.3 88.9L191.3 87.7Z' },
+  { code: 'GM', name: 'Gambia', d: 'M163.3 76.4L164.4 76.4L164.6 76.1L164.9 76.1L165.3 76.4L165.6 76.4L166 76.2L166.2 76.5L165.7 76.7L165.3 76.7L164.9 76.5L164.5 76.7L164.3 76.7L164.1 76.9L163.2 76.8L163.3 76.4Z' },
+  { code: 'GE', name: 'Georgia', d: 'M220 46.6L220.1 46.4L220.9 46.6L222.4 46.8L223.8 47.3L223.9 47.4L224.5 47.3L225.5 47.5L225.8 47.9L226.4 48.1L226.1 48.3L226.6 48.8L226.5 48.9L226 48.9L225.2 48.6L225 48.8L223.6 48.9L222.6 48.4L221.6 48.5L221.7 48L221.5 47.4L220.9 47L220.3 46.9L220 46.6Z' },
+  { code: 'DE', name: 'Germany', d: 'M194.1 36.2L194.4 36.8L194.1 37L194.4 37.4L194.7 37.9L194.6 38.3L195 38.9L194.6 39L194.3 38.9L194.1 39.1L193.3 39.3L193 39.5L192.2 39.7L192.4 40L192.5 40.5L193 40.7L193.6 41.1L193.2 41.6L192.9 41.7L193 42.4L192.9 42.5L192.6 42.3L192.1 42.3L191.4 42.5L190.5 42.4L190.4 42.7L189.9 42.4L189.6 42.5L188.5 42.2L188.3 42.4L187.5 42.4L187.6 41.7L188.1 41L186.7 40.8L186.2 40.5L186.2 40.1L186 39.9L186.2 39.2L186 38.1L186.6 38.1L186.8 37.8L187.1 36.9L186.9 36.5L187.1 36.3L187.9 36.3L188.1 36.5L188.8 36L188.6 35.6L188.5 35L189.3 35.2L189.9 35L189.9 35.4L190.9 35.6L190.9 36L192 35.8L192.5 35.5L193.6 35.9L194.1 36.2Z' },
+  { code: 'GH', name: 'Ghana', d: 'M180 79L180 79.3L180.4 79.8L180.4 80.5L180.5 81.3L180.7 81.7L180.5 82.6L180.6 83.1L180.8 83.7L181.1 84.1L179.5 84.7L178.9 85L178 85.3L177.1 85L177.2 84.6L176.8 83.7L177 82.6L177.4 81.8L177.2 80.4L177 79.6L177.1 79L178.8 79L179.2 79.1L179.6 78.9L180 79Z' },
+  { code: 'GR', name: 'Greece', d: 'M206.3 54.7L206.2 55L204.7 55.1L204.7 54.9L203.5 54.7L203.7 54.3L204.2 54.6L205 54.6L205.8 54.6L205.7 54.8L206.3 54.7ZM203 48.7L203.7 48.7L204.5 48.4L205.2 48.8L206.1 48.7L206.1 48.2L206.6 48.4L206.3 49.1L206.1 49.2L205.4 49.1L204.9 49.1L203.7 49.3L204.4 49.9L203.9 50L203.3 50L202.8 49.5L202.6 49.7L202.9 50.3L203.4 50.8L203 51L203.5 51.5L204 51.8L204 52.3L203.1 52.1L203.4 52.6L202.8 52.7L203.2 53.6L202.5 53.6L201.7 53.2L201.3 52.4L201.1 51.7L200.7 51.2L200.2 50.7L200.2 50.4L200.6 49.9L200.7 49.6L201 49.4L201 49.2L201.7 49.1L202.1 48.8L202.6 48.9L202.8 48.7L203 48.7Z' },
+  { code: 'GL', name: 'Greenland', d: 'M133.2 7.4L136.6 6.8L140.1 6.8L141.4 6.5L144.9 6.4L152.9 6.5L159.2 7.3L157.3 7.7L153.5 7.7L148.1 7.8L148.6 8L152.1 7.9L155.2 8.2L157.1 7.9L157.9 8.3L156.8 8.8L159.4 8.5L164.2 8.1L167.2 8.3L167.8 8.7L163.7 9.4L163.2 9.7L160 9.8L162.3 9.9L161.1 10.6L160.3 11.2L160.3 12.4L161.5 13L160 13.1L158.3 13.4L160.2 13.9L160.4 14.8L159.3 14.8L160.6 15.7L158.4 15.8L159.6 16.2L159.2 16.5L157.8 16.7L156.4 16.7L157.7 17.4L157.7 17.8L155.7 17.4L155.2 17.7L156.6 17.9L157.9 18.5L158.2 19.3L156.5 19.5L155.7 19.1L154.5 18.6L154.8 19.2L153.6 19.8L156.3 19.8L157.7 19.9L155 20.7L152.3 21.5L149.3 21.9L148.2 21.9L147.2 22.3L145.8 23.3L143.6 24L143 24.1L141.6 24.3L140.2 24.5L139.3 25.2L139.3 25.9L138.8 26.5L137.2 27.3L137.6 28.1L137.1 28.9L136.6 29.9L135.2 30L133.7 29.1L131.7 29.1L130.8 28.6L130.1 27.6L128.4 26.4L127.9 25.7L127.7 24.8L126.3 23.9L126.7 23.2L126 22.8L127 21.6L128.5 21.3L128.9 20.9L129.1 20.1L128 20.4L127.4 20.6L126.5 20.7L125.3 20.4L125.2 19.7L125.6 19.2L126.6 19.2L128.6 19.4L126.9 18.8L126 18.5L125 18.6L124.2 18.3L125.3 17.4L124.7 17L123.9 16.3L122.7 15.3L121.4 14.9L121.4 14.5L118.7 13.9L116.6 13.8L113.9 13.9L111.5 13.9L110.3 13.6L108.6 13L111.2 12.7L113.2 12.6L109 12.4L106.7 12L106.8 11.6L110.6 11.1L114.3 10.6L114.7 10.2L112 9.9L112.9 9.5L116.3 8.8L117.8 8.7L117.4 8.2L119.7 8L122.8 7.8L125.9 7.8L127 8.1L129.6 7.6L132 7.9L133.4 8L135.5 8.3L133.1 7.8L133.2 7.4Z' },
+  { code: 'GT', name: 'Guatemala', d: 'M87.8 75.5L87.8 75.2L87.9 74.9L87.8 74.7L88.3 73.9L89.5 73.9L89.6 73.6L89.4 73.5L89.3 73.3L88.9 73.1L88.5 72.7L89 72.7L89 72.2L89.9 72.2L90.9 72.2L90.9 73L90.8 74.1L91.1 74.1L91.4 74.3L91.5 74.1L91.8 74.3L91.3 74.7L90.8 74.9L90.8 75.1L90.9 75.3L90.6 75.6L90.4 75.6L90.5 75.8L90.3 75.9L89.9 76.1L89.9 76.3L89.4 76.1L88.8 76.1L88.3 75.9L87.8 75.5Z' },
+  { code: 'GN', name: 'Guinea', d: 'M166.3 77.4L166.8 77.4L167.5 77.7L167.7 77.6L167.8 77.5L168.3 77.6L168.5 77.6L168.5 77.9L168.7 77.9L169 77.8L169.1 77.8L169.4 78.1L169.8 78.2L170.1 77.9L170.4 77.8L170.7 77.7L170.9 77.7L171.1 77.9L171.2 78.2L171.6 78.6L171.4 78.9L171.4 79.2L171.6 79.1L171.7 79.2L171.7 79.5L172 79.8L171.8 79.9L171.7 80.2L171.9 80.6L172.2 81.4L171.8 81.5L171.7 81.7L171.8 81.9L171.7 82.3L171.6 82.3L171.3 82.3L171.1 82.7L170.8 82.7L170.6 82.5L170.7 82.1L170.2 81.5L170 81.6L169.8 81.6L169.5 81.7L169.5 81.3L169.3 81L169.4 80.7L169.2 80.3L168.9 80L168.1 80L167.8 80.1L167.6 80.2L167.4 80.4L167.3 80.7L166.8 81.1L166.3 80.5L165.9 80.1L165.7 80L165.4 79.8L165.3 79.3L165.2 79.1L164.9 79L165.3 78.5L165.6 78.5L165.9 78.3L166.1 78.3L166.3 78.2L166.2 77.9L166.3 77.8L166.3 77.4Z' },
+  { code: 'GW', name: 'Guinea-Bissau', d: 'M163.3 77.6L163.9 77.5L164.2 77.5L164.5 77.4L166.3 77.4L166.3 77.8L166.2 77.9L166.3 78.2L166.1 78.3L165.9 78.3L165.6 78.5L165.3 78.5L164.9 79L164.3 78.5L163.9 78.5L163.7 78.2L163.7 78L163.4 77.8L163.3 77.6Z' },
+  { code: 'GY', name: 'Guyana', d: 'M123.5 88.1L123.2 88.1L122.7 88.1L122.3 88.3L121.9 88.5L121.6 88.5L121.5 88.7L121 88.7L120.4 88.2L120.3 87.8L120 87.2L120.2 86.4L120.5 86L120.2 85.6L119.9 85.4L120 85L119.8 84.8L119.3 84.8L118.6 84L118.9 83.8L118.8 83.3L119.5 83.1L119.7 83L119.4 82.6L119.4 82.2L120.2 81.6L120.9 82L121.5 82.7L121.5 83.2L121.9 83.2L122.5 83.7L122.9 84L122.7 84.9L122.1 85.2L122.1 85.4L122 85.9L122.4 86.7L122.7 86.7L122.9 87.2L123.5 88.1Z' },
+  { code: 'HT', name: 'Haiti', d: 'M108.3 70.3L108.4 70.8L108.3 71.2L108.1 71.4L108.3 71.7L108.3 72L107.6 71.8L107.2 71.9L106.5 71.8L106.1 72L105.5 71.7L105.6 71.3L106.6 71.5L107.3 71.6L107.7 71.3L107.2 70.9L107.2 70.5L106.6 70.4L106.8 70.1L107.4 70.1L108.3 70.3Z' },
+  { code: 'HN', name: 'Honduras', d: 'M96.9 75L96.5 75L96.4 75.1L96 75.3L95.8 75.3L95.6 75.4L95.4 75.3L95.2 75.2L95.1 75.2L94.9 75.4L94.8 75.6L94.5 75.9L94.3 76L94.2 76.2L93.9 76L93.7 76.2L93.5 76.2L93.2 76.2L93.3 76.7L93.1 76.7L93 77L92.7 77L92.5 76.7L92.2 76.6L92.3 76.2L92.1 76.1L91.9 76L91.5 76.2L91.5 76L91.2 75.9L90.9 75.7L90.6 75.6L90.9 75.3L90.8 75.1L90.8 74.9L91.3 74.7L91.8 74.3L91.9 74.3L92.1 74.1L92.4 74.1L92.5 74.2L92.6 74.2L93.1 74.2L93.6 74.2L93.9 74.1L94 74L94.3 74L94.6 74.1L94.8 74.1L95 74L95.5 74.1L95.6 74.2L95.9 74.4L96.2 74.6L96.6 74.7L96.9 75Z' },
+  { code: 'HU', name: 'Hungary', d: 'M202.1 41.6L202.6 41.8L202.7 42.1L202.1 42.3L201.6 43L201 43.7L200.2 43.9L199.6 43.8L198.8 44.1L198.5 44.2L197.6 44L196.9 43.6L196.6 43.5L196.4 43.2L196.2 43.1L196.5 42.5L196.3 42.3L196.9 42.3L197 41.9L197.5 42.1L197.9 42.2L198.7 42.1L198.8 41.9L199.2 41.9L199.7 41.7L199.8 41.8L200.2 41.7L200.5 41.4L200.8 41.4L201.9 41.7L202.1 41.6Z' },
+  { code: 'IS', name: 'Iceland', d: 'M165.5 23.5L165.3 24.2L166.4 24.9L165.1 25.6L162.2 26.3L161.3 26.5L160 26.4L157.2 26L158.2 25.6L156 25.1L157.8 24.9L157.8 24.6L155.7 24.4L156.3 23.7L157.9 23.6L159.4 24.3L160.9 23.7L162.2 24L163.8 23.5L165.5 23.5Z' },
+  { code: 'IN', name: 'India', d: 'M277.3 61.7L277.4 62.1L277.1 62.3L277.1 62.9L276.4 62.7L275.1 63.4L275.2 64L274.6 64.8L274.6 65.3L274.1 66.1L273.3 65.9L273.3 67L273.1 67.3L273.2 67.7L272.7 68L272.1 66.4L271.9 66.4L271.7 67L271.2 66.5L271.5 65.9L271.9 65.9L272.4 65L271.8 64.9L270.9 64.9L269.9 64.7L269.8 64L269.4 64L268.6 63.6L268.2 64.2L268.9 64.8L268.3 65.1L268.1 65.5L268.7 65.8L268.5 66.4L268.9 67.1L269 67.9L268.9 68.3L268.2 68.3L267 68.5L267 69.3L266.5 69.8L265.1 70.5L263.9 71.7L263.2 72.3L262.2 73L262.2 73.4L261.7 73.7L260.8 74L260.3 74.1L260 74.9L260.2 76.2L260.3 77L259.9 77.9L259.9 79.6L259.3 79.7L258.9 80.5L259.2 80.8L258.3 81.1L257.9 81.7L257.5 82L256.6 81.1L256.1 79.7L255.7 78.7L255.4 78.2L254.9 77.3L254.6 76L254.4 75.4L253.5 74L253.1 72.1L252.8 70.8L252.8 69.6L252.6 68.6L251.2 69.2L250.5 69.1L249.2 67.9L249.6 67.5L249.3 67.2L248.2 66.3L248.8 65.6L251 65.6L250.8 64.8L250.3 64.3L250.2 63.5L249.5 63.1L250.6 62L251.8 62.1L252.8 61L253.4 60L254.4 59L254.4 58.3L255.3 57.7L254.5 57.2L254.1 56.6L253.7 55.7L254.2 55.3L255.8 55.5L256.9 55.3L257.8 54.5L258.9 55.7L258.8 56.5L259.2 57L259.2 57.5L258.5 57.4L258.7 58.5L259.7 59.1L261.1 59.8L260.5 60.3L260.1 61.2L261.1 61.6L262 62.1L263.3 62.6L264.7 62.8L265.3 63.3L266 63.4L267.2 63.6L268.1 63.6L268.2 63.2L268 62.6L268.1 62.1L268.7 61.9L268.8 62.7L268.8 62.9L269.7 63.3L270.4 63.1L271.2 63.2L272 63.2L272.1 62.5L271.7 62.2L272.5 62.1L273.4 61.4L274.6 60.7L275.4 61L276.1 60.5L276.6 61.2L276.2 61.6L277.3 61.7Z' },
+  { code: 'ID', name: 'Indonesia', d: 'M321 92.6L321 95.9L321 99.1L320.1 98.3L319.1 98.1L318.9 98.4L317.6 98.4L318 97.6L318.7 97.3L318.4 96.2L317.9 95.4L316 94.5L315.2 94.5L313.7 93.5L313.4 94L313 94.1L312.8 93.7L312.8 93.3L312 92.8L313.1 92.5L313.8 92.5L313.7 92.2L312.2 92.2L311.8 91.6L310.9 91.4L310.5 90.9L311.9 90.7L312.4 90.4L314 90.8L314.1 91.2L314.4 92.8L315.5 93.4L316.3 92.3L317.4 91.7L318.3 91.7L319.2 92.1L319.9 92.4L321 92.6ZM305 98.9L305.1 99.1L305.1 99.4L304.4 100.1L303.6 100.4L303.5 100.2L303.6 99.9L304 99.3L305 98.9ZM314.2 96.9L314.1 96.1L314.3 95.8L314.5 95.4L314.7 95.7L314.7 96.2L314.2 96.9ZM297.9 85.9L297.3 86.8L298 87.7L297.9 88.2L299 89.1L297.8 89.2L297.5 89.9L297.5 90.8L296.6 91.5L296.5 92.5L296.1 94L296 93.7L294.9 94.1L294.5 93.5L293.8 93.4L293.3 93.1L292.1 93.5L291.7 93L291 93L290.2 92.9L290.1 91.6L289.6 91.3L289.1 90.5L289 89.6L289.1 88.7L289.7 88L289.8 88.7L290.5 89.2L291.2 89L291.8 89.1L292.4 88.6L292.9 88.5L293.8 88.8L294.6 88.6L295.1 87.2L295.5 86.8L295.9 85.7L297 85.7L297.9 85.9ZM309.4 92.8L310.5 93.1L310.8 93.9L310 93.4L309.2 93.4L308.6 93.4L307.9 93.4L308.1 92.8L309.4 92.8ZM306.9 93.8L306.2 93.6L306 93.2L307 93.1L307.2 93.5L306.9 93.8ZM307.9 87.8L308 88.4L308.6 88.5L308.7 88.9L308.6 89.7L308.1 89.6L308 90.3L308.4 90.8L308.1 90.9L307.7 90.3L307.4 89L307.6 88.2L307.9 87.8ZM302.9 89.1L304.1 89.1L305.1 88.4L305.2 88.6L304.4 89.6L303.7 89.8L302.7 89.6L301.1 89.6L300.2 89.8L300 90.5L300.9 91.4L301.5 91L303.3 90.6L303.3 91.1L302.8 90.9L302.4 91.5L301.5 91.9L302.5 93.2L302.3 93.5L303.2 94.7L303.2 95.3L302.6 95.6L302.2 95.3L302.7 94.5L301.7 94.9L301.5 94.6L301.6 94.2L300.9 93.6L301 92.6L300.3 92.9L300.4 94.1L300.4 95.5L299.8 95.7L299.4 95.4L299.7 94.5L299.5 93.5L299.1 93.5L298.8 92.8L299.2 92.1L299.3 91.4L299.8 89.8L300 89.4L300.9 88.7L301.7 89L302.9 89.1ZM300.3 100.3L299 99.6L299.9 99.4L300.4 99.7L300.8 100L300.7 100.2L300.3 100.3ZM301.3 98.5L302 98.5L302.9 98.1L302.8 98.7L301.3 98.9L299.9 98.8L299.9 98.4L300.7 98.2L301.3 98.5ZM298.3 98.4L298.9 98.3L299.1 98.7L298 98.9L297.3 99L296.7 99L297.1 98.5L297.6 98.4L297.9 98.1L298.3 98.4ZM288.5 96.4L288.6 96.8L290.5 96.9L290.8 96.5L292.6 96.9L293 97.6L294.5 97.8L295.7 98.4L294.6 98.8L293.5 98.3L292.6 98.4L291.5 98.3L290.6 98.1L289.4 97.7L288.7 97.6L288.3 97.8L286.5 97.4L286.3 96.9L285.4 96.9L286.1 95.9L287.3 96L288.1 96.3L288.5 96.4ZM284.4 91.1L284.5 91.8L284.9 92.3L285.6 92.4L286.1 93.1L285.9 94.3L285.8 95.9L284.7 95.9L283.9 95L282.6 94.2L282.2 93.6L281.4 92.8L280.9 92.1L280.1 90.7L279.3 89.8L279 89L278.6 88.2L277.7 87.5L277.2 86.7L276.4 86.1L275.4 85L275.3 84.5L275.9 84.6L277.5 84.8L278.4 85.7L279.1 86.4L279.7 86.8L280.6 87.9L281.7 87.9L282.5 88.6L283.1 89.4L283.8 89.9L283.4 90.7L284 91.1L284.4 91.1Z' },
+  { code: 'IR', name: 'Iran', d: 'M228.6 60.1L228 59.5L228 59L227.7 59L227.8 58.3L227.3 57.5L226.1 57L225.4 56L225.7 55.3L226.2 54.9L226.1 54.3L225.4 54L224.8 52.8L224.2 52L224.4 51.7L224.1 50.6L224.8 50.3L225 50.7L225.5 51.1L226.1 51.3L226.5 51.2L227.7 50.5L228.1 50.4L228.4 50.7L228 51.2L228.6 51.7L228.9 51.7L229.2 52.4L230.1 52.6L230.8 53.1L232.3 53.3L233.8 53L233.9 52.8L234.8 52.6L235.5 52L236.2 52.1L236.6 51.9L237.3 52L238.4 52.5L239.2 52.6L240.4 53.5L241.1 53.5L241.2 54.4L240.8 55.6L240.5 56.3L241 56.5L240.5 57L240.9 57.8L240.9 58.5L241.7 58.6L241.8 59.3L240.9 60.2L241.4 60.7L241.8 61.3L242.7 61.7L242.8 62.6L243.2 62.8L243.3 63.2L241.9 63.8L241.5 64.9L239.6 64.6L238.5 64.4L237.4 64.3L237 63L236.5 62.9L235.7 63L234.7 63.5L233.5 63.2L232.5 62.4L231.5 62.1L230.9 61.2L230.1 59.9L229.6 60L228.9 59.7L228.6 60.1Z' },
+  { code: 'IQ', name: 'Iraq', d: 'M219.2 57.8L218.8 56.6L221 55.6L221.4 54.4L221.3 53.6L221.8 53.4L222.3 52.8L222.8 52.6L223.9 52.7L224.3 53L224.8 52.8L225.4 54L226.1 54.3L226.2 54.9L225.7 55.3L225.4 56L226.1 57L227.3 57.5L227.8 58.3L227.7 59L228 59L228 59.5L228.6 60.1L228 60L227.3 59.9L226.6 60.9L224.7 60.8L221.9 58.8L220.4 58.1L219.2 57.8Z' },
+  { code: 'IE', name: 'Ireland', d: 'M173.8 36.1L174 36.8L173.2 37.7L171.4 38.3L170 38.2L170.8 37.1L170.3 36.1L171.7 35.3L172.4 34.9L172.6 35.4L172.4 35.9L173 35.9L173.8 36.1Z' },
+  { code: 'IL', name: 'Israel', d: 'M215.7 57.3L215.5 57.6L215.2 57.5L215 58.1L215.2 58.2L215 58.4L214.9 58.6L215.4 58.5L215.4 58.9L214.9 60.5L214.8 60.2L214.3 58.8L214.6 58.5L214.5 58.4L214.8 57.9L215 57.2L215.1 56.9L215.5 56.9L215.6 56.7L215.8 56.7L215.8 57.1L215.7 57.3Z' },
+  { code: 'IT', name: 'Italy', d: 'M190.4 43.1L191.1 43.2L191.2 43.1L192.2 42.9L192.4 43.2L193.8 43.5L193.7 44L193.9 44.4L193.1 44.3L192.3 44.6L192.4 45.1L192.3 45.4L192.6 45.9L193.5 46.4L194 47.2L195.1 48L195.9 48L196.2 48.3L195.9 48.5L196.8 48.8L197.5 49.1L198.4 49.6L198.5 49.8L198.3 50.2L197.7 49.7L196.9 49.6L196.5 50.2L197.2 50.6L197.1 51.1L196.6 51.2L196.1 52L195.7 52.1L195.7 51.8L195.9 51.2L196.1 51L195.7 50.5L195.4 50L195 49.8L194.7 49.4L194.1 49.2L193.6 48.8L192.9 48.7L192.1 48.3L191.2 47.6L190.5 47.1L190.2 46.1L189.7 46L188.9 45.6L188.4 45.8L187.8 46.2L187.4 46.3L187.6 45.9L187 45.7L186.7 45L187.1 44.7L186.8 44.3L186.8 44L187.3 44.2L187.8 44.2L188.3 43.8L188.5 44L189 44L189.2 43.6L189.9 43.7L190.4 43.5L190.4 43.1ZM194.8 51.9L195.5 51.8L195.2 52.6L195.3 52.9L195.1 53.4L194.3 53L193.8 52.9L192.4 52.4L192.6 51.9L193.7 52L194.8 51.9ZM188.7 49.1L189.2 48.8L189.8 49.5L189.7 50.8L189.2 50.8L188.8 51.1L188.4 50.8L188.4 49.6L188.2 49L188.7 49.1Z' },
+  { code: 'JM', name: 'Jamaica', d: 'M102.4 71.5L103.1 71.6L103.6 71.8L103.8 72.1L103.1 72.1L102.8 72.3L102.2 72.1L101.7 71.8L101.8 71.5L102.2 71.5L102.4 71.5Z' },
+  { code: 'JP', name: 'Japan', d: 'M321.9 50.8L321 51.8L321 52.9L320.6 53.7L320.8 54.2L320.3 54.9L319 55.3L317.2 55.4L315.8 56.5L315.1 56.2L315.1 55.4L313.3 55.6L312.2 56.1L311 56.1L312 56.9L311.3 58.5L310.7 59L310.2 58.6L310.4 57.7L309.8 57.4L309.4 56.7L310.4 56.4L310.9 55.8L311.9 55.2L312.6 54.6L314.6 54.3L315.7 54.5L316.7 52.7L317.4 53.2L318.9 52.2L319.4 51.8L320.1 50.6L319.9 49.4L320.3 48.8L321.4 48.6L321.9 50L321.9 50.8ZM324.6 46L325.3 45.6L325.5 46.7L324.1 47L323.2 48L321.6 47.3L321.1 48.4L320 48.4L319.8 47.4L320.3 46.7L321.4 46.6L321.7 45.2L322 44.4L323.1 45.5L323.9 45.8L324.6 46ZM312.4 56.5L312.9 55.9L313.5 56.1L313.9 55.6L314.6 55.9L314.8 56.2L314.2 56.8L313.8 56.5L313.3 56.7L313 57.3L312.4 57L312.4 56.5Z' },
+  { code: 'JO', name: 'Jordan', d: 'M215.5 57.6L215.7 57.3L216.8 57.7L218.8 56.6L219.2 57.8L219 58L217 58.5L218 59.5L217.7 59.7L217.5 60L216.7 60.1L216.5 60.5L216.1 60.8L215 60.6L214.9 60.5L215.4 58.9L215.4 58.5L215.5 58.2L215.5 57.6Z' },
+  { code: 'KZ', name: 'Kazakhstan', d: 'M267.4 40.8L266.6 41.5L265.8 41.5L265.7 42.5L265.2 43L263.2 42.7L262.5 44.5L261.9 44.7L260 45.1L260.9 46.8L260.2 47.1L260.3 47.6L259.6 47.5L259.1 47.1L257.7 47L256 47L255.6 47.1L254.2 46.7L253.6 46.9L253.5 47.5L251.8 47.2L251.2 47.3L251 47.7L250.4 47.9L249.1 48.6L248.6 49.3L248.3 49.3L248 48.9L246.7 48.8L246.5 48L246 48L246.1 47L244.9 46.3L243.2 46.4L242 46.5L241.1 45.6L240.2 45.2L238.7 44.5L238.5 44.4L235.9 45L236 48.7L235.5 48.7L234.8 48L234.1 47.7L232.9 47.9L232.5 48.2L232.4 48L232.7 47.6L232.5 47.2L231.3 46.9L230.9 46L230.3 45.7L230.3 45.4L231.3 45.5L231.3 44.8L232.2 44.6L233 44.7L233.2 43.8L233 43.1L232 43.2L231.2 43L230 43.4L229.1 43.6L228.6 43.4L228.7 42.9L228.1 42.3L227.3 42.3L226.5 41.6L227 40.8L226.8 40.6L227.6 39.5L228.6 40.1L228.7 39.4L230.8 38.3L232.3 38.3L234.5 39L235.7 39.4L236.8 39L238.4 38.9L239.6 39.5L239.9 39.2L241.3 39.2L241.6 38.7L240 38L240.9 37.6L240.7 37.3L241.7 37L241 36.3L241.4 36L245.2 35.6L245.7 35.4L248.2 35L249.1 34.6L250.9 34.8L251.2 35.9L252.2 35.6L253.5 36L253.4 36.5L254.4 36.5L256.9 35.5L256.5 35.8L257.8 36.6L260 39.1L260.6 38.6L261.9 39.2L263.4 38.9L263.9 39.1L264.4 39.7L265.1 39.9L265.5 40.3L266.8 40.2L267.4 40.8Z' },
+  { code: 'KE', name: 'Kenya', d: 'M219.2 94.7L217.8 93.7L217.7 93.1L214.1 91.1L213.9 91L213.9 89.9L214.2 89.5L214.7 88.8L215 88.1L214.6 86.9L214.5 86.4L214 85.7L214.6 85.2L215.3 84.5L215.8 84.7L215.8 85.2L216.2 85.6L216.9 85.6L218.1 86.4L218.4 86.4L218.7 86.4L218.9 86.5L219.6 86.6L219.9 86.2L220.8 85.7L221.2 86.1L221.9 86.1L221 87.2L221 90.9L221.6 91.7L220.9 92.1L220.6 92.5L220.3 92.6L220.1 93.3L219.8 93.7L219.6 94.3L219.2 94.7Z' },
+  { code: 'XK', name: 'Kosovo', d: 'M200.6 48.1L200.5 47.8L200.3 47.7L200.1 47.4L200.3 47.2L200.5 47.1L200.6 46.8L200.8 46.7L201 46.9L201.1 46.9L201.3 47.1L201.4 47.1L201.6 47.3L201.8 47.3L201.7 47.6L201.5 47.7L201.6 47.8L201.4 47.8L200.8 47.9L200.7 48.2L200.6 48.1Z' },
+  { code: 'KW', name: 'Kuwait', d: 'M228 60L228.2 60.5L228.1 60.7L228.4 61.4L227.7 61.5L227.5 61L226.6 60.9L227.3 59.9L228 60Z' },
+  { code: 'KG', name: 'Kyrgyzstan', d: 'M251 47.7L251.2 47.3L251.8 47.2L253.5 47.5L253.6 46.9L254.2 46.7L255.6 47.1L256 47L257.7 47L259.1 47.1L259.6 47.5L260.3 47.6L260.1 47.9L258.5 48.4L258.2 48.8L256.9 48.9L256.5 49.6L255.5 49.4L254.8 49.6L253.8 50.1L254 50.3L253.7 50.6L251.8 50.7L250.5 50.4L249.5 50.5L249.6 49.9L250.6 50.1L251 49.8L251.8 49.9L253.1 49.1L251.9 48.6L251.2 48.9L250.4 48.5L251.3 47.8L251 47.7Z' },
+  { code: 'LA', name: 'Laos', d: 'M287.4 75.8L286.5 75.4L286 76.1L285.2 75.7L285.5 75.3L285.6 74.4L284.8 73.6L284.7 72.6L284 71.8L283.2 71.7L283 72L282.4 72.1L282.1 71.9L281.1 72.5L281 71.6L281.3 70.5L280.6 70.5L280.5 69.9L280.1 69.6L280.3 69.2L281.2 68.6L281.3 68.8L281.8 68.8L281.7 67.7L282.2 67.5L282.8 68.3L283.2 69.2L284.4 69.2L284.8 70.1L284.2 70.4L283.9 70.7L285.1 71.3L285.9 72.5L286.6 73.4L287.3 74.1L287.6 74.8L287.4 75.8Z' },
+  { code: 'LV', name: 'Latvia', d: 'M207.3 32.5L207.8 32.8L207.9 33.2L208.2 33.8L207.1 34.2L206.5 34.4L205.5 33.9L205 33.8L204.9 33.6L203.9 33.7L202.2 33.7L201.1 34L201.1 33.2L201.6 32.6L202.5 32.2L203.3 33L204.1 33L204.3 32.2L205.2 32L205.6 32.2L206.5 32.5L207.3 32.5Z' },
+  { code: 'LB', name: 'Lebanon', d: 'M215.8 56.7L215.6 56.7L215.5 56.9L215.1 56.9L215.5 56.1L216 55.4L216.4 55.4L216.6 55.8L216.1 56.2L215.8 56.7Z' },
+  { code: 'LS', name: 'Lesotho', d: 'M209 119L209.3 119.3L209 119.7L208.8 120.1L208.3 120.2L208.1 120.5L207.8 120.6L207 119.9L207.5 119.2L208.1 118.9L208.5 118.6L209 119Z' },
+  { code: 'LR', name: 'Liberia', d: 'M171.6 82.3L171.5 82.6L171.6 83.1L171.4 83.5L171.7 83.8L172 83.9L172.4 84.3L172.5 84.7L172.4 84.8L172.3 85.6L172 85.6L171 85.2L170.1 84.4L169.2 83.9L168.6 83.2L168.8 82.9L168.9 82.6L169.3 82.1L169.8 81.6L170 81.6L170.2 81.5L170.7 82.1L170.6 82.5L170.8 82.7L171.1 82.7L171.3 82.3L171.6 82.3Z' },
+  { code: 'LY', name: 'Libya', d: 'M205 68L205 70L203.8 70L203.8 70.4L199.8 68.5L195.9 66.6L194.9 67.1L194.1 67.5L193.6 67L192 66.5L191.6 65.9L190.8 65.4L190.3 65.6L189.9 65.1L189.9 64.6L189.3 63.9L189.7 63.5L189.6 62.9L189.8 62.3L189.7 61.9L189.9 61L189.8 60.6L189.5 59.7L190 59.5L190.1 59L189.9 58.6L190.6 58.2L190.9 57.9L191.4 57.6L191.5 56.9L192.7 57.2L193.1 57.1L193.9 57.3L195.2 57.7L195.7 58.6L196.6 58.8L198 59.2L199.1 59.7L199.6 59.5L200.1 59L199.8 58.2L200.1 57.8L200.9 57.3L201.5 57.2L202.9 57.4L203.2 57.8L203.6 57.8L203.9 58L204.9 58.1L205.2 58.4L204.8 58.9L205 59.3L204.7 60L205 60.8L205 64.3L205 68Z' },
+  { code: 'LT', name: 'Lithuania', d: 'M206.5 34.4L206.6 34.8L205.8 35.2L205.5 35.7L204.4 36.1L203.5 36.1L203.2 35.8L202.7 35.7L202.6 35.4L202.8 35.1L202.3 35L201.3 34.8L201.1 34L202.2 33.7L203.9 33.7L204.9 33.6L205 33.8L205.5 33.9L206.5 34.4Z' },
+  { code: 'LU', name: 'Luxembourg', d: 'M186 39.9L186.2 40.1L186.2 40.5L185.9 40.6L185.7 40.5L185.8 39.9L186 39.9Z' },
+  { code: 'MK', name: 'Macedonia', d: 'M202.4 47.7L202.9 48L203 48.7L202.8 48.7L202.6 48.9L202.1 48.8L201.7 49.1L201 49.2L200.6 48.9L200.5 48.5L200.6 48.1L200.7 48.2L200.8 47.9L201.4 47.8L201.6 47.8L201.9 47.7L202.4 47.7Z' },
+  { code: 'MG', name: 'Madagascar', d: 'M229.5 102.5L229.8 102.9L230.1 103.6L230.2 104.8L230.5 105.2L230.4 105.7L230.2 106L229.9 105.4L229.7 105.7L229.9 106.5L229.8 106.9L229.5 107.1L229.4 108L229 109.1L228.5 110.5L227.9 112.4L227.5 113.8L227.1 114.9L226.3 115.2L225.4 115.6L224.8 115.3L224 115L223.8 114.5L223.7 113.6L223.3 112.8L223.3 112.1L223.4 111.3L223.9 111.2L223.9 110.8L224.4 110.1L224.5 109.4L224.2 109L224 108.3L224 107.4L224.3 106.9L224.4 106.2L224.9 106.2L225.5 106L225.9 105.8L226.3 105.8L226.9 105.2L227.7 104.6L228 104.1L227.9 103.7L228.3 103.8L228.8 103.1L228.9 102.5L229.2 102L229.5 102.5Z' },
+  { code: 'MW', name: 'Malawi', d: 'M212.8 99.2L213.7 99.4L213.9 99.7L214.3 100.2L214.6 101.5L214.3 102.3L214.6 103.6L214.9 103.6L215.3 103.9L215.7 104.6L215.8 105.9L215.3 106.1L215 106.8L214.4 106.2L214.3 105.5L214.5 105L214.5 104.6L214.1 104.4L213.8 104.5L213.2 104L212.7 103.7L213 102.8L213.3 102.4L213.1 101.6L213.3 100.8L213.5 100.5L213.2 99.7L212.8 99.2Z' },
+  { code: 'MY', name: 'Malaysia', d: 'M280.1 83.5L280.3 83.4L281.1 83.8L281.2 84.3L281.8 84.2L282.1 83.8L282.4 83.9L283 84.5L283.4 85.1L283.4 85.8L283.3 86.3L283.4 86.6L283.5 87.2L283.9 87.5L284.2 88.4L284.2 88.7L283.5 88.8L282.6 88L281.4 87.2L281.3 86.7L280.7 86.1L280.6 85.2L280.2 84.7L280.3 84L280.1 83.5ZM297.9 85.9L297 85.7L295.9 85.7L295.5 86.8L295.1 87.2L294.6 88.6L293.8 88.8L292.9 88.5L292.4 88.6L291.8 89.1L291.2 89L290.5 89.2L289.8 88.7L289.7 88L290.4 88.3L291.2 88.1L291.4 87.3L291.8 87.1L293 86.9L293.7 86.1L294.2 85.5L294.7 86L294.9 85.7L295.3 85.7L295.4 85L295.5 84.6L296.2 83.9L296.7 83.1L297.1 83.1L297.6 83.6L297.7 84L298.3 84.3L299.2 84.6L299.1 85L298.4 85L298.6 85.5L297.9 85.9Z' },
+  { code: 'ML', name: 'Mali', d: 'M168.5 77.6L168.5 77.2L168.4 76.9L168.1 76.6L167.9 76L167.8 75.4L168.2 75.2L168.3 74.6L168.7 74.6L169.3 74.9L169.9 74.7L170.3 74.7L170.5 74.5L174.5 74.5L174.7 73.8L174.5 73.7L174 69.4L173.5 65L175.1 65L178.5 67.2L181.8 69.4L182.1 69.9L182.7 70.1L183.1 70.3L183.2 70.9L184.3 70.8L184.3 73.1L183.7 73.8L183.6 74.4L182.7 74.6L181.4 74.7L181 75L180.4 75.1L179.7 75.1L179.5 74.9L178.9 75L178 75.4L177.8 75.8L177 76.2L176.9 76.5L176.5 76.7L176 76.5L175.7 76.8L175.6 77.5L174.8 78.3L174.8 78.6L174.5 79L174.6 79.6L174.2 79.8L174 79.9L173.8 79.5L173.5 79.6L173.3 79.6L173.2 79.9L172.4 79.9L172.1 79.7L172 79.8L171.7 79.5L171.7 79.2L171.6 79.1L171.4 79.2L171.4 78.9L171.6 78.6L171.2 78.2L171.1 77.9L170.9 77.7L170.7 77.7L170.4 77.8L170.1 77.9L169.8 78.2L169.4 78.1L169.1 77.8L169 77.8L168.7 77.9L168.5 77.9L168.5 77.6Z' },
+  { code: 'MR', name: 'Mauritania', d: 'M162.9 69L163.2 68.7L167.1 68.7L166.9 67.2L167.1 66.7L168.1 66.6L168 64.1L171.3 64.1L171.3 62.6L175.1 65L173.5 65L174 69.4L174.5 73.7L174.7 73.8L174.5 74.5L170.5 74.5L170.3 74.7L169.9 74.7L169.3 74.9L168.7 74.6L168.3 74.6L168.2 75.2L167.8 75.4L167.2 74.7L166.6 74L165.9 73.7L165.4 73.4L164.9 73.4L164.4 73.6L163.9 73.5L163.5 73.9L163.4 73.3L163.7 72.8L163.9 71.9L163.7 70.9L163.6 70.4L163.7 69.9L163.5 69.4L162.9 69Z' },
+  { code: 'MX', name: 'Mexico', d: 'M62.9 57.5L64 57.4L65.3 57.3L65.2 57.5L66.7 58L69 58.7L71 58.7L71.8 58.7L71.8 58.2L73.5 58.2L73.9 58.6L74.4 58.9L75 59.4L75.3 59.9L75.5 60.4L76.1 60.7L76.9 61L77.5 60.2L78.3 60.2L79 60.6L79.5 61.3L79.9 61.9L80.5 62.5L80.7 63.2L81 63.6L81.8 63.9L82.5 64.2L82.9 64.1L82.5 65L82.3 65.7L82.2 67.1L82.1 67.6L82.3 68.1L82.6 68.6L82.8 69.4L83.5 70.1L83.7 70.7L84.1 71.2L85.2 71.4L85.6 71.9L86.5 71.6L87.2 71.5L88 71.3L88.6 71.1L89.2 70.7L89.5 70.1L89.5 69.3L89.7 69L90.4 68.7L91.5 68.5L92.3 68.5L92.9 68.5L93.2 68.7L93.2 69.2L92.6 69.7L92.4 70.4L92.6 70.5L92.4 71L92.2 71.7L91.9 71.5L91.7 71.5L91.5 71.5L91.2 72.1L91 72L90.9 72L90.9 72.2L89.9 72.2L89 72.2L89 72.7L88.5 72.7L88.9 73.1L89.3 73.3L89.4 73.5L89.6 73.6L89.5 73.9L88.3 73.9L87.8 74.7L87.9 74.9L87.8 75.2L87.8 75.5L86.6 74.4L86.1 74.1L85.3 73.8L84.7 73.9L83.9 74.2L83.4 74.3L82.7 74.1L82 73.9L81.1 73.4L80.3 73.3L79.2 72.8L78.3 72.4L78.1 72.1L77.5 72L76.5 71.7L76.1 71.3L75 70.7L74.5 70.1L74.3 69.6L74.6 69.5L74.5 69.2L74.7 68.9L74.7 68.6L74.4 68.1L74.3 67.7L74 67.2L73.1 66.2L72.1 65.5L71.6 64.8L70.7 64.4L70.6 64.2L70.7 63.6L70.2 63.3L69.6 62.8L69.4 62.1L68.8 62.1L68.2 61.5L67.8 61L67.7 60.7L67.2 60L66.8 59.2L66.9 58.8L66.1 58.4L65.8 58.5L65.2 58.2L65.1 58.6L65.2 59.1L65.3 59.8L65.7 60.2L66.4 60.9L66.6 61.2L66.7 61.2L66.9 61.6L67 61.6L67.2 62.2L67.5 62.5L67.8 62.8L68.4 63.3L68.7 64.3L69 64.7L69.3 65.2L69.3 65.7L69.8 65.7L70.2 66.2L70.6 66.6L70.6 66.8L70.1 67.2L70 67.2L69.7 66.6L69.1 66L68.3 65.5L67.8 65.3L67.8 64.5L67.7 64L67.2 63.7L66.5 63.2L66.4 63.4L66.2 63.1L65.5 62.9L64.9 62.3L65 62.2L65.4 62.3L65.8 61.9L65.8 61.4L65.1 60.7L64.5 60.4L64.1 59.8L63.7 59.2L63.3 58.4L62.9 57.5Z' },
+  { code: 'MD', name: 'Moldova', d: 'M206.6 41.8L206.9 41.6L207.5 41.5L208.3 41.8L208.7 41.9L209.1 42.2L209.1 42.5L209.4 42.7L209.6 43.1L209.9 43.3L209.8 43.5L210 43.6L209.8 43.7L209.2 43.6L209.1 43.5L208.9 43.6L208.9 43.7L208.7 44.1L208.5 44.4L208.2 44.5L208.1 44.1L208.2 43.6L208.1 43.2L207.6 42.6L207.2 42.2L206.9 41.9L206.6 41.8Z' },
+  { code: 'MN', name: 'Mongolia', d: 'M267.8 40.7L268.8 40.5L270.7 39.7L272.2 39.2L273.1 39.5L274.1 39.5L274.8 40L275.8 40L277.3 40.3L278.2 39.6L277.8 39L278.9 38L280 38.4L280.9 38.5L282.1 38.7L282.3 39.5L283.7 39.9L284.6 39.7L285.9 39.6L286.9 39.7L287.9 40.2L288.5 40.7L289.4 40.7L290.7 40.9L291.6 40.6L292.9 40.5L294.4 39.8L295 39.9L295.5 40.2L296.7 40.1L296.2 40.9L295.5 41.9L295.7 42.3L296.3 42.1L297.3 42.3L298.1 41.9L298.9 42.3L299.8 43L299.7 43.3L298.9 43.2L297.4 43.3L296.7 43.6L296 44.3L294.5 44.7L293.5 45.2L292.4 45L291.9 44.9L291.3 45.5L291.7 45.9L291.8 46.3L291.1 46.6L290.4 47.1L289.2 47.5L287.7 47.5L286.1 47.9L285 48.4L284.5 48.1L283.3 48.1L281.8 47.5L280.8 47.3L279.5 47.5L277.5 47.3L276.3 47.3L275.8 46.7L275.3 45.8L274.7 45.6L273.5 45L272.1 44.9L270.9 44.7L270.6 44.3L271 43.1L270.3 42.3L268.9 41.9L268 41.4L267.8 40.7Z' },
+  { code: 'ME', name: 'Montenegro', d: 'M200.1 47.4L199.8 47.5L199.7 47.3L199.3 47.8L199.4 48.1L199.2 48L198.9 47.7L198.4 47.5L198.6 47.4L198.7 46.8L199 46.6L199.2 46.5L199.5 46.6L199.6 46.8L200 46.9L200.3 47.1L200.3 47.2L200.1 47.4Z' },
+  { code: 'MA', name: 'Morocco', d: 'M177.8 54.8L178.2 55.5L178.3 56.1L178.6 57.1L178.9 57.3L178.7 57.7L177.4 57.9L176.9 58.3L176.4 58.4L176.3 59.1L175.1 59.5L174.8 60L173.9 60.3L172.9 60.4L171.3 61.2L171.3 62.3L171.2 62.3L171.2 62.9L170.6 62.9L170.3 63.1L169.8 63.1L169.5 63L168.6 63.1L168.3 63.9L168 64L167.5 65.2L166.1 66.3L165.8 67.7L165.4 68.1L165.2 68.5L163 68.6L163 68.1L163.4 67.8L163.7 67.3L163.7 67L164 66.3L164.6 65.6L164.9 65.5L165.2 64.9L165.2 64.4L165.6 63.7L166.2 63.4L166.9 62.4L166.9 62.3L167.4 62L168.3 61.9L169.1 61.2L169.6 60.9L170.4 60.1L170.2 58.8L170.6 58L170.7 57.4L171.3 56.8L172.3 56.3L173.1 55.9L173.8 54.9L174.1 54.2L174.8 54.2L175.4 54.7L176.4 54.6L177.4 54.8L177.8 54.8Z' },
+  { code: 'MZ', name: 'Mozambique', d: 'M214.6 101.5L215.3 101.4L216.5 101.7L216.8 101.6L217.5 101.6L217.8 101.3L218.4 101.3L219.5 100.9L220.3 100.3L220.5 100.8L220.4 101.8L220.6 102.6L220.6 104.2L220.8 104.7L220.5 105.4L220.1 106.1L219.5 106.7L218.5 107.1L217.4 107.6L216.3 108.7L215.9 108.8L215.2 109.6L214.8 109.8L214.7 110.5L215.2 111.3L215.4 111.8L215.4 112.1L215.6 112.1L215.5 113.1L215.4 113.5L215.6 113.7L215.5 114.1L215 114.5L214.2 114.8L213 115.4L212.6 115.7L212.7 116.1L212.9 116.2L212.8 116.7L212.1 116.7L212 116.3L211.8 115.8L211.8 115.5L211.9 114.4L211.7 113.7L211.2 112.3L212.2 111.1L212.5 110.4L212.7 110.3L212.8 109.7L212.6 109.4L212.7 108.7L212.8 108L212.8 106.7L212.3 106.4L211.9 106.3L211.6 106.1L211.2 105.9L210.3 105.9L210.3 105.5L210.2 104.8L213.2 104L213.8 104.5L214.1 104.4L214.5 104.6L214.5 105L214.3 105.5L214.4 106.2L215 106.8L215.3 106.1L215.8 105.9L215.7 104.6L215.3 103.9L214.9 103.6L214.6 103.6L214.3 102.3L214.6 101.5Z' },
+  { code: 'MM', name: 'Myanmar', d: 'M280.1 69.6L279.5 69.8L279 70.2L278.3 70.3L277.8 71.4L277.4 71.6L277.9 72.4L278.5 73.2L278.9 73.8L278.5 74.7L278.2 74.9L278.4 75.4L279.1 76.2L279.2 76.7L279.2 77.2L279.6 78.1L279 79L278.6 80.1L278.5 79.3L278.8 78.6L278.4 78L278.5 76.9L278.1 76.4L277.8 75.2L277.6 73.9L277.2 73.1L276.5 73.6L275.4 74.3L274.8 74.2L274.2 74L274.5 72.7L274.3 71.8L273.5 70.6L273.7 70.3L273.1 70.1L272.4 69.3L272.3 68.5L272.7 68.7L272.7 68L273.2 67.7L273.1 67.3L273.3 67L273.3 65.9L274.1 66.1L274.6 65.3L274.6 64.8L275.2 64L275.1 63.4L276.4 62.7L277.1 62.9L277.1 62.3L277.4 62.1L277.3 61.7L277.9 61.7L278.2 62.3L278.7 62.5L278.7 63.3L278.7 64.1L277.7 64.9L277.6 66.1L278.7 65.9L278.9 66.9L279.5 67.1L279.2 67.9L280 68.3L280.4 68.4L281.1 68.2L281.2 68.6L280.3 69.2L280.1 69.6Z' },
+  { code: null, name: 'N. Cyprus', d: 'M212.7 54.9L212.8 54.9L212.9 54.6L213.7 54.6L214.6 54.3L213.9 54.8L214 54.9L213.9 54.9L213.7 55L213.5 55L213.5 54.9L213.4 54.8L213.2 54.8L212.9 54.9L212.7 54.9Z' },
+  { code: 'NA', name: 'Namibia', d: 'M199.9 114.8L199.9 118.5L199 119L198.5 119L197.8 118.9L197.4 118.8L197.2 118.4L196.8 118.1L196.3 118.6L195.6 117.8L195.2 117.1L195 116.1L194.7 115.4L194.4 113.9L194.4 112.7L194.3 112.1L193.9 111.7L193.4 110.9L192.8 109.7L192.6 109L191.8 108.1L191.7 107.3L192.2 107.1L192.8 106.9L193.5 107L194.1 107.4L194.2 107.4L198.3 107.3L199 107.8L201.4 107.9L203.2 107.5L204 107.3L204.7 107.4L205.1 107.6L205.1 107.7L204.5 107.9L204.2 107.9L203.6 108.3L203.2 107.9L201.7 108.2L200.9 108.3L200.9 111.8L199.9 111.8L199.9 114.8Z' },
+  { code: 'NP', name: 'Nepal', d: 'M268.1 62.1L268 62.6L268.2 63.2L268.1 63.6L267.2 63.6L266 63.4L265.3 63.3L264.7 62.8L263.3 62.6L262 62.1L261.1 61.6L260.1 61.2L260.5 60.3L261.1 59.8L261.5 59.6L262.3 59.9L263.3 60.5L263.9 60.7L264.2 61.2L265 61.4L265.8 61.8L267 62L268.1 62.1Z' },
+  { code: 'NL', name: 'Netherlands', d: 'M186.9 36.5L187.1 36.9L186.8 37.8L186.6 38.1L186 38.1L186.2 39.2L185.6 39L185 38.5L184 38.7L183.3 38.7L183.8 38.4L184.7 36.9L186.1 36.5L186.9 36.5Z' },
+  { code: 'NC', name: 'New Caledonia', d: 'M345.8 111.1L346.6 111.7L347.1 112.2L346.7 112.4L346.2 112.1L345.5 111.7L344.8 111.1L344.2 110.4L344 110.1L344.5 110.1L345 110.5L345.5 110.8L345.8 111.1Z' },
+  { code: 'NZ', name: 'New Zealand', d: 'M356.9 130.1L356.5 130.6L356 131.3L355.2 131.7L355.1 131.4L354.7 131.3L355.2 130.5L354.9 129.9L353.8 129.5L353.9 129.1L354.6 128.8L354.7 128L354.7 127.4L354.3 126.7L354.3 126.5L353.8 126.1L353.1 125.2L352.6 124.5L353 124.5L353.6 125L354.3 125.3L354.6 126.2L355.3 127.2L355.4 126.5L355.8 126.8L356 127.6L356.8 127.9L357.4 128L358 127.6L358.5 127.7L358.3 128.6L358 129.2L357.2 129.1L356.9 129.4L357 129.9L356.9 130.1ZM349.7 133.6L350.5 133L351.1 132.5L351.6 131.8L352 131.5L352.1 131L352.8 130.5L353 130.9L353.2 131.3L354 130.9L354.2 131.3L354.2 131.8L353.9 132.2L353.2 133L352.7 133.4L353.1 133.9L352.3 133.9L351.5 134.2L351.2 134.9L350.6 135.9L349.8 136.4L349.3 136.6L348.4 136.6L347.8 136.3L346.7 136.2L346.5 135.9L347 135.1L348.3 134.1L348.9 133.9L349.7 133.6Z' },
+  { code: 'NI', name: 'Nicaragua', d: 'M96.3 79.1L96.1 79.3L95.8 79.2L95.6 79L95.3 78.9L95.1 79L94.4 78.8L94.3 78.9L93.9 78.6L93.5 78.2L93.3 77.9L92.8 77.5L92.3 77.1L92.4 76.9L92.6 77.1L92.7 77L93 77L93.1 76.7L93.3 76.7L93.2 76.2L93.5 76.2L93.7 76.2L93.9 76L94.2 76.2L94.3 76L94.5 75.9L94.8 75.6L94.9 75.4L95.1 75.2L95.2 75.2L95.4 75.3L95.6 75.4L95.8 75.3L96 75.3L96.4 75.1L96.5 75L96.9 75L96.8 75.1L96.7 75.3L96.8 75.7L96.6 76L96.5 76.4L96.4 76.9L96.5 77.1L96.5 77.6L96.4 77.7L96.3 78.1L96.3 78.4L96.1 78.6L96.2 78.9L96.3 79.1Z' },
+  { code: 'NE', name: 'Niger', d: 'M194.9 67.1L195.1 68.7L195.5 69L195.5 69.3L195.9 69.6L195.7 70L195.3 72.1L195.2 73.4L194 74.3L193.5 75.6L194 76L194 76.6L194.6 76.7L194.5 77.1L194.2 77.2L194.2 77.5L194 77.5L193.3 76.4L193.1 76.4L192.3 77L191.5 76.7L191 76.6L190.7 76.8L190.1 76.7L189.5 77.1L189 77.2L187.8 76.7L187.3 76.9L186.8 76.9L186.4 76.5L185.4 76.1L184.4 76.3L184.1 76.5L184 77L183.7 77.4L183.6 78.3L182.8 77.8L182.5 77.8L182.2 78.1L182.2 77.4L181 77.1L181 76.7L180.4 76L180.3 75.6L180.4 75.1L181 75L181.4 74.7L182.7 74.6L183.6 74.4L183.7 73.8L184.3 73.1L184.3 70.8L185.7 70.4L188.6 68.4L192 66.5L193.6 67L194.1 67.5L194.9 67.1Z' },
+  { code: 'NG', name: 'Nigeria', d: 'M182.7 83.7L182.7 82.1L182.7 81.5L182.9 80.9L183.2 80.6L183.7 79.9L183.6 79.7L183.8 79.3L183.6 78.7L183.6 78.3L183.7 77.4L184 77L184.1 76.5L184.4 76.3L185.4 76.1L186.4 76.5L186.8 76.9L187.3 76.9L187.8 76.7L189 77.2L189.5 77.1L190.1 76.7L190.7 76.8L191 76.6L191.5 76.7L192.3 77L193.1 76.4L193.3 76.4L194 77.5L194.2 77.5L194.6 77.9L194.5 78.1L194.4 78.4L193.6 79.2L193.3 79.8L193.2 80.4L193 80.6L192.8 81.3L192.2 81.7L192.1 82.2L191.8 82.6L191.7 83L191.1 83.4L190.5 82.9L190.1 83L189.5 83.5L189.2 83.6L188.8 84.5L188.5 85.2L187.5 85.6L187.1 85.5L186.7 85.8L185.9 85.7L185.4 85.1L185 84.4L184.3 83.7L183.6 83.7L182.7 83.7Z' },
+  { code: 'KP', name: 'North Korea', d: 'M310.6 47.6L310.8 47.8L310.4 47.7L310 48.1L309.7 48.4L309.7 49.1L309.2 49.3L309 49.5L308.6 49.8L308 50L307.5 50.2L307.5 50.7L307.4 50.8L307.8 50.9L308.4 51.4L308.2 51.6L307.8 51.7L307.1 51.7L306.7 52.2L306.2 52.2L306.2 52.3L305.7 52.1L305.6 52.2L305.3 52.3L305.2 52.1L305 52.1L304.7 51.9L305 51.5L305.2 51.3L305.1 51.2L305.4 50.6L305.3 50.4L304.7 50.3L304.3 50.1L305.1 49.4L306.2 48.9L306.9 48.2L307.3 48.5L308.2 48.5L308.1 48L309.6 47.6L310 47L310.6 47.6Z' },
+  { code: 'NO', name: 'Norway', d: 'M195.1 10.3L195.5 10L197 9.9L198.3 10.3L201.5 11L199 11.4L198.5 12.2L197.6 12.4L197.1 13.2L195.9 13.2L193.8 12.6L194.7 12.3L193.2 12L191.2 11.1L190.4 10.3L193.2 10L193.7 10.3L195.1 10.3ZM211.1 20.4L209.4 20.8L208.6 20.9L209 20.2L207.7 19.8L206.2 20.2L205.7 20.9L204.7 21.4L203.7 21.1L202.4 21.2L201.2 20.6L200.6 20.9L200 20.9L199.9 21.6L198 21.4L197.7 22L196.8 22L196.1 22.7L195.1 23.8L193.6 25.2L193.9 25.6L193.6 26L192.6 25.9L191.9 26.9L192 28.2L192.6 28.7L192.3 29.9L191.5 30.6L191 31.1L190.4 30.5L188.4 31.7L187 31.9L185.7 31.4L185.3 30.3L185 28L185.9 27.4L188.6 26.5L190.5 25.5L192.4 24.1L194.8 22.2L196.4 21.4L199.2 20.2L201.4 19.7L203 19.8L204.5 19L206.4 19L208.2 18.8L211.3 19.5L210 19.8L211.1 20.4ZM207.4 9.9L205.9 10.5L203 10.6L200.1 10.4L199.9 10.2L198.5 10.1L197.4 9.7L200.5 9.4L201.9 9.6L202.9 9.3L205.4 9.6L207.4 9.9ZM204.7 12.1L202.5 12.6L200.7 12.3L201.4 12.1L200.8 11.7L202.9 11.5L203.3 11.9L204.7 12.1Z' },
+  { code: 'OM', name: 'Oman', d: 'M235.2 67.3L235.2 66.9L235.5 66.5L235.5 66.1L236 65.9L235.8 65.7L235.9 65.1L236.4 65.1L236.8 65.8L237.4 66.1L238.1 66.3L238.7 66.4L239.2 67L239.4 67.3L239.8 67.5L239.8 67.7L239.4 68.3L239.3 68.6L238.9 68.9L238.5 69.6L238 69.5L237.8 69.8L237.7 70.3L237.8 70.9L237.7 71.1L237.2 71.1L236.6 71.4L236.5 71.9L236.3 72.1L235.7 72.1L235.3 72.4L235.3 72.8L234.8 73.1L234.2 73L233.6 73.3L233.1 73.3L232.8 72.7L232 71L235 70L235.7 68L235.2 67.3ZM236.3 64.3L236.1 63.9L236.4 63.6L236.5 63.7L236.4 64.1L236.3 64.3Z' },
+  { code: 'PK', name: 'Pakistan', d: 'M257.8 54.5L256.9 55.3L255.8 55.5L254.2 55.3L253.7 55.7L254.1 56.6L254.5 57.2L255.3 57.7L254.4 58.3L254.4 59L253.4 60L252.8 61L251.8 62.1L250.6 62L249.5 63.1L250.2 63.5L250.3 64.3L250.8 64.8L251 65.6L248.8 65.6L248.2 66.3L247.4 66.1L247.1 65.3L246.4 64.6L244.5 64.8L242.9 64.8L241.5 64.9L241.9 63.8L243.3 63.2L243.2 62.8L242.8 62.6L242.7 61.7L241.8 61.3L241.4 60.7L240.9 60.2L242.5 60.7L243.5 60.5L244.1 60.7L244.3 60.4L245 60.5L246.3 60.1L246.4 59.3L246.9 58.7L247.7 58.7L247.8 58.4L248.6 58.3L248.9 58.4L249.3 58.1L249.3 57.5L249.7 56.9L250.3 56.6L249.9 56L250.9 56L251.2 55.7L251.1 55.3L251.6 54.8L251.5 54.3L251.3 53.9L251.8 53.5L252.9 53.3L254.1 53.2L254.6 53L255.2 52.9L255.9 53.3L256.2 54.1L257.8 54.5Z' },
+  { code: 'PS', name: 'Palestine', d: 'M215.4 58.5L214.9 58.6L215 58.4L215.2 58.2L215 58.1L215.2 57.5L215.5 57.6L215.5 58.2L215.4 58.5Z' },
+  { code: 'PA', name: 'Panama', d: 'M102.6 81.3L102.5 81.5L102.8 82.1L102.6 82.4L102.2 82.3L102.1 82.8L101.8 82.5L101.6 81.9L101.8 81.7L101.6 81.6L101.4 81.3L100.9 81L100.4 81.1L100.2 81.4L99.8 81.7L99.6 81.7L99.5 81.9L100 82.5L99.7 82.6L99.6 82.7L99.1 82.8L98.9 82.2L98.8 82.4L98.5 82.3L98.3 81.9L97.9 81.8L97.6 81.7L97.2 81.7L97.2 81.9L97 81.8L97.1 81.6L97.2 81.4L97.1 81.2L97.3 81.1L97.1 80.9L97.1 80.5L97.5 80.4L97.8 80.8L97.8 81L98.2 81L98.3 81L98.6 81.2L99.1 81.1L99.5 80.9L100.1 80.7L100.4 80.4L101 80.4L100.9 80.5L101.5 80.6L101.9 80.8L102.3 81.1L102.6 81.3Z' },
+  { code: 'PG', name: 'Papua New Guinea', d: 'M321 92.6L322.7 93.3L324.6 93.9L325.3 94.4L325.8 94.9L326 95.5L327.6 96.1L327.9 96.6L327 96.7L327.2 97.4L328.1 98L328.7 99.1L329.3 99.1L329.3 99.5L330 99.7L329.7 99.9L330.8 100.3L330.7 100.6L330 100.7L329.8 100.4L328.9 100.3L327.9 100.1L327.1 99.5L326.6 98.9L326 98.1L324.7 97.6L323.9 97.9L323.3 98.2L323.4 99L322.6 99.3L322.1 99.2L321 99.1L321 95.9L321 92.6ZM332.6 93.7L333 94L333.1 94.5L332.8 94.8L332.6 94.2L332.4 93.8L332 93.5L331.4 93L330.7 92.7L330.9 92.5L331.5 92.8L331.8 93L332.2 93.2L332.6 93.7ZM331.3 95.8L330.8 96.1L330.2 96.3L329.7 96.3L328.9 96L328.3 95.7L328.4 95.4L329.3 95.6L329.8 95.5L330 95L330.1 95L330.2 95.5L330.8 95.5L331.1 95.1L331.6 94.8L331.5 94.2L332.1 94.1L332.3 94.3L332.3 94.9L332 95.5L331.5 95.6L331.3 95.8ZM334.8 95.3L335.1 95.6L335.5 96.2L336 96.5L335.9 96.8L335.6 96.9L335.2 96.5L334.7 95.9L334.5 95.1L334.7 95L334.8 95.3Z' },
+  { code: 'PY', name: 'Paraguay', d: 'M121.8 110.2L122.1 110.7L122.1 112.1L123.1 112.3L123.5 112.1L124.2 112.4L124.4 112.7L124.5 113.6L124.6 114L125 114L125.3 113.8L125.7 114L125.7 114.6L125.6 115.2L125.4 115.7L125.2 116.6L124.3 117.4L123.5 117.5L122.4 117.4L121.4 117.1L122.4 115.6L122.2 115.2L121.2 114.8L120 114L119.2 113.9L117.3 112.2L117.7 111.1L117.7 110.5L118.2 109.6L120 109.3L120.9 109.4L121.8 109.9L121.8 110.2Z' },
+  { code: 'PE', name: 'Peru', d: 'M110.1 94.3L109.2 94.3L109.1 94.4L108.3 94.6L107.1 95.3L107 95.7L106.8 96.1L106.9 96.6L106.3 96.9L106.3 97.3L106 97.5L106.4 98.4L107 99L106.8 99.5L107.4 99.5L107.8 100.1L108.7 100.1L109.5 99.5L109.5 101L109.9 101.1L110.5 101L111.3 102.6L111.1 102.9L111.1 103.6L111.1 104.5L110.7 105L110.8 105.3L110.6 105.7L111 106.5L110.4 107.6L110.1 108.1L109.6 108.3L108.6 107.8L108.5 107.4L106.6 106.4L104.8 105.3L104 104.6L103.6 103.8L103.7 103.5L102.9 102.2L101.9 100.4L101 98.4L100.6 97.9L100.2 97.2L99.5 96.5L98.7 96.1L99.1 95.7L98.6 94.7L98.9 94L99.7 93.4L99.8 93.8L99.5 94.1L99.6 94.4L100 94.3L100.4 94.5L100.8 95L101.4 94.5L101.5 93.9L102.2 93L103.4 92.6L104.5 91.6L104.8 90.9L104.6 90.2L104.9 90.1L105.6 90.5L105.9 91L106.3 91.3L106.9 92.3L107.7 92.4L108.2 92.2L108.6 92.3L109.2 92.3L110 92.7L109.3 93.7L109.6 93.8L110.1 94.3Z' },
+  { code: 'PH', name: 'Philippines', d: 'M300.8 77.3L300.3 76.5L301.2 76.6L301.5 76.9L301.3 77.8L300.8 77.3ZM302.6 80L302.8 79.7L302.9 79.1L303.5 79.1L303.3 79.7L304.1 78.8L304 79.7L303.6 80.1L303.3 80.7L303 81L302.4 80.3L302.6 80ZM306.4 81.6L306.5 82.2L306.5 82.8L306.2 83.7L305.8 82.7L305.4 83.2L305.7 84L305.4 84.4L304.2 83.8L303.9 83.1L304.2 82.6L303.6 82.2L303.3 82.6L302.8 82.5L302.1 83.1L301.9 82.8L302.3 82L302.9 81.7L303.5 81.3L303.8 81.8L304.6 81.5L304.8 81L305.5 81L305.4 80.2L306.2 80.7L306.3 81.2L306.4 81.6ZM298.5 80.7L297.2 81.6L297.7 80.9L298.4 80.3L299 79.6L299.5 78.6L299.7 79.4L299 80L298.5 80.7ZM302.3 71.8L302.2 72.2L302.5 72.9L302.3 73.7L301.7 74.1L301.5 74.9L301.7 75.7L302.3 75.8L302.7 75.7L304 76.2L303.9 76.8L304.2 77L304.1 77.5L303.3 77L302.9 76.4L302.7 76.8L302 76.2L301.1 76.4L300.6 76.1L300.7 75.7L301 75.5L300.7 75.2L300.6 75.6L300.1 75L299.9 74.6L299.9 73.6L300.3 74L300.4 72.4L300.7 71.5L301.3 71.5L301.9 71.8L302.2 71.5L302.3 71.8ZM302 78.6L301.9 78.1L302.5 78.4L303.1 78.4L303.1 78.8L302.6 79.3L302 79.6L302 79.1L302 78.6ZM305.5 77.8L305.8 79L305 78.7L305 79L305.3 79.6L304.8 79.9L304.8 79.2L304.5 79.1L304.3 78.5L304.9 78.6L304.9 78.2L304.3 77.4L305.2 77.5L305.5 77.8Z' },
+  { code: 'PL', name: 'Poland', d: 'M203.5 36.1L203.5 36.5L203.8 36.9L203.8 37.3L203.2 37.5L203.5 38L203.5 38.4L204 39.3L203.9 39.6L203.4 39.7L202.5 40.5L202.8 41L202.6 40.9L201.6 40.5L200.9 40.7L200.4 40.6L199.8 40.8L199.3 40.4L198.9 40.6L198.9 40.5L198.4 40L197.6 40L197.6 39.6L196.9 39.5L196.7 39.8L196.2 39.6L196.2 39.3L195.5 39.2L195 38.9L194.6 38.3L194.7 37.9L194.4 37.4L194.1 37L194.4 36.8L194.1 36.2L194.8 35.9L196.4 35.5L197.6 35.1L198.6 35.3L198.7 35.6L199.7 35.6L200.9 35.7L202.7 35.7L203.2 35.8L203.5 36.1Z' },
+  { code: 'PT', name: 'Portugal', d: 'M171 48.1L171.3 47.9L171.7 47.7L172 48.2L172.6 48.2L172.7 48.1L173.3 48.1L173.6 48.6L173.1 48.9L173.1 49.7L173 49.8L172.9 50.3L172.5 50.4L172.9 51L172.6 51.6L173 51.9L172.8 52.2L172.5 52.6L172.5 52.9L172.1 53.2L171.6 53L171.1 53.1L171.3 52.3L171.2 51.7L170.7 51.6L170.5 51.3L170.6 50.6L171 50.2L171 49.8L171.2 49.2L171.2 48.8L171 48.5L171 48.1Z' },
+  { code: 'PR', name: 'Puerto Rico', d: 'M113.7 71.5L114.2 71.6L114.4 71.8L114.2 72L113.4 72L112.8 72.1L112.8 71.6L112.9 71.5L113.7 71.5Z' },
+  { code: 'QA', name: 'Qatar', d: 'M230.8 65.2L230.7 64.5L231 64L231.3 63.9L231.6 64.2L231.6 64.8L231.4 65.4L231.1 65.4L230.8 65.2Z' },
+  { code: 'RO', name: 'Romania', d: 'M208.2 44.5L208.7 44.7L209.2 44.5L209.6 44.7L209.6 45L209.1 45.2L208.8 45.1L208.6 46.3L208 46.2L207.2 45.8L206.1 46.1L205.6 46.3L204.1 46.3L203.3 46.1L202.9 46.2L202.7 45.8L202.5 45.6L202.7 45.4L202.5 45.3L202.1 45.5L201.6 45.2L201.5 44.8L200.9 44.6L200.8 44.3L200.2 43.9L201 43.7L201.6 43L202.1 42.3L202.7 42.1L203.1 41.9L203.8 42L204.4 42L204.9 42.3L205.2 42.1L205.9 42L206.2 41.8L206.6 41.8L206.9 41.9L207.2 42.2L207.6 42.6L208.1 43.2L208.2 43.6L208.1 44.1L208.2 44.5Z' },
+  { code: 'RU', name: 'Russia', d: 'M273.8 9L275.9 8.7L277.9 9.3L280.2 10.2L279.9 11.1L277.8 11.2L275 11L273.3 10.6L272.5 9.9L271.2 9.7L273.8 9ZM282.8 10.7L285.4 11.3L285.1 11.7L279.4 12.1L281.3 10.8L282.1 10.7L282.8 10.7ZM318.8 13.9L321.5 13.9L325.1 14.4L324.3 15.2L320.6 15.2L319 15.4L317 14.7L317.5 14.1L318.8 13.9ZM328.2 14.7L330.7 14.9L329.6 15.3L328 15.2L326.1 14.8L326.4 14.5L328.2 14.7ZM319.9 16.6L320.8 16.2L322.1 16.1L323.5 16.5L323.6 16.8L322.1 16.8L320 16.7L319.9 16.6ZM224.8 9.4L226.8 9.2L228.3 9.2L228.5 9.5L229.1 9.2L230 9.1L231.5 9.3L231.1 9.5L229.8 9.6L228.9 9.7L228.8 9.8L227.6 10L226.5 9.8L227.1 9.4L224.8 9.4ZM202.7 35.7L200.9 35.7L199.7 35.6L199.9 35.1L201.3 34.8L202.3 35L202.8 35.1L202.6 35.4L202.7 35.7ZM233.5 16.2L235.9 15.4L235.6 14.9L237.9 14.4L241.2 13.7L244.5 13.6L246.2 13.2L248.2 13.1L248.9 13.5L248.2 13.8L244.6 14.3L241.6 14.7L238.5 15.7L237 16.7L235.4 17.6L235.6 18.5L237.5 19.3L236.9 19.4L233.7 19.2L233.4 18.8L231.6 18.5L231.5 18L232.5 17.8L232.4 17.2L234.4 16.4L233.5 16.2ZM322.9 36.3L323.3 37.3L323.2 38.2L323.6 39.3L324.7 41L323.2 40.7L322.6 42.1L323.5 43.2L323.5 43.9L322.7 43.3L322.1 44L321.9 43.2L322 42.2L321.9 41.1L322.1 40.4L322.2 39L321.6 38.1L321.7 36.7L322.6 36.2L322.2 35.8L322.7 35.6L322.9 36.3ZM310.8 47.8L310.6 47.6L310.6 47.1L311.1 47.1L311.3 45.9L311 45L311.9 44.7L313.1 44.9L313.8 43.9L314.1 42.8L314.5 42.4L315 41.5L313.4 41.8L312.5 42.2L311 42.2L310.6 41.3L309.4 40.6L307.7 40.2L307.3 39.3L306.9 38.6L306.6 38.2L305.9 37.2L305.1 36.8L303.6 36.5L302.2 36.6L301 36.7L300.2 37.2L300.7 37.5L300.7 38L300.2 38.4L299.3 39.4L299.3 39.9L297.9 40.5L296.7 40.1L295.5 40.2L295 39.9L294.4 39.8L292.9 40.5L291.6 40.6L290.7 40.9L289.4 40.7L288.5 40.7L287.9 40.2L286.9 39.7L285.9 39.6L284.6 39.7L283.7 39.9L282.3 39.5L282.1 38.7L280.9 38.5L280 38.4L278.9 38L277.8 39L278.2 39.6L277.3 40.3L275.8 40L274.8 40L274.1 39.5L273.1 39.5L272.2 39.2L270.7 39.7L268.8 40.5L267.8 40.7L267.4 40.8L266.8 40.2L265.5 40.3L265.1 39.9L264.4 39.7L263.9 39.1L263.4 38.9L261.9 39.2L260.6 38.6L260 39.1L257.8 36.6L256.5 35.8L256.9 35.5L254.4 36.5L253.4 36.5L253.5 36L252.2 35.6L251.2 35.9L250.9 34.8L249.1 34.6L248.2 35L245.7 35.4L245.2 35.6L241.4 36L241 36.3L241.7 37L240.7 37.3L240.9 37.6L240 38L241.6 38.7L241.3 39.2L239.9 39.2L239.6 39.5L238.4 38.9L236.8 39L235.7 39.4L234.5 39L232.3 38.3L230.8 38.3L228.7 39.4L228.6 40.1L227.6 39.5L226.8 40.6L227 40.8L226.5 41.6L227.3 42.3L228.1 42.3L228.7 42.9L228.6 43.4L229.1 43.6L228.6 44.2L227.7 44.4L226.7 45.4L227.6 46.3L227.5 47L228.6 48.2L228 48.6L227.8 48.8L227.4 48.8L226.7 48.2L226.4 48.1L225.8 47.9L225.5 47.5L224.5 47.3L223.9 47.4L223.8 47.3L222.4 46.8L220.9 46.6L220.1 46.4L220 46.6L218.7 45.7L217.5 45.3L216.7 44.8L217.4 44.6L218.2 43.8L217.7 43.4L219.1 43L219.1 42.7L218.2 42.9L218.3 42.5L218.8 42.2L219.7 42.1L219.9 41.8L219.7 41.2L220.1 40.7L220.1 40.4L218.6 40.1L218 40.1L217.4 39.6L216.6 39.8L215.4 39.4L215.4 39.2L215 38.8L214.2 38.7L214.1 38.4L214.4 38.2L213.8 37.7L212.7 37.8L212.4 37.7L212.2 37.9L211.8 37.9L211.5 37.3L211.3 36.9L211.5 36.8L212.3 36.9L212.7 36.6L212.4 36.4L211.7 36.2L211.8 36L211.4 35.8L210.8 35.2L211 34.9L210.9 34.4L209.9 34.2L209.4 34.3L209.2 34.1L208.2 33.8L207.9 33.2L207.8 32.8L207.3 32.5L207.7 32.2L207.4 31.3L208.1 30.7L208 30.5L209.1 30L208.1 29.5L210.2 28.2L211.1 27.6L211.5 27.1L210 26.4L210.4 25.8L209.5 25.1L210.2 24.2L209.1 23.1L210 22.3L208.4 21.6L208.6 20.9L209.4 20.8L211.1 20.4L212.1 20.1L213.8 20.7L216.5 20.9L220.3 22.1L221.1 22.5L221.1 23.2L220 23.7L218.4 24L213.9 23.2L213.2 23.4L214.8 24.1L214.9 24.6L214.9 25.6L216.2 25.9L217 26.1L217.1 25.7L216.5 25.2L217.2 24.9L219.6 25.5L220.4 25.2L219.8 24.5L222.1 23.5L223 23.6L224 23.9L224.5 23.2L223.7 22.6L224.2 22L223.5 21.4L226.3 21.8L226.8 22.3L225.6 22.4L225.6 23L226.3 23.3L227.9 23.1L228.1 22.5L230.2 22L233.7 21.1L234.5 21.2L233.5 21.8L234.7 21.9L235.4 21.6L237.3 21.5L238.8 21.1L239.9 21.7L241.1 21.1L240 20.5L240.6 20.1L243.5 20.5L244.9 20.8L248.5 21.9L249.2 21.4L248.2 20.9L248.1 20.6L246.9 20.5L247.3 20.1L246.7 19.3L246.7 19L248.5 18.1L249.2 17.2L249.9 17L252.6 17.2L252.8 17.8L251.8 18.6L252.5 18.9L252.8 19.6L252.6 21L253.7 21.6L253.2 22.3L251.3 23.7L252.4 23.8L252.8 23.5L253.9 23.2L254.2 22.7L255.1 22.2L254.5 21.7L254.9 21L253.8 20.9L253.6 20.4L254.4 19.4L253.1 18.6L254.9 17.9L254.7 17.2L255.2 17.1L255.7 17.7L255.3 18.7L256.4 18.8L255.9 18.1L257.6 17.7L259.7 17.7L261.5 18.3L260.6 17.4L260.5 16.4L262.2 16.1L264.7 16.2L266.8 16.1L266 15.5L267.2 14.9L268.3 14.9L270.3 14.4L272.9 14.2L273.2 14L275.9 13.9L276.7 14.1L278.9 13.6L280.8 13.6L281 13.1L282 12.7L284.4 12.3L286.1 12.6L284.7 12.9L287 13L287.2 13.5L288.2 13.3L291.1 13.3L293.3 13.8L294.1 14.2L293.9 14.7L292.8 15L290.2 15.5L289.4 15.8L290.6 16L292.1 16.2L293 16L293.5 16.7L294 16.4L295.6 16.2L298.8 16.4L299 16.9L303.2 17L303.3 16.3L305.4 16.4L307 16.4L308.6 17L309.1 17.6L308.5 18L309.7 18.8L311.3 19.2L312.3 18.2L313.9 18.6L315.6 18.3L317.5 18.7L318.2 18.4L319.9 18.5L319.1 17.6L320.5 17.2L329.5 17.8L330.4 18.4L333 19.2L337 19L339 19.1L339.8 19.5L339.7 20.3L340.9 20.6L342.3 20.4L344.1 20.3L345.9 20.5L347.8 20.4L349.6 21.3L350.8 21L350 20.3L350.5 19.9L353.6 20.2L355.7 20.1L358.6 20.6L0 21L2.5 21.8L5.1 22.8L5 23.4L5.7 23.7L5.4 22.9L8.1 23.1L10.1 24L9.1 24.5L7.5 24.6L7.4 25.5L7 25.7L6.1 25.7L5.3 25.4L4 25.1L3.8 24.6L2.8 24.5L1.6 24.6L1.1 24.3L1.3 23.9L0.1 24.1L0.6 24.6L0 25L360 25L358.7 25.5L357.4 25.4L358.3 25.9L358.9 26.7L359.4 27L359.5 27.4L359.2 27.7L357.4 27.5L354.6 28.2L353.7 28.3L352.1 29.1L350.7 29.7L350.3 30.1L348.9 29.4L346.3 30.2L345.8 29.8L344.9 30.3L343.5 30.1L343.2 30.8L342 31.8L342.1 32.2L343.2 32.4L343.1 33.8L342.1 33.9L341.7 34.7L342.1 35.1L340.4 35.7L340 36.8L338.5 37L338.2 38.1L336.8 39L336.4 38.3L336 36.8L335.4 34.6L335.9 33.2L336.8 32.6L336.8 32.2L338.4 31.9L340.1 30.7L341.9 29.7L343.7 28.9L344.5 27.4L343.3 27.5L342.7 28.4L340.1 29.5L339.3 28.2L336.7 28.6L334.2 30.2L335 30.9L332.8 31.1L331.3 31.2L331.3 30.5L329.8 30.3L328.5 30.8L325.5 30.7L322.2 31L319 32.9L315.1 35.3L316.7 35.4L317.2 36L318.2 36.2L318.8 35.7L319.9 35.8L321.3 36.9L321.4 37.8L320.6 38.8L320.5 40L320.1 41.6L318.6 43L318.2 43.7L316.9 44.9L315.5 46L314.9 46.6L313.5 47.2L312.9 47.2L312.3 46.7L310.9 47.4L310.8 47.8ZM0 18.5L0.1 18.4L1 18.4L2.4 18.7L2.3 18.9L1.3 19.1L0 19.2L358.9 19.2L358.7 18.9L0 18.5ZM213.4 44L213.7 43.8L214.4 44L214.7 44L214.9 44.2L215 44.3L215.5 44.6L216.5 44.5L216.3 44.9L215.2 45.1L213.9 45.6L213.3 45.4L213.5 45L212.5 44.7L212.6 44.5L213.6 44.1L213.4 44Z' },
+  { code: 'RW', name: 'Rwanda', d: 'M210.4 91.1L210.8 91.7L210.8 92.3L210.5 92.4L209.9 92.3L209.6 92.9L209 92.8L209.1 92.3L209.3 92.2L209.3 91.6L209.6 91.3L209.8 91.4L210.4 91.1Z' },
+  { code: 'SS', name: 'S. Sudan', d: 'M210.8 86.5L210 85.8L209.7 85.4L209.2 85.6L208.7 85.5L208.4 85.7L208 85.6L207.4 84.8L207.2 84.4L206.5 84.1L206.2 83.5L205.8 83L205.1 82.5L205.1 82.2L204.6 81.8L203.9 81.4L204.2 81.3L204.5 81.1L204.8 80.2L205.1 79.7L205.8 79.6L206 79.9L206.5 80.4L206.8 80.5L207.1 80.4L207.8 80.4L208 80.6L209 80.6L209 80.4L209.5 80.2L209.6 79.9L210 79.7L210.8 80.3L211.4 80.2L211.9 79.5L212.4 78.9L212.3 78.3L212.1 78L212.7 78L212.7 77.8L213.2 77.8L213.1 78.6L213.2 79.3L213.7 79.7L213.8 80L213.8 80.5L214 80.5L214 81.3L213.8 81.6L213.3 81.6L213 82.2L213.6 82.3L214.1 82.8L214.2 83.2L214.7 83.4L215.3 84.5L214.6 85.2L214 85.7L213.4 86.2L212.7 86.2L211.9 86.4L211.2 86.2L210.8 86.5Z' },
+  { code: 'SA', name: 'Saudi Arabia', d: 'M215 60.6L216.1 60.8L216.5 60.5L216.7 60.1L217.5 60L217.7 59.7L218 59.5L217 58.5L219 58L219.2 57.8L220.4 58.1L221.9 58.8L224.7 60.8L226.6 60.9L227.5 61L227.7 61.5L228.4 61.4L228.8 62.3L229.3 62.5L229.5 62.9L230.2 63.3L230.2 63.7L230.1 64.1L230.2 64.4L230.5 64.7L230.7 65L230.8 65.2L231.1 65.4L231.4 65.4L231.6 65.8L231.6 66L232 67L235 67.5L235.2 67.3L235.7 68L235 70L232 71L229.1 71.4L228.2 71.8L227.5 72.9L227 73.1L226.7 72.7L226.4 72.8L225.4 72.7L225.2 72.6L224.1 72.6L223.8 72.7L223.4 72.4L223.1 72.9L223.2 73.3L222.8 73.7L222.6 73.2L222.3 72.9L222.3 72.5L221.8 72.2L221.2 71.3L220.9 70.5L220.2 69.8L219.8 69.7L219.1 68.7L219 68L219.1 67.4L218.5 66.3L218 65.9L217.5 65.7L217.2 65.1L217.2 64.9L216.9 64.4L216.6 64.2L216.3 63.4L215.6 62.6L215.1 61.9L214.6 61.9L214.8 61.4L214.8 61L215 60.6Z' },
+  { code: 'SN', name: 'Senegal', d: 'M163.3 76.4L162.9 75.6L162.4 75.3L162.8 75.1L163.3 74.4L163.5 73.9L163.9 73.5L164.4 73.6L164.9 73.4L165.4 73.4L165.9 73.7L166.6 74L167.2 74.7L167.8 75.4L167.9 76L168.1 76.6L168.4 76.9L168.5 77.2L168.5 77.6L168.3 77.6L167.8 77.5L167.7 77.6L167.5 77.7L166.8 77.4L166.3 77.4L164.5 77.4L164.2 77.5L163.9 77.5L163.3 77.6L163.2 76.8L164.1 76.9L164.3 76.7L164.5 76.7L164.9 76.5L165.3 76.7L165.7 76.7L166.2 76.5L166 76.2L165.6 76.4L165.3 76.4L164.9 76.1L164.6 76.1L164.4 76.4L163.3 76.4Z' },
+  { code: 'RS', name: 'Serbia', d: 'M198.8 44.1L199.6 43.8L200.2 43.9L200.8 44.3L200.9 44.6L201.5 44.8L201.6 45.2L202.1 45.5L202.5 45.3L202.7 45.4L202.5 45.6L202.7 45.8L202.4 46L202.5 46.4L203 46.8L202.6 47.1L202.4 47.4L202.5 47.5L202.4 47.7L201.9 47.7L201.6 47.8L201.5 47.7L201.7 47.6L201.8 47.3L201.6 47.3L201.4 47.1L201.3 47.1L201.1 46.9L201 46.9L200.8 46.7L200.6 46.8L200.5 47.1L200.3 47.2L200.3 47.1L200 46.9L199.6 46.8L199.5 46.6L199.2 46.5L199.5 46.4L199.6 46L199.1 45.6L199.4 45.1L199 45.1L199.4 44.8L199.1 44.5L198.8 44.1Z' },
+  { code: 'SL', name: 'Sierra Leone', d: 'M166.8 81.1L167.3 80.7L167.4 80.4L167.6 80.2L167.8 80.1L168.1 80L168.9 80L169.2 80.3L169.4 80.7L169.3 81L169.5 81.3L169.5 81.7L169.8 81.6L169.3 82.1L168.9 82.6L168.8 82.9L168.6 83.2L168.3 83.1L167.6 82.7L167.1 82.2L166.9 81.8L166.8 81.1Z' },
+  { code: 'SK', name: 'Slovakia', d: 'M202.6 40.9L202.3 41.2L202.1 41.6L201.9 41.7L200.8 41.4L200.5 41.4L200.2 41.7L199.8 41.8L199.7 41.7L199.2 41.9L198.8 41.9L198.7 42.1L197.9 42.2L197.5 42.1L197 41.9L196.9 41.5L197 41.4L197.1 41.2L197.5 41.2L197.9 41.1L197.9 41L198.1 41L198.2 40.7L198.4 40.7L198.6 40.5L198.9 40.5L198.9 40.6L199.3 40.4L199.8 40.8L200.4 40.6L200.9 40.7L201.6 40.5L202.6 40.9Z' },
+  { code: 'SI', name: 'Slovenia', d: 'M193.8 43.5L194.6 43.6L195.1 43.3L196 43.3L196.2 43.1L196.4 43.2L196.6 43.5L195.8 43.8L195.7 44.2L195.3 44.3L195.3 44.5L194.9 44.5L194.6 44.4L194.4 44.5L193.7 44.5L193.9 44.4L193.7 44L193.8 43.5Z' },
+  { code: 'SB', name: 'Solomon Is.', d: 'M342.1 100.5L342.4 100.8L341.7 100.8L341.3 100.2L341.9 100.4L342.1 100.5ZM341.7 99.6L341.5 99.8L340.8 98.9L340.6 98.3L340.9 98.3L341.3 99.1L341.7 99.6ZM340.9 99.9L340.5 99.9L339.9 99.8L339.6 99.6L339.7 99.2L340.4 99.4L340.7 99.6L340.9 99.9ZM339.6 98L339.9 98.3L339.9 98.5L339.1 98.1L338.6 97.8L338.2 97.4L338.4 97.3L338.8 97.6L339.6 98ZM337.1 97L337.5 97.3L337.3 97.4L336.9 97.2L336.5 96.8L336.5 96.6L337.1 97Z' },
+  { code: 'SO', name: 'Somalia', d: 'M221.6 91.7L221 90.9L221 87.2L221.9 86.1L222.1 85.8L222.8 85.7L223.7 85L225 85L227.8 82L228.5 81.2L228.9 80.5L228.9 80L228.9 79L228.9 78.6L229.3 78.6L229.7 78.4L230.3 78.3L230.7 78L231.1 78L231.1 78.3L231 78.8L231 79.4L230.8 79.7L230.6 80.8L230.1 81.9L229.5 83.2L228.6 84.7L227.7 85.8L226.6 87.1L225.6 88L224.1 88.9L223.1 89.7L222 90.9L221.8 91.4L221.6 91.7Z' },
+  { code: null, name: 'Somaliland', d: 'M228.9 78.6L228.9 79L228.9 80L228.9 80.5L228.5 81.2L227.8 82L226.9 82L223.7 80.8L223.3 80.5L222.9 80L222.6 79.4L222.8 79.1L223.1 78.5L223.5 78.7L223.7 79.1L224.1 79.6L224.6 79.6L225.6 79.3L226.6 79.2L227.5 78.9L228 78.8L228.4 78.6L228.9 78.6Z' },
+  { code: 'ZA', name: 'South Africa', d: 'M196.3 118.6L196.8 118.1L197.2 118.4L197.4 118.8L197.8 118.9L198.5 119L199 119L199.9 118.5L199.9 114.8L200.2 114.9L200.8 115.9L200.7 116.5L200.9 116.8L201.6 116.7L202.1 116.3L202.6 116L202.8 115.5L203.3 115.3L203.7 115.4L204.2 115.7L205 115.7L205.7 115.5L205.8 115.2L205.9 114.7L206.5 114.6L206.8 114.2L207.1 113.6L208 112.8L209.4 112.1L209.8 112.1L210.3 112.3L210.7 112.2L211.2 112.3L211.7 113.7L211.9 114.4L211.8 115.5L211.8 115.8L211.3 115.7L211 115.7L211 116L210.7 116.4L210.7 116.7L211.3 117.3L211.9 117.2L212.1 116.7L212.8 116.7L212.6 117.5L212.5 118.3L212.2 118.8L211.5 119.3L211.3 119.4L210.9 119.9L210.6 120.4L210.1 121.1L208.9 122.2L208.2 122.8L207.5 123.2L206.4 123.6L205.9 123.7L205.8 123.9L205.2 123.8L204.7 124L203.6 123.8L203 123.9L202.6 123.9L201.5 124.3L200.7 124.4L200.1 124.8L199.6 124.8L199.2 124.5L198.9 124.4L198.4 124L198.4 124.1L198.2 123.9L198.3 123.3L197.9 122.6L198.2 122.4L198.2 121.7L197.6 120.7L197.1 119.9L196.3 118.6ZM209 119L208.5 118.6L208.1 118.9L207.5 119.2L207 119.9L207.8 120.6L208.1 120.5L208.3 120.2L208.8 120.1L209 119.7L209.3 119.3L209 119Z' },
+  { code: 'KR', name: 'South Korea', d: 'M306.2 52.3L306.2 52.2L306.7 52.2L307.1 51.7L307.8 51.7L308.2 51.6L308.4 51.4L309.2 52.6L309.5 53.2L309.5 54.4L309.1 54.9L308.2 55.1L307.4 55.5L306.5 55.6L306.4 55.1L306.6 54.3L306.1 53.3L306.9 53.1L306.2 52.3Z' },
+  { code: 'ES', name: 'Spain', d: 'M172.5 52.9L172.5 52.6L172.8 52.2L173 51.9L172.6 51.6L172.9 51L172.5 50.4L172.9 50.3L173 49.8L173.1 49.7L173.1 48.9L173.6 48.6L173.3 48.1L172.7 48.1L172.6 48.2L172 48.2L171.7 47.7L171.3 47.9L171 48.1L171 47.4L170.6 47L172 46.3L173.2 46.4L174.6 46.4L175.7 46.6L176.5 46.5L178.1 46.6L178.5 47L180.3 47.4L180.7 47.2L181.8 47.7L183 47.5L183 48.1L182.1 48.8L180.8 49L180.7 49.3L180.1 49.9L179.7 50.7L180.1 51.3L179.5 51.7L179.3 52.4L178.6 52.6L177.9 53.3L176.6 53.3L175.6 53.3L175 53.7L174.6 54.1L174.1 54L173.8 53.6L173.5 53.1L172.5 52.9Z' },
+  { code: 'LK', name: 'Sri Lanka', d: 'M261.8 82.5L261.6 83.5L261.2 83.8L260.3 84L259.9 83.2L259.7 81.8L260.1 80.2L260.8 80.7L261.3 81.4L261.8 82.5Z' },
+  { code: 'SD', name: 'Sudan', d: 'M204.6 81.8L203.8 81.3L203.5 81L203.4 80.7L203.6 80.3L203.6 79.9L203 79.3L202.9 78.9L202.9 78.6L202.5 78.3L202.5 77.7L202.3 77.4L201.9 77.4L202 77L202.3 76.6L202.2 76.2L202.5 75.9L202.3 75.7L202.6 75.1L203 74.3L203.9 74.4L203.8 70.4L203.8 70L205 70L205 68L209 68L212.9 68L216.9 68L217.2 69L217 69.2L217.1 70.2L217.5 71.4L217.9 71.6L218.4 72L217.9 72.6L217.2 72.7L216.9 73L216.8 73.7L216.3 75.2L216.4 75.6L216.3 76.4L215.9 77.4L215.3 77.9L214.8 78.7L214.7 79.1L214.3 79.4L214 80.4L214 81.3L214 80.5L213.8 80.5L213.8 80L213.7 79.7L213.2 79.3L213.1 78.6L213.2 77.8L212.7 77.8L212.7 78L212.1 78L212.3 78.3L212.4 78.9L211.9 79.5L211.4 80.2L210.8 80.3L210 79.7L209.6 79.9L209.5 80.2L209 80.4L209 80.6L208 80.6L207.8 80.4L207.1 80.4L206.8 80.5L206.5 80.4L206 79.9L205.8 79.6L205.1 79.7L204.8 80.2L204.5 81.1L204.2 81.3L203.9 81.4L204.6 81.8Z' },
+  { code: 'SR', name: 'Suriname', d: 'M125.5 87.7L124.9 87.5L124.4 87.6L124 87.5L123.9 87.8L124.1 88L124 88.2L123.5 88.1L122.9 87.2L122.7 86.7L122.4 86.7L122 85.9L122.1 85.4L122.1 85.2L122.7 84.9L122.9 84L124.1 84.2L124.2 84L125 84L126 84.2L125.5 85.1L125.6 85.8L126 86.4L125.8 86.8L125.7 87.3L125.5 87.7Z' },
+  { code: 'SE', name: 'Sweden', d: 'M191 31.1L191.5 30.6L192.3 29.9L192.6 28.7L192 28.2L191.9 26.9L192.6 25.9L193.6 26L193.9 25.6L193.6 25.2L195.1 23.8L196.1 22.7L196.8 22L197.7 22L198 21.4L199.9 21.6L200 20.9L200.6 20.9L202 21.4L203.5 22.1L203.6 23.6L203.9 24L202.2 24.3L201.2 25L201.4 25.6L199.8 26.4L197.8 27.3L197.1 28.7L197.8 29.4L198.8 29.9L197.9 31L196.8 31.3L196.4 33L195.9 33.9L194.7 33.8L194.1 34.6L192.9 34.6L192.6 33.7L191.8 32.6L191 31.1Z' },
+  { code: 'CH', name: 'Switzerland', d: 'M189.6 42.5L189.6 42.7L189.5 42.9L189.9 43.1L190.4 43.1L190.4 43.5L189.9 43.7L189.2 43.6L189 44L188.5 44L188.3 43.8L187.8 44.2L187.3 44.2L186.8 44L186.5 43.6L186 43.7L186 43.3L186.8 42.7L186.7 42.5L187.2 42.6L187.5 42.4L188.3 42.4L188.5 42.2L189.6 42.5Z' },
+  { code: 'SY', name: 'Syria', d: 'M215.7 57.3L215.8 57.1L215.8 56.7L216.1 56.2L216.6 55.8L216.4 55.4L216 55.4L215.9 54.6L216.1 54.2L216.4 54L216.7 53.7L216.7 53.2L217.1 53.4L218.2 53.1L218.7 53.3L219.5 53.3L220.7 52.9L221.2 52.9L222.3 52.8L221.8 53.4L221.3 53.6L221.4 54.4L221 55.6L218.8 56.6L216.8 57.7L215.7 57.3Z' },
+  { code: 'TW', name: 'Taiwan', d: 'M301.8 65.6L301.2 67.2L300.7 68L300.2 67.2L300.1 66.4L300.7 65.5L301.5 64.7L302 65L301.8 65.6Z' },
+  { code: 'TJ', name: 'Tajikistan', d: 'M247.8 52.9L248.4 51.8L248.2 51.1L247.4 50.9L247.7 50.4L248.5 50.5L249 49.9L249.3 49.3L250.7 49L250.5 49.5L250.6 49.8L251 49.8L250.6 50.1L249.6 49.9L249.5 50.5L250.5 50.4L251.8 50.7L253.7 50.6L253.9 51.5L254.3 51.4L254.9 51.6L254.8 52L255 52.6L254 52.6L253.3 52.5L252.6 53L252.2 53.1L251.8 53.3L251.4 52.9L251.5 52.1L251.2 52L251.3 51.7L250.8 51.5L250.4 51.9L250.3 52.3L250.1 52.4L249.5 52.4L249.2 52.8L248.9 52.7L248.1 53L247.8 52.9Z' },
+  { code: 'TZ', name: 'Tanzania', d: 'M213.9 91L214.1 91.1L217.7 93.1L217.8 93.7L219.2 94.7L218.7 95.9L218.8 96.5L219.4 96.8L219.5 97.1L219.2 97.7L219.3 98L219.2 98.5L219.5 99.1L220 100.1L220.3 100.3L219.5 100.9L218.4 101.3L217.8 101.3L217.5 101.6L216.8 101.6L216.5 101.7L215.3 101.4L214.6 101.5L214.3 100.2L213.9 99.7L213.7 99.4L212.8 99.2L212.2 98.9L211.6 98.8L211.2 98.6L210.7 98.3L210.2 97.1L209.6 96.5L209.4 95.9L209.5 95.4L209.3 94.5L209.8 94.5L210.1 94.1L210.5 93.6L210.8 93.4L210.7 93L210.5 92.8L210.5 92.4L210.8 92.3L210.8 91.7L210.4 91.1L210.8 91L211.9 91L213.9 91Z' },
+  { code: 'TH', name: 'Thailand', d: 'M285.2 75.7L284.3 75.6L283 75.8L282.3 76.6L282.6 77.8L281.7 77.4L280.8 77.4L281 76.6L280.1 76.6L280 77.7L279.5 79.2L279.2 80L279.2 80.8L279.9 80.8L280.3 81.7L280.5 82.6L281 83.1L281.6 83.3L282.1 83.8L281.8 84.2L281.2 84.3L281.1 83.8L280.3 83.4L280.1 83.5L279.7 83.2L279.5 82.7L279 82.1L278.5 81.6L278.3 82.2L278.1 81.7L278.3 81L278.6 80.1L279 79L279.6 78.1L279.2 77.2L279.2 76.7L279.1 76.2L278.4 75.4L278.2 74.9L278.5 74.7L278.9 73.8L278.5 73.2L277.9 72.4L277.4 71.6L277.8 71.4L278.3 70.3L279 70.2L279.5 69.8L280.1 69.6L280.5 69.9L280.6 70.5L281.3 70.5L281 71.6L281.1 72.5L282.1 71.9L282.4 72.1L283 72L283.2 71.7L284 71.8L284.7 72.6L284.8 73.6L285.6 74.4L285.5 75.3L285.2 75.7Z' },
+  { code: 'TL', name: 'Timor-Leste', d: 'M305 98.9L305.1 98.7L305.9 98.4L306.6 98.4L307 98.3L307.3 98.4L307 98.7L305.9 99.1L305.1 99.4L305.1 99.1L305 98.9Z' },
+  { code: 'TG', name: 'Togo', d: 'M180.9 79L180.8 79.5L181.1 79.8L181.4 80.2L181.5 80.7L181.7 80.9L181.6 83.2L181.9 83.9L181.1 84.1L180.8 83.7L180.6 83.1L180.5 82.6L180.7 81.7L180.5 81.3L180.4 80.5L180.4 79.8L180 79.3L180 79L180.9 79Z' },
+  { code: 'TT', name: 'Trinidad and Tobago', d: 'M118.3 79.2L118.9 79.1L119.1 79.1L119.1 79.9L118.2 80L118 79.9L118.3 79.6L118.3 79.2Z' },
+  { code: 'TN', name: 'Tunisia', d: 'M189.5 59.7L189.1 57.9L188.4 57.5L188.4 57.3L187.6 56.7L187.5 55.9L188.1 55.3L188.4 54.5L188.2 53.6L188.4 53.1L189.5 52.6L190.2 52.8L190.2 53.3L191 52.9L191.1 53.1L190.6 53.6L190.6 54.1L190.9 54.3L190.8 55.2L190.2 55.7L190.3 56.2L190.9 56.2L191.1 56.7L191.5 56.9L191.4 57.6L190.9 57.9L190.6 58.2L189.9 58.6L190.1 59L190 59.5L189.5 59.7Z' },
+  { code: 'TR', name: 'Turkey', d: 'M224.8 52.8L224.3 53L223.9 52.7L222.8 52.6L222.3 52.8L221.2 52.9L220.7 52.9L219.5 53.3L218.7 53.3L218.2 53.1L217.1 53.4L216.7 53.2L216.7 53.7L216.4 54L216.1 54.2L215.8 53.7L216.2 53.3L215.6 53.4L214.7 53.2L214 53.8L212.5 53.9L211.7 53.4L210.6 53.3L210.4 53.7L209.7 53.9L208.7 53.3L207.6 53.3L207 52.3L206.3 51.8L206.8 51L206.2 50.5L207.3 49.6L208.8 49.5L209.2 48.8L211.1 48.9L212.3 48.3L213.5 48L215.2 48L216.9 48.7L218.3 49.1L219.5 48.9L220.4 49L221.6 48.5L222.6 48.4L223.6 48.9L223.8 49.3L223.7 49.7L224.4 50L224.8 50.3L224.1 50.6L224.4 51.7L224.2 52L224.8 52.8ZM206.1 48.2L207.1 47.9L208 48L208.1 48.4L209 48.7L208.8 48.9L207.6 49L207.2 49.3L206.4 49.8L206 49.4L206.1 49.2L206.3 49.1L206.6 48.4L206.1 48.2Z' },
+  { code: 'TM', name: 'Turkmenistan', d: 'M232.5 48.2L232.9 47.9L234.1 47.7L234.8 48L235.5 48.7L236 48.7L237.1 48.7L236.9 48.2L237.8 47.8L238.6 47.2L240 47.8L240.1 48.6L240.5 48.8L241.5 48.7L241.9 48.9L242.4 49.9L243.5 50.6L244.2 51.1L245.2 51.6L246.5 52L246.5 52.6L246.2 52.6L245.7 52.3L245.6 52.7L244.7 52.9L244.5 53.7L244 54L243.2 54.1L243 54.6L242.2 54.7L241.2 54.4L241.1 53.5L240.4 53.5L239.2 52.6L238.4 52.5L237.3 52L236.6 51.9L236.2 52.1L235.5 52L234.8 52.6L233.9 52.8L233.7 52.1L233.9 51L233.1 50.7L233.4 50L232.7 50L232.9 49.1L233.9 49.4L234.7 49L234 48.4L233.7 47.9L232.9 48.1L232.8 48.9L232.5 48.2Z' },
+  { code: 'UG', name: 'Uganda', d: 'M213.9 91L211.9 91L210.8 91L210.4 91.1L209.8 91.4L209.6 91.3L209.6 90.6L209.8 90.2L209.9 89.4L210.1 88.9L210.5 88.4L210.9 88.2L211.2 87.8L210.8 87.7L210.8 86.5L211.2 86.2L211.9 86.4L212.7 86.2L213.4 86.2L214 85.7L214.5 86.4L214.6 86.9L215 88.1L214.7 88.8L214.2 89.5L213.9 89.9L213.9 91Z' },
+  { code: 'UA', name: 'Ukraine', d: 'M211.8 37.9L212.2 37.9L212.4 37.7L212.7 37.8L213.8 37.7L214.4 38.2L214.1 38.4L214.2 38.7L215 38.8L215.4 39.2L215.4 39.4L216.6 39.8L217.4 39.6L218 40.1L218.6 40.1L220.1 40.4L220.1 40.7L219.7 41.2L219.9 41.8L219.7 42.1L218.8 42.2L218.3 42.5L218.2 42.9L217.4 43L216.8 43.3L215.8 43.4L215 43.7L215 44.3L214.9 44.2L214.7 44L214.4 44L213.7 43.8L213.4 44L213.3 43.9L211.7 43.7L211.7 43.3L210.7 43.4L210.4 44L209.6 44.7L209.2 44.5L208.7 44.7L208.2 44.5L208.5 44.4L208.7 44.1L208.9 43.7L208.9 43.6L209.1 43.5L209.2 43.6L209.8 43.7L210 43.6L209.8 43.5L209.9 43.3L209.6 43.1L209.4 42.7L209.1 42.5L209.1 42.2L208.7 41.9L208.3 41.8L207.5 41.5L206.9 41.6L206.6 41.8L206.2 41.8L205.9 42L205.2 42.1L204.9 42.3L204.4 42L203.8 42L203.1 41.9L202.7 42.1L202.6 41.8L202.1 41.6L202.3 41.2L202.6 40.9L202.8 41L202.5 40.5L203.4 39.7L203.9 39.6L204 39.3L203.5 38.4L204 38.4L204.6 38.1L205.3 38.1L206.3 38.2L207.5 38.4L208.2 38.4L208.6 38.6L209 38.4L209.3 38.6L210.2 38.6L210.6 38.7L210.6 38.2L210.9 38L211.8 37.9Z' },
+  { code: 'AE', name: 'United Arab Emirates', d: 'M231.6 65.8L231.8 65.7L231.8 66L232.6 65.8L233.4 65.8L234 65.9L234.7 65.2L235.4 64.6L236.1 63.9L236.3 64.3L236.4 65.1L235.9 65.1L235.8 65.7L236 65.9L235.5 66.1L235.5 66.5L235.2 66.9L235.2 67.3L235 67.5L232 67L231.6 66L231.6 65.8Z' },
+  { code: 'GB', name: 'United Kingdom', d: 'M173.8 36.1L173 35.9L172.4 35.9L172.6 35.4L172.4 34.9L173.3 34.8L174.3 35.4L173.8 36.1ZM176.9 36.6L177.1 36L176.4 35.4L175.2 35.2L174.9 34.9L175.3 34.5L175 34.2L174.4 34.7L174.4 33.7L173.8 33.2L174.2 32.2L175 31.4L175.8 31.4L177 31.4L175.9 32.4L176.9 32.3L178 32.3L177.8 33.1L176.9 34L177.9 34.1L178 34.2L178.9 35.4L179.6 35.5L180.2 36.7L180.5 37.1L181.7 37.3L181.6 37.9L181 38.2L181.4 38.7L180.5 39.2L179.2 39.2L177.5 39.5L177 39.3L176.4 39.8L175.5 39.7L174.8 40L174.2 39.8L175.7 38.8L176.6 38.6L175 38.4L174.7 38L175.8 37.7L175.2 37.2L175.4 36.5L176.9 36.6Z' },
+  { code: 'US', name: 'United States of America', d: 'M57.2 41L60 41L63 41L64 41L67 41L69.9 41L73 41L75.9 41L79.3 41L82.8 41L84.8 41L84.8 40.6L85.2 40.6L85.4 41.2L85.7 41.3L86.4 41.4L87.4 41.5L88.4 41.9L89.2 41.7L90.4 42L90.7 42L91.6 41.7L92.6 42.1L93.5 42.4L94.3 42.8L95.1 43.1L95.2 43.4L95.5 43.5L95.4 43.6L95.7 43.6L95.9 43.5L95.9 43.7L96.1 43.9L96.4 43.9L96.5 44L96.4 44.2L97.4 44.7L97.7 45.6L97.9 46.4L97.6 47L97.1 47.6L96.9 47.9L96.9 48L97 48.2L97.3 48.3L97.6 48.3L98.7 47.8L99.8 47.6L101.1 47.1L101.1 47L101 46.7L100.8 46.5L101.3 46.4L102.3 46.4L103.2 46.4L103.5 46L103.6 45.9L104.7 45.2L105.1 45L106.7 45L108.5 45L108.6 44.7L108.9 44.7L109.3 44.5L109.7 44.1L110 43.3L110.8 42.6L111.1 42.8L111.8 42.6L112.2 42.9L112.2 44.3L112.9 44.9L113 45.2L112 45.7L110.9 46L109.9 46.3L109.4 46.9L109.2 47.1L109.2 47.7L109.5 48.2L109.9 48.2L109.8 47.9L110.1 48.1L110 48.4L109.4 48.5L108.9 48.5L108.1 48.7L107.7 48.7L107.1 48.8L106.3 49.1L107.8 48.9L108.1 49.1L106.7 49.4L106 49.4L106 49.2L105.7 49.5L106 49.6L105.8 50.3L105.1 51.1L105 50.8L104.8 50.8L104.5 50.5L104.7 51L104.9 51.2L104.9 51.6L104.6 52L104.1 52.8L104 52.7L104.3 52.1L103.8 51.7L103.6 50.9L103.5 51.3L103.7 51.9L103 51.8L103.7 52.1L103.7 53L104 53.1L104.1 53.4L104.3 54.4L103.6 55.2L102.6 55.5L101.9 56.1L101.4 56.1L100.9 56.5L100.8 56.8L99.7 57.5L99.1 58L98.7 58.6L98.5 59.3L98.7 60L99 60.8L99.5 61.5L99.5 62L99.9 63.1L99.9 63.8L99.9 64.2L99.6 64.8L99.3 64.9L98.8 64.8L98.7 64.4L98.3 64.1L97.8 63.3L97.3 62.5L97.1 62.1L97.3 61.4L97.1 60.9L96.3 60.1L95.9 59.9L94.9 60.4L94.7 60.3L94.2 59.8L93.6 59.6L92.5 59.7L91.6 59.6L90.8 59.7L90.4 59.8L90.6 60.1L90.6 60.5L90.8 60.7L90.6 60.8L90.2 60.7L89.8 60.9L89.1 60.9L88.4 60.3L87.5 60.4L86.8 60.2L86.2 60.3L85.3 60.5L84.4 61.3L83.4 61.7L82.9 62.2L82.6 62.6L82.6 63.3L82.7 63.8L82.9 64.1L82.5 64.2L81.8 63.9L81 63.6L80.7 63.2L80.5 62.5L79.9 61.9L79.5 61.3L79 60.6L78.3 60.2L77.5 60.2L76.9 61L76.1 60.7L75.5 60.4L75.3 59.9L75 59.4L74.4 58.9L73.9 58.6L73.5 58.2L71.8 58.2L71.8 58.7L71 58.7L69 58.7L66.7 58L65.2 57.5L65.3 57.3L64 57.4L62.9 57.5L62.7 57L62.1 56.4L61.6 56.3L61.5 56L60.9 55.9L60.6 55.7L59.6 55.6L59.4 55.4L59.3 54.8L58.3 53.8L57.5 52.4L57.5 52.2L57 51.9L56.3 51L56.1 50.2L55.6 49.7L55.8 48.9L55.8 48L55.5 47.2L55.9 46.3L56 45.4L56.1 44.5L55.9 43.1L55.6 42.3L55.3 41.8L55.4 41.6L56.9 42L57.4 42.9L57.7 42.6L57.5 41.8L57.2 41ZM24.6 69.9L24.8 70L24.9 70.1L25.2 70.5L24.8 70.8L24.5 70.9L24.3 71.1L24.1 70.9L24.1 70.7L23.9 70.3L24 70.2L24.1 70L24.1 69.8L24.1 69.7L24.2 69.8L24.6 69.9ZM24 69.2L23.9 69.4L23.6 69.4L23.4 69.2L23.3 69.1L23.4 69L23.7 69.1L24 69.2ZM23.2 68.8L23.2 68.9L22.7 68.9L22.7 68.8L23.2 68.8ZM22 68.3L22.1 68.3L22.3 68.7L22.2 68.7L21.9 68.7L21.7 68.5L21.7 68.4L22 68.3ZM20.6 67.8L20.7 68L20.5 68.1L20.2 67.9L20.3 67.9L20.4 67.8L20.6 67.8ZM13.5 29.6L14.3 29.7L14.4 30.1L13.8 30.2L13.2 30.1L12.5 29.8L13.5 29.6ZM26.8 32L27.4 32.1L27.9 32.4L27 32.9L26 33.3L25.5 33L25.3 32.5L26.2 32.2L26.8 32ZM39 20.3L39 24L39 29.7L40 29.7L41 30L41.7 30.4L42.5 31.1L43.5 30.5L44.5 30.2L45.1 30.7L45.7 31.1L46.6 31.6L47.3 32.3L48.3 33.4L50 34.1L50 34.7L49.5 35.2L48.9 34.8L48 34.5L47.8 33.6L46.5 32.8L45.9 31.9L45 31.8L43.4 31.8L42.2 31.5L40.1 30.5L39.2 30.3L37.4 29.9L36 30L34.1 29.5L32.9 29.1L31.8 29.3L32 30L31.4 30.1L30.3 30.3L29.4 30.6L28.3 30.8L28.1 30.3L28.6 29.3L29.7 29L29.4 28.7L28.1 29.3L27.4 29.9L26 30.6L26.7 31.1L25.8 31.9L24.7 32.3L23.7 32.6L23.4 33L21.9 33.5L21.6 34L20.4 34.4L19.7 34.4L18.8 34.6L17.8 35L16.9 35.3L15.2 35.6L15.1 35.4L16.2 35L17.1 34.7L18.2 34.1L19.4 34L19.9 33.6L21.3 33L21.5 32.8L22.3 32.4L22.4 31.7L23 31.1L21.8 31.4L21.5 31.2L20.9 31.6L20.3 31.1L20 31.4L19.6 30.9L18.6 31.3L18 31.3L17.9 30.7L18.1 30.4L17.5 30L16.2 30.2L15.3 29.7L14.7 29.5L14.6 28.9L13.9 28.5L14.3 27.9L15.1 27.4L15.4 26.9L16.2 26.8L16.9 26.9L17.7 26.5L18.5 26.5L19.2 26.2L19 25.8L18.5 25.6L19.2 25.2L18.6 25.2L17.5 25.4L17.2 25.7L16.5 25.4L15 25.6L13.6 25.3L13.2 24.9L11.9 24.3L13.3 23.9L15.5 23.4L16.3 23.4L16.2 23.9L18.3 23.9L17.5 23.3L16.3 22.9L15.6 22.4L14.6 22L13.2 21.6L13.8 21.1L15.6 21.1L16.8 20.6L17.1 20.1L18.1 19.7L19.1 19.6L21 19.1L21.9 19.2L23.4 18.6L24.9 18.9L25.7 19.3L26.1 19.1L27.8 19.2L27.7 19.4L29.3 19.6L30.3 19.5L32.4 19.8L34.3 19.9L35.1 20L36.4 19.8L37.9 20.1L39 20.3ZM8.3 26.2L8.9 26.4L9.5 26.3L10.3 26.6L11.3 26.7L11.2 26.8L10.5 27L9.7 26.8L9.3 26.6L8.4 26.7L8.2 26.6L8.3 26.2Z' },
+  { code: 'UY', name: 'Uruguay', d: 'M122.4 120.2L123 120.1L124 120.9L124.4 120.9L125.4 121.5L126.2 122L126.8 122.7L126.4 123.2L126.6 123.8L126.2 124.4L125.1 125L124.3 124.8L123.8 124.9L122.9 124.4L122.2 124.5L121.6 123.9L121.6 123.3L121.9 123L121.9 122L122.1 121L122.4 120.2Z' },
+  { code: 'UZ', name: 'Uzbekistan', d: 'M236 48.7L235.9 45L238.5 44.4L238.7 44.5L240.2 45.2L241.1 45.6L242 46.5L243.2 46.4L244.9 46.3L246.1 47L246 48L246.5 48L246.7 48.8L248 48.9L248.3 49.3L248.6 49.3L249.1 48.6L250.4 47.9L251 47.7L251.3 47.8L250.4 48.5L251.2 48.9L251.9 48.6L253.1 49.1L251.8 49.9L251 49.8L250.6 49.8L250.5 49.5L250.7 49L249.3 49.3L249 49.9L248.5 50.5L247.7 50.4L247.4 50.9L248.2 51.1L248.4 51.8L247.8 52.9L247.1 52.6L246.5 52.6L246.5 52L245.2 51.6L244.2 51.1L243.5 50.6L242.4 49.9L241.9 48.9L241.5 48.7L240.5 48.8L240.1 48.6L240 47.8L238.6 47.2L237.8 47.8L236.9 48.2L237.1 48.7L236 48.7Z' },
+  { code: 'VU', name: 'Vanuatu', d: 'M347.2 105.9L347.8 106.5L347.5 106.6L347.2 106.2L347.2 105.9ZM346.8 105.7L346.7 105.4L346.6 104.6L347.1 104.9L347.3 105.7L347 105.6L346.8 105.7Z' },
+  { code: 'VE', name: 'Venezuela', d: 'M119.3 84.8L119.4 85.1L119 85.5L117.9 85.8L117.2 86L116.9 86.2L116.1 86L115.4 85.9L115.2 85.9L115.6 86.2L115.6 86.9L115.7 87.5L116.6 87.6L116.6 87.8L115.9 88.1L115.8 88.5L115.4 88.7L114.6 88.9L114.5 89.2L113.7 89.3L113.1 88.7L112.8 87.8L112.6 87.4L112.2 87.2L112.7 86.7L112.7 86.5L112.4 86.2L112.2 85.5L112.3 84.8L112.5 84.4L112.7 83.9L112.3 83.7L111.7 83.8L111 83.8L110.6 83.9L109.9 83L109.3 82.9L108 83L107.8 82.7L107.6 82.6L107.5 82.4L107.6 82L107.6 81.6L107.3 81.4L107.2 80.9L106.7 80.8L107 80.3L107.1 79.5L107.4 79.2L107.8 78.9L108 78.4L108.7 78.2L108.6 78.5L108.1 78.6L108.4 79L108.4 79.6L107.9 80.1L108.3 80.9L108.7 80.9L109 80.1L108.6 79.8L108.6 79L109.8 78.6L109.7 78.2L110.1 77.8L110.4 78.5L111.1 78.6L111.8 79.1L111.8 79.4L112.7 79.5L113.8 79.4L114.3 79.8L115.1 79.9L115.7 79.6L115.7 79.4L116.9 79.3L118.1 79.3L117.3 79.6L117.6 80.1L118.4 80.1L119.2 80.6L119.3 81.4L119.8 81.4L120.2 81.6L119.4 82.2L119.4 82.6L119.7 83L119.5 83.1L118.8 83.3L118.9 83.8L118.6 84L119.3 84.8Z' },
+  { code: 'VN', name: 'Vietnam', d: 'M284.3 79.5L285.2 79.1L286.2 79L285.8 78.4L287.5 77.7L287.6 76.5L287.4 75.8L287.6 74.8L287.3 74.1L286.6 73.4L285.9 72.5L285.1 71.3L283.9 70.7L284.2 70.4L284.8 70.1L284.4 69.2L283.2 69.2L282.8 68.3L282.2 67.5L282.7 67.3L283.5 67.3L284.5 67.2L285.3 66.6L285.8 67L286.7 67.2L286.6 67.8L287 68.2L288 68.4L286.7 69.3L285.9 70.2L285.7 70.9L286.4 72L287.4 73.3L288.3 73.9L288.9 74.7L289.3 76.6L289.2 78.3L288.4 79L287.2 79.6L286.4 80.5L285.2 81.4L284.8 80.8L285.1 80.1L284.3 79.5Z' },
+  { code: 'EH', name: 'W. Sahara', d: 'M171.3 62.3L171.3 62.4L171.3 62.6L171.3 64.1L168 64.1L168.1 66.6L167.1 66.7L166.9 67.2L167.1 68.7L163.2 68.7L162.9 69L163 68.6L165.2 68.5L165.4 68.1L165.8 67.7L166.1 66.3L167.5 65.2L168 64L168.3 63.9L168.6 63.1L169.5 63L169.8 63.1L170.3 63.1L170.6 62.9L171.2 62.9L171.2 62.3L171.3 62.3Z' },
+  { code: 'YE', name: 'Yemen', d: 'M232 71L232.8 72.7L233.1 73.3L232.4 73.6L232.2 74.1L232.2 74.4L231.2 74.8L229.6 75.3L228.7 76L228.2 76.1L227.9 76L227.4 76.4L226.7 76.6L225.9 76.7L225.6 76.7L225.4 77L225.1 77L225 77.3L224.5 77.3L224.2 77.4L223.5 77.4L223.2 76.8L223.3 76.2L223.1 75.9L222.9 75.2L222.6 74.8L222.8 74.7L222.7 74.3L222.8 74.1L222.8 73.7L223.2 73.3L223.1 72.9L223.4 72.4L223.8 72.7L224.1 72.6L225.2 72.6L225.4 72.7L226.4 72.8L226.7 72.7L227 73.1L227.5 72.9L228.2 71.8L229.1 71.4L232 71Z' },
+  { code: 'ZM', name: 'Zambia', d: 'M210.7 98.3L211.2 98.6L211.6 98.8L212.2 98.9L212.8 99.2L213.2 99.7L213.5 100.5L213.3 100.8L213.1 101.6L213.3 102.4L213 102.8L212.7 103.7L213.2 104L210.2 104.8L210.3 105.5L209.5 105.6L208.9 106L208.8 106.4L208.5 106.5L207.6 107.3L207 107.9L206.7 108L206.4 107.8L205.3 107.7L205.1 107.7L205.1 107.6L204.7 107.4L204 107.3L203.2 107.5L202.6 106.9L201.9 106.1L201.9 102.9L204 102.9L203.9 102.6L204.1 102.2L203.9 101.7L204 101.2L203.9 100.9L204.3 101L204.3 101.3L204.8 101.2L205.4 101.3L205.8 101.8L206.6 101.9L207.2 101.6L207.4 102.1L208.2 102.3L208.5 102.7L208.9 103.2L209.7 103.3L209.6 102.2L209.3 102.4L208.6 102L208.4 101.8L208.5 100.8L208.7 99.6L208.4 99.2L208.7 98.5L209 98.4L210.3 98.2L210.7 98.3Z' },
+  { code: 'ZW', name: 'Zimbabwe', d: 'M211.2 112.3L210.7 112.2L210.3 112.3L209.8 112.1L209.4 112.1L208.8 111.6L208 111.5L207.7 110.9L207.7 110.5L207.3 110.4L206.2 109.3L205.9 108.7L205.6 108.5L205.3 107.7L206.4 107.8L206.7 108L207 107.9L207.6 107.3L208.5 106.5L208.8 106.4L208.9 106L209.5 105.6L210.3 105.5L210.3 105.9L211.2 105.9L211.6 106.1L211.9 106.3L212.3 106.4L212.8 106.7L212.8 108L212.7 108.7L212.6 109.4L212.8 109.7L212.7 110.3L212.5 110.4L212.2 111.1L211.2 112.3Z' },
+];
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_COOKIE, AuthConfigurationError, verifyAuthToken } from '@/lib/auth-token';
+import { hasRole, routePolicy } from '@/lib/roles';
+
+// Gate for the admin area. Checks the signed session cookie and the role the
+// route needs; route handlers check the session against the database again.
+// Bearer API keys need a database lookup, so they are checked by the handlers.
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const policy = routePolicy(pathname, request.method);
+  if (!policy) return NextResponse.next();
+
+  const isApi = pathname.startsWith('/api/');
+  if (isApi && request.headers.get('authorization')?.match(/^Bearer\s/i)) {
+    if (policy.scope) return NextResponse.next();
+
+    return NextResponse.json(
+      {
+        error: 'Forbidden',
+        message: 'This resource does not accept API keys',
+        timestamp: new Date().toISOString()
+      },
+      { status: 403 }
+    );
+  }
+
+  let payload;
+  try {
+    payload = await verifyAuthToken(request.cookies.get(AUTH_COOKIE)?.value);
+  } catch (error) {
+    if (!(error instanceof AuthConfigurationError)) throw error;
+
+    console.error('Admin authentication is not configured:', error.message);
+    return NextResponse.json(
+      {
+        error: 'Authentication not configured',
+        message: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 503 }
+    );
+  }
+
+  if (!payload) {
+    if (isApi) {
+      return NextResponse.json(
+        {
+          error: 'Unauthorized',
+          message: 'Sign in to access this resource',
+          timestamp: new Date().toISOString()
+        },
+        { status: 401 }
+      );
+    }
+
+    const loginUrl = new URL('/admin/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!hasRole(payload.role, policy.role)) {
+    return NextResponse.json(
+      {
+        error: 'Forbidden',
+        message: `This resource requires the ${policy.role} role`,
+        timestamp: new Date().toISOString()
+      },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*'],
+};